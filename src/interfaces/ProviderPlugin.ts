@@ -0,0 +1,35 @@
+/**
+ * ProviderPlugin - Contract for external task providers loaded from npm packages or local paths
+ *
+ * A plugin module exports `apiVersion` and a `createProvider` factory, either as named exports
+ * or as properties of its default export. It is referenced from `providers.available.<name>.module`.
+ */
+
+import { TaskProvider } from './TaskProvider.js';
+import { WorkflowConfig } from '../models/Workflow.js';
+
+/**
+ * Bumped whenever TaskProvider or ProviderPluginContext change in a way plugins must adapt to
+ *
+ * v2: every TodoItem returned by analyzeTodos has an `id`, and updateTodos receives requests that carry
+ * only a `todoId` (no `todoText`); updateTodos may report unmatched requests in `failures`
+ */
+export const PROVIDER_PLUGIN_API_VERSION = 2;
+
+/**
+ * Oldest plugin API version still loaded; v1 providers are adapted by ProviderPluginLoader
+ */
+export const MIN_PROVIDER_PLUGIN_API_VERSION = 1;
+
+export interface ProviderPluginContext {
+  name: string;
+  config: Record<string, any>;
+  credentials: Record<string, string | undefined>;
+  workflow?: WorkflowConfig;
+  resolveCredential(value: string | undefined): string;
+}
+
+export interface ProviderPlugin {
+  apiVersion: number;
+  createProvider(context: ProviderPluginContext): TaskProvider;
+}
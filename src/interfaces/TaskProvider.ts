@@ -1,23 +1,42 @@
-import { Task } from '../models/Task.js';
-import { TodoAnalysisResult, TodoUpdateRequest } from '../models/Todo.js';
-import { PageContent } from '../models/Page.js';
+import { Task, TaskQuery, TaskQueryResult, TaskRelationType } from '../models/Task.js';
+import { TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoEdit } from '../models/Todo.js';
+import { PageContent, PageContextBundle, PageContextOptions, PageUpdateMode } from '../models/Page.js';
+import { TaskComment } from '../models/Comment.js';
 
 export interface TaskProvider {
   getTask(taskId: string): Promise<Task>;
   createTask(title: string, taskType: string, description: string): Promise<Task>;
   updateTask(taskId: string, updates: { title?: string; taskType?: string; status?: string }): Promise<void>;
   updateTaskStatus(taskId: string, status: string): Promise<void>;
+  // Optional: providers without it cannot be used with list_tasks
+  listTasks?(query: TaskQuery): Promise<TaskQueryResult>;
+  // Optional: sub-tasks and dependencies, read back as parentId/childIds/blockedBy by getTask
+  linkTask?(taskId: string, relatedTaskId: string, relation: TaskRelationType): Promise<void>;
 
   analyzeTodos(taskId: string, includeHierarchy?: boolean): Promise<TodoAnalysisResult>;
-  updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<{ updated: number; failed: number }>;
+  updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult>;
   updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean>;
+  // Optional: add, edit, delete or move a todo; returns the ID of the added, edited or moved todo
+  editTodo?(taskId: string, edit: TodoEdit): Promise<string | undefined>;
   appendToTask(taskId: string, content: string): Promise<void>;
 
+  // Optional: discussion threads; threadId replies to an existing thread
+  listComments?(taskId: string): Promise<TaskComment[]>;
+  addComment?(taskId: string, body: string, threadId?: string): Promise<TaskComment>;
+
   getProviderName(): string;
   getProviderType(): string;
 
+  // Optional: name of the page property holding the status, so raw property writes can be checked like status changes
+  getStatusPropertyName?(): string | undefined;
+
+  // Optional startup check of provider config against the remote system; returns warnings, throws if unusable
+  validateConfiguration?(): Promise<string[]>;
+
   // Page operations
   readPage(pageId: string, includeLinkedPages?: boolean): Promise<PageContent>;
+  // Optional: the page plus the pages it links to, followed recursively within the given limits
+  gatherPageContext?(pageId: string, options?: PageContextOptions): Promise<PageContextBundle>;
   createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>): Promise<PageContent>;
-  updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: 'append' | 'replace' | 'insert', insertAfter?: string): Promise<void>;
+  updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: PageUpdateMode, target?: string): Promise<void>;
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+/**
+ * Comment-related types for discussion threads on tasks
+ */
+
+export interface TaskComment {
+  id: string;
+  body: string;           // Markdown
+  author?: string;
+  createdTime?: string;
+  threadId?: string;      // Discussion the comment belongs to; pass it to addComment to reply
+  resolved?: boolean;
+  url?: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Migration-related types for copying and mirroring tasks between providers
+ */
+
+export interface TaskMapping {
+  sourceProvider: string;
+  sourceId: string;
+  targetProvider: string;
+  targetId: string;
+  targetUrl?: string;
+  mirror: boolean;
+  migratedAt: string;
+  lastSyncedAt?: string;
+  contentPending?: boolean;   // Created on the target, but summaries, check state or status not copied yet
+  appendedSections?: number;  // Summary sections already appended while contentPending
+}
+
+export interface MigrationOptions {
+  mirror?: boolean; // Keep propagating status and todo changes from source to target
+  force?: boolean;  // Migrate again even if a mapping already exists
+}
+
+export interface MigrationEntry {
+  sourceId: string;
+  targetId?: string;
+  targetUrl?: string;
+  title?: string;
+  status: 'migrated' | 'skipped' | 'failed';
+  todos?: { total: number; completed: number };
+  summarySections?: number;
+  warnings: string[];
+  error?: string;
+}
+
+export interface MigrationReport {
+  sourceProvider: string;
+  targetProvider: string;
+  migrated: number;
+  skipped: number;
+  failed: number;
+  entries: MigrationEntry[];
+  mappingFile: string;
+}
+
+export interface MirrorSyncEntry {
+  sourceId: string;
+  targetId: string;
+  statusChanged: boolean;
+  todosUpdated: number;
+  todosMissing: number;
+  error?: string;
+}
+
+export interface MirrorSyncReport {
+  synced: number;
+  failed: number;
+  entries: MirrorSyncEntry[];
+}
@@ -2,6 +2,9 @@
  * Page-related types and interfaces for Notion page reading
  */
 
+// insert: after the block containing a text; replace_section: content under a heading
+export type PageUpdateMode = 'append' | 'replace' | 'insert' | 'replace_section';
+
 export interface PageContent {
   id: string;
   title: string;
@@ -26,4 +29,35 @@ export interface NotionBlock {
   content: string;
   hasChildren: boolean;
   children?: NotionBlock[];
-}
\ No newline at end of file
+}
+export interface PageContextOptions {
+  maxDepth?: number;   // Link levels followed from the start page (0 = start page only)
+  maxPages?: number;   // Pages included, the start page counts
+  maxTokens?: number;  // Approximate token budget for all page contents (4 characters per token)
+}
+
+export interface ContextPage {
+  id: string;
+  title: string;
+  url: string;
+  content: string;
+  depth: number;
+  relationshipType?: LinkedPage['relationshipType'];  // How the page was reached, unset for the start page
+  linkedFrom?: string;                                 // ID of the page that links to it
+  truncated: boolean;                                  // Content was cut to fit the token budget
+}
+
+export interface SkippedContextPage {
+  id: string;
+  title?: string;
+  depth: number;
+  reason: 'depth' | 'pages' | 'tokens' | 'inaccessible';
+}
+
+export interface PageContextBundle {
+  rootId: string;
+  pages: ContextPage[];           // Breadth-first order, start page first
+  skipped: SkippedContextPage[];  // Linked pages that were found but not included
+  estimatedTokens: number;
+  limits: Required<PageContextOptions>;
+}
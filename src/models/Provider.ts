@@ -7,6 +7,7 @@ export interface ProviderConfig {
   type: 'core' | 'premium' | 'enterprise';
   enabled: boolean;
   config: Record<string, any>;
+  module?: string; // npm package name or path relative to the project root of an external provider plugin
 }
 
 export interface ProvidersConfig {
@@ -18,4 +19,4 @@ export interface ProviderCredentials {
   [key: string]: string;
 }
 
-export type ProviderType = 'notion' | 'linear' | 'github';
\ No newline at end of file
+export type ProviderType = 'notion' | 'linear' | 'github' | 'local' | 'jira' | 'gitlab';
\ No newline at end of file
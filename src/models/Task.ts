@@ -7,6 +7,13 @@ export interface Task {
   title: string;
   status: string;
   type?: string;
+  priority?: string;
+  assignee?: string;   // Display names, comma-separated when there are several
+  dueDate?: string;    // ISO date
+  labels?: string[];
+  parentId?: string;
+  childIds?: string[];
+  blockedBy?: string[];  // Tasks that have to be done before this one
   description?: string;
   url?: string;
   createdTime?: string;
@@ -14,6 +21,34 @@ export interface Task {
   properties?: Record<string, any>;
 }
 
+// parent: the task becomes a child of the related task; blocked_by: the related task has to be done first
+export type TaskRelationType = 'parent' | 'blocked_by';
+
+export interface TaskSplitResult {
+  parent: Task;
+  children: Task[];   // In section order
+}
+
+export type TaskSortField = 'updated' | 'created' | 'title' | 'status' | 'priority' | 'dueDate';
+
+export interface TaskQuery {
+  status?: string[];       // Status labels, a task matching any of them is included
+  type?: string[];
+  text?: string;           // Case-insensitive search in the title
+  assignee?: string;
+  updatedSince?: string;   // ISO date or date-time
+  sortBy?: TaskSortField;  // Defaults to 'updated'
+  sortDirection?: 'asc' | 'desc';
+  limit?: number;          // Page size, 1-100
+  cursor?: string;         // nextCursor of the previous page
+}
+
+export interface TaskQueryResult {
+  tasks: Task[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
 export interface TaskStatus {
   current: string;
   available: string[];
@@ -27,6 +62,13 @@ export interface TaskMetadata {
   title: string;
   status: string;
   type: string;
+  priority?: string;
+  assignee?: string;
+  dueDate?: string;
+  labels?: string[];
+  parentId?: string;
+  childIds?: string[];
+  blockedBy?: string[];
   todoStats: TodoStats;
   statusInfo: TaskStatus;
 }
@@ -2,7 +2,16 @@
  * Todo-related types and interfaces
  */
 
-export interface TodoItem {
+// Annotations written inline in the todo text, e.g. "Add tests @alice ~2h due:2026-11-01 verify:`npm test`"
+export interface TodoMetadata {
+  owner?: string;
+  estimateMinutes?: number;
+  dueDate?: string;        // YYYY-MM-DD
+  verifyCommand?: string;  // Command proving the todo is done
+}
+
+export interface TodoItem extends TodoMetadata {
+  id: string;  // Underlying block ID (Notion) or text-derived ID (markdown, `todo-1x2ab3c`); accepted as todoId by updateTodos
   text: string;
   completed: boolean;
   level: number;
@@ -39,16 +48,82 @@ export interface TodoStats {
   nextTodos: string[];
 }
 
-export interface TodoUpdateRequest {
-  todoText: string;
+// todoId takes precedence; todoText is matched exactly, then normalized, then fuzzily
+export interface TodoReference {
+  todoId?: string;
+  todoText?: string;
+}
+
+export interface TodoUpdateRequest extends TodoReference {
   completed: boolean;
 }
 
+// Without a position, new or moved todos go after the last todo of the task
+export interface TodoPosition {
+  section?: string;      // Heading to place the todo under, after the last todo of that section
+  afterTodoId?: string;  // Todo to place it after, at the same nesting level
+}
+
+export type TodoEditAction = 'add' | 'edit' | 'delete' | 'move';
+
+// add: text (+ position); edit: reference + text; delete: reference; move: reference + position
+export interface TodoEdit extends TodoReference, TodoPosition {
+  action: TodoEditAction;
+  text?: string;
+}
+
+export interface TodoEditResult {
+  action: TodoEditAction;
+  todoId?: string;  // ID of the added, edited or moved todo
+  stats: TodoStats;
+}
+
+export interface TodoMatchFailure {
+  todoId?: string;
+  todoText?: string;
+  reason: 'not_found' | 'ambiguous' | 'id_mismatch';  // id_mismatch: the todoId names a todo with another text
+  candidates: Array<Pick<TodoItem, 'id' | 'text' | 'heading' | 'completed'>>;  // Closest todos, to retry with a todoId
+}
+
+export interface TodoUpdateResult {
+  updated: number;
+  failed: number;
+  failures?: TodoMatchFailure[];
+}
+
+export interface TodoOwnerLoad {
+  owner?: string;            // Undefined for todos without an owner
+  open: number;
+  completed: number;
+  remainingMinutes: number;  // Sum of the estimates of open todos
+  unestimated: number;       // Open todos without an estimate
+}
+
+export interface TodoWorkload {
+  owners: TodoOwnerLoad[];   // Most remaining work first, todos without an owner last
+  remainingMinutes: number;
+  unestimated: number;
+  overdue: Array<Pick<TodoItem, 'id' | 'text' | 'owner' | 'dueDate'>>;  // Open todos past their due date
+}
+
+export type TodoFindingType = 'stalled_section' | 'out_of_order' | 'blocked_todo' | 'unchecked_in_completed' | 'duplicate';
+
+export interface TodoFinding {
+  type: TodoFindingType;
+  section?: string;
+  todoIds: string[];       // Todos the finding is about
+  message: string;
+  recommendation: string;
+}
+
 export interface TodoAnalysisResult {
   todos: TodoItem[];
   stats: TodoStats;
   content: string;
-  insights: string[];
-  recommendations: string[];
-  blockers: string[];
+  workload?: TodoWorkload;   // Only when some todo has an owner, estimate or due date
+  // Added by TodoAnalysisService, providers leave them out
+  findings?: TodoFinding[];
+  insights?: string[];
+  recommendations?: string[];
+  blockers?: string[];
 }
\ No newline at end of file
@@ -3,12 +3,52 @@
  */
 
 export interface WorkflowConfig {
-  statusMapping: Record<string, string>;
-  transitions: Record<string, string[]>;
+  statusMapping: Record<string, string>;       // Derived from states when states are configured
+  transitions: Record<string, string[]>;       // Derived from states when states are configured
+  states?: Record<string, WorkflowState>;      // State machine; derived from statusMapping and transitions when left out
   taskTypes: string[];
-  defaultStatus: string;
+  defaultStatus: string;                       // Defaults to the first start state when states are configured
   requiresValidation: boolean;
   templates?: TemplateConfig;
+  blockerPolicy?: 'warn' | 'refuse';  // execute_task on a task with unfinished blockers, defaults to warn
+  gates?: WorkflowGate[];             // Checks a status change has to pass, manual or automatic
+}
+
+export type WorkflowStateRole = 'start' | 'active' | 'verification' | 'terminal';
+
+// execute: execute_task starts working on the task; progress: todos were updated or found completed
+export type WorkflowTrigger = 'execute' | 'progress';
+
+export interface WorkflowState {
+  label: string;                               // Status label in the task provider
+  role: WorkflowStateRole;
+  transitions?: string[];                      // State keys the task can move to
+  autoTransitions?: WorkflowAutoTransition[];  // Checked in order, the first match is applied
+}
+
+export interface WorkflowAutoTransition {
+  to: string;                                  // State key, must be listed in transitions
+  on: WorkflowTrigger;
+  minProgress?: number;                        // Todo completion percentage required, defaults to 0
+}
+
+export interface WorkflowGate {
+  name?: string;                               // Shown when the gate fails
+  from?: string | string[];                    // State keys the task leaves, any state when left out
+  to: string | string[];                       // State keys the task enters
+  command?: string;                            // Must exit with 0; runs in the project directory
+  timeoutSeconds?: number;                     // Command time limit, defaults to 300
+  checkedTodos?: string;                       // Heading whose todos must all be checked, "*" for all todos
+  requiredSection?: string;                    // Heading that must be present in the task content
+}
+
+/**
+ * Task data for transition gates, loaded only when a gate needs it
+ */
+export interface TransitionGateContext {
+  taskId: string;
+  getTodos(): Promise<TodoItem[]>;             // Parsed with includeHierarchy
+  getContent(): Promise<string>;               // Task content as markdown
 }
 
 export interface TemplateConfig {
@@ -40,6 +80,7 @@ export type ExecutionAction =
   | { type: 'completed'; message: string; stats: TodoStats }
   | { type: 'needs_implementation'; todo: string; instructions: string; context: ExecutionContext }
   | { type: 'needs_analysis'; message: string; context: ExecutionContext }
+  | { type: 'blocked'; message: string; blockers: Task[] }
   | { type: 'continue'; message: string };
 
 export interface ExecutionContext {
@@ -58,4 +99,5 @@ export interface ExecutionStep {
   timestamp: Date;
 }
 
-import { TodoStats } from './Todo.js';
\ No newline at end of file
+import { TodoItem, TodoStats } from './Todo.js';
+import { Task } from './Task.js';
\ No newline at end of file
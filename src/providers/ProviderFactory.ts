@@ -1,49 +1,143 @@
 /**
  * ProviderFactory - Factory to instantiate task providers based on configuration
+ *
+ * Built-in providers are registered by type; any provider entry with a `module` is loaded as an external plugin.
  */
 
 import { TaskProvider } from '../interfaces/TaskProvider.js';
-import { ProviderConfig, ProviderType } from '../models/Provider.js';
+import { ProviderConfig, ProvidersConfig, ProviderType } from '../models/Provider.js';
+import { WorkflowConfig } from '../models/Workflow.js';
 import { NotionProvider } from './notion/NotionProvider.js';
 import { LinearProvider } from './linear/LinearProvider.js';
 import { GitHubProvider } from './github/GitHubProvider.js';
+import { LocalProvider } from './local/LocalProvider.js';
+import { JiraProvider } from './jira/JiraProvider.js';
+import { GitLabProvider } from './gitlab/GitLabProvider.js';
+import { ProviderPluginLoader } from './ProviderPluginLoader.js';
+
+type ProviderBuilder = (
+  config: Record<string, any>,
+  resolve: (value: string | undefined) => string,
+  workflow?: WorkflowConfig
+) => TaskProvider;
+
+const BUILTIN_PROVIDERS: Record<ProviderType, ProviderBuilder> = {
+  notion: (config, resolve, workflow) => new NotionProvider(
+    config.apiKey || '',
+    config.databaseId || '',
+    { baseUrl: config.baseUrl, propertyMapping: config.propertyMapping, workflow, retry: config.retry }
+  ),
+
+  linear: (config, resolve, workflow) => new LinearProvider({
+    apiKey: resolve(config.apiKey),
+    teamId: resolve(config.teamId),
+    apiUrl: config.apiUrl,
+    retry: config.retry
+  }, workflow),
+
+  github: (config, resolve, workflow) => new GitHubProvider({
+    token: resolve(config.token),
+    org: resolve(config.org),
+    repo: resolve(config.repo) || undefined,
+    projectNumber: config.projectNumber,
+    statusField: config.statusField,
+    appendMode: config.appendMode,
+    apiUrl: config.apiUrl,
+    graphqlUrl: config.graphqlUrl,
+    retry: config.retry
+  }, workflow),
+
+  local: (config, resolve, workflow) => new LocalProvider({
+    tasksDir: config.tasksDir
+  }, workflow),
+
+  jira: (config, resolve, workflow) => new JiraProvider({
+    baseUrl: resolve(config.baseUrl),
+    email: resolve(config.email),
+    apiToken: resolve(config.apiToken),
+    projectKey: resolve(config.projectKey),
+    issueTypeMapping: config.issueTypeMapping,
+    transitionMapping: config.transitionMapping,
+    retry: config.retry
+  }, workflow),
+
+  gitlab: (config, resolve, workflow) => new GitLabProvider({
+    token: resolve(config.token),
+    projectId: resolve(config.projectId),
+    baseUrl: resolve(config.baseUrl) || undefined,
+    statusScope: config.statusScope,
+    retry: config.retry
+  }, workflow)
+};
 
 export class ProviderFactory {
-  static createProvider(type: ProviderType, config: ProviderConfig, credentials: Record<string, string | undefined>): TaskProvider {
+  static createProvider(name: string, config: ProviderConfig, credentials: Record<string, string | undefined>, workflow?: WorkflowConfig): TaskProvider {
     if (!config.enabled) {
-      throw new Error(`Provider '${type}' is disabled`);
+      throw new Error(`Provider '${name}' is disabled`);
+    }
+
+    const providerConfig = config.config || {};
+    const resolve = (value: string | undefined) => this.resolveCredential(name, value, credentials);
+
+    if (config.module) {
+      const plugin = ProviderPluginLoader.load(name, config.module);
+      return ProviderPluginLoader.createProvider(plugin, {
+        name,
+        config: providerConfig,
+        credentials,
+        workflow,
+        resolveCredential: resolve
+      }, config.module);
     }
 
-    switch (type) {
-      case 'notion':
-        return new NotionProvider(
-          config.config.apiKey || '',
-          config.config.databaseId || ''
-        );
-
-      case 'linear':
-        return new LinearProvider({
-          apiKey: credentials[config.config.apiKey] || '',
-          teamId: credentials[config.config.teamId] || ''
-        });
-
-      case 'github':
-        return new GitHubProvider({
-          token: credentials[config.config.token] || '',
-          org: credentials[config.config.org] || '',
-          repo: credentials[config.config.repo]
-        });
-
-      default:
-        throw new Error(`Unknown provider type: ${type}`);
+    if (!this.isBuiltinProvider(name)) {
+      throw new Error(`Unknown provider type: ${name}. Set "module" to load it as a plugin`);
+    }
+    return BUILTIN_PROVIDERS[name](providerConfig, resolve, workflow);
+  }
+
+  /**
+   * Load the plugin modules of enabled providers that are ES modules; call before creating providers
+   */
+  static async preloadPlugins(config: ProvidersConfig): Promise<void> {
+    for (const [name, providerConfig] of Object.entries(config.available)) {
+      if (providerConfig.enabled && providerConfig.module) {
+        await ProviderPluginLoader.preload(name, providerConfig.module);
+      }
     }
   }
 
   static getSupportedProviders(): ProviderType[] {
-    return ['notion', 'linear', 'github'];
+    return Object.keys(BUILTIN_PROVIDERS) as ProviderType[];
+  }
+
+  /**
+   * A provider entry is supported when it names a built-in provider or points to a plugin module
+   */
+  static isProviderSupported(name: string, config?: ProviderConfig): boolean {
+    return !!config?.module || this.isBuiltinProvider(name);
   }
 
-  static isProviderSupported(type: string): type is ProviderType {
-    return this.getSupportedProviders().includes(type as ProviderType);
+  private static isBuiltinProvider(name: string): name is ProviderType {
+    return Object.prototype.hasOwnProperty.call(BUILTIN_PROVIDERS, name);
+  }
+
+  /**
+   * Config values may either reference a credential/environment variable name or hold the value itself.
+   * A `${NAME}` reference is always a variable and has to be set.
+   * @throws Error if a `${NAME}` reference is not set
+   */
+  private static resolveCredential(provider: string, value: string | undefined, credentials: Record<string, string | undefined>): string {
+    if (!value) return '';
+
+    const reference = value.match(/^\$\{(\w+)\}$/)?.[1];
+    if (reference) {
+      const resolved = credentials[reference];
+      if (!resolved) {
+        throw new Error(`Provider '${provider}' references environment variable ${reference}, which is not set`);
+      }
+      return resolved;
+    }
+    return credentials[value] || value;
   }
-}
\ No newline at end of file
+}
@@ -3,7 +3,8 @@
  */
 
 import { TaskProvider } from '../interfaces/TaskProvider.js';
-import { ProvidersConfig, ProviderType } from '../models/Provider.js';
+import { ProvidersConfig } from '../models/Provider.js';
+import { WorkflowConfig } from '../models/Workflow.js';
 import { ProviderFactory } from './ProviderFactory.js';
 
 export class ProviderManager {
@@ -12,7 +13,8 @@ export class ProviderManager {
 
   constructor(
     private config: ProvidersConfig,
-    private credentials: Record<string, string | undefined>
+    private credentials: Record<string, string | undefined>,
+    private workflow?: WorkflowConfig
   ) {
     this.defaultProvider = config.default;
     this.initializeProviders();
@@ -20,12 +22,13 @@ export class ProviderManager {
 
   private initializeProviders(): void {
     for (const [providerName, providerConfig] of Object.entries(this.config.available)) {
-      if (providerConfig.enabled && ProviderFactory.isProviderSupported(providerName)) {
+      if (providerConfig.enabled && ProviderFactory.isProviderSupported(providerName, providerConfig)) {
         try {
           const provider = ProviderFactory.createProvider(
-            providerName as ProviderType,
+            providerName,
             providerConfig,
-            this.credentials
+            this.credentials,
+            this.workflow
           );
           this.providers.set(providerName, provider);
           console.log(`✅ Provider '${providerName}' initialized successfully`);
@@ -35,10 +38,37 @@ export class ProviderManager {
         }
       } else if (!providerConfig.enabled) {
         console.log(`⏸️  Provider '${providerName}' is disabled`);
+      } else {
+        console.error(`❌ Unknown provider '${providerName}': not a built-in provider and no plugin "module" configured`);
+      }
+    }
+
+    this.ensureDefaultProvider();
+  }
+
+  /**
+   * Run the providers' own configuration checks (e.g. Notion property mapping against the database schema)
+   * Providers with an unusable configuration are removed.
+   */
+  async validateProviders(): Promise<void> {
+    for (const [providerName, provider] of Array.from(this.providers.entries())) {
+      if (!provider.validateConfiguration) continue;
+
+      try {
+        const warnings = await provider.validateConfiguration();
+        for (const warning of warnings) {
+          console.warn(`⚠️  Provider '${providerName}': ${warning}`);
+        }
+      } catch (error) {
+        console.error(`❌ Provider '${providerName}' configuration is invalid:`, error instanceof Error ? error.message : error);
+        this.providers.delete(providerName);
       }
     }
 
-    // Validate default provider
+    this.ensureDefaultProvider();
+  }
+
+  private ensureDefaultProvider(): void {
     if (!this.providers.has(this.defaultProvider)) {
       const availableProviders = Array.from(this.providers.keys());
       if (availableProviders.length > 0) {
@@ -61,6 +91,10 @@ export class ProviderManager {
     return provider;
   }
 
+  getDefaultProviderName(): string {
+    return this.defaultProvider;
+  }
+
   getProvider(name?: string): TaskProvider {
     if (!name) {
       return this.getDefaultProvider();
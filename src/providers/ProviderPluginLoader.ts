@@ -0,0 +1,200 @@
+/**
+ * ProviderPluginLoader - Loads external provider plugins and checks them against the plugin contract
+ */
+
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { TaskProvider } from '../interfaces/TaskProvider.js';
+import { ProviderPlugin, ProviderPluginContext, MIN_PROVIDER_PLUGIN_API_VERSION, PROVIDER_PLUGIN_API_VERSION } from '../interfaces/ProviderPlugin.js';
+import { TodoMatchFailure, TodoUpdateRequest } from '../models/Todo.js';
+import { MarkdownTodoParser } from './shared/MarkdownTodoParser.js';
+import { TodoMatcher } from './shared/TodoMatcher.js';
+
+const REQUIRED_PROVIDER_METHODS: (keyof TaskProvider)[] = [
+  'getTask',
+  'createTask',
+  'updateTask',
+  'updateTaskStatus',
+  'analyzeTodos',
+  'updateTodos',
+  'updateSingleTodo',
+  'appendToTask',
+  'getProviderName',
+  'getProviderType',
+  'readPage',
+  'createNotionPage',
+  'updateNotionPage'
+];
+
+// TypeScript compiles import() to require() for CommonJS output, which cannot load ES modules
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+
+export class ProviderPluginLoader {
+  private static cache: Map<string, ProviderPlugin> = new Map();
+  // Failed import() of ES module plugins, reported by load()
+  private static importErrors: Map<string, Error> = new Map();
+
+  /**
+   * Load a plugin by package name or by path relative to the project root
+   * ES module plugins have to be loaded with preload() first.
+   */
+  static load(name: string, modulePath: string): ProviderPlugin {
+    const resolvedPath = this.resolveModulePath(name, modulePath);
+    const cached = this.cache.get(resolvedPath);
+    if (cached) return cached;
+    const importError = this.importErrors.get(resolvedPath);
+    if (importError) throw importError;
+
+    let exported: any;
+    try {
+      exported = require(resolvedPath);
+    } catch (error: any) {
+      throw new Error(`Failed to load provider plugin '${name}' from '${modulePath}': ${error.message}`);
+    }
+    return this.register(name, modulePath, resolvedPath, exported);
+  }
+
+  /**
+   * Load the plugins require() cannot load (ES modules) through import(), so load() finds them cached
+   * Never throws: other plugins and all failures are left to load().
+   */
+  static async preload(name: string, modulePath: string): Promise<void> {
+    let resolvedPath: string;
+    try {
+      resolvedPath = this.resolveModulePath(name, modulePath);
+    } catch (error) {
+      return;
+    }
+    if (this.cache.has(resolvedPath)) return;
+
+    try {
+      require(resolvedPath);
+      return;
+    } catch (error: any) {
+      if (error.code !== 'ERR_REQUIRE_ESM') return;
+    }
+
+    try {
+      this.register(name, modulePath, resolvedPath, await importModule(pathToFileURL(resolvedPath).href));
+    } catch (error: any) {
+      const message = error.message.startsWith('Provider plugin') ? error.message : `Failed to load provider plugin '${name}' from '${modulePath}': ${error.message}`;
+      this.importErrors.set(resolvedPath, new Error(message));
+    }
+  }
+
+  static createProvider(plugin: ProviderPlugin, context: ProviderPluginContext, modulePath: string): TaskProvider {
+    const provider = plugin.createProvider(context);
+    this.validateProvider(context.name, modulePath, provider);
+    return plugin.apiVersion === 1 ? this.adaptV1Provider(provider) : provider;
+  }
+
+  private static register(name: string, modulePath: string, resolvedPath: string, exported: any): ProviderPlugin {
+    const plugin = this.validatePlugin(name, modulePath, exported);
+    this.cache.set(resolvedPath, plugin);
+    return plugin;
+  }
+
+  private static resolveModulePath(name: string, modulePath: string): string {
+    const projectRoot = process.env.PROJECT_ROOT || process.cwd();
+
+    if (isAbsolute(modulePath) || modulePath.startsWith('.')) {
+      return resolve(projectRoot, modulePath);
+    }
+
+    // Package names resolve from the project's node_modules, not from the server installation
+    try {
+      return createRequire(join(projectRoot, 'package.json')).resolve(modulePath);
+    } catch (error) {
+      throw new Error(`Provider plugin '${name}': package '${modulePath}' is not installed in ${projectRoot}`);
+    }
+  }
+
+  private static validatePlugin(name: string, modulePath: string, exported: any): ProviderPlugin {
+    const candidate = exported && typeof exported.createProvider !== 'function' && exported.default
+      ? exported.default
+      : exported;
+
+    if (!candidate || typeof candidate.createProvider !== 'function') {
+      throw new Error(`Provider plugin '${name}' (${modulePath}) must export a createProvider(context) function`);
+    }
+
+    if (typeof candidate.apiVersion !== 'number') {
+      throw new Error(`Provider plugin '${name}' (${modulePath}) must export apiVersion (expected ${PROVIDER_PLUGIN_API_VERSION})`);
+    }
+
+    if (!(candidate.apiVersion >= MIN_PROVIDER_PLUGIN_API_VERSION && candidate.apiVersion <= PROVIDER_PLUGIN_API_VERSION)) {
+      throw new Error(`Provider plugin '${name}' (${modulePath}) targets plugin API v${candidate.apiVersion}, this server supports v${MIN_PROVIDER_PLUGIN_API_VERSION} to v${PROVIDER_PLUGIN_API_VERSION}`);
+    }
+
+    return candidate as ProviderPlugin;
+  }
+
+  /**
+   * v1 providers may return todos without IDs and expect a todoText in every update: missing IDs are
+   * derived from the todo text like markdown todo IDs, and updates with only a todoId get that todo's text
+   */
+  private static adaptV1Provider(provider: TaskProvider): TaskProvider {
+    const analyzeTodos = provider.analyzeTodos.bind(provider);
+    const updateTodos = provider.updateTodos.bind(provider);
+    const parser = new MarkdownTodoParser();
+    const matcher = new TodoMatcher();
+
+    provider.analyzeTodos = async (taskId, includeHierarchy) => {
+      const result = await analyzeTodos(taskId, includeHierarchy);
+      const occurrences = new Map<string, number>();
+      // In place, so the same todos listed as children get their IDs too
+      for (const todo of result.todos) {
+        const firstId = parser.getTodoId(todo.text);
+        const occurrence = (occurrences.get(firstId) || 0) + 1;
+        occurrences.set(firstId, occurrence);
+        todo.id = todo.id || parser.getTodoId(todo.text, occurrence);
+      }
+      return result;
+    };
+
+    provider.updateTodos = async (taskId, updates) => {
+      if (updates.every(update => update.todoText)) {
+        return updateTodos(taskId, updates);
+      }
+
+      const { todos } = await provider.analyzeTodos(taskId);
+      const resolved: TodoUpdateRequest[] = [];
+      const failures: TodoMatchFailure[] = [];
+      for (const update of updates) {
+        const match = update.todoText ? null : matcher.match(todos, update);
+        if (!match) {
+          resolved.push(update);
+        } else if (match.todo) {
+          resolved.push({ todoText: match.todo.text, completed: update.completed });
+        } else if (match.failure) {
+          failures.push(match.failure);
+        }
+      }
+
+      const result = resolved.length > 0 ? await updateTodos(taskId, resolved) : { updated: 0, failed: 0 };
+      const allFailures = [...(result.failures || []), ...failures];
+      return {
+        updated: result.updated,
+        failed: result.failed + failures.length,
+        ...(allFailures.length > 0 ? { failures: allFailures } : {})
+      };
+    };
+
+    return provider;
+  }
+
+  private static validateProvider(name: string, modulePath: string, provider: any): void {
+    if (!provider || typeof provider !== 'object') {
+      throw new Error(`Provider plugin '${name}' (${modulePath}): createProvider must return a TaskProvider instance`);
+    }
+    if (typeof provider.then === 'function') {
+      throw new Error(`Provider plugin '${name}' (${modulePath}): createProvider must return the provider synchronously, not a Promise`);
+    }
+
+    const missing = REQUIRED_PROVIDER_METHODS.filter(method => typeof provider[method] !== 'function');
+    if (missing.length > 0) {
+      throw new Error(`Provider plugin '${name}' (${modulePath}) does not implement TaskProvider: missing ${missing.join(', ')}`);
+    }
+  }
+}
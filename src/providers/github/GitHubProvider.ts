@@ -1,62 +1,631 @@
+/**
+ * GitHubProvider - Task provider backed by GitHub issues and an optional Projects v2 board
+ *
+ * Issues are tasks, the project's single-select status field maps to the configured statusMapping,
+ * labels carry the task type and todos live as markdown task lists in the issue body.
+ */
+
 import { TaskProvider } from '../../interfaces/TaskProvider.js';
-import { Task } from '../../models/Task.js';
-import { TodoAnalysisResult, TodoUpdateRequest } from '../../models/Todo.js';
-import { PageContent } from '../../models/Page.js';
+import { Task, TaskRelationType } from '../../models/Task.js';
+import { TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoEdit } from '../../models/Todo.js';
+import { PageContent, PageUpdateMode } from '../../models/Page.js';
+import { TaskComment } from '../../models/Comment.js';
+import { WorkflowConfig } from '../../models/Workflow.js';
+import { MarkdownTodoParser } from '../shared/MarkdownTodoParser.js';
+import { RetryPolicy, RetryOptions } from '../shared/RetryPolicy.js';
+import { errorFromResponse, wrapProviderError } from '../shared/ProviderErrors.js';
+
+const DEFAULT_API_URL = 'https://api.github.com';
+
+export interface GitHubProviderConfig {
+  token: string;
+  org: string;
+  repo?: string;
+  projectNumber?: number;
+  statusField?: string;
+  appendMode?: 'body' | 'comment';
+  apiUrl?: string;
+  graphqlUrl?: string;
+  retry?: RetryOptions;
+}
+
+interface IssueRef {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+interface GitHubIssue {
+  number: number;
+  node_id: string;
+  title: string;
+  body?: string | null;
+  state: 'open' | 'closed';
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  labels: Array<string | { name?: string }>;
+}
+
+interface GitHubComment {
+  id: number;
+  body?: string | null;
+  user?: { login?: string } | null;
+  created_at: string;
+  html_url: string;
+}
+
+interface IssueRelations {
+  parentId?: string;
+  childIds?: string[];
+  blockedBy?: string[];
+}
+
+interface ProjectStatusField {
+  projectId: string;
+  fieldId: string;
+  options: Array<{ id: string; name: string }>;
+}
 
 export class GitHubProvider implements TaskProvider {
-  constructor(private config: { token: string; org: string; repo?: string }) {
-    // GitHub API initialization would go here
+  private apiUrl: string;
+  private graphqlUrl: string;
+  private todoParser = new MarkdownTodoParser();
+  private statusField: ProjectStatusField | null = null;
+  private retry: RetryPolicy;
+
+  constructor(private config: GitHubProviderConfig, private workflow?: WorkflowConfig) {
+    if (!config.token) {
+      throw new Error('GitHub token is required in .vc4pm/config.json (providers.available.github.config.token)');
+    }
+    if (!config.org) {
+      throw new Error('GitHub organization or user is required in .vc4pm/config.json (providers.available.github.config.org)');
+    }
+    this.apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/$/, '');
+    this.graphqlUrl = config.graphqlUrl || `${this.apiUrl}/graphql`;
+    this.retry = new RetryPolicy(config.retry);
+  }
+
+  getProviderName(): string {
+    return 'GitHub Projects';
+  }
+
+  getProviderType(): string {
+    return 'github';
   }
 
   async getTask(taskId: string): Promise<Task> {
-    throw new Error('GitHub provider not implemented yet');
+    try {
+      const ref = this.parseTaskId(taskId);
+      const issue = await this.fetchIssue(ref);
+      const projectStatus = await this.getProjectStatus(ref);
+      const relations = await this.getRelations(ref);
+      return { ...this.mapIssueToTask(ref, issue, projectStatus), ...relations };
+    } catch (error) {
+      throw wrapProviderError(`Failed to get task`, error);
+    }
   }
 
   async createTask(title: string, taskType: string, description: string): Promise<Task> {
-    throw new Error('GitHub provider not implemented yet');
+    if (!title || title.trim().length === 0) {
+      throw new Error('Title is required and cannot be empty');
+    }
+    if (!taskType || taskType.trim().length === 0) {
+      throw new Error('Task type is required and cannot be empty');
+    }
+    if (!this.config.repo) {
+      throw new Error('GitHub repository is required to create tasks (providers.available.github.config.repo)');
+    }
+
+    try {
+      const ref = { owner: this.config.org, repo: this.config.repo, number: 0 };
+      // GitHub creates missing labels automatically when they are applied to an issue
+      const issue = await this.rest<GitHubIssue>('POST', `/repos/${ref.owner}/${ref.repo}/issues`, {
+        title,
+        body: description || '',
+        labels: [this.normalizeTaskType(taskType)]
+      });
+      ref.number = issue.number;
+
+      let projectStatus: string | null = null;
+      const defaultStatus = this.getDefaultStatusLabel();
+      if (this.config.projectNumber && defaultStatus) {
+        await this.setProjectStatus(ref, issue.node_id, defaultStatus);
+        projectStatus = defaultStatus;
+      }
+
+      return this.mapIssueToTask(ref, issue, projectStatus);
+    } catch (error) {
+      throw wrapProviderError(`Failed to create task`, error);
+    }
   }
 
   async updateTask(taskId: string, updates: { title?: string; taskType?: string; status?: string }): Promise<void> {
-    throw new Error('GitHub provider not implemented yet');
+    try {
+      const ref = this.parseTaskId(taskId);
+      const patch: Record<string, any> = {};
+
+      if (updates.title) {
+        patch.title = updates.title;
+      }
+
+      if (updates.taskType) {
+        const issue = await this.fetchIssue(ref);
+        // Replace any existing task type label, keep unrelated labels untouched
+        const kept = this.getLabelNames(issue).filter(name => !this.isTaskTypeLabel(name));
+        patch.labels = [...kept, this.normalizeTaskType(updates.taskType)];
+      }
+
+      if (Object.keys(patch).length > 0) {
+        await this.rest('PATCH', this.issuePath(ref), patch);
+      }
+
+      if (updates.status) {
+        await this.applyStatus(ref, updates.status);
+      }
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task`, error);
+    }
   }
 
   async updateTaskStatus(taskId: string, status: string): Promise<void> {
-    throw new Error('GitHub provider not implemented yet');
+    try {
+      await this.applyStatus(this.parseTaskId(taskId), status);
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task status`, error);
+    }
+  }
+
+  /**
+   * Parent through sub-issues, blockers through issue dependencies ("blocked by")
+   */
+  async linkTask(taskId: string, relatedTaskId: string, relation: TaskRelationType): Promise<void> {
+    try {
+      const issue = await this.fetchIssue(this.parseTaskId(taskId));
+      const related = await this.fetchIssue(this.parseTaskId(relatedTaskId));
+
+      if (relation === 'parent') {
+        await this.graphql(
+          `mutation AddSubIssue($issueId: ID!, $subIssueId: ID!) {
+            addSubIssue(input: { issueId: $issueId, subIssueId: $subIssueId, replaceParent: true }) { issue { id } }
+          }`,
+          { issueId: related.node_id, subIssueId: issue.node_id }
+        );
+        return;
+      }
+
+      await this.graphql(
+        `mutation AddBlockedBy($issueId: ID!, $blockingIssueId: ID!) {
+          addBlockedBy(input: { issueId: $issueId, blockingIssueId: $blockingIssueId }) { issue { id } }
+        }`,
+        { issueId: issue.node_id, blockingIssueId: related.node_id }
+      );
+    } catch (error) {
+      throw wrapProviderError(`Failed to link task`, error);
+    }
   }
 
-  async analyzeTodos(taskId: string, includeHierarchy?: boolean): Promise<TodoAnalysisResult> {
-    throw new Error('GitHub provider not implemented yet');
+  async analyzeTodos(taskId: string, includeHierarchy: boolean = false): Promise<TodoAnalysisResult> {
+    try {
+      const issue = await this.fetchIssue(this.parseTaskId(taskId));
+      return this.todoParser.analyze(issue.body || '', includeHierarchy, issue.title);
+    } catch (error) {
+      throw wrapProviderError(`Failed to analyze todos`, error);
+    }
   }
 
-  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<{ updated: number; failed: number }> {
-    throw new Error('GitHub provider not implemented yet');
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const issue = await this.fetchIssue(ref);
+      const result = this.todoParser.applyUpdates(issue.body || '', updates);
+
+      if (result.updated > 0) {
+        await this.rest('PATCH', this.issuePath(ref), { body: result.markdown });
+      }
+
+      return { updated: result.updated, failed: result.failed, failures: result.failures };
+    } catch (error) {
+      throw wrapProviderError(`Failed to update todos`, error);
+    }
   }
 
   async updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean> {
-    throw new Error('GitHub provider not implemented yet');
+    const result = await this.updateTodos(taskId, [{ todoText, completed }]);
+    return result.updated > 0;
+  }
+
+  async editTodo(taskId: string, edit: TodoEdit): Promise<string | undefined> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const issue = await this.fetchIssue(ref);
+      const result = this.todoParser.applyEdit(issue.body || '', edit);
+      await this.rest('PATCH', this.issuePath(ref), { body: result.markdown });
+      return result.todoId;
+    } catch (error) {
+      throw wrapProviderError(`Failed to edit todo`, error);
+    }
   }
 
+  /**
+   * Append markdown to the issue body (default) or post it as a comment when appendMode is "comment"
+   */
   async appendToTask(taskId: string, content: string): Promise<void> {
-    throw new Error('GitHub provider not implemented yet');
+    try {
+      const ref = this.parseTaskId(taskId);
+
+      if (this.config.appendMode === 'comment') {
+        // Horizontal rules added by append_summary are noise at the top of a comment
+        const comment = content.trim().replace(/^---\s*/, '').trim();
+        await this.rest('POST', `${this.issuePath(ref)}/comments`, { body: comment });
+        return;
+      }
+
+      const issue = await this.fetchIssue(ref);
+      const body = (issue.body || '').replace(/\s+$/, '');
+      const appended = body ? `${body}\n\n${content.replace(/^\s+/, '')}` : content.trim();
+      await this.rest('PATCH', this.issuePath(ref), { body: appended });
+    } catch (error) {
+      throw wrapProviderError(`Failed to append content to task`, error);
+    }
   }
 
-  getProviderName(): string {
-    return 'GitHub Projects';
+  /**
+   * Issue comments; GitHub comments are not threaded, so threadId is ignored
+   */
+  async listComments(taskId: string): Promise<TaskComment[]> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const comments: GitHubComment[] = [];
+      for (let page = 1; ; page++) {
+        const batch = await this.rest<GitHubComment[]>('GET', `${this.issuePath(ref)}/comments?per_page=100&page=${page}`);
+        comments.push(...(batch || []));
+        if (!batch || batch.length < 100) break;
+      }
+      return comments.map(comment => this.mapComment(comment));
+    } catch (error) {
+      throw wrapProviderError(`Failed to list comments`, error);
+    }
   }
 
-  getProviderType(): string {
-    return 'github';
+  async addComment(taskId: string, body: string, threadId?: string): Promise<TaskComment> {
+    if (!body || body.trim().length === 0) {
+      throw new Error('Comment body is required and cannot be empty');
+    }
+
+    try {
+      const ref = this.parseTaskId(taskId);
+      const comment = await this.rest<GitHubComment>('POST', `${this.issuePath(ref)}/comments`, { body: body.trim() });
+      return this.mapComment(comment);
+    } catch (error) {
+      throw wrapProviderError(`Failed to add comment`, error);
+    }
   }
 
-  async readPage(pageId: string, includeLinkedPages?: boolean): Promise<PageContent> {
-    throw new Error('GitHub page reading not implemented yet');
+  /**
+   * Read an issue as a page: the body is the content
+   */
+  async readPage(pageId: string, includeLinkedPages: boolean = true): Promise<PageContent> {
+    try {
+      const ref = this.parseTaskId(pageId);
+      const issue = await this.fetchIssue(ref);
+
+      return {
+        id: this.formatTaskId(ref),
+        title: issue.title,
+        url: issue.html_url,
+        content: issue.body || '',
+        linkedPages: [],
+        lastEdited: new Date(issue.updated_at),
+        createdTime: new Date(issue.created_at)
+      };
+    } catch (error) {
+      throw wrapProviderError(`Failed to read GitHub issue`, error);
+    }
   }
 
   async createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>): Promise<PageContent> {
     throw new Error('createNotionPage is only available for Notion provider');
   }
 
-  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: 'append' | 'replace' | 'insert', insertAfter?: string): Promise<void> {
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: PageUpdateMode, insertAfter?: string): Promise<void> {
     throw new Error('updateNotionPage is only available for Notion provider');
   }
-}
\ No newline at end of file
+
+  /**
+   * Accepts "42", "#42", "owner/repo#42" or a full issue URL
+   */
+  private parseTaskId(taskId: string): IssueRef {
+    const trimmed = (taskId || '').trim();
+
+    const urlMatch = trimmed.match(/github\.com\/([^/]+)\/([^/]+)\/issues\/(\d+)/) || trimmed.match(/\/repos\/([^/]+)\/([^/]+)\/issues\/(\d+)/);
+    if (urlMatch) {
+      return { owner: urlMatch[1] || '', repo: urlMatch[2] || '', number: parseInt(urlMatch[3] || '0', 10) };
+    }
+
+    const qualified = trimmed.match(/^([\w.-]+)\/([\w.-]+)#(\d+)$/);
+    if (qualified) {
+      return { owner: qualified[1] || '', repo: qualified[2] || '', number: parseInt(qualified[3] || '0', 10) };
+    }
+
+    const numberOnly = trimmed.match(/^#?(\d+)$/);
+    if (numberOnly) {
+      if (!this.config.repo) {
+        throw new Error(`Issue "${taskId}" must be qualified as owner/repo#number when no repository is configured`);
+      }
+      return { owner: this.config.org, repo: this.config.repo, number: parseInt(numberOnly[1] || '0', 10) };
+    }
+
+    throw new Error(`Invalid GitHub issue reference "${taskId}". Expected a number, owner/repo#number or an issue URL`);
+  }
+
+  private formatTaskId(ref: IssueRef): string {
+    return `${ref.owner}/${ref.repo}#${ref.number}`;
+  }
+
+  private mapComment(comment: GitHubComment): TaskComment {
+    return {
+      id: String(comment.id),
+      body: comment.body || '',
+      author: comment.user?.login,
+      createdTime: comment.created_at,
+      url: comment.html_url
+    };
+  }
+
+  private issuePath(ref: IssueRef): string {
+    return `/repos/${ref.owner}/${ref.repo}/issues/${ref.number}`;
+  }
+
+  private async fetchIssue(ref: IssueRef): Promise<GitHubIssue> {
+    return await this.rest<GitHubIssue>('GET', this.issuePath(ref));
+  }
+
+  private mapIssueToTask(ref: IssueRef, issue: GitHubIssue, projectStatus: string | null): Task {
+    const labels = this.getLabelNames(issue);
+    const typeLabel = labels.find(name => this.isTaskTypeLabel(name));
+
+    return {
+      id: this.formatTaskId(ref),
+      title: issue.title,
+      status: projectStatus ? this.normalizeStatus(projectStatus) : this.mapIssueStateToStatus(issue.state),
+      type: typeLabel ? this.normalizeTaskType(typeLabel) : 'Unknown',
+      description: issue.body || undefined,
+      url: issue.html_url,
+      createdTime: issue.created_at,
+      lastEditedTime: issue.updated_at,
+      properties: {
+        number: issue.number,
+        state: issue.state,
+        labels
+      }
+    };
+  }
+
+  private getLabelNames(issue: GitHubIssue): string[] {
+    return (issue.labels || [])
+      .map(label => typeof label === 'string' ? label : label.name || '')
+      .filter(Boolean);
+  }
+
+  /**
+   * Without a project board, open/closed is the only status information available
+   */
+  private mapIssueStateToStatus(state: 'open' | 'closed'): string {
+    const statusMapping = this.workflow?.statusMapping || {};
+    if (state === 'closed') {
+      return statusMapping.done || 'Done';
+    }
+    return this.getDefaultStatusLabel() || 'Open';
+  }
+
+  private normalizeStatus(status: string): string {
+    const statusMapping = this.workflow?.statusMapping || {};
+    return Object.values(statusMapping).find(label => label.toLowerCase() === status.toLowerCase()) || status;
+  }
+
+  private async applyStatus(ref: IssueRef, status: string): Promise<void> {
+    const statusLabel = this.workflow?.statusMapping[status] || status;
+
+    if (this.config.projectNumber) {
+      const issue = await this.fetchIssue(ref);
+      await this.setProjectStatus(ref, issue.node_id, statusLabel);
+      return;
+    }
+
+    // No project board: fall back to closing the issue for the done status
+    const doneLabel = this.workflow?.statusMapping.done;
+    const state = doneLabel && doneLabel.toLowerCase() === statusLabel.toLowerCase() ? 'closed' : 'open';
+    await this.rest('PATCH', this.issuePath(ref), { state });
+  }
+
+  /**
+   * Read the status field value of the issue's item in the configured project
+   */
+  private async getProjectStatus(ref: IssueRef): Promise<string | null> {
+    if (!this.config.projectNumber) return null;
+
+    const field = await this.getStatusField();
+    const data = await this.graphql<any>(
+      `query IssueProjectItems($owner: String!, $repo: String!, $number: Int!, $field: String!) {
+        repository(owner: $owner, name: $repo) {
+          issue(number: $number) {
+            projectItems(first: 50) {
+              nodes {
+                project { id }
+                fieldValueByName(name: $field) {
+                  ... on ProjectV2ItemFieldSingleSelectValue { name }
+                }
+              }
+            }
+          }
+        }
+      }`,
+      { owner: ref.owner, repo: ref.repo, number: ref.number, field: this.getStatusFieldName() }
+    );
+
+    const items: any[] = data.repository?.issue?.projectItems?.nodes || [];
+    const item = items.find(node => node.project?.id === field.projectId);
+    return item?.fieldValueByName?.name || null;
+  }
+
+  /**
+   * Parent, sub-issues and blockers; left out on GitHub versions without sub-issues or dependencies
+   */
+  private async getRelations(ref: IssueRef): Promise<IssueRelations> {
+    const refFields = 'number repository { nameWithOwner }';
+    let issue: any;
+    try {
+      const data = await this.graphql<any>(
+        `query IssueRelations($owner: String!, $repo: String!, $number: Int!) {
+          repository(owner: $owner, name: $repo) {
+            issue(number: $number) {
+              parent { ${refFields} }
+              subIssues(first: 50) { nodes { ${refFields} } }
+              blockedBy(first: 50) { nodes { ${refFields} } }
+            }
+          }
+        }`,
+        { owner: ref.owner, repo: ref.repo, number: ref.number }
+      );
+      issue = data.repository?.issue;
+    } catch (error) {
+      console.warn(`GitHub issue relations unavailable: ${error instanceof Error ? error.message : error}`);
+      return {};
+    }
+
+    const toId = (node: any) => `${node.repository.nameWithOwner}#${node.number}`;
+    const childIds = (issue?.subIssues?.nodes || []).map(toId);
+    const blockedBy = (issue?.blockedBy?.nodes || []).map(toId);
+    return {
+      parentId: issue?.parent ? toId(issue.parent) : undefined,
+      childIds: childIds.length > 0 ? childIds : undefined,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined
+    };
+  }
+
+  private async setProjectStatus(ref: IssueRef, issueNodeId: string, statusLabel: string): Promise<void> {
+    const field = await this.getStatusField();
+    const option = field.options.find(o => o.name.toLowerCase() === statusLabel.toLowerCase());
+    if (!option) {
+      throw new Error(`Project field "${this.getStatusFieldName()}" has no option "${statusLabel}". Available: ${field.options.map(o => o.name).join(', ')}`);
+    }
+
+    // Adding an issue that is already on the board returns the existing item
+    const added = await this.graphql<any>(
+      `mutation AddItem($projectId: ID!, $contentId: ID!) {
+        addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) { item { id } }
+      }`,
+      { projectId: field.projectId, contentId: issueNodeId }
+    );
+    const itemId = added.addProjectV2ItemById?.item?.id;
+    if (!itemId) {
+      throw new Error(`Failed to add issue ${this.formatTaskId(ref)} to project ${this.config.projectNumber}`);
+    }
+
+    await this.graphql(
+      `mutation SetStatus($projectId: ID!, $itemId: ID!, $fieldId: ID!, $optionId: String!) {
+        updateProjectV2ItemFieldValue(input: {
+          projectId: $projectId, itemId: $itemId, fieldId: $fieldId,
+          value: { singleSelectOptionId: $optionId }
+        }) { projectV2Item { id } }
+      }`,
+      { projectId: field.projectId, itemId, fieldId: field.fieldId, optionId: option.id }
+    );
+  }
+
+  private async getStatusField(): Promise<ProjectStatusField> {
+    if (this.statusField) return this.statusField;
+
+    const data = await this.graphql<any>(
+      `query ProjectFields($login: String!, $number: Int!) {
+        repositoryOwner(login: $login) {
+          ... on ProjectV2Owner {
+            projectV2(number: $number) {
+              id
+              fields(first: 50) {
+                nodes {
+                  ... on ProjectV2SingleSelectField { id name options { id name } }
+                }
+              }
+            }
+          }
+        }
+      }`,
+      { login: this.config.org, number: this.config.projectNumber }
+    );
+
+    const project = data.repositoryOwner?.projectV2;
+    if (!project) {
+      throw new Error(`GitHub project ${this.config.projectNumber} not found for ${this.config.org}`);
+    }
+
+    const fieldName = this.getStatusFieldName();
+    const field = (project.fields?.nodes || []).find((node: any) => node?.name?.toLowerCase() === fieldName.toLowerCase() && node.options);
+    if (!field) {
+      throw new Error(`Single-select field "${fieldName}" not found in GitHub project ${this.config.projectNumber}`);
+    }
+
+    this.statusField = { projectId: project.id, fieldId: field.id, options: field.options };
+    return this.statusField;
+  }
+
+  private getStatusFieldName(): string {
+    return this.config.statusField || 'Status';
+  }
+
+  private getDefaultStatusLabel(): string | undefined {
+    if (!this.workflow) return undefined;
+    return this.workflow.statusMapping[this.workflow.defaultStatus] || this.workflow.defaultStatus;
+  }
+
+  private isTaskTypeLabel(name: string): boolean {
+    return (this.workflow?.taskTypes || []).some(type => type.toLowerCase() === name.toLowerCase());
+  }
+
+  private normalizeTaskType(taskType: string): string {
+    return (this.workflow?.taskTypes || []).find(type => type.toLowerCase() === taskType.toLowerCase()) || taskType;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `Bearer ${this.config.token}`,
+      'Content-Type': 'application/json',
+      'User-Agent': 'vc4pm-mcp-server',
+      'X-GitHub-Api-Version': '2022-11-28'
+    };
+  }
+
+  private async rest<T = any>(method: string, path: string, body?: Record<string, any>): Promise<T> {
+    const response = await this.retry.fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: this.getHeaders(),
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw errorFromResponse(response.status, `GitHub API error ${response.status} on ${method} ${path}: ${data?.message || response.statusText}`, response.headers);
+    }
+    return data as T;
+  }
+
+  private async graphql<T = any>(query: string, variables: Record<string, any>): Promise<T> {
+    // Queries can be repeated, mutations may already have been applied
+    const response = await this.retry.fetch(this.graphqlUrl, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ query, variables })
+    }, !query.trimStart().startsWith('mutation'));
+
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw errorFromResponse(response.status, `GitHub GraphQL error ${response.status}: ${data?.message || response.statusText}`, response.headers);
+    }
+    if (data?.errors?.length) {
+      throw new Error(`GitHub GraphQL error: ${data.errors.map((e: any) => e.message).join('; ')}`);
+    }
+    return data?.data as T;
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * GitLabProvider - Task provider backed by GitLab issues through the REST v4 API
+ *
+ * Issues are tasks, scoped labels (status::in-progress) carry the status, plain labels carry the task type,
+ * todos live as markdown task lists in the description and appended content is posted as notes.
+ * Works with gitlab.com and self-hosted instances through the baseUrl option.
+ */
+
+import { TaskProvider } from '../../interfaces/TaskProvider.js';
+import { Task } from '../../models/Task.js';
+import { TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoEdit } from '../../models/Todo.js';
+import { PageContent, LinkedPage, PageUpdateMode } from '../../models/Page.js';
+import { TaskComment } from '../../models/Comment.js';
+import { WorkflowConfig } from '../../models/Workflow.js';
+import { MarkdownTodoParser } from '../shared/MarkdownTodoParser.js';
+import { RetryPolicy, RetryOptions } from '../shared/RetryPolicy.js';
+import { errorFromResponse, wrapProviderError } from '../shared/ProviderErrors.js';
+
+const DEFAULT_BASE_URL = 'https://gitlab.com';
+const DEFAULT_STATUS_SCOPE = 'status';
+
+export interface GitLabProviderConfig {
+  token: string;
+  projectId: string;
+  baseUrl?: string;
+  statusScope?: string;
+  retry?: RetryOptions;
+}
+
+interface IssueRef {
+  projectId: string;
+  iid: number;
+}
+
+interface GitLabIssue {
+  id: number;
+  iid: number;
+  project_id: number;
+  title: string;
+  description?: string | null;
+  state: 'opened' | 'closed';
+  labels: string[];
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  references?: { full?: string };
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  author?: { username?: string; name?: string };
+  created_at: string;
+  system: boolean;
+  resolvable?: boolean;
+  resolved?: boolean;
+}
+
+interface GitLabDiscussion {
+  id: string;
+  notes: GitLabNote[];
+}
+
+export class GitLabProvider implements TaskProvider {
+  private baseUrl: string;
+  private statusScope: string;
+  private todoParser = new MarkdownTodoParser();
+  private retry: RetryPolicy;
+
+  constructor(private config: GitLabProviderConfig, private workflow?: WorkflowConfig) {
+    if (!config.token) {
+      throw new Error('GitLab token is required in .vc4pm/config.json (providers.available.gitlab.config.token)');
+    }
+    if (!config.projectId) {
+      throw new Error('GitLab project ID or path is required in .vc4pm/config.json (providers.available.gitlab.config.projectId)');
+    }
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.statusScope = config.statusScope || DEFAULT_STATUS_SCOPE;
+    this.retry = new RetryPolicy(config.retry);
+  }
+
+  getProviderName(): string {
+    return 'GitLab Issues';
+  }
+
+  getProviderType(): string {
+    return 'gitlab';
+  }
+
+  async getTask(taskId: string): Promise<Task> {
+    try {
+      return this.mapIssueToTask(await this.fetchIssue(this.parseTaskId(taskId)));
+    } catch (error) {
+      throw wrapProviderError(`Failed to get task`, error);
+    }
+  }
+
+  async createTask(title: string, taskType: string, description: string): Promise<Task> {
+    if (!title || title.trim().length === 0) {
+      throw new Error('Title is required and cannot be empty');
+    }
+    if (!taskType || taskType.trim().length === 0) {
+      throw new Error('Task type is required and cannot be empty');
+    }
+
+    try {
+      const labels = [this.normalizeTaskType(taskType)];
+      const defaultStatus = this.getDefaultStatusLabel();
+      if (defaultStatus) {
+        labels.push(this.toStatusLabel(defaultStatus));
+      }
+
+      const issue = await this.rest<GitLabIssue>('POST', `${this.projectPath(this.config.projectId)}/issues`, {
+        title,
+        description: description || '',
+        labels: labels.join(',')
+      });
+      return this.mapIssueToTask(issue);
+    } catch (error) {
+      throw wrapProviderError(`Failed to create task`, error);
+    }
+  }
+
+  async updateTask(taskId: string, updates: { title?: string; taskType?: string; status?: string }): Promise<void> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const payload: Record<string, any> = {};
+      const addLabels: string[] = [];
+      const removeLabels: string[] = [];
+      let issue: GitLabIssue | null = null;
+
+      if (updates.title) {
+        payload.title = updates.title;
+      }
+
+      if (updates.taskType) {
+        issue = await this.fetchIssue(ref);
+        removeLabels.push(...issue.labels.filter(label => this.isTaskTypeLabel(label)));
+        addLabels.push(this.normalizeTaskType(updates.taskType));
+      }
+
+      if (updates.status) {
+        issue = issue || await this.fetchIssue(ref);
+        Object.assign(payload, this.buildStatusChange(issue, updates.status, addLabels, removeLabels));
+      }
+
+      const removed = removeLabels.filter(label => !addLabels.includes(label));
+      if (addLabels.length > 0) payload.add_labels = addLabels.join(',');
+      if (removed.length > 0) payload.remove_labels = removed.join(',');
+
+      if (Object.keys(payload).length === 0) return;
+      await this.rest('PUT', this.issuePath(ref), payload);
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task`, error);
+    }
+  }
+
+  async updateTaskStatus(taskId: string, status: string): Promise<void> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const issue = await this.fetchIssue(ref);
+      const addLabels: string[] = [];
+      const removeLabels: string[] = [];
+      const payload = this.buildStatusChange(issue, status, addLabels, removeLabels);
+
+      const removed = removeLabels.filter(label => !addLabels.includes(label));
+      if (addLabels.length > 0) payload.add_labels = addLabels.join(',');
+      if (removed.length > 0) payload.remove_labels = removed.join(',');
+
+      await this.rest('PUT', this.issuePath(ref), payload);
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task status`, error);
+    }
+  }
+
+  async analyzeTodos(taskId: string, includeHierarchy: boolean = false): Promise<TodoAnalysisResult> {
+    try {
+      const issue = await this.fetchIssue(this.parseTaskId(taskId));
+      return this.todoParser.analyze(issue.description || '', includeHierarchy, issue.title);
+    } catch (error) {
+      throw wrapProviderError(`Failed to analyze todos`, error);
+    }
+  }
+
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const issue = await this.fetchIssue(ref);
+      const result = this.todoParser.applyUpdates(issue.description || '', updates);
+
+      if (result.updated > 0) {
+        await this.rest('PUT', this.issuePath(ref), { description: result.markdown });
+      }
+
+      return { updated: result.updated, failed: result.failed, failures: result.failures };
+    } catch (error) {
+      throw wrapProviderError(`Failed to update todos`, error);
+    }
+  }
+
+  async updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean> {
+    const result = await this.updateTodos(taskId, [{ todoText, completed }]);
+    return result.updated > 0;
+  }
+
+  async editTodo(taskId: string, edit: TodoEdit): Promise<string | undefined> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const issue = await this.fetchIssue(ref);
+      const result = this.todoParser.applyEdit(issue.description || '', edit);
+      await this.rest('PUT', this.issuePath(ref), { description: result.markdown });
+      return result.todoId;
+    } catch (error) {
+      throw wrapProviderError(`Failed to edit todo`, error);
+    }
+  }
+
+  /**
+   * Post appended content (development summaries) as an issue note
+   */
+  async appendToTask(taskId: string, content: string): Promise<void> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      // Horizontal rules added by append_summary are noise at the top of a note
+      const body = content.trim().replace(/^---\s*/, '').trim();
+      await this.rest('POST', `${this.issuePath(ref)}/notes`, { body });
+    } catch (error) {
+      throw wrapProviderError(`Failed to append content to task`, error);
+    }
+  }
+
+  /**
+   * Notes of the issue discussions, without system notes (label or state changes)
+   */
+  async listComments(taskId: string): Promise<TaskComment[]> {
+    try {
+      const ref = this.parseTaskId(taskId);
+      const discussions: GitLabDiscussion[] = [];
+      for (let page = 1; ; page++) {
+        const batch = await this.rest<GitLabDiscussion[]>('GET', `${this.issuePath(ref)}/discussions?per_page=100&page=${page}`);
+        discussions.push(...(batch || []));
+        if (!batch || batch.length < 100) break;
+      }
+
+      return discussions.flatMap(discussion => discussion.notes
+        .filter(note => !note.system)
+        .map(note => this.mapNote(note, discussion.id)));
+    } catch (error) {
+      throw wrapProviderError(`Failed to list comments`, error);
+    }
+  }
+
+  async addComment(taskId: string, body: string, threadId?: string): Promise<TaskComment> {
+    if (!body || body.trim().length === 0) {
+      throw new Error('Comment body is required and cannot be empty');
+    }
+
+    try {
+      const ref = this.parseTaskId(taskId);
+      if (threadId) {
+        const note = await this.rest<GitLabNote>('POST', `${this.issuePath(ref)}/discussions/${encodeURIComponent(threadId)}/notes`, { body: body.trim() });
+        return this.mapNote(note, threadId);
+      }
+
+      const discussion = await this.rest<GitLabDiscussion>('POST', `${this.issuePath(ref)}/discussions`, { body: body.trim() });
+      const note = discussion.notes[0];
+      if (!note) {
+        throw new Error('GitLab returned an empty discussion');
+      }
+      return this.mapNote(note, discussion.id);
+    } catch (error) {
+      throw wrapProviderError(`Failed to add comment`, error);
+    }
+  }
+
+  /**
+   * Read an issue as a page: description as content, linked issues as related pages
+   */
+  async readPage(pageId: string, includeLinkedPages: boolean = true): Promise<PageContent> {
+    try {
+      const ref = this.parseTaskId(pageId);
+      const issue = await this.fetchIssue(ref);
+      const linkedPages: LinkedPage[] = [];
+
+      if (includeLinkedPages) {
+        const links = await this.rest<GitLabIssue[]>('GET', `${this.issuePath(ref)}/links`);
+        for (const linked of links || []) {
+          linkedPages.push({
+            id: linked.references?.full || String(linked.iid),
+            title: linked.title,
+            url: linked.web_url,
+            content: linked.description || undefined,
+            relationshipType: 'relation'
+          });
+        }
+      }
+
+      return {
+        id: String(issue.iid),
+        title: issue.title,
+        url: issue.web_url,
+        content: issue.description || '',
+        linkedPages,
+        lastEdited: new Date(issue.updated_at),
+        createdTime: new Date(issue.created_at)
+      };
+    } catch (error) {
+      throw wrapProviderError(`Failed to read GitLab issue`, error);
+    }
+  }
+
+  async createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>): Promise<PageContent> {
+    throw new Error('createNotionPage is only available for Notion provider');
+  }
+
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: PageUpdateMode, insertAfter?: string): Promise<void> {
+    throw new Error('updateNotionPage is only available for Notion provider');
+  }
+
+  /**
+   * Accepts "12", "#12", "group/project#12" or a full issue URL
+   */
+  private parseTaskId(taskId: string): IssueRef {
+    const trimmed = (taskId || '').trim();
+
+    const urlMatch = trimmed.match(/^https?:\/\/[^/]+\/(.+?)\/-\/issues\/(\d+)/);
+    if (urlMatch) {
+      return { projectId: urlMatch[1] || '', iid: parseInt(urlMatch[2] || '0', 10) };
+    }
+
+    const qualified = trimmed.match(/^([\w.\-/]+)#(\d+)$/);
+    if (qualified) {
+      return { projectId: qualified[1] || '', iid: parseInt(qualified[2] || '0', 10) };
+    }
+
+    const numberOnly = trimmed.match(/^#?(\d+)$/);
+    if (numberOnly) {
+      return { projectId: this.config.projectId, iid: parseInt(numberOnly[1] || '0', 10) };
+    }
+
+    throw new Error(`Invalid GitLab issue reference "${taskId}". Expected an issue IID, group/project#iid or an issue URL`);
+  }
+
+  private projectPath(projectId: string): string {
+    return `/api/v4/projects/${encodeURIComponent(projectId)}`;
+  }
+
+  private mapNote(note: GitLabNote, discussionId: string): TaskComment {
+    return {
+      id: String(note.id),
+      body: note.body,
+      author: note.author?.name || note.author?.username,
+      createdTime: note.created_at,
+      threadId: discussionId,
+      resolved: note.resolvable ? !!note.resolved : undefined
+    };
+  }
+
+  private issuePath(ref: IssueRef): string {
+    return `${this.projectPath(ref.projectId)}/issues/${ref.iid}`;
+  }
+
+  private async fetchIssue(ref: IssueRef): Promise<GitLabIssue> {
+    return await this.rest<GitLabIssue>('GET', this.issuePath(ref));
+  }
+
+  private mapIssueToTask(issue: GitLabIssue): Task {
+    const typeLabel = issue.labels.find(label => this.isTaskTypeLabel(label));
+
+    return {
+      id: String(issue.iid),
+      title: issue.title,
+      status: this.mapIssueStatus(issue),
+      type: typeLabel ? this.normalizeTaskType(this.stripScope(typeLabel)) : 'Unknown',
+      description: issue.description || undefined,
+      url: issue.web_url,
+      createdTime: issue.created_at,
+      lastEditedTime: issue.updated_at,
+      properties: {
+        iid: issue.iid,
+        projectId: issue.project_id,
+        state: issue.state,
+        labels: issue.labels
+      }
+    };
+  }
+
+  /**
+   * The scoped status label wins; a closed issue without one is considered done
+   */
+  private mapIssueStatus(issue: GitLabIssue): string {
+    const statusLabel = issue.labels.find(label => this.isStatusLabel(label));
+    if (statusLabel) {
+      const value = this.stripScope(statusLabel);
+      return this.findStatusLabel(value) || value;
+    }
+
+    const statusMapping = this.workflow?.statusMapping || {};
+    if (issue.state === 'closed') {
+      return statusMapping.done || 'Done';
+    }
+    return this.getDefaultStatusLabel() || 'Open';
+  }
+
+  /**
+   * Swap the scoped status label and close/reopen the issue around the done status
+   */
+  private buildStatusChange(issue: GitLabIssue, status: string, addLabels: string[], removeLabels: string[]): Record<string, any> {
+    const statusLabel = this.workflow?.statusMapping[status] || this.findStatusLabel(status) || status;
+    const newLabel = this.toStatusLabel(statusLabel);
+
+    removeLabels.push(...issue.labels.filter(label => this.isStatusLabel(label) && label !== newLabel));
+    addLabels.push(newLabel);
+
+    const doneLabel = this.workflow?.statusMapping.done;
+    const isDone = !!doneLabel && this.normalizeName(doneLabel) === this.normalizeName(statusLabel);
+    if (isDone && issue.state !== 'closed') return { state_event: 'close' };
+    if (!isDone && issue.state === 'closed') return { state_event: 'reopen' };
+    return {};
+  }
+
+  private toStatusLabel(statusLabel: string): string {
+    const slug = statusLabel.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${this.statusScope}::${slug}`;
+  }
+
+  private isStatusLabel(label: string): boolean {
+    return label.toLowerCase().startsWith(`${this.statusScope.toLowerCase()}::`);
+  }
+
+  private stripScope(label: string): string {
+    const index = label.lastIndexOf('::');
+    return index === -1 ? label : label.slice(index + 2);
+  }
+
+  /**
+   * Match "in-progress", "In Progress" or "inProgress" to the configured status label
+   */
+  private findStatusLabel(value: string): string | undefined {
+    const statusMapping = this.workflow?.statusMapping || {};
+    const normalized = this.normalizeName(value);
+    for (const [key, label] of Object.entries(statusMapping)) {
+      if (this.normalizeName(label) === normalized || this.normalizeName(key) === normalized) {
+        return label;
+      }
+    }
+    return undefined;
+  }
+
+  private normalizeName(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  private getDefaultStatusLabel(): string | undefined {
+    if (!this.workflow) return undefined;
+    return this.workflow.statusMapping[this.workflow.defaultStatus] || this.workflow.defaultStatus;
+  }
+
+  private isTaskTypeLabel(label: string): boolean {
+    if (this.isStatusLabel(label)) return false;
+    const name = this.stripScope(label);
+    return (this.workflow?.taskTypes || []).some(type => type.toLowerCase() === name.toLowerCase());
+  }
+
+  private normalizeTaskType(taskType: string): string {
+    return (this.workflow?.taskTypes || []).find(type => type.toLowerCase() === taskType.toLowerCase()) || taskType;
+  }
+
+  private async rest<T = any>(method: string, path: string, body?: Record<string, any>): Promise<T> {
+    const response = await this.retry.fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'PRIVATE-TOKEN': this.config.token
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = typeof data?.message === 'string' ? data.message : JSON.stringify(data?.message || data?.error || response.statusText);
+      throw errorFromResponse(response.status, `GitLab API error ${response.status} on ${method} ${path}: ${message}`, response.headers);
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,666 @@
+/**
+ * AdfConverter - Convert between markdown and Atlassian Document Format (ADF) used by Jira Cloud REST v3
+ *
+ * Todos are ADF taskList/taskItem nodes. Plain paragraphs or list items starting with "[ ]" / "[x]"
+ * (as produced by most checklist add-ons) are recognised as todos too.
+ */
+
+import { TodoEdit, TodoMatchFailure, TodoPosition, TodoUpdateRequest, TodoUpdateResult } from '../../models/Todo.js';
+import { ValidationError } from '../../types/Errors.js';
+import { MarkdownTodoParser } from '../shared/MarkdownTodoParser.js';
+import { TodoCandidate, TodoMatcher } from '../shared/TodoMatcher.js';
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: AdfNode[];
+  text?: string;
+  marks?: Array<{ type: string; attrs?: Record<string, any> }>;
+}
+
+export interface AdfDocument extends AdfNode {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+const TEXT_CHECKBOX = /^\[( |x|X)\]\s+/;
+
+// A taskItem, or a paragraph starting with a text checkbox, and the node whose content holds it
+interface AdfTodoNode {
+  text: string;
+  node: AdfNode;
+  parent: AdfNode;
+  setChecked: (checked: boolean) => void;
+}
+
+interface AdfTodo extends TodoCandidate {
+  node?: AdfTodoNode;
+  nested: boolean;
+}
+
+export class AdfConverter {
+  private localIdCounter = 0;
+  private todoParser = new MarkdownTodoParser();
+  private todoMatcher = new TodoMatcher();
+
+  emptyDocument(): AdfDocument {
+    return { type: 'doc', version: 1, content: [] };
+  }
+
+  /**
+   * Convert markdown to an ADF document
+   */
+  markdownToAdf(markdown: string): AdfDocument {
+    const doc = this.emptyDocument();
+    const lines = (markdown || '').replace(/\r\n/g, '\n').split('\n');
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i] || '';
+      const trimmed = line.trim();
+
+      if (!trimmed) {
+        i++;
+        continue;
+      }
+
+      const fence = trimmed.match(/^(```|~~~)\s*(\S*)/);
+      if (fence) {
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !(lines[i] || '').trim().startsWith(fence[1] || '```')) {
+          code.push(lines[i] || '');
+          i++;
+        }
+        i++;
+        doc.content.push({
+          type: 'codeBlock',
+          attrs: fence[2] ? { language: fence[2] } : {},
+          content: code.length > 0 ? [{ type: 'text', text: code.join('\n') }] : []
+        });
+        continue;
+      }
+
+      if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+        doc.content.push({ type: 'rule' });
+        i++;
+        continue;
+      }
+
+      const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+      if (heading) {
+        doc.content.push({
+          type: 'heading',
+          attrs: { level: (heading[1] || '#').length },
+          content: this.parseInline(heading[2] || '')
+        });
+        i++;
+        continue;
+      }
+
+      if (trimmed.startsWith('>')) {
+        const quote: string[] = [];
+        while (i < lines.length && (lines[i] || '').trim().startsWith('>')) {
+          quote.push((lines[i] || '').trim().replace(/^>\s?/, ''));
+          i++;
+        }
+        doc.content.push({ type: 'blockquote', content: this.markdownToAdf(quote.join('\n')).content });
+        continue;
+      }
+
+      if (this.isListLine(line)) {
+        const listLines: string[] = [];
+        while (i < lines.length && (this.isListLine(lines[i] || '') || this.isContinuationLine(lines[i] || '', listLines))) {
+          listLines.push(lines[i] || '');
+          i++;
+        }
+        doc.content.push(...this.buildLists(listLines));
+        continue;
+      }
+
+      const paragraph: string[] = [];
+      while (i < lines.length) {
+        const current = (lines[i] || '').trim();
+        if (!current || /^(#{1,6}\s|```|~~~|>)/.test(current) || this.isListLine(lines[i] || '') || /^(-{3,}|\*{3,}|_{3,})$/.test(current)) break;
+        paragraph.push(current);
+        i++;
+      }
+      doc.content.push({ type: 'paragraph', content: this.joinInlineLines(paragraph) });
+    }
+
+    return doc;
+  }
+
+  /**
+   * Convert an ADF document (or fragment) to markdown
+   */
+  adfToMarkdown(node: AdfNode | null | undefined): string {
+    if (!node) return '';
+    return this.renderBlocks(node.content || [], 0).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  /**
+   * Render inline content of a node as markdown text (used for todo matching)
+   */
+  renderInline(nodes: AdfNode[] | undefined): string {
+    return (nodes || []).map(node => {
+      switch (node.type) {
+        case 'text':
+          return this.applyMarks(node.text || '', node.marks);
+        case 'hardBreak':
+          return '\n';
+        case 'mention':
+          return `@${(node.attrs?.text || node.attrs?.id || '').replace(/^@/, '')}`;
+        case 'emoji':
+          return node.attrs?.text || node.attrs?.shortName || '';
+        case 'inlineCard':
+          return node.attrs?.url || '';
+        case 'date':
+          return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+        case 'status':
+          return `[${node.attrs?.text || ''}]`;
+        default:
+          return node.content ? this.renderInline(node.content) : (node.text || '');
+      }
+    }).join('');
+  }
+
+  /**
+   * Set todo states in place. Todos are resolved on the markdown rendering, so todoIds are the markdown todo IDs
+   * returned by analyzeTodos; the n-th markdown todo with a text is the n-th ADF todo with that text.
+   */
+  applyTodoUpdates(doc: AdfDocument, updates: TodoUpdateRequest[]): TodoUpdateResult {
+    const todos = this.mapTodos(doc);
+    const failures: TodoMatchFailure[] = [];
+    let updated = 0;
+
+    for (const update of updates) {
+      const { todo, failure } = this.todoMatcher.match(todos, update);
+      if (!todo?.node) {
+        failures.push(failure || this.todoNotFound(update));
+        continue;
+      }
+      todo.node.setChecked(update.completed);
+      todo.completed = update.completed;
+      updated++;
+    }
+
+    return { updated, failed: failures.length, failures };
+  }
+
+  /**
+   * Add, edit, delete or move a todo in place, so panels, mentions and other nodes the markdown
+   * rendering cannot express survive. Returns the ID of the added, edited or moved todo.
+   */
+  applyTodoEdit(doc: AdfDocument, edit: TodoEdit): string | undefined {
+    const todos = this.mapTodos(doc);
+
+    if (edit.action === 'add') {
+      const item = this.createTaskItem(this.parseInline(edit.text || ''), false);
+      this.insertTodoNodes(doc, todos, edit, [item]);
+      return this.todoIdOf(doc, item);
+    }
+
+    const todo = this.todoNodeOf(this.todoMatcher.resolve(todos, edit));
+    const { node } = todo;
+
+    switch (edit.action) {
+      case 'edit':
+        if (node.type === 'taskItem') {
+          node.content = [...this.parseInline(edit.text || ''), ...(node.content || []).filter(child => child.type === 'taskList')];
+        } else {
+          const checkbox = (node.content?.[0]?.text || '').match(TEXT_CHECKBOX)?.[0] || '[ ] ';
+          node.content = [{ type: 'text', text: checkbox }, ...this.parseInline(edit.text || '')];
+        }
+        return this.todoIdOf(doc, node);
+      case 'delete':
+        this.removeTodoBlock(doc, todo);
+        return undefined;
+      case 'move': {
+        const block = this.todoBlock(todo);
+        const inBlock = (other: AdfTodo) => !!other.node && block.some(blockNode => this.contains(blockNode, other.node!.node));
+        if (edit.afterTodoId && todos.some(other => inBlock(other) && other.id === edit.afterTodoId)) {
+          throw new ValidationError('A todo cannot be moved into its own nested todos', 'afterTodoId');
+        }
+
+        this.removeTodoBlock(doc, todo);
+        const moved = block.map(blockNode => this.toTaskNode(blockNode));
+        this.insertTodoNodes(doc, todos.filter(other => !inBlock(other)), edit, moved);
+        return moved[0] && this.todoIdOf(doc, moved[0]);
+      }
+      default:
+        throw new ValidationError(`Invalid todo action "${edit.action}"`, 'action');
+    }
+  }
+
+  /**
+   * Markdown todos, with their IDs, mapped to the ADF nodes they render from
+   */
+  private mapTodos(doc: AdfDocument): AdfTodo[] {
+    const nodes = this.collectTodoNodes(doc);
+    const seen = new Map<string, number>();
+    return this.todoParser.parseTodos(this.adfToMarkdown(doc), true).map(todo => {
+      const candidate = this.todoMatcher.fromTodoItem(todo);
+      const text = candidate.text.trim();
+      const occurrence = seen.get(text) || 0;
+      seen.set(text, occurrence + 1);
+      return { ...candidate, nested: !!todo.parentId, node: nodes.filter(node => node.text.trim() === text)[occurrence] };
+    });
+  }
+
+  private todoIdOf(doc: AdfDocument, node: AdfNode): string | undefined {
+    return this.mapTodos(doc).find(todo => todo.node?.node === node)?.id;
+  }
+
+  private todoNodeOf(todo: AdfTodo): AdfTodoNode {
+    if (!todo.node) throw new ValidationError(`Todo "${todo.text}" has no matching node in the description`, 'todoId');
+    return todo.node;
+  }
+
+  /**
+   * A todo and its nested todos: a taskList right after a taskItem holds its subtasks
+   */
+  private todoBlock(todo: AdfTodoNode): AdfNode[] {
+    const siblings = todo.parent.content || [];
+    const next = siblings[siblings.indexOf(todo.node) + 1];
+    return todo.parent.type === 'taskList' && next?.type === 'taskList' ? [todo.node, next] : [todo.node];
+  }
+
+  /**
+   * Remove a todo block, and the task lists it leaves empty
+   */
+  private removeTodoBlock(doc: AdfDocument, todo: AdfTodoNode): void {
+    const block = this.todoBlock(todo);
+    let parent: AdfNode | undefined = todo.parent;
+    parent.content = (parent.content || []).filter(node => !block.includes(node));
+
+    while (parent && parent.type === 'taskList' && (parent.content || []).length === 0) {
+      const emptied: AdfNode = parent;
+      parent = this.parentOf(doc, emptied);
+      if (parent) parent.content = (parent.content || []).filter(node => node !== emptied);
+    }
+  }
+
+  /**
+   * Insert task nodes after the afterTodoId todo, after the last top-level todo of the section or the description,
+   * or as a new task list at the end of the section or the description
+   */
+  private insertTodoNodes(doc: AdfDocument, todos: AdfTodo[], position: TodoPosition, nodes: AdfNode[]): void {
+    let after: AdfTodoNode | undefined;
+    let index = doc.content.length;
+
+    if (position.afterTodoId) {
+      after = this.todoNodeOf(this.todoMatcher.resolve(todos, { todoId: position.afterTodoId }));
+    } else {
+      let from = 0;
+      if (position.section) {
+        const section = this.findSection(doc, position.section);
+        from = section.start + 1;
+        index = section.end;
+      }
+      const inRange = todos.filter(todo => {
+        if (todo.nested || !todo.node) return false;
+        const block = this.topLevelIndex(doc, todo.node.node);
+        return block >= from && block < index;
+      });
+      after = inRange[inRange.length - 1]?.node;
+    }
+
+    if (!after) {
+      doc.content.splice(index, 0, this.createTaskList(nodes));
+      return;
+    }
+
+    const siblings = after.parent.content || [];
+    if (after.parent.type === 'taskList') {
+      const block = this.todoBlock(after);
+      siblings.splice(siblings.indexOf(block[block.length - 1] as AdfNode) + 1, 0, ...nodes);
+    } else {
+      // A text checkbox paragraph: the todos go in a task list right after it
+      siblings.splice(siblings.indexOf(after.node) + 1, 0, this.createTaskList(nodes));
+    }
+    after.parent.content = siblings;
+  }
+
+  /**
+   * Top-level heading matching the section text (exact first, then partial, case-insensitive) and the index after its section
+   */
+  private findSection(doc: AdfDocument, section: string): { start: number; end: number } {
+    const headings = doc.content
+      .map((node, index) => ({ node, index, text: this.renderInline(node.content) }))
+      .filter(heading => heading.node.type === 'heading');
+
+    const target = section.trim().toLowerCase();
+    const match = headings.find(heading => heading.text.trim().toLowerCase() === target)
+      || headings.find(heading => heading.text.toLowerCase().includes(target));
+    if (!match) {
+      const available = headings.map(heading => heading.text).join(', ') || 'none';
+      throw new ValidationError(`Section "${section}" not found. Available: ${available}`, 'section');
+    }
+
+    const level = (node: AdfNode) => node.attrs?.level || 1;
+    const next = headings.find(heading => heading.index > match.index && level(heading.node) <= level(match.node));
+    return { start: match.index, end: next ? next.index : doc.content.length };
+  }
+
+  /**
+   * Text checkbox paragraphs become taskItems when moved into a task list
+   */
+  private toTaskNode(node: AdfNode): AdfNode {
+    if (node.type !== 'paragraph') return node;
+    const [first, ...rest] = node.content || [];
+    const checked = (first?.text || '').match(TEXT_CHECKBOX)?.[1] !== ' ';
+    const text = (first?.text || '').replace(TEXT_CHECKBOX, '');
+    return this.createTaskItem(text ? [{ ...first, type: 'text', text }, ...rest] : rest, checked);
+  }
+
+  private createTaskItem(content: AdfNode[], checked: boolean): AdfNode {
+    return { type: 'taskItem', attrs: { localId: this.nextLocalId(), state: checked ? 'DONE' : 'TODO' }, content };
+  }
+
+  private createTaskList(content: AdfNode[]): AdfNode {
+    return { type: 'taskList', attrs: { localId: this.nextLocalId() }, content };
+  }
+
+  private topLevelIndex(doc: AdfDocument, node: AdfNode): number {
+    return doc.content.findIndex(block => this.contains(block, node));
+  }
+
+  private contains(root: AdfNode, node: AdfNode): boolean {
+    return root === node || (root.content || []).some(child => this.contains(child, node));
+  }
+
+  private parentOf(root: AdfNode, node: AdfNode): AdfNode | undefined {
+    for (const child of root.content || []) {
+      if (child === node) return root;
+      const parent = this.parentOf(child, node);
+      if (parent) return parent;
+    }
+    return undefined;
+  }
+
+  private todoNotFound(update: TodoUpdateRequest): TodoMatchFailure {
+    return { todoId: update.todoId, todoText: update.todoText, reason: 'not_found', candidates: [] };
+  }
+
+  private collectTodoNodes(root: AdfNode): AdfTodoNode[] {
+    const todos: AdfTodoNode[] = [];
+
+    const visit = (node: AdfNode, parent: AdfNode) => {
+      if (node.type === 'taskItem') {
+        const inline = (node.content || []).filter(child => child.type !== 'taskList');
+        todos.push({
+          text: this.renderInline(inline),
+          node,
+          parent,
+          setChecked: checked => {
+            node.attrs = { ...(node.attrs || {}), state: checked ? 'DONE' : 'TODO' };
+          }
+        });
+      } else if (node.type === 'paragraph') {
+        const first = node.content?.[0];
+        if (first?.type === 'text' && TEXT_CHECKBOX.test(first.text || '')) {
+          todos.push({
+            text: this.renderInline(node.content).replace(TEXT_CHECKBOX, ''),
+            node,
+            parent,
+            setChecked: checked => {
+              first.text = (first.text || '').replace(TEXT_CHECKBOX, checked ? '[x] ' : '[ ] ');
+            }
+          });
+        }
+      }
+      for (const child of node.content || []) visit(child, node);
+    };
+
+    for (const child of root.content || []) visit(child, root);
+    return todos;
+  }
+
+  private renderBlocks(nodes: AdfNode[], depth: number): string[] {
+    const blocks: string[] = [];
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'paragraph':
+          blocks.push(this.renderTextCheckbox(this.renderInline(node.content)));
+          break;
+        case 'heading':
+          blocks.push(`${'#'.repeat(Math.min(Math.max(node.attrs?.level || 1, 1), 6))} ${this.renderInline(node.content)}`);
+          break;
+        case 'bulletList':
+        case 'orderedList':
+        case 'taskList':
+          blocks.push(this.renderList(node, depth).join('\n'));
+          break;
+        case 'codeBlock':
+          blocks.push(`\`\`\`${node.attrs?.language || ''}\n${this.renderInline(node.content)}\n\`\`\``);
+          break;
+        case 'blockquote':
+          blocks.push(this.renderBlocks(node.content || [], depth).join('\n\n').split('\n').map(line => `> ${line}`).join('\n'));
+          break;
+        case 'rule':
+          blocks.push('---');
+          break;
+        case 'panel':
+        case 'expand':
+        case 'nestedExpand':
+        case 'layoutSection':
+        case 'layoutColumn':
+          blocks.push(...this.renderBlocks(node.content || [], depth));
+          break;
+        case 'table':
+          blocks.push(this.renderTable(node));
+          break;
+        default:
+          if (node.content) blocks.push(...this.renderBlocks(node.content, depth));
+      }
+    }
+
+    return blocks.filter(block => block.length > 0);
+  }
+
+  private renderList(list: AdfNode, depth: number): string[] {
+    const lines: string[] = [];
+    const indent = '  '.repeat(depth);
+    let number = list.attrs?.order || 1;
+
+    for (const item of list.content || []) {
+      // Nested task lists appear as siblings of taskItems
+      if (item.type === 'taskList' || item.type === 'bulletList' || item.type === 'orderedList') {
+        lines.push(...this.renderList(item, depth + 1));
+        continue;
+      }
+
+      const children = item.content || [];
+      if (item.type === 'taskItem') {
+        const inline = children.filter(child => child.type !== 'taskList');
+        const checked = item.attrs?.state === 'DONE' ? 'x' : ' ';
+        lines.push(`${indent}- [${checked}] ${this.renderInline(inline)}`);
+        for (const nested of children.filter(child => child.type === 'taskList')) {
+          lines.push(...this.renderList(nested, depth + 1));
+        }
+        continue;
+      }
+
+      const marker = list.type === 'orderedList' ? `${number++}.` : '-';
+      const [first, ...rest] = children;
+      const firstText = first?.type === 'paragraph' ? this.renderInline(first.content) : '';
+      lines.push(`${indent}${marker} ${firstText}`);
+      for (const child of first?.type === 'paragraph' ? rest : children) {
+        if (child.type === 'bulletList' || child.type === 'orderedList' || child.type === 'taskList') {
+          lines.push(...this.renderList(child, depth + 1));
+        } else {
+          lines.push(...this.renderBlocks([child], depth + 1).map(block => `${indent}  ${block}`));
+        }
+      }
+    }
+
+    return lines;
+  }
+
+  private renderTable(table: AdfNode): string {
+    const rows = (table.content || []).map(row =>
+      (row.content || []).map(cell => this.renderBlocks(cell.content || [], 0).join(' ').replace(/\|/g, '\\|').replace(/\n/g, ' '))
+    );
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map(row => row.length));
+    const lines = rows.map(row => `| ${[...row, ...Array(width - row.length).fill('')].join(' | ')} |`);
+    lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+    return lines.join('\n');
+  }
+
+  private renderTextCheckbox(text: string): string {
+    const match = text.match(TEXT_CHECKBOX);
+    return match ? `- [${match[1] === ' ' ? ' ' : 'x'}] ${text.replace(TEXT_CHECKBOX, '')}` : text;
+  }
+
+  private applyMarks(text: string, marks: AdfNode['marks']): string {
+    let result = text;
+    for (const mark of marks || []) {
+      switch (mark.type) {
+        case 'code':
+          result = `\`${result}\``;
+          break;
+        case 'strong':
+          result = `**${result}**`;
+          break;
+        case 'em':
+          result = `*${result}*`;
+          break;
+        case 'strike':
+          result = `~~${result}~~`;
+          break;
+        case 'link':
+          result = `[${result}](${mark.attrs?.href || ''})`;
+          break;
+      }
+    }
+    return result;
+  }
+
+  private isListLine(line: string): boolean {
+    return /^\s*([-*+]|\d+[.)])\s+/.test(line);
+  }
+
+  private isContinuationLine(line: string, listLines: string[]): boolean {
+    return listLines.length > 0 && /^\s{2,}\S/.test(line) && !this.isListLine(line);
+  }
+
+  /**
+   * Build ADF lists from markdown list lines, nesting by indentation
+   */
+  private buildLists(lines: string[]): AdfNode[] {
+    const items = lines
+      .filter(line => this.isListLine(line))
+      .map(line => {
+        const match = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+        const indent = (match?.[1] || '').replace(/\t/g, '    ').length;
+        const marker = match?.[2] || '-';
+        let text = match?.[3] || '';
+        const checkbox = text.match(/^\[( |x|X)\]\s+(.*)$/);
+        let kind: 'taskList' | 'bulletList' | 'orderedList' = /\d/.test(marker) ? 'orderedList' : 'bulletList';
+        let checked = false;
+        if (checkbox) {
+          kind = 'taskList';
+          checked = checkbox[1] !== ' ';
+          text = checkbox[2] || '';
+        }
+        return { indent, kind, checked, text };
+      });
+
+    const roots: AdfNode[] = [];
+    const stack: Array<{ indent: number; list: AdfNode; lastItem?: AdfNode }> = [];
+
+    for (const item of items) {
+      while (stack.length > 0 && (stack[stack.length - 1]?.indent ?? 0) > item.indent) {
+        stack.pop();
+      }
+
+      let top = stack[stack.length - 1];
+      if (!top || top.indent < item.indent || top.list.type !== item.kind) {
+        const list: AdfNode = { type: item.kind, attrs: item.kind === 'taskList' ? { localId: this.nextLocalId() } : undefined, content: [] };
+        if (top && top.indent === item.indent) stack.pop();
+        const parent = stack[stack.length - 1];
+
+        if (parent && parent.indent < item.indent && parent.lastItem) {
+          // Nested lists go directly inside a parent taskList, other lists nest inside the list item
+          if (parent.list.type === 'taskList') {
+            parent.list.content?.push(list);
+          } else {
+            parent.lastItem.content?.push(list);
+          }
+        } else {
+          roots.push(list);
+        }
+        top = { indent: item.indent, list };
+        stack.push(top);
+      }
+
+      const node: AdfNode = item.kind === 'taskList'
+        ? { type: 'taskItem', attrs: { localId: this.nextLocalId(), state: item.checked ? 'DONE' : 'TODO' }, content: this.parseInline(item.text) }
+        : { type: 'listItem', content: [{ type: 'paragraph', content: this.parseInline(item.text) }] };
+      top.list.content?.push(node);
+      top.lastItem = node;
+    }
+
+    for (const list of roots) this.stripEmptyAttrs(list);
+    return roots;
+  }
+
+  private stripEmptyAttrs(node: AdfNode): void {
+    if (node.attrs === undefined) delete node.attrs;
+    for (const child of node.content || []) this.stripEmptyAttrs(child);
+  }
+
+  private joinInlineLines(lines: string[]): AdfNode[] {
+    const content: AdfNode[] = [];
+    lines.forEach((line, index) => {
+      if (index > 0) content.push({ type: 'hardBreak' });
+      content.push(...this.parseInline(line));
+    });
+    return content;
+  }
+
+  /**
+   * Parse inline markdown (links, code, bold, italic, strike) into ADF text nodes with marks
+   */
+  parseInline(text: string): AdfNode[] {
+    if (!text) return [];
+    const nodes: AdfNode[] = [];
+    const pattern = /\[([^\]]+)\]\(([^)\s]+)\)|`([^`]+)`|\*\*\*([^*]+)\*\*\*|\*\*([^*]+)\*\*|~~([^~]+)~~|\*([^*]+)\*|_([^_]+)_/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      if (match.index > lastIndex) {
+        nodes.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+      }
+      if (match[1] !== undefined) {
+        nodes.push({ type: 'text', text: match[1], marks: [{ type: 'link', attrs: { href: match[2] } }] });
+      } else if (match[3] !== undefined) {
+        nodes.push({ type: 'text', text: match[3], marks: [{ type: 'code' }] });
+      } else if (match[4] !== undefined) {
+        nodes.push({ type: 'text', text: match[4], marks: [{ type: 'strong' }, { type: 'em' }] });
+      } else if (match[5] !== undefined) {
+        nodes.push({ type: 'text', text: match[5], marks: [{ type: 'strong' }] });
+      } else if (match[6] !== undefined) {
+        nodes.push({ type: 'text', text: match[6], marks: [{ type: 'strike' }] });
+      } else {
+        nodes.push({ type: 'text', text: match[7] ?? match[8] ?? '', marks: [{ type: 'em' }] });
+      }
+      lastIndex = match.index + match[0].length;
+    }
+
+    if (lastIndex < text.length) {
+      nodes.push({ type: 'text', text: text.slice(lastIndex) });
+    }
+    return nodes;
+  }
+
+  private nextLocalId(): string {
+    this.localIdCounter++;
+    return `vc4pm-${Date.now().toString(36)}-${this.localIdCounter}`;
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * JiraProvider - Task provider backed by Jira Cloud issues through the REST v3 API
+ *
+ * Issues are tasks, statuses are changed through Jira transitions matched against the configured
+ * statusMapping, issue types carry the task type and todos are ADF task lists in the description.
+ */
+
+import { TaskProvider } from '../../interfaces/TaskProvider.js';
+import { Task, TaskRelationType } from '../../models/Task.js';
+import { TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoEdit } from '../../models/Todo.js';
+import { PageContent, LinkedPage, PageUpdateMode } from '../../models/Page.js';
+import { WorkflowConfig } from '../../models/Workflow.js';
+import { MarkdownTodoParser } from '../shared/MarkdownTodoParser.js';
+import { RetryPolicy, RetryOptions } from '../shared/RetryPolicy.js';
+import { errorFromResponse, wrapProviderError } from '../shared/ProviderErrors.js';
+import { AdfConverter, AdfDocument } from './AdfConverter.js';
+
+// Fallback when a Jira status name does not match any configured status label
+const STATUS_CATEGORY_TO_STATUS_KEY: Record<string, string> = {
+  new: 'notStarted',
+  indeterminate: 'inProgress',
+  done: 'done'
+};
+
+const ISSUE_FIELDS = 'summary,status,issuetype,description,created,updated,issuelinks,subtasks,parent';
+const BLOCKS_LINK_TYPE = 'Blocks';
+
+export interface JiraProviderConfig {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  projectKey: string;
+  issueTypeMapping?: Record<string, string>;
+  transitionMapping?: Record<string, string>;
+  retry?: RetryOptions;
+}
+
+interface JiraIssue {
+  id: string;
+  key: string;
+  fields: {
+    summary: string;
+    description?: AdfDocument | null;
+    status?: { name: string; statusCategory?: { key: string } };
+    issuetype?: { name: string };
+    created: string;
+    updated: string;
+    issuelinks?: Array<{
+      type?: { name?: string; outward?: string; inward?: string };
+      outwardIssue?: { key: string; fields?: { summary?: string } };
+      inwardIssue?: { key: string; fields?: { summary?: string } };
+    }>;
+    subtasks?: Array<{ key: string; fields?: { summary?: string } }>;
+    parent?: { key: string } | null;
+  };
+}
+
+interface JiraTransition {
+  id: string;
+  name: string;
+  to: { name: string; statusCategory?: { key: string } };
+}
+
+export class JiraProvider implements TaskProvider {
+  private baseUrl: string;
+  private adf = new AdfConverter();
+  private todoParser = new MarkdownTodoParser();
+  private retry: RetryPolicy;
+
+  constructor(private config: JiraProviderConfig, private workflow?: WorkflowConfig) {
+    if (!config.baseUrl) {
+      throw new Error('Jira base URL is required in .vc4pm/config.json (providers.available.jira.config.baseUrl)');
+    }
+    if (!config.email || !config.apiToken) {
+      throw new Error('Jira email and API token are required in .vc4pm/config.json (providers.available.jira.config)');
+    }
+    if (!config.projectKey) {
+      throw new Error('Jira project key is required in .vc4pm/config.json (providers.available.jira.config.projectKey)');
+    }
+    this.baseUrl = config.baseUrl.replace(/\/$/, '');
+    this.retry = new RetryPolicy(config.retry);
+  }
+
+  getProviderName(): string {
+    return 'Jira Cloud';
+  }
+
+  getProviderType(): string {
+    return 'jira';
+  }
+
+  async getTask(taskId: string): Promise<Task> {
+    try {
+      return this.mapIssueToTask(await this.fetchIssue(taskId));
+    } catch (error) {
+      throw wrapProviderError(`Failed to get task`, error);
+    }
+  }
+
+  async createTask(title: string, taskType: string, description: string): Promise<Task> {
+    if (!title || title.trim().length === 0) {
+      throw new Error('Title is required and cannot be empty');
+    }
+    if (!taskType || taskType.trim().length === 0) {
+      throw new Error('Task type is required and cannot be empty');
+    }
+
+    try {
+      const created = await this.rest<{ id: string; key: string }>('POST', '/rest/api/3/issue', {
+        fields: {
+          project: { key: this.config.projectKey },
+          summary: title,
+          issuetype: { name: this.toIssueType(taskType) },
+          description: this.adf.markdownToAdf(description || '')
+        }
+      });
+
+      return this.mapIssueToTask(await this.fetchIssue(created.key));
+    } catch (error) {
+      throw wrapProviderError(`Failed to create task`, error);
+    }
+  }
+
+  async updateTask(taskId: string, updates: { title?: string; taskType?: string; status?: string }): Promise<void> {
+    try {
+      const fields: Record<string, any> = {};
+      if (updates.title) {
+        fields.summary = updates.title;
+      }
+      if (updates.taskType) {
+        fields.issuetype = { name: this.toIssueType(updates.taskType) };
+      }
+
+      if (Object.keys(fields).length > 0) {
+        await this.rest('PUT', `/rest/api/3/issue/${encodeURIComponent(taskId)}`, { fields });
+      }
+
+      if (updates.status) {
+        await this.transitionTo(taskId, updates.status);
+      }
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task`, error);
+    }
+  }
+
+  async updateTaskStatus(taskId: string, status: string): Promise<void> {
+    try {
+      await this.transitionTo(taskId, status);
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task status`, error);
+    }
+  }
+
+  /**
+   * Parent through the parent field (sub-tasks, or epics in team-managed projects), blockers through "Blocks" links
+   */
+  async linkTask(taskId: string, relatedTaskId: string, relation: TaskRelationType): Promise<void> {
+    try {
+      if (relation === 'parent') {
+        await this.rest('PUT', `/rest/api/3/issue/${encodeURIComponent(taskId)}`, { fields: { parent: { key: relatedTaskId } } });
+        return;
+      }
+
+      // Jira reads a created link as "inwardIssue blocks outwardIssue"
+      await this.rest('POST', '/rest/api/3/issueLink', {
+        type: { name: BLOCKS_LINK_TYPE },
+        inwardIssue: { key: relatedTaskId },
+        outwardIssue: { key: taskId }
+      });
+    } catch (error) {
+      throw wrapProviderError(`Failed to link task`, error);
+    }
+  }
+
+  async analyzeTodos(taskId: string, includeHierarchy: boolean = false): Promise<TodoAnalysisResult> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const markdown = this.adf.adfToMarkdown(issue.fields.description);
+      return this.todoParser.analyze(markdown, includeHierarchy, issue.fields.summary);
+    } catch (error) {
+      throw wrapProviderError(`Failed to analyze todos`, error);
+    }
+  }
+
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const description = issue.fields.description || this.adf.emptyDocument();
+      const result = this.adf.applyTodoUpdates(description, updates);
+
+      if (result.updated > 0) {
+        await this.rest('PUT', `/rest/api/3/issue/${encodeURIComponent(issue.key)}`, { fields: { description } });
+      }
+
+      return result;
+    } catch (error) {
+      throw wrapProviderError(`Failed to update todos`, error);
+    }
+  }
+
+  async updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean> {
+    const result = await this.updateTodos(taskId, [{ todoText, completed }]);
+    return result.updated > 0;
+  }
+
+  /**
+   * Edit the ADF task list in place, keeping the rest of the description as is
+   */
+  async editTodo(taskId: string, edit: TodoEdit): Promise<string | undefined> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const description = issue.fields.description || this.adf.emptyDocument();
+      const todoId = this.adf.applyTodoEdit(description, edit);
+      await this.rest('PUT', `/rest/api/3/issue/${encodeURIComponent(issue.key)}`, { fields: { description } });
+      return todoId;
+    } catch (error) {
+      throw wrapProviderError(`Failed to edit todo`, error);
+    }
+  }
+
+  /**
+   * Append markdown to the issue description (converted to ADF nodes)
+   */
+  async appendToTask(taskId: string, content: string): Promise<void> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const description = issue.fields.description || this.adf.emptyDocument();
+      description.content.push(...this.adf.markdownToAdf(content).content);
+      await this.rest('PUT', `/rest/api/3/issue/${encodeURIComponent(issue.key)}`, { fields: { description } });
+    } catch (error) {
+      throw wrapProviderError(`Failed to append content to task`, error);
+    }
+  }
+
+  /**
+   * Read an issue as a page: description as content, sub-tasks and issue links as linked pages
+   */
+  async readPage(pageId: string, includeLinkedPages: boolean = true): Promise<PageContent> {
+    try {
+      const issue = await this.fetchIssue(pageId);
+      const linkedPages: LinkedPage[] = [];
+
+      if (includeLinkedPages) {
+        for (const subtask of issue.fields.subtasks || []) {
+          linkedPages.push({
+            id: subtask.key,
+            title: `${subtask.key} ${subtask.fields?.summary || ''}`.trim(),
+            url: this.browseUrl(subtask.key),
+            relationshipType: 'child'
+          });
+        }
+        for (const link of issue.fields.issuelinks || []) {
+          const linked = link.outwardIssue || link.inwardIssue;
+          if (!linked) continue;
+          linkedPages.push({
+            id: linked.key,
+            title: `${linked.key} ${linked.fields?.summary || ''}`.trim(),
+            url: this.browseUrl(linked.key),
+            relationshipType: 'relation'
+          });
+        }
+      }
+
+      return {
+        id: issue.key,
+        title: issue.fields.summary,
+        url: this.browseUrl(issue.key),
+        content: this.adf.adfToMarkdown(issue.fields.description),
+        linkedPages,
+        lastEdited: new Date(issue.fields.updated),
+        createdTime: new Date(issue.fields.created)
+      };
+    } catch (error) {
+      throw wrapProviderError(`Failed to read Jira issue`, error);
+    }
+  }
+
+  async createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>): Promise<PageContent> {
+    throw new Error('createNotionPage is only available for Notion provider');
+  }
+
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: PageUpdateMode, insertAfter?: string): Promise<void> {
+    throw new Error('updateNotionPage is only available for Notion provider');
+  }
+
+  private async fetchIssue(taskId: string): Promise<JiraIssue> {
+    return await this.rest<JiraIssue>('GET', `/rest/api/3/issue/${encodeURIComponent(taskId)}?fields=${ISSUE_FIELDS}`);
+  }
+
+  private mapIssueToTask(issue: JiraIssue): Task {
+    const childIds = (issue.fields.subtasks || []).map(subtask => subtask.key);
+    // On the blocked issue, the blocking issue is the inward side of a "Blocks" link
+    const blockedBy = (issue.fields.issuelinks || [])
+      .filter(link => link.type?.name === BLOCKS_LINK_TYPE && link.inwardIssue)
+      .map(link => link.inwardIssue!.key);
+
+    return {
+      id: issue.key,
+      title: issue.fields.summary,
+      status: this.mapStatus(issue.fields.status),
+      type: issue.fields.issuetype ? this.fromIssueType(issue.fields.issuetype.name) : 'Unknown',
+      description: this.adf.adfToMarkdown(issue.fields.description) || undefined,
+      parentId: issue.fields.parent?.key,
+      childIds: childIds.length > 0 ? childIds : undefined,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+      url: this.browseUrl(issue.key),
+      createdTime: issue.fields.created,
+      lastEditedTime: issue.fields.updated,
+      properties: {
+        jiraId: issue.id,
+        jiraStatus: issue.fields.status?.name,
+        issueType: issue.fields.issuetype?.name
+      }
+    };
+  }
+
+  /**
+   * Map a Jira status to the configured status label: name first, then status category
+   */
+  private mapStatus(status?: JiraIssue['fields']['status']): string {
+    if (!status) return 'Unknown';
+    const statusMapping = this.workflow?.statusMapping || {};
+
+    const byName = Object.values(statusMapping).find(label => label.toLowerCase() === status.name.toLowerCase());
+    if (byName) return byName;
+
+    const fallbackKey = status.statusCategory ? STATUS_CATEGORY_TO_STATUS_KEY[status.statusCategory.key] : undefined;
+    if (fallbackKey && statusMapping[fallbackKey]) {
+      return statusMapping[fallbackKey];
+    }
+    return status.name;
+  }
+
+  /**
+   * Jira statuses can only change through workflow transitions available from the current status.
+   * The transition is picked from transitionMapping (status key → transition name), then by target status name,
+   * then by target status category.
+   */
+  private async transitionTo(taskId: string, status: string): Promise<void> {
+    const statusKey = this.getStatusKey(status);
+    const statusLabel = statusKey ? (this.workflow?.statusMapping[statusKey] || status) : status;
+
+    const data = await this.rest<{ transitions: JiraTransition[] }>('GET', `/rest/api/3/issue/${encodeURIComponent(taskId)}/transitions`);
+    const transitions = data.transitions || [];
+
+    const mappedName = statusKey ? this.config.transitionMapping?.[statusKey] : undefined;
+    const transition =
+      (mappedName && transitions.find(t => t.name.toLowerCase() === mappedName.toLowerCase())) ||
+      transitions.find(t => t.to.name.toLowerCase() === statusLabel.toLowerCase()) ||
+      transitions.find(t => t.name.toLowerCase() === statusLabel.toLowerCase()) ||
+      (statusKey ? transitions.find(t => t.to.statusCategory && STATUS_CATEGORY_TO_STATUS_KEY[t.to.statusCategory.key] === statusKey) : undefined);
+
+    if (!transition) {
+      const available = transitions.map(t => `${t.name} → ${t.to.name}`).join(', ') || 'none';
+      throw new Error(`No Jira transition from the current status leads to "${statusLabel}". Available transitions: ${available}`);
+    }
+
+    await this.rest('POST', `/rest/api/3/issue/${encodeURIComponent(taskId)}/transitions`, { transition: { id: transition.id } });
+  }
+
+  private getStatusKey(status: string): string | undefined {
+    const statusMapping = this.workflow?.statusMapping || {};
+    if (statusMapping[status]) return status;
+    for (const [key, value] of Object.entries(statusMapping)) {
+      if (value.toLowerCase() === status.toLowerCase()) return key;
+    }
+    return undefined;
+  }
+
+  private toIssueType(taskType: string): string {
+    const normalized = (this.workflow?.taskTypes || []).find(type => type.toLowerCase() === taskType.toLowerCase()) || taskType;
+    return this.config.issueTypeMapping?.[normalized] || normalized;
+  }
+
+  private fromIssueType(issueType: string): string {
+    const mapped = Object.entries(this.config.issueTypeMapping || {})
+      .find(([, jiraType]) => jiraType.toLowerCase() === issueType.toLowerCase())?.[0];
+    if (mapped) return mapped;
+    return (this.workflow?.taskTypes || []).find(type => type.toLowerCase() === issueType.toLowerCase()) || issueType;
+  }
+
+  private browseUrl(key: string): string {
+    return `${this.baseUrl}/browse/${key}`;
+  }
+
+  private async rest<T = any>(method: string, path: string, body?: Record<string, any>): Promise<T> {
+    const auth = Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString('base64');
+    const response = await this.retry.fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    // Transitions and updates answer 204 No Content
+    const text = await response.text();
+    const data: any = this.parseJson(text);
+
+    if (!response.ok) {
+      const messages = [...(data?.errorMessages || []), ...Object.values(data?.errors || {})];
+      throw errorFromResponse(response.status, `Jira API error ${response.status} on ${method} ${path.split('?')[0]}: ${messages.join('; ') || response.statusText}`, response.headers);
+    }
+    return data as T;
+  }
+
+  private parseJson(text: string): any {
+    if (!text) return null;
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return null;
+    }
+  }
+}
@@ -1,62 +1,538 @@
+/**
+ * LinearProvider - Task provider backed by Linear issues through the GraphQL API
+ *
+ * Issues are tasks, workflow states map to the configured statusMapping labels,
+ * labels carry the task type and todos live as markdown task lists in the issue description.
+ */
+
 import { TaskProvider } from '../../interfaces/TaskProvider.js';
-import { Task } from '../../models/Task.js';
-import { TodoAnalysisResult, TodoUpdateRequest } from '../../models/Todo.js';
-import { PageContent } from '../../models/Page.js';
+import { Task, TaskRelationType } from '../../models/Task.js';
+import { TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoEdit } from '../../models/Todo.js';
+import { PageContent, LinkedPage, PageUpdateMode } from '../../models/Page.js';
+import { WorkflowConfig } from '../../models/Workflow.js';
+import { MarkdownTodoParser } from '../shared/MarkdownTodoParser.js';
+import { RetryPolicy, RetryOptions } from '../shared/RetryPolicy.js';
+import { errorFromResponse, wrapProviderError } from '../shared/ProviderErrors.js';
+
+const DEFAULT_API_URL = 'https://api.linear.app/graphql';
+
+// Fallback when a Linear state name does not match any configured status label
+const STATE_TYPE_TO_STATUS_KEY: Record<string, string> = {
+  triage: 'notStarted',
+  backlog: 'notStarted',
+  unstarted: 'notStarted',
+  started: 'inProgress',
+  completed: 'done',
+  canceled: 'done'
+};
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  description
+  url
+  createdAt
+  updatedAt
+  state { id name type }
+  labels { nodes { id name } }
+  parent { id }
+  children { nodes { id } }
+  inverseRelations { nodes { type issue { id } } }
+`;
+
+interface LinearState {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface LinearLabel {
+  id: string;
+  name: string;
+}
+
+interface LinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string | null;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  state?: LinearState | null;
+  labels?: { nodes: LinearLabel[] };
+  parent?: { id: string } | null;
+  children?: { nodes: Array<{ id: string }> };
+  inverseRelations?: { nodes: Array<{ type: string; issue: { id: string } }> };  // Relations pointing at this issue
+}
 
 export class LinearProvider implements TaskProvider {
-  constructor(private config: { apiKey: string; teamId: string }) {
-    // Linear API initialization would go here
+  private apiUrl: string;
+  private todoParser = new MarkdownTodoParser();
+  private states: LinearState[] | null = null;
+  private labels: LinearLabel[] | null = null;
+  private retry: RetryPolicy;
+
+  constructor(private config: { apiKey: string; teamId: string; apiUrl?: string; retry?: RetryOptions }, private workflow?: WorkflowConfig) {
+    if (!config.apiKey) {
+      throw new Error('Linear API key is required in .vc4pm/config.json (providers.available.linear.config.apiKey)');
+    }
+    if (!config.teamId) {
+      throw new Error('Linear team ID is required in .vc4pm/config.json (providers.available.linear.config.teamId)');
+    }
+    this.apiUrl = config.apiUrl || DEFAULT_API_URL;
+    this.retry = new RetryPolicy(config.retry, undefined, response => this.classifyResponse(response));
+  }
+
+  getProviderName(): string {
+    return 'Linear';
+  }
+
+  getProviderType(): string {
+    return 'linear';
   }
 
+  /**
+   * Retrieve an issue by UUID or identifier (e.g. ENG-123)
+   */
   async getTask(taskId: string): Promise<Task> {
-    throw new Error('Linear provider not implemented yet');
+    try {
+      const issue = await this.fetchIssue(taskId);
+      return this.mapIssueToTask(issue);
+    } catch (error) {
+      throw wrapProviderError(`Failed to get task`, error);
+    }
   }
 
   async createTask(title: string, taskType: string, description: string): Promise<Task> {
-    throw new Error('Linear provider not implemented yet');
+    if (!title || title.trim().length === 0) {
+      throw new Error('Title is required and cannot be empty');
+    }
+    if (!taskType || taskType.trim().length === 0) {
+      throw new Error('Task type is required and cannot be empty');
+    }
+
+    try {
+      const label = await this.findOrCreateLabel(taskType);
+      const input: Record<string, any> = {
+        teamId: this.config.teamId,
+        title,
+        description: description || '',
+        labelIds: [label.id]
+      };
+
+      const defaultStatus = this.getDefaultStatusLabel();
+      if (defaultStatus) {
+        const state = await this.findState(defaultStatus);
+        if (state) input.stateId = state.id;
+      }
+
+      const data = await this.request<{ issueCreate: { success: boolean; issue: LinearIssue } }>(
+        `mutation CreateIssue($input: IssueCreateInput!) {
+          issueCreate(input: $input) { success issue { ${ISSUE_FIELDS} } }
+        }`,
+        { input }
+      );
+
+      if (!data.issueCreate.success || !data.issueCreate.issue) {
+        throw new Error('Linear did not confirm issue creation');
+      }
+      return this.mapIssueToTask(data.issueCreate.issue);
+    } catch (error) {
+      throw wrapProviderError(`Failed to create task`, error);
+    }
   }
 
   async updateTask(taskId: string, updates: { title?: string; taskType?: string; status?: string }): Promise<void> {
-    throw new Error('Linear provider not implemented yet');
+    try {
+      const input: Record<string, any> = {};
+
+      if (updates.title) {
+        input.title = updates.title;
+      }
+
+      if (updates.taskType) {
+        const issue = await this.fetchIssue(taskId);
+        const label = await this.findOrCreateLabel(updates.taskType);
+        // Replace any existing task type label, keep unrelated labels untouched
+        const keptLabelIds = (issue.labels?.nodes || [])
+          .filter(existing => !this.isTaskTypeLabel(existing.name))
+          .map(existing => existing.id);
+        input.labelIds = [...keptLabelIds, label.id];
+      }
+
+      if (updates.status) {
+        input.stateId = (await this.requireState(updates.status)).id;
+      }
+
+      if (Object.keys(input).length === 0) return;
+      await this.updateIssue(taskId, input);
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task`, error);
+    }
   }
 
   async updateTaskStatus(taskId: string, status: string): Promise<void> {
-    throw new Error('Linear provider not implemented yet');
+    try {
+      const state = await this.requireState(status);
+      await this.updateIssue(taskId, { stateId: state.id });
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task status`, error);
+    }
   }
 
-  async analyzeTodos(taskId: string, includeHierarchy?: boolean): Promise<TodoAnalysisResult> {
-    throw new Error('Linear provider not implemented yet');
+  /**
+   * Parent through the issue's parent, blockers through a "blocks" relation from the blocking issue
+   */
+  async linkTask(taskId: string, relatedTaskId: string, relation: TaskRelationType): Promise<void> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const related = await this.fetchIssue(relatedTaskId);
+
+      if (relation === 'parent') {
+        await this.updateIssue(issue.id, { parentId: related.id });
+        return;
+      }
+
+      const data = await this.request<{ issueRelationCreate: { success: boolean } }>(
+        `mutation CreateRelation($input: IssueRelationCreateInput!) {
+          issueRelationCreate(input: $input) { success }
+        }`,
+        { input: { issueId: related.id, relatedIssueId: issue.id, type: 'blocks' } }
+      );
+      if (!data.issueRelationCreate.success) {
+        throw new Error(`Linear did not confirm that ${relatedTaskId} blocks ${taskId}`);
+      }
+    } catch (error) {
+      throw wrapProviderError(`Failed to link task`, error);
+    }
   }
 
-  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<{ updated: number; failed: number }> {
-    throw new Error('Linear provider not implemented yet');
+  async analyzeTodos(taskId: string, includeHierarchy: boolean = false): Promise<TodoAnalysisResult> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      return this.todoParser.analyze(issue.description || '', includeHierarchy, issue.title);
+    } catch (error) {
+      throw wrapProviderError(`Failed to analyze todos`, error);
+    }
   }
 
-  async updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean> {
-    throw new Error('Linear provider not implemented yet');
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const result = this.todoParser.applyUpdates(issue.description || '', updates);
+
+      if (result.updated > 0) {
+        await this.updateIssue(issue.id, { description: result.markdown });
+      }
+
+      return { updated: result.updated, failed: result.failed, failures: result.failures };
+    } catch (error) {
+      throw wrapProviderError(`Failed to update todos`, error);
+    }
   }
 
-  async appendToTask(taskId: string, content: string): Promise<void> {
-    throw new Error('Linear provider not implemented yet');
+  async updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean> {
+    const result = await this.updateTodos(taskId, [{ todoText, completed }]);
+    return result.updated > 0;
   }
 
-  getProviderName(): string {
-    return 'Linear';
+  async editTodo(taskId: string, edit: TodoEdit): Promise<string | undefined> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const result = this.todoParser.applyEdit(issue.description || '', edit);
+      await this.updateIssue(issue.id, { description: result.markdown });
+      return result.todoId;
+    } catch (error) {
+      throw wrapProviderError(`Failed to edit todo`, error);
+    }
   }
 
-  getProviderType(): string {
-    return 'linear';
+  /**
+   * Append markdown to the issue description so summaries and their checklists stay with the task
+   */
+  async appendToTask(taskId: string, content: string): Promise<void> {
+    try {
+      const issue = await this.fetchIssue(taskId);
+      const description = (issue.description || '').replace(/\s+$/, '');
+      const appended = description ? `${description}\n\n${content.replace(/^\s+/, '')}` : content.trim();
+      await this.updateIssue(issue.id, { description: appended });
+    } catch (error) {
+      throw wrapProviderError(`Failed to append content to task`, error);
+    }
   }
 
-  async readPage(pageId: string, includeLinkedPages?: boolean): Promise<PageContent> {
-    throw new Error('Linear page reading not implemented yet');
+  /**
+   * Read an issue as a page: description as content, sub-issues and relations as linked pages
+   */
+  async readPage(pageId: string, includeLinkedPages: boolean = true): Promise<PageContent> {
+    try {
+      const data = await this.request<{ issue: LinearIssue & {
+        children?: { nodes: LinearIssue[] };
+        relations?: { nodes: Array<{ type: string; relatedIssue: LinearIssue }> };
+      } }>(
+        `query ReadIssue($id: String!) {
+          issue(id: $id) {
+            ${ISSUE_FIELDS}
+            children { nodes { id identifier title url description } }
+            relations { nodes { type relatedIssue { id identifier title url } } }
+          }
+        }`,
+        { id: pageId }
+      );
+
+      const issue = data.issue;
+      if (!issue) {
+        throw new Error(`Issue ${pageId} not found`);
+      }
+
+      const linkedPages: LinkedPage[] = [];
+      if (includeLinkedPages) {
+        for (const child of issue.children?.nodes || []) {
+          linkedPages.push({
+            id: child.id,
+            title: `${child.identifier} ${child.title}`,
+            url: child.url,
+            content: child.description || undefined,
+            relationshipType: 'child'
+          });
+        }
+        for (const relation of issue.relations?.nodes || []) {
+          linkedPages.push({
+            id: relation.relatedIssue.id,
+            title: `${relation.relatedIssue.identifier} ${relation.relatedIssue.title}`,
+            url: relation.relatedIssue.url,
+            relationshipType: 'relation'
+          });
+        }
+      }
+
+      return {
+        id: issue.id,
+        title: issue.title,
+        url: issue.url,
+        content: issue.description || '',
+        linkedPages,
+        lastEdited: new Date(issue.updatedAt),
+        createdTime: new Date(issue.createdAt)
+      };
+    } catch (error) {
+      throw wrapProviderError(`Failed to read Linear issue`, error);
+    }
   }
 
   async createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>): Promise<PageContent> {
     throw new Error('createNotionPage is only available for Notion provider');
   }
 
-  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: 'append' | 'replace' | 'insert', insertAfter?: string): Promise<void> {
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: PageUpdateMode, insertAfter?: string): Promise<void> {
     throw new Error('updateNotionPage is only available for Notion provider');
   }
-}
\ No newline at end of file
+
+  private async fetchIssue(taskId: string): Promise<LinearIssue> {
+    const data = await this.request<{ issue: LinearIssue | null }>(
+      `query GetIssue($id: String!) { issue(id: $id) { ${ISSUE_FIELDS} } }`,
+      { id: taskId }
+    );
+    if (!data.issue) {
+      throw new Error(`Issue ${taskId} not found`);
+    }
+    return data.issue;
+  }
+
+  private async updateIssue(issueId: string, input: Record<string, any>): Promise<void> {
+    const data = await this.request<{ issueUpdate: { success: boolean } }>(
+      `mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) { success }
+      }`,
+      { id: issueId, input }
+    );
+    if (!data.issueUpdate.success) {
+      throw new Error(`Linear did not confirm update of issue ${issueId}`);
+    }
+  }
+
+  private mapIssueToTask(issue: LinearIssue): Task {
+    const labels = issue.labels?.nodes || [];
+    const typeLabel = labels.find(label => this.isTaskTypeLabel(label.name)) || labels[0];
+    const childIds = (issue.children?.nodes || []).map(child => child.id);
+    // "A blocks B" is stored on A, so B finds its blockers among the inverse relations
+    const blockedBy = (issue.inverseRelations?.nodes || [])
+      .filter(relation => relation.type === 'blocks')
+      .map(relation => relation.issue.id);
+
+    return {
+      id: issue.id,
+      title: issue.title,
+      status: this.mapStateToStatus(issue.state),
+      type: typeLabel ? this.normalizeTaskType(typeLabel.name) : 'Unknown',
+      description: issue.description || undefined,
+      parentId: issue.parent?.id,
+      childIds: childIds.length > 0 ? childIds : undefined,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+      url: issue.url,
+      createdTime: issue.createdAt,
+      lastEditedTime: issue.updatedAt,
+      properties: {
+        identifier: issue.identifier,
+        state: issue.state,
+        labels: labels.map(label => label.name)
+      }
+    };
+  }
+
+  /**
+   * Map a Linear workflow state to the configured status label
+   * Exact name match first (case-insensitive), then Linear's state type as a fallback.
+   */
+  private mapStateToStatus(state?: LinearState | null): string {
+    if (!state) return 'Unknown';
+    const statusMapping = this.workflow?.statusMapping || {};
+
+    const byName = Object.values(statusMapping).find(label => label.toLowerCase() === state.name.toLowerCase());
+    if (byName) return byName;
+
+    const fallbackKey = STATE_TYPE_TO_STATUS_KEY[state.type];
+    if (fallbackKey && statusMapping[fallbackKey]) {
+      return statusMapping[fallbackKey];
+    }
+    return state.name;
+  }
+
+  private async requireState(status: string): Promise<LinearState> {
+    const state = await this.findState(status);
+    if (!state) {
+      const states = await this.getTeamStates();
+      throw new Error(`No Linear workflow state matches status "${status}". Available states: ${states.map(s => s.name).join(', ')}`);
+    }
+    return state;
+  }
+
+  /**
+   * Resolve a status label (or status key such as "inProgress") to a team workflow state
+   */
+  private async findState(status: string): Promise<LinearState | undefined> {
+    const statusLabel = this.workflow?.statusMapping[status] || status;
+    const states = await this.getTeamStates();
+
+    const byName = states.find(state => state.name.toLowerCase() === statusLabel.toLowerCase());
+    if (byName) return byName;
+
+    // Allow a configured status key to resolve through Linear's state types (e.g. inProgress → started)
+    const statusKey = this.getStatusKey(statusLabel);
+    if (!statusKey) return undefined;
+    const stateType = Object.entries(STATE_TYPE_TO_STATUS_KEY).find(([type, key]) => key === statusKey && type !== 'canceled' && type !== 'triage')?.[0];
+    return stateType ? states.find(state => state.type === stateType) : undefined;
+  }
+
+  private getStatusKey(statusLabel: string): string | undefined {
+    for (const [key, value] of Object.entries(this.workflow?.statusMapping || {})) {
+      if (value.toLowerCase() === statusLabel.toLowerCase()) return key;
+    }
+    return undefined;
+  }
+
+  private getDefaultStatusLabel(): string | undefined {
+    if (!this.workflow) return undefined;
+    return this.workflow.statusMapping[this.workflow.defaultStatus] || this.workflow.defaultStatus;
+  }
+
+  private async getTeamStates(): Promise<LinearState[]> {
+    if (this.states) return this.states;
+    const data = await this.request<{ team: { states: { nodes: LinearState[] } } | null }>(
+      `query TeamStates($id: String!) { team(id: $id) { states { nodes { id name type } } } }`,
+      { id: this.config.teamId }
+    );
+    if (!data.team) {
+      throw new Error(`Linear team ${this.config.teamId} not found`);
+    }
+    this.states = data.team.states.nodes;
+    return this.states;
+  }
+
+  private async getTeamLabels(): Promise<LinearLabel[]> {
+    if (this.labels) return this.labels;
+    const data = await this.request<{ team: { labels: { nodes: LinearLabel[] } } | null }>(
+      `query TeamLabels($id: String!) { team(id: $id) { labels { nodes { id name } } } }`,
+      { id: this.config.teamId }
+    );
+    if (!data.team) {
+      throw new Error(`Linear team ${this.config.teamId} not found`);
+    }
+    this.labels = data.team.labels.nodes;
+    return this.labels;
+  }
+
+  private async findOrCreateLabel(taskType: string): Promise<LinearLabel> {
+    const name = this.normalizeTaskType(taskType);
+    const labels = await this.getTeamLabels();
+    const existing = labels.find(label => label.name.toLowerCase() === name.toLowerCase());
+    if (existing) return existing;
+
+    const data = await this.request<{ issueLabelCreate: { success: boolean; issueLabel: LinearLabel } }>(
+      `mutation CreateLabel($input: IssueLabelCreateInput!) {
+        issueLabelCreate(input: $input) { success issueLabel { id name } }
+      }`,
+      { input: { name, teamId: this.config.teamId } }
+    );
+    if (!data.issueLabelCreate.success || !data.issueLabelCreate.issueLabel) {
+      throw new Error(`Failed to create Linear label "${name}"`);
+    }
+    labels.push(data.issueLabelCreate.issueLabel);
+    return data.issueLabelCreate.issueLabel;
+  }
+
+  private isTaskTypeLabel(name: string): boolean {
+    return (this.workflow?.taskTypes || []).some(type => type.toLowerCase() === name.toLowerCase());
+  }
+
+  private normalizeTaskType(taskType: string): string {
+    return (this.workflow?.taskTypes || []).find(type => type.toLowerCase() === taskType.toLowerCase()) || taskType;
+  }
+
+  /**
+   * Status of a failed response for retries, read from a copy so the body stays readable
+   */
+  private async classifyResponse(response: Response): Promise<number> {
+    const body: any = await response.clone().json().catch(() => null);
+    return this.statusOf(response.status, body);
+  }
+
+  /**
+   * Linear reports rate limits as a 400 with a RATELIMITED error code, handled as 429
+   */
+  private statusOf(status: number, body: any): number {
+    return body?.errors?.some((error: any) => error?.extensions?.code === 'RATELIMITED') ? 429 : status;
+  }
+
+  /**
+   * Execute a GraphQL request against the Linear API (or a compatible local endpoint)
+   */
+  private async request<T>(query: string, variables: Record<string, any>): Promise<T> {
+    // Queries can be repeated, mutations may already have been applied
+    const response = await this.retry.fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Linear personal API keys are sent without the Bearer prefix
+        'Authorization': this.config.apiKey
+      },
+      body: JSON.stringify({ query, variables })
+    }, !query.trimStart().startsWith('mutation'));
+
+    const body: any = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const message = body?.errors?.[0]?.message || response.statusText;
+      throw errorFromResponse(this.statusOf(response.status, body), `Linear API error ${response.status}: ${message}`, response.headers);
+    }
+    if (body?.errors?.length) {
+      throw new Error(`Linear API error: ${body.errors.map((e: any) => e.message).join('; ')}`);
+    }
+    if (!body?.data) {
+      throw new Error('Linear API returned an empty response');
+    }
+    return body.data as T;
+  }
+}
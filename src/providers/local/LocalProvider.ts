@@ -0,0 +1,396 @@
+/**
+ * LocalProvider - Task provider storing each task as a markdown file with YAML front matter
+ *
+ * Tasks live under .vc4pm/tasks/ (configurable) so they can be versioned alongside the code.
+ * Front matter holds id, title, status, type and timestamps; the body holds the task content and todos.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { resolve, join } from 'path';
+import { TaskProvider } from '../../interfaces/TaskProvider.js';
+import { Task, TaskQuery, TaskQueryResult, TaskRelationType } from '../../models/Task.js';
+import { TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoEdit } from '../../models/Todo.js';
+import { PageContent, PageUpdateMode } from '../../models/Page.js';
+import { WorkflowConfig } from '../../models/Workflow.js';
+import { MarkdownTodoParser } from '../shared/MarkdownTodoParser.js';
+import { TaskQueryFilter } from '../shared/TaskQueryFilter.js';
+import { wrapProviderError } from '../shared/ProviderErrors.js';
+
+const DEFAULT_TASKS_DIR = '.vc4pm/tasks';
+const ID_PREFIX = 'TASK-';
+
+interface TaskFile {
+  path: string;
+  frontMatter: Record<string, string>;
+  body: string;
+}
+
+export class LocalProvider implements TaskProvider {
+  private tasksDir: string;
+  private todoParser = new MarkdownTodoParser();
+  private queryFilter = new TaskQueryFilter();
+
+  constructor(config: { tasksDir?: string }, private workflow?: WorkflowConfig) {
+    const projectRoot = process.env.PROJECT_ROOT || process.cwd();
+    this.tasksDir = resolve(projectRoot, config.tasksDir || DEFAULT_TASKS_DIR);
+  }
+
+  getProviderName(): string {
+    return 'Local Markdown';
+  }
+
+  getProviderType(): string {
+    return 'local';
+  }
+
+  async getTask(taskId: string): Promise<Task> {
+    try {
+      const task = this.mapFileToTask(this.readTaskFile(taskId));
+      return this.addChildIds(task, this.readAllTasks());
+    } catch (error) {
+      throw wrapProviderError(`Failed to get task`, error);
+    }
+  }
+
+  async createTask(title: string, taskType: string, description: string): Promise<Task> {
+    if (!title || title.trim().length === 0) {
+      throw new Error('Title is required and cannot be empty');
+    }
+    if (!taskType || taskType.trim().length === 0) {
+      throw new Error('Task type is required and cannot be empty');
+    }
+
+    try {
+      if (!existsSync(this.tasksDir)) {
+        mkdirSync(this.tasksDir, { recursive: true });
+      }
+
+      const id = this.nextTaskId();
+      const slug = this.slugify(title);
+      const now = new Date().toISOString();
+      const file: TaskFile = {
+        path: join(this.tasksDir, slug ? `${id}-${slug}.md` : `${id}.md`),
+        frontMatter: {
+          id,
+          title: title.trim(),
+          status: this.getDefaultStatusLabel(),
+          type: this.normalizeTaskType(taskType),
+          created: now,
+          updated: now
+        },
+        body: description || ''
+      };
+
+      this.writeTaskFile(file);
+      return this.mapFileToTask(file);
+    } catch (error) {
+      throw wrapProviderError(`Failed to create task`, error);
+    }
+  }
+
+  async updateTask(taskId: string, updates: { title?: string; taskType?: string; status?: string }): Promise<void> {
+    try {
+      const file = this.readTaskFile(taskId);
+
+      if (updates.title) {
+        file.frontMatter.title = updates.title.trim();
+      }
+      if (updates.taskType) {
+        file.frontMatter.type = this.normalizeTaskType(updates.taskType);
+      }
+      if (updates.status) {
+        file.frontMatter.status = this.normalizeStatus(updates.status);
+      }
+
+      this.touch(file);
+      this.writeTaskFile(file);
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task`, error);
+    }
+  }
+
+  async updateTaskStatus(taskId: string, status: string): Promise<void> {
+    try {
+      const file = this.readTaskFile(taskId);
+      file.frontMatter.status = this.normalizeStatus(status);
+      this.touch(file);
+      this.writeTaskFile(file);
+    } catch (error) {
+      throw wrapProviderError(`Failed to update task status`, error);
+    }
+  }
+
+  /**
+   * Stored in the `parent` and `blockedBy` (comma-separated) front matter keys; children are found by their parent
+   */
+  async linkTask(taskId: string, relatedTaskId: string, relation: TaskRelationType): Promise<void> {
+    try {
+      const file = this.readTaskFile(taskId);
+      const relatedId = this.readTaskFile(relatedTaskId).frontMatter.id || relatedTaskId;
+
+      if (relation === 'parent') {
+        file.frontMatter.parent = relatedId;
+      } else {
+        const blockers = this.splitList(file.frontMatter.blockedBy);
+        if (blockers.includes(relatedId)) return;
+        file.frontMatter.blockedBy = [...blockers, relatedId].join(', ');
+      }
+
+      this.touch(file);
+      this.writeTaskFile(file);
+    } catch (error) {
+      throw wrapProviderError(`Failed to link task`, error);
+    }
+  }
+
+  async listTasks(query: TaskQuery = {}): Promise<TaskQueryResult> {
+    try {
+      const tasks = this.readAllTasks();
+      return this.queryFilter.apply(tasks.map(task => this.addChildIds(task, tasks)), query);
+    } catch (error) {
+      throw wrapProviderError(`Failed to list tasks`, error);
+    }
+  }
+
+  async analyzeTodos(taskId: string, includeHierarchy: boolean = false): Promise<TodoAnalysisResult> {
+    try {
+      const file = this.readTaskFile(taskId);
+      return this.todoParser.analyze(file.body, includeHierarchy, file.frontMatter.title);
+    } catch (error) {
+      throw wrapProviderError(`Failed to analyze todos`, error);
+    }
+  }
+
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult> {
+    try {
+      const file = this.readTaskFile(taskId);
+      const result = this.todoParser.applyUpdates(file.body, updates);
+
+      if (result.updated > 0) {
+        file.body = result.markdown;
+        this.touch(file);
+        this.writeTaskFile(file);
+      }
+
+      return { updated: result.updated, failed: result.failed, failures: result.failures };
+    } catch (error) {
+      throw wrapProviderError(`Failed to update todos`, error);
+    }
+  }
+
+  async updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean> {
+    const result = await this.updateTodos(taskId, [{ todoText, completed }]);
+    return result.updated > 0;
+  }
+
+  async editTodo(taskId: string, edit: TodoEdit): Promise<string | undefined> {
+    try {
+      const file = this.readTaskFile(taskId);
+      const result = this.todoParser.applyEdit(file.body, edit);
+      file.body = result.markdown;
+      this.touch(file);
+      this.writeTaskFile(file);
+      return result.todoId;
+    } catch (error) {
+      throw wrapProviderError(`Failed to edit todo`, error);
+    }
+  }
+
+  async appendToTask(taskId: string, content: string): Promise<void> {
+    try {
+      const file = this.readTaskFile(taskId);
+      const body = file.body.replace(/\s+$/, '');
+      file.body = body ? `${body}\n\n${content.replace(/^\s+/, '')}` : content.trim();
+      this.touch(file);
+      this.writeTaskFile(file);
+    } catch (error) {
+      throw wrapProviderError(`Failed to append content to task`, error);
+    }
+  }
+
+  async readPage(pageId: string, includeLinkedPages: boolean = true): Promise<PageContent> {
+    try {
+      const file = this.readTaskFile(pageId);
+      return {
+        id: file.frontMatter.id || pageId,
+        title: file.frontMatter.title || 'Untitled',
+        url: file.path,
+        content: file.body,
+        linkedPages: [],
+        lastEdited: new Date(file.frontMatter.updated || Date.now()),
+        createdTime: new Date(file.frontMatter.created || Date.now())
+      };
+    } catch (error) {
+      throw wrapProviderError(`Failed to read local task`, error);
+    }
+  }
+
+  async createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>): Promise<PageContent> {
+    throw new Error('createNotionPage is only available for Notion provider');
+  }
+
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: PageUpdateMode, insertAfter?: string): Promise<void> {
+    throw new Error('updateNotionPage is only available for Notion provider');
+  }
+
+  private mapFileToTask(file: TaskFile): Task {
+    const { id, title, status, type, created, updated, priority, assignee, due, labels, parent, blockedBy, ...extra } = file.frontMatter;
+    const blockers = this.splitList(blockedBy);
+    return {
+      id: id || '',
+      title: title || 'Untitled',
+      status: status || 'Unknown',
+      type: type || 'Unknown',
+      priority: priority || undefined,
+      assignee: assignee || undefined,
+      dueDate: due || undefined,
+      labels: labels ? this.splitList(labels) : undefined,
+      parentId: parent || undefined,
+      blockedBy: blockers.length > 0 ? blockers : undefined,
+      description: file.body,
+      url: file.path,
+      createdTime: created,
+      lastEditedTime: updated,
+      properties: extra
+    };
+  }
+
+  private readAllTasks(): Task[] {
+    return this.listTaskFiles().map(name => this.mapFileToTask(this.readTaskFile(name)));
+  }
+
+  private addChildIds(task: Task, tasks: Task[]): Task {
+    const childIds = tasks.filter(other => other.parentId === task.id).map(other => other.id);
+    return childIds.length > 0 ? { ...task, childIds } : task;
+  }
+
+  private splitList(value: string | undefined): string[] {
+    return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  private listTaskFiles(): string[] {
+    if (!existsSync(this.tasksDir)) return [];
+    return readdirSync(this.tasksDir).filter(name => name.endsWith('.md'));
+  }
+
+  /**
+   * Locate a task by ID (file name prefix) or by its file name
+   */
+  private findTaskPath(taskId: string): string {
+    const trimmed = (taskId || '').trim();
+    if (!trimmed) {
+      throw new Error('Task ID is required');
+    }
+
+    const fileName = this.listTaskFiles().find(name =>
+      name === `${trimmed}.md` || name === trimmed || name.startsWith(`${trimmed}-`)
+    );
+    if (!fileName) {
+      throw new Error(`Task ${taskId} not found in ${this.tasksDir}`);
+    }
+    return join(this.tasksDir, fileName);
+  }
+
+  private readTaskFile(taskId: string): TaskFile {
+    const path = this.findTaskPath(taskId);
+    const raw = readFileSync(path, 'utf-8').replace(/\r\n/g, '\n');
+    const match = raw.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+
+    if (!match) {
+      throw new Error(`Task file ${path} is missing its front matter block`);
+    }
+
+    return {
+      path,
+      frontMatter: this.parseFrontMatter(match[1] || ''),
+      body: (match[2] || '').replace(/^\n/, '')
+    };
+  }
+
+  private writeTaskFile(file: TaskFile): void {
+    const frontMatter = Object.entries(file.frontMatter)
+      .map(([key, value]) => `${key}: ${this.formatYamlValue(value)}`)
+      .join('\n');
+    const body = file.body.replace(/\s+$/, '');
+    writeFileSync(file.path, `---\n${frontMatter}\n---\n\n${body}\n`, 'utf-8');
+  }
+
+  /**
+   * Minimal YAML reader for flat "key: value" front matter (quoted or plain scalars)
+   */
+  private parseFrontMatter(block: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const line of block.split('\n')) {
+      const match = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+      if (!match || !match[1]) continue;
+
+      const rawValue = (match[2] || '').trim();
+      let value = rawValue;
+      if (rawValue.startsWith('"') && rawValue.endsWith('"') && rawValue.length >= 2) {
+        try {
+          value = JSON.parse(rawValue);
+        } catch (error) {
+          value = rawValue.slice(1, -1);
+        }
+      } else if (rawValue.startsWith("'") && rawValue.endsWith("'") && rawValue.length >= 2) {
+        value = rawValue.slice(1, -1).replace(/''/g, "'");
+      }
+      result[match[1]] = value;
+    }
+    return result;
+  }
+
+  private formatYamlValue(value: string): string {
+    // Quote anything YAML could misread (indicators, leading/trailing spaces, booleans, numbers);
+    // line breaks would end the value and break the front matter, JSON escapes them
+    const needsQuotes = value === ''
+      || /[\r\n]/.test(value)
+      || /^[\s\-?:,\[\]{}#&*!|>'"%@`]/.test(value)
+      || /\s$/.test(value)
+      || /: | #/.test(value)
+      || /^(true|false|yes|no|null|~|[-+]?\d+(\.\d+)?)$/i.test(value);
+    return needsQuotes ? JSON.stringify(value) : value;
+  }
+
+  private nextTaskId(): string {
+    let max = 0;
+    for (const name of this.listTaskFiles()) {
+      const match = name.match(new RegExp(`^${ID_PREFIX}(\\d+)`));
+      if (match) max = Math.max(max, parseInt(match[1] || '0', 10));
+    }
+    return `${ID_PREFIX}${max + 1}`;
+  }
+
+  private slugify(title: string): string {
+    return title
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60)
+      .replace(/-+$/, '');
+  }
+
+  private touch(file: TaskFile): void {
+    file.frontMatter.updated = new Date().toISOString();
+  }
+
+  /**
+   * Accept either a status label ("In Progress") or a status key ("inProgress")
+   */
+  private normalizeStatus(status: string): string {
+    const statusMapping = this.workflow?.statusMapping || {};
+    if (statusMapping[status]) return statusMapping[status] as string;
+    return Object.values(statusMapping).find(label => label.toLowerCase() === status.toLowerCase()) || status;
+  }
+
+  private getDefaultStatusLabel(): string {
+    if (!this.workflow) return 'Not Started';
+    return this.workflow.statusMapping[this.workflow.defaultStatus] || this.workflow.defaultStatus;
+  }
+
+  private normalizeTaskType(taskType: string): string {
+    return (this.workflow?.taskTypes || []).find(type => type.toLowerCase() === taskType.toLowerCase()) || taskType;
+  }
+}
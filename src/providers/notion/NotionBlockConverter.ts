@@ -0,0 +1,992 @@
+/**
+ * NotionBlockConverter - Convert between markdown (GFM) and Notion blocks for every Notion read and write path
+ *
+ * Blocks without a GFM equivalent use HTML GitHub renders (<details> toggles, <aside> callouts) or generic
+ * directives (::video[caption]{url="..."}, ::::columns / :::column), so a page read and written back keeps its content.
+ * Input blocks may carry nested blocks as `children` (see NotionProvider.fetchBlockTree); output blocks are
+ * Notion API request objects with nested blocks under `block[type].children`.
+ */
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX = /^\[( |x|X)\](?:\s+(.*))?$/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^(`{3,}|~{3,})\s*([^`\s]*)/;
+const DIVIDER = /^(-{3,}|\*{3,}|_{3,})$/;
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+const IMAGE_LINE = /^!\[(.*)\]\((\S+?)(?:\s+"[^"]*")?\)$/;
+const AUTOLINK_LINE = /^<(https?:\/\/[^\s>]+)>$/;
+const LEAF_DIRECTIVE = /^::(?!:)([a-z_]+)(?:\[(.*?)\])?(?:\{(.*)\})?\s*$/;
+const CONTAINER_DIRECTIVE = /^(:{3,})\s*([a-z_]+)\s*$/;
+const ICON = /^(\p{Extended_Pictographic}(?:\uFE0F|\u200D\p{Extended_Pictographic})*)(?:\s+(.*))?$/u;
+const ESCAPABLE = /[\\`*_~[\]<>$|#!:+\-.()]/;
+
+const LIST_TYPES = ['bulleted_list_item', 'numbered_list_item', 'to_do'];
+const MEDIA_TYPES = ['video', 'audio', 'file', 'pdf', 'embed'];
+// Containers rendered as their content (synced blocks are written back as plain blocks)
+const TRANSPARENT_TYPES = ['synced_block', 'template'];
+const MAX_TEXT_LENGTH = 2000;
+
+const NOTION_LANGUAGES = [
+  'abap', 'arduino', 'bash', 'basic', 'c', 'clojure', 'coffeescript', 'c++', 'c#', 'css', 'dart', 'diff', 'docker',
+  'elixir', 'elm', 'erlang', 'flow', 'fortran', 'f#', 'gherkin', 'glsl', 'go', 'graphql', 'groovy', 'haskell', 'html',
+  'java', 'javascript', 'json', 'julia', 'kotlin', 'latex', 'less', 'lisp', 'livescript', 'lua', 'makefile', 'markdown',
+  'markup', 'matlab', 'mermaid', 'nix', 'objective-c', 'ocaml', 'pascal', 'perl', 'php', 'plain text', 'powershell',
+  'prolog', 'protobuf', 'python', 'r', 'reason', 'ruby', 'rust', 'sass', 'scala', 'scheme', 'scss', 'shell', 'sql',
+  'swift', 'typescript', 'vb.net', 'verilog', 'vhdl', 'visual basic', 'webassembly', 'xml', 'yaml', 'java/c/c++/c#'
+];
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  'js': 'javascript', 'jsx': 'javascript', 'mjs': 'javascript', 'cjs': 'javascript',
+  'ts': 'typescript', 'tsx': 'typescript',
+  'sh': 'shell', 'zsh': 'shell', 'console': 'shell', 'shellscript': 'shell',
+  'py': 'python', 'rb': 'ruby', 'rs': 'rust', 'golang': 'go', 'kt': 'kotlin',
+  'yml': 'yaml', 'md': 'markdown', 'tex': 'latex', 'proto': 'protobuf', 'make': 'makefile',
+  'cpp': 'c++', 'cs': 'c#', 'csharp': 'c#', 'fsharp': 'f#', 'objc': 'objective-c',
+  'dockerfile': 'docker', 'ps1': 'powershell', 'pwsh': 'powershell', 'vb': 'visual basic',
+  'wasm': 'webassembly', 'gql': 'graphql', 'text': 'plain text', 'txt': 'plain text', 'plaintext': 'plain text'
+};
+
+interface Annotations {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  underline?: boolean;
+  code?: boolean;
+}
+
+export class NotionBlockConverter {
+
+  /**
+   * Convert markdown to Notion block request objects
+   */
+  markdownToBlocks(markdown: string): any[] {
+    return this.parseBlocks((markdown || '').replace(/\r\n/g, '\n').split('\n'));
+  }
+
+  /**
+   * Convert a Notion block tree to markdown
+   */
+  blocksToMarkdown(blocks: any[]): string {
+    const parts: string[] = [];
+    let previousType: string | null = null;
+    let number = 0;
+
+    for (const block of blocks || []) {
+      number = block.type === 'numbered_list_item' && previousType === 'numbered_list_item' ? number + 1 : 1;
+      const markdown = this.renderBlock(block, number);
+      if (markdown.length === 0) continue;
+
+      // Consecutive list items with the same kind of marker form a tight list
+      const separator = previousType !== null && this.sameListMarker(previousType, block.type) ? '\n' : '\n\n';
+      parts.push(parts.length > 0 ? separator + markdown : markdown);
+      previousType = block.type;
+    }
+
+    return parts.join('');
+  }
+
+  /**
+   * Rich text of a block, or null for blocks without text
+   */
+  getRichText(block: any): any[] | null {
+    const content = block?.[block?.type];
+    return Array.isArray(content?.rich_text) ? content.rich_text : null;
+  }
+
+  /**
+   * Render rich text as inline markdown (annotations, links, inline equations)
+   */
+  renderRichText(richText: any[] | null | undefined): string {
+    const segments = this.mergeSegments(richText || []);
+    return segments.map(segment => this.renderSegment(segment)).join('');
+  }
+
+  /**
+   * Parse inline markdown into Notion rich text
+   */
+  parseInline(text: string): any[] {
+    if (!text) return [];
+    const items = this.parseInlineRange(text, {}, null);
+    return this.splitLongText(items);
+  }
+
+  // Markdown → blocks
+
+  private parseBlocks(lines: string[]): any[] {
+    const blocks: any[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i] || '';
+      const trimmed = line.trim();
+
+      if (!trimmed) {
+        i++;
+        continue;
+      }
+
+      const fence = trimmed.match(FENCE);
+      if (fence) {
+        const marker = fence[1] || '```';
+        const code: string[] = [];
+        const indent = this.measureIndent(line);
+        i++;
+        while (i < lines.length && !this.isClosingFence((lines[i] || '').trim(), marker)) {
+          code.push(this.dedent(lines[i] || '', indent));
+          i++;
+        }
+        i++;
+        blocks.push(this.block('code', {
+          rich_text: this.plainRichText(code.join('\n')),
+          language: this.toNotionLanguage(fence[2] || '')
+        }));
+        continue;
+      }
+
+      if (trimmed.startsWith('$$')) {
+        const single = trimmed.match(/^\$\$(.+)\$\$$/);
+        if (single) {
+          blocks.push(this.block('equation', { expression: (single[1] || '').trim() }));
+          i++;
+          continue;
+        }
+        const expression: string[] = [trimmed.slice(2)];
+        i++;
+        while (i < lines.length && !(lines[i] || '').trim().endsWith('$$')) {
+          expression.push(lines[i] || '');
+          i++;
+        }
+        expression.push((lines[i] || '').trim().replace(/\$\$$/, ''));
+        i++;
+        blocks.push(this.block('equation', { expression: expression.join('\n').trim() }));
+        continue;
+      }
+
+      if (DIVIDER.test(trimmed)) {
+        blocks.push(this.block('divider', {}));
+        i++;
+        continue;
+      }
+
+      const heading = trimmed.match(HEADING);
+      if (heading) {
+        blocks.push(this.headingBlock((heading[1] || '#').length, heading[2] || ''));
+        i++;
+        continue;
+      }
+
+      if (/^<details[\s>]/i.test(trimmed)) {
+        const end = this.findClosingTag(lines, i, 'details');
+        blocks.push(this.parseDetails(lines.slice(i, end + 1)));
+        i = end + 1;
+        continue;
+      }
+
+      if (/^<aside[\s>]/i.test(trimmed)) {
+        const end = this.findClosingTag(lines, i, 'aside');
+        blocks.push(this.parseAside(lines.slice(i, end + 1)));
+        i = end + 1;
+        continue;
+      }
+
+      const container = trimmed.match(CONTAINER_DIRECTIVE);
+      if (container) {
+        const end = this.findClosingContainer(lines, i, (container[1] || ':::').length);
+        blocks.push(...this.parseContainer(container[2] || '', lines.slice(i + 1, end)));
+        i = end + 1;
+        continue;
+      }
+
+      const directive = trimmed.match(LEAF_DIRECTIVE);
+      if (directive) {
+        const block = this.parseDirective(directive[1] || '', directive[2] || '', this.parseAttributes(directive[3] || ''));
+        if (block) blocks.push(block);
+        i++;
+        continue;
+      }
+
+      const image = trimmed.match(IMAGE_LINE);
+      if (image) {
+        blocks.push(this.block('image', {
+          type: 'external',
+          external: { url: image[2] || '' },
+          caption: this.parseInline(image[1] || '')
+        }));
+        i++;
+        continue;
+      }
+
+      const autolink = trimmed.match(AUTOLINK_LINE);
+      if (autolink) {
+        blocks.push(this.block('bookmark', { url: autolink[1] || '', caption: [] }));
+        i++;
+        continue;
+      }
+
+      if (trimmed.startsWith('>')) {
+        const quote: string[] = [];
+        while (i < lines.length && (lines[i] || '').trim().startsWith('>')) {
+          quote.push((lines[i] || '').trim().replace(/^>\s?/, ''));
+          i++;
+        }
+        blocks.push(this.textBlockWithChildren('quote', this.parseBlocks(quote)));
+        continue;
+      }
+
+      if (trimmed.startsWith('|') && TABLE_SEPARATOR.test((lines[i + 1] || '').trim())) {
+        const rows: string[] = [trimmed];
+        i += 2;
+        while (i < lines.length && (lines[i] || '').trim().startsWith('|')) {
+          rows.push((lines[i] || '').trim());
+          i++;
+        }
+        blocks.push(this.tableBlock(rows));
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        i = this.parseListItem(lines, i, blocks);
+        continue;
+      }
+
+      const paragraph: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i] || '';
+        if (!current.trim() || (paragraph.length > 0 && this.isBlockStart(current, lines[i + 1]))) break;
+        paragraph.push(current.trim());
+        i++;
+      }
+      blocks.push(this.block('paragraph', { rich_text: this.parseInline(paragraph.join('\n')) }));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Parse one list item and its indented continuation, returns the index of the next unread line
+   */
+  private parseListItem(lines: string[], start: number, blocks: any[]): number {
+    const line = lines[start] || '';
+    const match = line.match(LIST_ITEM);
+    const indent = this.measureIndent(match?.[1] || '');
+    const marker = match?.[2] || '-';
+    const contentColumn = line.length - (match?.[3] || '').length;
+    const textLines = [match?.[3] || ''];
+    let i = start + 1;
+
+    // Wrapped item text: indented lines directly below that don't start a block
+    while (i < lines.length) {
+      const current = lines[i] || '';
+      if (!current.trim() || this.measureIndent(current) <= indent || this.isBlockStart(current.trim(), lines[i + 1])) break;
+      textLines.push(current.trim());
+      i++;
+    }
+
+    // Nested content: anything indented deeper than the marker, blank lines included when more follows
+    const body: string[] = [];
+    while (i < lines.length) {
+      const current = lines[i] || '';
+      if (!current.trim()) {
+        const next = lines.slice(i).find(candidate => candidate.trim().length > 0);
+        if (next === undefined || this.measureIndent(next) <= indent) break;
+        body.push('');
+        i++;
+        continue;
+      }
+      if (this.measureIndent(current) <= indent) break;
+      body.push(this.dedent(current, contentColumn));
+      i++;
+    }
+
+    const text = textLines.join('\n');
+    const children = this.parseBlocks(body);
+    const checkbox = marker.match(/\d/) ? null : text.match(CHECKBOX);
+    const legacyChecked = !checkbox && text.startsWith('✅ ');
+
+    if (checkbox || legacyChecked) {
+      const content = checkbox ? checkbox[2] || '' : text.slice(2).trim();
+      blocks.push(this.block('to_do', {
+        rich_text: this.parseInline(content),
+        checked: checkbox ? checkbox[1] !== ' ' : true,
+        ...this.childrenField(children)
+      }));
+    } else {
+      const type = /\d/.test(marker) ? 'numbered_list_item' : 'bulleted_list_item';
+      blocks.push(this.block(type, { rich_text: this.parseInline(text), ...this.childrenField(children) }));
+    }
+
+    return i;
+  }
+
+  private parseDetails(lines: string[]): any {
+    const inner = this.innerTagLines(lines, 'details');
+    let summary = '';
+    const first = inner.findIndex(line => line.trim().length > 0);
+    const summaryMatch = first >= 0 ? (inner[first] || '').trim().match(/^<summary>(.*?)<\/summary>$/i) : null;
+    if (summaryMatch) {
+      summary = summaryMatch[1] || '';
+      inner.splice(first, 1);
+    }
+
+    const children = this.parseBlocks(inner);
+    const heading = summary.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const block = this.headingBlock((heading[1] || '#').length, heading[2] || '');
+      block[block.type].is_toggleable = true;
+      Object.assign(block[block.type], this.childrenField(children));
+      return block;
+    }
+    return this.block('toggle', { rich_text: this.parseInline(summary), ...this.childrenField(children) });
+  }
+
+  private parseAside(lines: string[]): any {
+    const inner = this.innerTagLines(lines, 'aside');
+    const first = inner.findIndex(line => line.trim().length > 0);
+    let icon: any;
+    if (first >= 0) {
+      const iconMatch = (inner[first] || '').trim().match(ICON);
+      if (iconMatch) {
+        icon = { type: 'emoji', emoji: iconMatch[1] };
+        inner[first] = iconMatch[2] || '';
+      }
+    }
+
+    const block = this.textBlockWithChildren('callout', this.parseBlocks(inner));
+    if (icon) block.callout.icon = icon;
+    return block;
+  }
+
+  private parseContainer(name: string, lines: string[]): any[] {
+    if (name === 'columns') {
+      const columns: any[] = [];
+      let i = 0;
+      while (i < lines.length) {
+        const match = (lines[i] || '').trim().match(CONTAINER_DIRECTIVE);
+        if (match && match[2] === 'column') {
+          const end = this.findClosingContainer(lines, i, (match[1] || ':::').length);
+          const children = this.parseBlocks(lines.slice(i + 1, end));
+          columns.push(this.block('column', { children: children.length > 0 ? children : [this.block('paragraph', { rich_text: [] })] }));
+          i = end + 1;
+        } else {
+          i++;
+        }
+      }
+      return columns.length > 0 ? [this.block('column_list', { children: columns })] : [];
+    }
+
+    // Unknown containers keep their content
+    return this.parseBlocks(lines);
+  }
+
+  private parseDirective(name: string, label: string, attributes: Record<string, string>): any | null {
+    const caption = this.parseInline(label);
+
+    if (MEDIA_TYPES.includes(name) && attributes.url) {
+      const content: any = name === 'embed'
+        ? { url: attributes.url }
+        : { type: 'external', external: { url: attributes.url } };
+      content.caption = caption;
+      return this.block(name, content);
+    }
+
+    switch (name) {
+      case 'bookmark':
+        return attributes.url ? this.block('bookmark', { url: attributes.url, caption }) : null;
+      case 'link_to_page':
+        if (attributes.page_id) return this.block('link_to_page', { type: 'page_id', page_id: attributes.page_id });
+        if (attributes.database_id) return this.block('link_to_page', { type: 'database_id', database_id: attributes.database_id });
+        return null;
+      case 'table_of_contents':
+        return this.block('table_of_contents', {});
+      case 'breadcrumb':
+        return this.block('breadcrumb', {});
+      default:
+        // child_page / child_database cannot be created through block children; the existing ones are kept
+        return null;
+    }
+  }
+
+  private tableBlock(rows: string[]): any {
+    const cells = rows.map(row => this.splitTableRow(row));
+    const width = Math.max(1, ...cells.map(row => row.length));
+    return this.block('table', {
+      table_width: width,
+      has_column_header: true,
+      has_row_header: false,
+      children: cells.map(row => this.block('table_row', {
+        cells: Array.from({ length: width }, (_, index) => this.parseInline((row[index] || '').replace(/<br\s*\/?>/gi, '\n')))
+      }))
+    });
+  }
+
+  private splitTableRow(row: string): string[] {
+    const inner = row.replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return inner.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+  }
+
+  private headingBlock(level: number, text: string): any {
+    // Notion has three heading levels; deeper markdown headings become heading_3
+    const type = `heading_${Math.min(level, 3)}`;
+    return this.block(type, { rich_text: this.parseInline(text) });
+  }
+
+  /**
+   * Quote and callout: the first paragraph is the block text, everything after it nests below
+   */
+  private textBlockWithChildren(type: string, parsed: any[]): any {
+    const [first, ...rest] = parsed;
+    if (first?.type === 'paragraph') {
+      return this.block(type, { rich_text: first.paragraph.rich_text, ...this.childrenField(rest) });
+    }
+    return this.block(type, { rich_text: [], ...this.childrenField(parsed) });
+  }
+
+  private block(type: string, content: any): any {
+    return { object: 'block', type, [type]: content };
+  }
+
+  private childrenField(children: any[]): { children?: any[] } {
+    return children.length > 0 ? { children } : {};
+  }
+
+  private isBlockStart(line: string, nextLine?: string): boolean {
+    const trimmed = line.trim();
+    return HEADING.test(trimmed)
+      || FENCE.test(trimmed)
+      || trimmed.startsWith('$$')
+      || DIVIDER.test(trimmed)
+      || trimmed.startsWith('>')
+      || LIST_ITEM.test(trimmed)
+      || /^<(details|aside)[\s>]/i.test(trimmed)
+      || CONTAINER_DIRECTIVE.test(trimmed)
+      || LEAF_DIRECTIVE.test(trimmed)
+      || IMAGE_LINE.test(trimmed)
+      || AUTOLINK_LINE.test(trimmed)
+      || (trimmed.startsWith('|') && TABLE_SEPARATOR.test((nextLine || '').trim()));
+  }
+
+  private isClosingFence(trimmed: string, marker: string): boolean {
+    return trimmed.startsWith(marker) && trimmed.slice(marker.length).trim() === '' && trimmed[0] === marker[0];
+  }
+
+  private findClosingTag(lines: string[], start: number, tag: string): number {
+    let depth = 0;
+    for (let i = start; i < lines.length; i++) {
+      const line = lines[i] || '';
+      depth += (line.match(new RegExp(`<${tag}[\\s>]`, 'gi')) || []).length;
+      depth -= (line.match(new RegExp(`</${tag}>`, 'gi')) || []).length;
+      if (depth <= 0) return i;
+    }
+    return lines.length - 1;
+  }
+
+  private innerTagLines(lines: string[], tag: string): string[] {
+    const joined = lines.join('\n')
+      .replace(new RegExp(`^\\s*<${tag}[^>]*>`, 'i'), '')
+      .replace(new RegExp(`</${tag}>\\s*$`, 'i'), '');
+    return joined.split('\n');
+  }
+
+  private findClosingContainer(lines: string[], start: number, colons: number): number {
+    let depth = 0;
+    for (let i = start; i < lines.length; i++) {
+      const trimmed = (lines[i] || '').trim();
+      const open = trimmed.match(CONTAINER_DIRECTIVE);
+      if (open && (open[1] || '').length === colons) {
+        depth++;
+      } else if (trimmed === ':'.repeat(colons)) {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return lines.length;
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([a-z_]+)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+      attributes[match[1] || ''] = (match[2] || '').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+    }
+    return attributes;
+  }
+
+  private measureIndent(line: string): number {
+    const whitespace = line.match(/^\s*/)?.[0] || '';
+    return whitespace.replace(/\t/g, '    ').length;
+  }
+
+  private dedent(line: string, columns: number): string {
+    const expanded = line.replace(/^\t+/, tabs => '    '.repeat(tabs.length));
+    const remove = Math.min(columns, this.measureIndent(expanded));
+    return expanded.slice(remove);
+  }
+
+  private toNotionLanguage(language: string): string {
+    const normalized = language.trim().toLowerCase();
+    if (!normalized) return 'plain text';
+    const alias = LANGUAGE_ALIASES[normalized] || normalized;
+    return NOTION_LANGUAGES.includes(alias) ? alias : 'plain text';
+  }
+
+  // Inline markdown → rich text
+
+  private parseInlineRange(text: string, annotations: Annotations, link: string | null): any[] {
+    const items: any[] = [];
+    let buffer = '';
+    let i = 0;
+
+    const flush = () => {
+      if (buffer) items.push(this.textItem(buffer, annotations, link));
+      buffer = '';
+    };
+
+    while (i < text.length) {
+      const char = text[i] || '';
+      const rest = text.slice(i);
+
+      if (char === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1] || '')) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+
+      if (char === '`') {
+        const run = rest.match(/^`+/)?.[0] || '`';
+        const close = text.indexOf(run, i + run.length);
+        if (close !== -1 && text[close + run.length] !== '`') {
+          flush();
+          let code = text.slice(i + run.length, close);
+          if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) code = code.slice(1, -1);
+          items.push(this.textItem(code, { ...annotations, code: true }, link));
+          i = close + run.length;
+          continue;
+        }
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+
+      if (char === '[' && !link) {
+        const parsed = this.matchLink(text, i);
+        if (parsed) {
+          flush();
+          items.push(...this.parseInlineRange(parsed.label, annotations, parsed.url));
+          i = parsed.end;
+          continue;
+        }
+      }
+
+      if (char === '<') {
+        const autolink = rest.match(/^<(https?:\/\/[^\s>]+)>/);
+        if (autolink && !link) {
+          flush();
+          items.push(this.textItem(autolink[1] || '', annotations, autolink[1] || ''));
+          i += autolink[0].length;
+          continue;
+        }
+        if (rest.startsWith('<u>')) {
+          const close = text.indexOf('</u>', i + 3);
+          if (close !== -1) {
+            flush();
+            items.push(...this.parseInlineRange(text.slice(i + 3, close), { ...annotations, underline: true }, link));
+            i = close + 4;
+            continue;
+          }
+        }
+      }
+
+      if (char === '$' && !annotations.code) {
+        const equation = rest.match(/^\$([^\s$](?:[^$]*[^\s$])?)\$(?!\d)/);
+        if (equation) {
+          flush();
+          items.push({ type: 'equation', equation: { expression: equation[1] || '' }, annotations: this.annotationsField(annotations) });
+          i += equation[0].length;
+          continue;
+        }
+      }
+
+      const emphasis = this.matchEmphasis(text, i);
+      if (emphasis) {
+        flush();
+        items.push(...this.parseInlineRange(emphasis.inner, { ...annotations, ...emphasis.annotations }, link));
+        i = emphasis.end;
+        continue;
+      }
+
+      buffer += char;
+      i++;
+    }
+
+    flush();
+    return items;
+  }
+
+  private matchLink(text: string, start: number): { label: string; url: string; end: number } | null {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+        i++;
+        continue;
+      }
+      if (char === '[') depth++;
+      if (char === ']') {
+        depth--;
+        if (depth === 0) {
+          const target = text.slice(i + 1).match(/^\(([^)\s]+)(?:\s+"[^"]*")?\)/);
+          if (!target) return null;
+          return { label: text.slice(start + 1, i), url: target[1] || '', end: i + 1 + target[0].length };
+        }
+      }
+    }
+    return null;
+  }
+
+  private matchEmphasis(text: string, start: number): { inner: string; annotations: Annotations; end: number } | null {
+    const candidates: Array<{ delimiter: string; annotations: Annotations }> = [
+      { delimiter: '***', annotations: { bold: true, italic: true } },
+      { delimiter: '**', annotations: { bold: true } },
+      { delimiter: '__', annotations: { bold: true } },
+      { delimiter: '~~', annotations: { strikethrough: true } },
+      { delimiter: '*', annotations: { italic: true } },
+      { delimiter: '_', annotations: { italic: true } }
+    ];
+
+    for (const { delimiter, annotations } of candidates) {
+      if (!text.startsWith(delimiter, start)) continue;
+      const after = text[start + delimiter.length];
+      if (!after || /\s/.test(after)) continue;
+      if (delimiter.startsWith('_') && /[\p{L}\p{N}]/u.test(text[start - 1] || '')) continue;
+
+      const close = this.findClosingDelimiter(text, start + delimiter.length, delimiter);
+      if (close === -1) continue;
+      return { inner: text.slice(start + delimiter.length, close), annotations, end: close + delimiter.length };
+    }
+    return null;
+  }
+
+  /**
+   * Closing delimiter inside a run like `***`: the first characters when more emphasis follows, the last otherwise
+   */
+  private findClosingDelimiter(text: string, from: number, delimiter: string): number {
+    const char = delimiter[0] || '*';
+    for (let i = from; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++;
+        continue;
+      }
+      if (text[i] === '`') {
+        const run = text.slice(i).match(/^`+/)?.[0] || '`';
+        const close = text.indexOf(run, i + run.length);
+        if (close !== -1) i = close + run.length - 1;
+        continue;
+      }
+      if (text[i] !== char) continue;
+
+      let run = 1;
+      while (text[i + run] === char) run++;
+      const followedByWord = /[\p{L}\p{N}]/u.test(text[i + run] || '');
+      // Runs shorter than the delimiter, or a bold marker inside italics, belong to nested emphasis
+      const nested = run < delimiter.length || (delimiter.length === 1 && run === 2);
+      if (nested || i === from || /\s/.test(text[i - 1] || '') || (char === '_' && followedByWord)) {
+        i += run - 1;
+        continue;
+      }
+      return run === delimiter.length || followedByWord ? i : i + run - delimiter.length;
+    }
+    return -1;
+  }
+
+  private textItem(content: string, annotations: Annotations, link: string | null): any {
+    const item: any = { type: 'text', text: { content, ...(link ? { link: { url: link } } : {}) } };
+    const field = this.annotationsField(annotations);
+    if (field) item.annotations = field;
+    return item;
+  }
+
+  private annotationsField(annotations: Annotations): Annotations | undefined {
+    const set = Object.entries(annotations).filter(([, value]) => value);
+    return set.length > 0 ? Object.fromEntries(set) : undefined;
+  }
+
+  private plainRichText(text: string): any[] {
+    return text ? this.splitLongText([{ type: 'text', text: { content: text } }]) : [];
+  }
+
+  /**
+   * Notion caps a single text object at 2000 characters
+   */
+  private splitLongText(items: any[]): any[] {
+    const result: any[] = [];
+    for (const item of items) {
+      const content: string = item.type === 'text' ? item.text.content : '';
+      if (content.length <= MAX_TEXT_LENGTH) {
+        result.push(item);
+        continue;
+      }
+      for (let start = 0; start < content.length; start += MAX_TEXT_LENGTH) {
+        result.push({ ...item, text: { ...item.text, content: content.slice(start, start + MAX_TEXT_LENGTH) } });
+      }
+    }
+    return result;
+  }
+
+  // Blocks → markdown
+
+  private renderBlock(block: any, number: number): string {
+    const type = block.type;
+    const content = block[type] || {};
+    const text = this.renderRichText(content.rich_text);
+    const children: any[] = block.children || content.children || [];
+    const nested = children.length > 0 ? this.blocksToMarkdown(children) : '';
+
+    switch (type) {
+      case 'paragraph':
+        // Notion allows blocks nested under paragraphs; markdown has no equivalent, they follow at the same level
+        return this.joinBlocks(this.escapeBlockStart(text), nested);
+      case 'heading_1':
+      case 'heading_2':
+      case 'heading_3': {
+        const heading = `${'#'.repeat(parseInt(type.slice(-1), 10))} ${text.replace(/\n/g, ' ')}`;
+        return content.is_toggleable ? this.renderDetails(heading, nested) : heading;
+      }
+      case 'bulleted_list_item':
+        return this.renderListItem(`- ${/^\[( |x|X)\]/.test(text) ? '\\' : ''}`, text, nested);
+      case 'numbered_list_item':
+        return this.renderListItem(`${number}. `, text, nested);
+      case 'to_do':
+        return this.renderListItem(`- [${content.checked ? 'x' : ' '}] `, text, nested, 2);
+      case 'toggle':
+        return this.renderDetails(text, nested);
+      case 'quote':
+        return this.prefixLines(this.joinBlocks(text, nested), '> ', '>');
+      case 'callout': {
+        const icon = content.icon?.type === 'emoji' ? `${content.icon.emoji} ` : '';
+        return `<aside>\n${this.joinBlocks(`${icon}${text}`, nested)}\n</aside>`;
+      }
+      case 'code': {
+        const code = this.plainText(content.rich_text);
+        const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(longestRun + 1);
+        const language = content.language && content.language !== 'plain text' ? content.language : '';
+        return `${fence}${language}\n${code}\n${fence}`;
+      }
+      case 'equation':
+        return `$$\n${content.expression || ''}\n$$`;
+      case 'divider':
+        return '---';
+      case 'table':
+        return this.renderTable(children);
+      case 'image':
+        return `![${this.renderRichText(content.caption)}](${this.fileUrl(content)})`;
+      case 'bookmark':
+      case 'link_preview':
+        return content.caption?.length > 0
+          ? `::bookmark[${this.renderRichText(content.caption)}]{url="${this.escapeAttribute(content.url || '')}"}`
+          : `<${content.url || ''}>`;
+      case 'video':
+      case 'audio':
+      case 'file':
+      case 'pdf':
+      case 'embed':
+        return `::${type}[${this.renderRichText(content.caption)}]{url="${this.escapeAttribute(this.fileUrl(content))}"}`;
+      case 'link_to_page':
+        return content.type === 'database_id'
+          ? `::link_to_page{database_id="${content.database_id}"}`
+          : `::link_to_page{page_id="${content.page_id}"}`;
+      case 'child_page':
+        return `::child_page[${content.title || ''}]{id="${block.id}"}`;
+      case 'child_database':
+        return `::child_database[${content.title || ''}]{id="${block.id}"}`;
+      case 'table_of_contents':
+        return '::table_of_contents';
+      case 'breadcrumb':
+        return '::breadcrumb';
+      case 'column_list':
+        return `::::columns\n${children.map(column => `:::column\n${this.blocksToMarkdown(column.children || column.column?.children || [])}\n:::`).join('\n')}\n::::`;
+      default:
+        return TRANSPARENT_TYPES.includes(type) || type === 'column' ? nested : '';
+    }
+  }
+
+  private sameListMarker(previousType: string, type: string): boolean {
+    if (!LIST_TYPES.includes(previousType) || !LIST_TYPES.includes(type)) return false;
+    return (previousType === 'numbered_list_item') === (type === 'numbered_list_item');
+  }
+
+  private renderListItem(marker: string, text: string, nested: string, childIndent: number = marker.length): string {
+    const indent = ' '.repeat(childIndent);
+    const [first = '', ...wrapped] = text.split('\n');
+    const lines = [`${marker}${first}`, ...wrapped.map(line => `${indent}${line}`)];
+    if (nested) {
+      // Tight when the nested content starts with a list item, loose otherwise
+      if (!LIST_ITEM.test(nested.split('\n')[0] || '')) lines.push('');
+      lines.push(...nested.split('\n').map(line => line.length > 0 ? `${indent}${line}` : line));
+    }
+    return lines.join('\n');
+  }
+
+  private renderDetails(summary: string, nested: string): string {
+    return `<details>\n<summary>${summary.replace(/\n/g, ' ')}</summary>\n${nested ? `\n${nested}\n` : ''}\n</details>`;
+  }
+
+  private renderTable(rows: any[]): string {
+    const cells = rows.map(row => ((row.table_row?.cells || []) as any[][]).map(cell =>
+      this.renderRichText(cell).replace(/\|/g, '\\|').replace(/\n/g, '<br>')
+    ));
+    if (cells.length === 0) return '';
+    const width = Math.max(1, ...cells.map(row => row.length));
+    const lines = cells.map(row => `| ${Array.from({ length: width }, (_, index) => row[index] || '').join(' | ')} |`);
+    lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+    return lines.join('\n');
+  }
+
+  private joinBlocks(first: string, second: string): string {
+    return [first, second].filter(part => part.length > 0).join('\n\n');
+  }
+
+  private prefixLines(text: string, prefix: string, emptyPrefix: string): string {
+    return text.split('\n').map(line => line.length > 0 ? `${prefix}${line}` : emptyPrefix).join('\n');
+  }
+
+  /**
+   * Paragraph lines that would read as another block (list, heading, quote...) get escaped
+   */
+  private escapeBlockStart(text: string): string {
+    return text.split('\n').map((line, index, lines) => {
+      if (!this.isBlockStart(line, lines[index + 1])) return line;
+      const ordered = line.match(/^(\s*\d+)([.)])/);
+      return ordered ? `${ordered[1]}\\${ordered[2]}${line.slice(ordered[0].length)}` : `\\${line}`;
+    }).join('\n');
+  }
+
+  private fileUrl(content: any): string {
+    return content.external?.url || content.file?.url || content.url || '';
+  }
+
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Rich text as plain text, without markdown (titles, text search)
+   */
+  plainText(richText: any[] | null | undefined): string {
+    return (richText || []).map(item => item.plain_text ?? item.text?.content ?? '').join('');
+  }
+
+  // Rich text → inline markdown
+
+  /**
+   * Merge adjacent items with identical formatting so markers are not split mid-word
+   */
+  private mergeSegments(richText: any[]): any[] {
+    const segments: any[] = [];
+    for (const item of richText) {
+      const previous = segments[segments.length - 1];
+      if (previous && item.type === 'text' && previous.type === 'text'
+        && this.sameFormatting(previous, item)) {
+        previous.content += this.itemText(item);
+        continue;
+      }
+      segments.push({
+        type: item.type,
+        content: item.type === 'mention' ? this.mentionText(item) : this.itemText(item),
+        annotations: item.annotations || {},
+        link: item.type === 'mention' ? this.mentionUrl(item) : item.text?.link?.url || item.href || null,
+        expression: item.equation?.expression
+      });
+    }
+    return segments;
+  }
+
+  private sameFormatting(segment: any, item: any): boolean {
+    const annotations = item.annotations || {};
+    const keys: Array<keyof Annotations> = ['bold', 'italic', 'strikethrough', 'underline', 'code'];
+    return keys.every(key => !!segment.annotations[key] === !!annotations[key])
+      && segment.link === (item.text?.link?.url || item.href || null);
+  }
+
+  private itemText(item: any): string {
+    if (item.type === 'text') return item.text?.content ?? item.plain_text ?? '';
+    return item.plain_text ?? '';
+  }
+
+  /**
+   * Visible text of a mention: page titles, `@Name` for people, `@2025-01-31 → 2025-02-02` for dates
+   */
+  private mentionText(item: any): string {
+    const mention = item.mention || {};
+    switch (mention.type) {
+      case 'user': {
+        const name = mention.user?.name || (item.plain_text || '').replace(/^@/, '') || 'Unknown user';
+        return `@${name}`;
+      }
+      case 'date':
+        return mention.date?.start
+          ? `@${mention.date.start}${mention.date.end ? ` → ${mention.date.end}` : ''}`
+          : item.plain_text || '';
+      case 'page':
+      case 'database':
+        return item.plain_text || 'Untitled';
+      case 'link_preview':
+        return item.plain_text || mention.link_preview?.url || '';
+      default:
+        return item.plain_text || item.href || '';
+    }
+  }
+
+  /**
+   * Mentioned pages and databases link to their Notion URL, so the ID can be passed to read_notion_page
+   */
+  private mentionUrl(item: any): string | null {
+    const mention = item.mention || {};
+    const id = mention.page?.id || mention.database?.id;
+    if (id) return `https://www.notion.so/${id.replace(/-/g, '')}`;
+    return mention.link_preview?.url || mention.link_mention?.href || item.href || null;
+  }
+
+  private renderSegment(segment: any): string {
+    if (segment.type === 'equation') {
+      return `$${segment.expression || segment.content}$`;
+    }
+
+    const content: string = segment.content;
+    if (!content) return '';
+    const annotations: Annotations = segment.annotations;
+
+    // Markers cannot wrap surrounding whitespace
+    const leading = content.match(/^\s*/)?.[0] || '';
+    const trailing = content.slice(leading.length).match(/\s*$/)?.[0] || '';
+    let core = content.slice(leading.length, content.length - trailing.length);
+    if (!core) return content;
+
+    if (annotations.code) {
+      const longestRun = Math.max(0, ...(core.match(/`+/g) || []).map(run => run.length));
+      const fence = '`'.repeat(longestRun + 1);
+      core = longestRun > 0 || core.startsWith('`') ? `${fence} ${core} ${fence}` : `${fence}${core}${fence}`;
+    } else {
+      core = this.escapeInline(core);
+    }
+    if (annotations.underline) core = `<u>${core}</u>`;
+    if (annotations.strikethrough) core = `~~${core}~~`;
+    if (annotations.italic) core = `*${core}*`;
+    if (annotations.bold) core = `**${core}**`;
+    if (segment.link) core = `[${core}](${segment.link.replace(/\)/g, '%29').replace(/ /g, '%20')})`;
+
+    return `${leading}${core}${trailing}`;
+  }
+
+  /**
+   * Escape markdown syntax in plain text only when it would otherwise be parsed as formatting
+   */
+  private escapeInline(text: string): string {
+    const parsed = this.parseInlineRange(text, {}, null);
+    const unchanged = parsed.length === 1 && parsed[0]?.type === 'text' && !parsed[0].annotations
+      && !parsed[0].text.link && parsed[0].text.content === text;
+    if (unchanged) return text;
+    return text.replace(/[\\`*_~[\]<$]/g, match => `\\${match}`);
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * NotionPropertyMapper - Map task fields to configurable Notion database properties
+ *
+ * Property names come from `propertyMapping` in the provider config. Values are read and written
+ * according to the property type (status, select, multi-select, ...), so the same task field can
+ * live in differently shaped databases.
+ */
+
+import { WorkflowConfig } from '../../models/Workflow.js';
+
+export interface NotionPropertyMapping {
+  status?: string | null;
+  type?: string | null;     // null: the database has no task type property
+  priority?: string | null;
+  assignee?: string | null;
+  dueDate?: string | null;
+  labels?: string | null;
+  parent?: string | null;     // Relation to the parent task, e.g. "Parent item" of Notion sub-items
+  subtasks?: string | null;   // Reverse of parent, e.g. "Sub-item"; read only
+  blockedBy?: string | null;  // Relation to blocking tasks, e.g. "Blocked by" of Notion dependencies
+}
+
+export type NotionTaskField = keyof NotionPropertyMapping;
+
+export interface NotionTaskFields {
+  status?: string;
+  type?: string;
+  priority?: string;
+  assignee?: string;
+  dueDate?: string;
+  labels?: string[];
+  parentId?: string;
+  childIds?: string[];
+  blockedBy?: string[];
+}
+
+const DEFAULT_PROPERTY_MAPPING: NotionPropertyMapping = {
+  status: 'Status',
+  type: 'Type'
+};
+
+// Property types each task field can be stored in
+const SUPPORTED_PROPERTY_TYPES: Record<NotionTaskField, string[]> = {
+  status: ['status', 'select'],
+  type: ['select', 'multi_select', 'status'],
+  priority: ['select', 'status'],
+  assignee: ['people', 'select', 'multi_select', 'rich_text'],
+  dueDate: ['date'],
+  labels: ['multi_select', 'select'],
+  parent: ['relation'],
+  subtasks: ['relation'],
+  blockedBy: ['relation']
+};
+
+const OPTION_PROPERTY_TYPES = ['status', 'select', 'multi_select'];
+
+export class NotionPropertyMapper {
+  private mapping: NotionPropertyMapping;
+
+  constructor(mapping: NotionPropertyMapping = {}) {
+    this.mapping = { ...DEFAULT_PROPERTY_MAPPING, ...mapping };
+  }
+
+  getPropertyName(field: NotionTaskField): string | undefined {
+    return this.mapping[field] || undefined;
+  }
+
+  /**
+   * Check the mapping against the database schema (`database.properties`)
+   * Errors make the mapping unusable; warnings point at values that will be rejected on write.
+   */
+  validate(schema: Record<string, any>, workflow?: WorkflowConfig): { errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const field of Object.keys(SUPPORTED_PROPERTY_TYPES) as NotionTaskField[]) {
+      const name = this.getPropertyName(field);
+      if (!name) continue;
+
+      const property = schema[name];
+      if (!property) {
+        errors.push(`${field} property "${name}" not found in database (available: ${Object.keys(schema).join(', ')})`);
+        continue;
+      }
+
+      const supported = SUPPORTED_PROPERTY_TYPES[field];
+      if (!supported.includes(property.type)) {
+        errors.push(`${field} property "${name}" is a ${property.type} property, expected one of: ${supported.join(', ')}`);
+      }
+    }
+
+    // Select options are created on first use, status options are not
+    if (workflow) {
+      const statusLabels = Object.values(workflow.statusMapping);
+      warnings.push(...this.findMissingOptions('status', schema, statusLabels));
+      warnings.push(...this.findMissingOptions('type', schema, workflow.taskTypes || []));
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Read the mapped task fields from page property values (which carry their own type)
+   */
+  readFields(properties: Record<string, any>): NotionTaskFields {
+    const read = (field: NotionTaskField) => {
+      const name = this.getPropertyName(field);
+      return name ? properties?.[name] : undefined;
+    };
+
+    const assignee = this.readNames(read('assignee'));
+    const labels = this.readNames(read('labels'));
+    const dueDate = read('dueDate');
+    const childIds = this.readRelation(read('subtasks'));
+    const blockedBy = this.readRelation(read('blockedBy'));
+
+    return {
+      status: this.readNames(read('status'))[0],
+      type: this.readNames(read('type'))[0],
+      priority: this.readNames(read('priority'))[0],
+      assignee: assignee.length > 0 ? assignee.join(', ') : undefined,
+      dueDate: dueDate?.date?.start || undefined,
+      labels: labels.length > 0 ? labels : undefined,
+      parentId: this.readRelation(read('parent'))[0],
+      childIds: childIds.length > 0 ? childIds : undefined,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined
+    };
+  }
+
+  /**
+   * Build the page property update for a task field, shaped after the property type in the schema
+   * Option names are matched case-insensitively against existing options.
+   */
+  buildProperty(field: NotionTaskField, value: string | string[], schema: Record<string, any>): Record<string, any> {
+    const { name, property } = this.getMappedProperty(field, schema);
+    const values = (Array.isArray(value) ? value : [value]).map(item => this.resolveOptionName(property, item));
+    const first = values[0] || '';
+
+    switch (property.type) {
+      case 'status':
+        return { [name]: { status: { name: first } } };
+      case 'select':
+        return { [name]: { select: first ? { name: first } : null } };
+      case 'multi_select':
+        return { [name]: { multi_select: values.map(item => ({ name: item })) } };
+      case 'rich_text':
+        return { [name]: { rich_text: [{ text: { content: values.join(', ') } }] } };
+      case 'date':
+        return { [name]: { date: first ? { start: first } : null } };
+      case 'relation':
+        return { [name]: { relation: values.filter(Boolean).map(id => ({ id })) } };
+      default:
+        throw new Error(`Writing ${field} to a ${property.type} property ("${name}") is not supported`);
+    }
+  }
+
+  /**
+   * Build a database query filter matching a task field value
+   * People properties are filtered by user ID, see NotionProvider for name lookup.
+   */
+  buildFilter(field: NotionTaskField, value: string, schema: Record<string, any>): Record<string, any> {
+    const { name, property } = this.getMappedProperty(field, schema);
+    const option = this.resolveOptionName(property, value);
+
+    switch (property.type) {
+      case 'status':
+        return { property: name, status: { equals: option } };
+      case 'select':
+        return { property: name, select: { equals: option } };
+      case 'multi_select':
+        return { property: name, multi_select: { contains: option } };
+      case 'people':
+        return { property: name, people: { contains: value } };
+      case 'rich_text':
+        return { property: name, rich_text: { contains: value } };
+      case 'date':
+        return { property: name, date: { equals: value } };
+      default:
+        throw new Error(`Filtering ${field} on a ${property.type} property ("${name}") is not supported`);
+    }
+  }
+
+  getPropertyType(field: NotionTaskField, schema: Record<string, any>): string | undefined {
+    const name = this.getPropertyName(field);
+    return name ? schema[name]?.type : undefined;
+  }
+
+  /**
+   * Whether a status/select property accepts the value; select options are created on first use
+   */
+  hasOption(field: NotionTaskField, value: string, schema: Record<string, any>): boolean {
+    const name = this.getPropertyName(field);
+    const property = name ? schema[name] : undefined;
+    if (!property || property.type !== 'status') return !!property;
+    return this.getOptions(property).some(option => option.toLowerCase() === value.toLowerCase());
+  }
+
+  private getMappedProperty(field: NotionTaskField, schema: Record<string, any>): { name: string; property: any } {
+    const name = this.getPropertyName(field);
+    if (!name) {
+      throw new Error(`No Notion property is mapped to ${field} (set propertyMapping.${field})`);
+    }
+
+    const property = schema[name];
+    if (!property) {
+      throw new Error(`${field} property "${name}" not found in database`);
+    }
+    return { name, property };
+  }
+
+  private findMissingOptions(field: NotionTaskField, schema: Record<string, any>, values: string[]): string[] {
+    const name = this.getPropertyName(field);
+    const property = name ? schema[name] : undefined;
+    if (!property || property.type !== 'status') return [];
+
+    const options = this.getOptions(property).map(option => option.toLowerCase());
+    return values
+      .filter(value => !options.includes(value.toLowerCase()))
+      .map(value => `${field} "${value}" is not an option of status property "${name}" and cannot be set`);
+  }
+
+  private resolveOptionName(property: any, value: string): string {
+    if (!OPTION_PROPERTY_TYPES.includes(property.type)) return value;
+    const match = this.getOptions(property).find(option => option.toLowerCase() === value.toLowerCase());
+    return match || value;
+  }
+
+  private getOptions(property: any): string[] {
+    return (property?.[property.type]?.options || []).map((option: any) => option.name);
+  }
+
+  private readRelation(value: any): string[] {
+    return value?.type === 'relation' ? (value.relation || []).map((page: any) => page.id) : [];
+  }
+
+  private readNames(value: any): string[] {
+    switch (value?.type) {
+      case 'status':
+      case 'select':
+        return value[value.type]?.name ? [value[value.type].name] : [];
+      case 'multi_select':
+        return (value.multi_select || []).map((option: any) => option.name);
+      case 'people':
+        return (value.people || []).map((person: any) => person.name || person.id);
+      case 'rich_text': {
+        const text = (value.rich_text || []).map((item: any) => item.plain_text ?? item.text?.content ?? '').join('');
+        return text ? [text] : [];
+      }
+      default:
+        return [];
+    }
+  }
+}
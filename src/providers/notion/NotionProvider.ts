@@ -1,142 +1,208 @@
 import { TaskProvider } from '../../interfaces/TaskProvider.js';
-import { Task } from '../../models/Task.js';
-import { TodoItem, TodoAnalysisResult, TodoUpdateRequest } from '../../models/Todo.js';
-import { PageContent, LinkedPage, NotionBlock } from '../../models/Page.js';
+import { Task, TaskQuery, TaskQueryResult, TaskRelationType } from '../../models/Task.js';
+import { TodoItem, TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoMatchFailure, TodoEdit, TodoPosition, TodoMetadata } from '../../models/Todo.js';
+import { PageContent, LinkedPage, NotionBlock, PageUpdateMode, PageContextBundle, PageContextOptions } from '../../models/Page.js';
 import { Client } from '@notionhq/client';
-
-const TASK_TYPE_MAPPING: Record<string, string> = {
-  'bug': 'Bug',
-  'feature': 'Feature',
-  'refactoring': 'Refactoring'
-};
+import { WorkflowConfig } from '../../models/Workflow.js';
+import { TaskComment } from '../../models/Comment.js';
+import { NotionBlockConverter } from './NotionBlockConverter.js';
+import { NotionPropertyMapper, NotionPropertyMapping } from './NotionPropertyMapper.js';
+import { RetryPolicy, RetryOptions } from '../shared/RetryPolicy.js';
+import { wrapProviderError } from '../shared/ProviderErrors.js';
+import { PageContextCollector, LoadedContextPage } from '../shared/PageContextCollector.js';
+import { TodoMatcher, TodoCandidate } from '../shared/TodoMatcher.js';
+import { TodoMetadataParser } from '../shared/TodoMetadataParser.js';
+import { ValidationError } from '../../types/Errors.js';
+
+export interface NotionProviderOptions {
+  client?: Client;   // Injected client, e.g. one built on a fake fetch for tests
+  baseUrl?: string;  // Alternative API endpoint, e.g. a local fake Notion server
+  propertyMapping?: NotionPropertyMapping;  // Database property names for status, type, ...
+  workflow?: WorkflowConfig;
+  retry?: RetryOptions;  // Retries of the built-in client, not applied to an injected one
+}
+
+// Used when no workflow config is passed
+const DEFAULT_TASK_TYPES = ['Feature', 'Bug', 'Refactoring'];
+const DEFAULT_STATUS_LABEL = 'Not started';
+const NOTION_ID = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+// Nested content of these blocks belongs to another page and is never fetched as part of this one
+const SEPARATE_PAGE_BLOCK_TYPES = ['child_page', 'child_database'];
+const MAX_BLOCK_DEPTH = 10;
+const HEADING_LEVELS: Record<string, number> = { heading_1: 1, heading_2: 2, heading_3: 3 };
+// Notion API limits per append request
+const MAX_APPEND_BLOCKS = 100;
+const MAX_APPEND_NESTING = 2;
+
+interface SectionHeading {
+  parentId: string;
+  siblings: any[];
+  index: number;
+  text: string;
+}
 
 export class NotionProvider implements TaskProvider {
   private notion: Client;
   private databaseId: string;
-  private titleProperty: string | null = null;
+  private schema: Record<string, any> | null = null;
+  private converter = new NotionBlockConverter();
+  private propertyMapper: NotionPropertyMapper;
+  private workflow?: WorkflowConfig;
+  private userNames: Map<string, string> = new Map();
+  private contextCollector = new PageContextCollector();
+  private todoMatcher = new TodoMatcher();
+  private todoMetadataParser = new TodoMetadataParser();
   
-  constructor(apiKey: string, databaseId: string) {
+  constructor(apiKey: string, databaseId: string, options: NotionProviderOptions = {}) {
     console.log(`🔧 NotionProvider: apiKey=${apiKey?.substring(0,10)}...`);
     console.log(`🔧 NotionProvider: databaseId=${databaseId}`);
-    this.notion = new Client({ auth: apiKey });
+    this.notion = options.client || this.createClient(apiKey, options);
     this.databaseId = databaseId;
+    this.propertyMapper = new NotionPropertyMapper(options.propertyMapping);
+    this.workflow = options.workflow;
   }
 
-  private async getTitlePropertyName(): Promise<string> {
-    if (this.titleProperty) return this.titleProperty;
-    
+  /**
+   * Check propertyMapping against the database schema
+   * @returns Warnings for workflow labels the database will not accept
+   * @throws Error if a mapped property is missing or has an unsupported type
+   */
+  async validateConfiguration(): Promise<string[]> {
+    let schema: Record<string, any>;
+    try {
+      schema = await this.getDatabaseSchema();
+    } catch (error) {
+      return [`Could not validate propertyMapping: ${error instanceof Error ? error.message : error}`];
+    }
+
+    const { errors, warnings } = this.propertyMapper.validate(schema, this.workflow);
+    if (errors.length > 0) {
+      throw new Error(`Invalid Notion propertyMapping: ${errors.join('; ')}`);
+    }
+    return warnings;
+  }
+
+  private createClient(apiKey: string, options: NotionProviderOptions): Client {
+    const retry = new RetryPolicy(options.retry);
+    return new Client({
+      auth: apiKey,
+      baseUrl: options.baseUrl,
+      fetch: (url, init) => retry.fetch(url, init, this.isIdempotentRequest(init?.method || 'GET', url))
+    });
+  }
+
+  /**
+   * Notion reads queries with POST and appends children with PATCH, so the HTTP method alone is not enough
+   */
+  private isIdempotentRequest(method: string, url: string): boolean {
+    const path = new URL(url).pathname;
+    switch (method.toUpperCase()) {
+      case 'GET':
+      case 'DELETE':
+        return true;
+      case 'POST':
+        return /\/databases\/[^/]+\/query$/.test(path) || path.endsWith('/search');
+      case 'PATCH':
+        return !path.endsWith('/children');
+      default:
+        return false;
+    }
+  }
+
+  private async getDatabaseSchema(): Promise<Record<string, any>> {
+    if (this.schema) return this.schema;
+
     try {
       const database = await this.notion.databases.retrieve({ database_id: this.databaseId });
-      
-      // Find the title property
-      for (const [name, property] of Object.entries(database.properties)) {
-        if ((property as any).type === 'title') {
-          this.titleProperty = name;
-          return name;
-        }
-      }
-      
-      throw new Error('No title property found in database');
+      this.schema = database.properties as Record<string, any>;
+      return this.schema;
     } catch (error) {
-      throw new Error(`Failed to get database schema: ${error}`);
+      throw wrapProviderError(`Failed to get database schema`, error);
     }
   }
 
-  private normalizeTaskType(taskType: string): string {
-    const normalized = TASK_TYPE_MAPPING[taskType.toLowerCase()];
-    if (normalized) {
-      return normalized;
+  private async getTitlePropertyName(): Promise<string> {
+    const schema = await this.getDatabaseSchema();
+    const name = Object.keys(schema).find(key => schema[key]?.type === 'title');
+    if (!name) {
+      throw new Error('No title property found in database');
     }
+    return name;
+  }
 
-    const knownTypes = Object.values(TASK_TYPE_MAPPING);
-    if (knownTypes.includes(taskType)) {
-      return taskType;
+  private normalizeTaskType(taskType: string): string {
+    const knownTypes = this.workflow?.taskTypes?.length ? this.workflow.taskTypes : DEFAULT_TASK_TYPES;
+    const match = knownTypes.find(type => type.toLowerCase() === taskType.toLowerCase());
+    if (match) {
+      return match;
     }
 
     throw new Error(`Unknown task type "${taskType}". Valid types: ${knownTypes.join(', ')}`);
   }
 
+  /**
+   * Accept status keys (e.g. "inProgress") as well as labels
+   */
+  private toStatusLabel(status: string): string {
+    return this.workflow?.statusMapping[status] || status;
+  }
+
+  private getDefaultStatusLabel(): string {
+    if (!this.workflow) return DEFAULT_STATUS_LABEL;
+    return this.workflow.statusMapping[this.workflow.defaultStatus] || this.workflow.defaultStatus;
+  }
+
   async appendToTask(taskId: string, content: string): Promise<void> {
     try {
-      // Convert markdown content to Notion blocks
-      const blocks = this.markdownToNotionBlocks(content);
-      
-      // Append blocks to the Notion page
-      await this.notion.blocks.children.append({
-        block_id: taskId,
-        children: blocks
-      });
+      // Convert markdown content to Notion blocks and append them to the page
+      await this.appendBlocks(taskId, this.converter.markdownToBlocks(content));
     } catch (error) {
-      throw new Error(`Failed to append content to task: ${error}`);
+      throw wrapProviderError(`Failed to append content to task`, error);
     }
   }
 
-  private markdownToNotionBlocks(markdown: string): any[] {
-    const blocks: any[] = [];
-    const lines = markdown.split('\n');
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (!trimmed) {
-        continue;
+  /**
+   * Page-level comments; Notion only returns unresolved ones
+   */
+  async listComments(taskId: string): Promise<TaskComment[]> {
+    try {
+      const comments: any[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await this.notion.comments.list({ block_id: taskId, start_cursor: cursor, page_size: 100 });
+        comments.push(...response.results);
+        cursor = response.has_more ? response.next_cursor || undefined : undefined;
+      } while (cursor);
+
+      const result: TaskComment[] = [];
+      for (const comment of comments) {
+        result.push(await this.mapNotionComment(comment));
       }
+      return result;
+    } catch (error) {
+      throw wrapProviderError(`Failed to list comments`, error);
+    }
+  }
 
-      if (trimmed === '---') {
-        blocks.push({
-          object: 'block',
-          type: 'divider',
-          divider: {}
-        });
-        continue;
-      }
+  async addComment(taskId: string, body: string, threadId?: string): Promise<TaskComment> {
+    if (!body || body.trim().length === 0) {
+      throw new Error('Comment body is required and cannot be empty');
+    }
 
-      if (trimmed.startsWith('# ')) {
-        blocks.push({
-          object: 'block',
-          type: 'heading_1',
-          heading_1: { rich_text: this.parseRichText(trimmed.slice(2)) }
-        });
-      } else if (trimmed.startsWith('## ')) {
-        blocks.push({
-          object: 'block',
-          type: 'heading_2',
-          heading_2: { rich_text: this.parseRichText(trimmed.slice(3)) }
-        });
-      } else if (trimmed.startsWith('- [ ] ')) {
-        blocks.push({
-          object: 'block',
-          type: 'to_do',
-          to_do: {
-            rich_text: this.parseRichText(trimmed.slice(6)),
-            checked: false
-          }
-        });
-      } else if (trimmed.startsWith('- ✅ ')) {
-        blocks.push({
-          object: 'block',
-          type: 'to_do',
-          to_do: {
-            rich_text: this.parseRichText(trimmed.slice(4)),
-            checked: true
-          }
-        });
-      } else if (trimmed.startsWith('- ')) {
-        blocks.push({
-          object: 'block',
-          type: 'bulleted_list_item',
-          bulleted_list_item: { rich_text: this.parseRichText(trimmed.slice(2)) }
-        });
-      } else {
-        blocks.push({
-          object: 'block',
-          type: 'paragraph',
-          paragraph: { rich_text: this.parseRichText(trimmed) }
-        });
-      }
+    try {
+      const richText = this.converter.parseInline(body.trim());
+      const comment = threadId
+        ? await this.notion.comments.create({ discussion_id: threadId, rich_text: richText })
+        : await this.notion.comments.create({ parent: { page_id: taskId }, rich_text: richText });
+      return await this.mapNotionComment(comment);
+    } catch (error) {
+      throw wrapProviderError(`Failed to add comment`, error);
     }
+  }
 
-    return blocks;
+  getStatusPropertyName(): string | undefined {
+    return this.propertyMapper.getPropertyName('status');
   }
 
   getProviderName(): string {
@@ -158,7 +224,7 @@ export class NotionProvider implements TaskProvider {
       const page = await this.notion.pages.retrieve({ page_id: taskId });
       return this.mapNotionPageToTask(page);
     } catch (error) {
-      throw new Error(`Failed to get task: ${error}`);
+      throw wrapProviderError(`Failed to get task`, error);
     }
   }
 
@@ -185,30 +251,36 @@ export class NotionProvider implements TaskProvider {
     const normalizedTaskType = this.normalizeTaskType(taskType);
 
     try {
-      const children = [];
-
-      if (description) {
-        children.push(...this.parseMarkdownToNotionBlocks(description));
-      }
-
+      const schema = await this.getDatabaseSchema();
       const titlePropertyName = await this.getTitlePropertyName();
       const properties: any = {
-        Type: { select: { name: normalizedTaskType } },
-        Status: { status: { name: 'Not started' } }
+        [titlePropertyName]: { title: [{ text: { content: title } }] }
       };
-      properties[titlePropertyName] = { title: [{ text: { content: title } }] };
+      if (this.propertyMapper.getPropertyName('type')) {
+        Object.assign(properties, this.propertyMapper.buildProperty('type', normalizedTaskType, schema));
+      }
+
+      // Status properties reject unknown options; Notion then applies the database default
+      const initialStatus = this.getDefaultStatusLabel();
+      if (this.propertyMapper.hasOption('status', initialStatus, schema)) {
+        Object.assign(properties, this.propertyMapper.buildProperty('status', initialStatus, schema));
+      }
       
       const page = await this.notion.pages.create({
         parent: { database_id: this.databaseId },
-        properties,
-        children: children.length > 0 ? children : undefined
+        properties
       });
+
+      // Appended separately: page creation accepts neither more than 100 blocks nor deep nesting
+      if (description) {
+        await this.appendBlocks(page.id, this.converter.markdownToBlocks(description));
+      }
       
       // Retrieve the full page to get properly formatted properties
       const fullPage = await this.notion.pages.retrieve({ page_id: page.id });
       return this.mapNotionPageToTask(fullPage);
     } catch (error) {
-      throw new Error(`Failed to create task: ${error}`);
+      throw wrapProviderError(`Failed to create task`, error);
     }
   }
 
@@ -222,11 +294,11 @@ export class NotionProvider implements TaskProvider {
       }
       
       if (updates.taskType) {
-        properties.Type = { select: { name: updates.taskType } };
+        Object.assign(properties, this.propertyMapper.buildProperty('type', updates.taskType, await this.getDatabaseSchema()));
       }
 
       if (updates.status) {
-        properties.Status = { status: { name: updates.status } };
+        Object.assign(properties, this.propertyMapper.buildProperty('status', this.toStatusLabel(updates.status), await this.getDatabaseSchema()));
       }
 
       await this.notion.pages.update({
@@ -234,32 +306,105 @@ export class NotionProvider implements TaskProvider {
         properties
       });
     } catch (error) {
-      throw new Error(`Failed to update task: ${error}`);
+      throw wrapProviderError(`Failed to update task`, error);
     }
   }
 
 
   async updateTaskStatus(taskId: string, status: string): Promise<void> {
     try {
+      const schema = await this.getDatabaseSchema();
       await this.notion.pages.update({
         page_id: taskId,
-        properties: {
-          Status: { status: { name: status } }
-        }
+        properties: this.propertyMapper.buildProperty('status', this.toStatusLabel(status), schema)
       });
     } catch (error) {
-      throw new Error(`Failed to update task status: ${error}`);
+      throw wrapProviderError(`Failed to update task status`, error);
+    }
+  }
+
+  /**
+   * Set the parent relation or add a blocker to the blocked-by relation (propertyMapping.parent / blockedBy)
+   */
+  async linkTask(taskId: string, relatedTaskId: string, relation: TaskRelationType): Promise<void> {
+    try {
+      const schema = await this.getDatabaseSchema();
+      const relatedId = this.extractNotionId(relatedTaskId);
+
+      if (relation === 'parent') {
+        await this.notion.pages.update({
+          page_id: taskId,
+          properties: this.propertyMapper.buildProperty('parent', relatedId, schema)
+        });
+        return;
+      }
+
+      const page: any = await this.notion.pages.retrieve({ page_id: taskId });
+      const blockers = this.propertyMapper.readFields(page.properties || {}).blockedBy || [];
+      if (blockers.some(id => id.replace(/-/g, '') === relatedId.replace(/-/g, ''))) return;
+
+      await this.notion.pages.update({
+        page_id: taskId,
+        properties: this.propertyMapper.buildProperty('blockedBy', [...blockers, relatedId], schema)
+      });
+    } catch (error) {
+      throw wrapProviderError(`Failed to link task`, error);
+    }
+  }
+
+  /**
+   * Query the task database; filtering, sorting and pagination run on Notion's side
+   * The text filter searches titles only, page content is not indexed by database queries.
+   */
+  async listTasks(query: TaskQuery = {}): Promise<TaskQueryResult> {
+    try {
+      const schema = await this.getDatabaseSchema();
+      const filters: any[] = [];
+
+      if (query.status && query.status.length > 0) {
+        filters.push(this.anyOf(query.status.map(status => this.propertyMapper.buildFilter('status', this.toStatusLabel(status), schema))));
+      }
+      if (query.type && query.type.length > 0) {
+        filters.push(this.anyOf(query.type.map(type => this.propertyMapper.buildFilter('type', type, schema))));
+      }
+      if (query.text) {
+        filters.push({ property: await this.getTitlePropertyName(), title: { contains: query.text } });
+      }
+      if (query.assignee) {
+        const assignee = this.propertyMapper.getPropertyType('assignee', schema) === 'people'
+          ? await this.resolveUserId(query.assignee)
+          : query.assignee;
+        filters.push(this.propertyMapper.buildFilter('assignee', assignee, schema));
+      }
+      if (query.updatedSince) {
+        filters.push({ timestamp: 'last_edited_time', last_edited_time: { on_or_after: query.updatedSince } });
+      }
+
+      const response = await this.notion.databases.query({
+        database_id: this.databaseId,
+        filter: filters.length > 1 ? { and: filters } : filters[0],
+        sorts: [await this.buildSort(query, schema)],
+        page_size: query.limit,
+        start_cursor: query.cursor
+      });
+
+      return {
+        tasks: response.results.map(page => this.mapNotionPageToTask(page)),
+        hasMore: response.has_more,
+        nextCursor: response.next_cursor || undefined
+      };
+    } catch (error) {
+      throw wrapProviderError(`Failed to list tasks`, error);
     }
   }
 
   async analyzeTodos(taskId: string, includeHierarchy: boolean = false): Promise<TodoAnalysisResult> {
     try {
-      const [blocksResponse, taskResponse] = await Promise.all([
-        this.notion.blocks.children.list({ block_id: taskId }),
+      const [blocks, taskResponse] = await Promise.all([
+        this.fetchBlockTree(taskId),
         this.notion.pages.retrieve({ page_id: taskId })
       ]);
       
-      const blocks = blocksResponse.results;
       const taskTitle = this.extractTaskTitle(taskResponse);
 
       const todos = this.parseNotionBlocksToTodos(blocks, includeHierarchy, taskTitle);
@@ -268,49 +413,49 @@ export class NotionProvider implements TaskProvider {
       return {
         todos,
         stats,
-        content: this.generateContentFromBlocks(blocks),
-        insights: this.generateInsights(stats),
-        recommendations: this.generateRecommendations(stats),
-        blockers: this.identifyBlockers(stats)
+        content: this.converter.blocksToMarkdown(blocks),
+        workload: this.todoMetadataParser.calculateWorkload(todos)
       };
     } catch (error) {
-      throw new Error(`Failed to analyze todos: ${error}`);
+      throw wrapProviderError(`Failed to analyze todos`, error);
     }
   }
 
-  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<{ updated: number; failed: number }> {
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult> {
     let updated = 0;
     let failed = 0;
+    const failures: TodoMatchFailure[] = [];
 
     try {
-      const response = await this.notion.blocks.children.list({ 
-        block_id: taskId 
-      });
-      const blocks = response.results;
+      const blocks = await this.fetchBlockTree(taskId);
+      const candidates = this.getTodoCandidates(blocks);
 
       for (const update of updates) {
+        const { todo, failure } = this.todoMatcher.match(candidates, update);
+        if (!todo) {
+          if (failure) failures.push(failure);
+          failed++;
+          continue;
+        }
+
         try {
-          const todoBlock = this.findTodoBlock(blocks, update.todoText);
-          if (todoBlock && todoBlock.type === 'to_do') {
-            await this.notion.blocks.update({
-              block_id: todoBlock.id,
-              to_do: {
-                rich_text: todoBlock.to_do.rich_text,
-                checked: update.completed
-              }
-            });
-            updated++;
-          } else {
-            failed++;
-          }
+          await this.notion.blocks.update({
+            block_id: todo.block.id,
+            to_do: {
+              rich_text: todo.block.to_do.rich_text,
+              checked: update.completed
+            }
+          });
+          todo.completed = update.completed;
+          updated++;
         } catch (error) {
           failed++;
         }
       }
 
-      return { updated, failed };
+      return { updated, failed, failures };
     } catch (error) {
-      throw new Error(`Failed to update todos: ${error}`);
+      throw wrapProviderError(`Failed to update todos`, error);
     }
   }
 
@@ -319,6 +464,56 @@ export class NotionProvider implements TaskProvider {
     return result.updated > 0;
   }
 
+  /**
+   * Notion cannot move blocks: a moved to-do is recreated (with its nested blocks) at the new
+   * position before the original is deleted, so it gets a new block ID and loses its block comments
+   */
+  async editTodo(taskId: string, edit: TodoEdit): Promise<string | undefined> {
+    try {
+      const blocks = await this.fetchBlockTree(taskId);
+
+      if (edit.action === 'add') {
+        const position = this.findTodoInsertion(taskId, blocks, edit);
+        const [created] = await this.appendBlocks(position.parentId, this.converter.markdownToBlocks(`- [ ] ${edit.text || ''}`), position.after);
+        return created;
+      }
+
+      const todo = this.todoMatcher.resolve(this.getTodoCandidates(blocks), edit);
+
+      switch (edit.action) {
+        case 'edit':
+          await this.notion.blocks.update({
+            block_id: todo.block.id,
+            to_do: {
+              rich_text: this.converter.parseInline(edit.text || ''),
+              checked: todo.completed
+            }
+          });
+          return todo.id;
+        case 'delete':
+          await this.notion.blocks.delete({ block_id: todo.block.id });
+          return undefined;
+        case 'move': {
+          const nested = this.flattenBlocks(todo.block.children || []).map(block => block.id.replace(/-/g, ''));
+          if (edit.afterTodoId && nested.includes(edit.afterTodoId.replace(/-/g, ''))) {
+            throw new ValidationError('A todo cannot be moved into its own nested todos', 'afterTodoId');
+          }
+
+          const position = this.findTodoInsertion(taskId, this.withoutBlock(blocks, todo.block.id), edit);
+          const markdown = this.converter.blocksToMarkdown([todo.block]);
+          // The copy has to exist before the original goes, a failed append must not lose the todo
+          const [created] = await this.appendBlocks(position.parentId, this.converter.markdownToBlocks(markdown), position.after);
+          await this.notion.blocks.delete({ block_id: todo.block.id });
+          return created;
+        }
+        default:
+          throw new ValidationError(`Invalid todo action "${edit.action}"`, 'action');
+      }
+    } catch (error) {
+      throw wrapProviderError(`Failed to edit todo`, error);
+    }
+  }
+
   private mapNotionPageToTask(page: any): Task {
     // Find the title property dynamically
     let title = 'Untitled';
@@ -329,14 +524,20 @@ export class NotionProvider implements TaskProvider {
       }
     }
     
-    const status = page.properties?.Status?.status?.name || 'Unknown';
-    const type = page.properties?.Type?.select?.name || 'Unknown';
+    const fields = this.propertyMapper.readFields(page.properties || {});
     
     return {
       id: page.id,
       title,
-      status,
-      type,
+      status: fields.status || 'Unknown',
+      type: fields.type || 'Unknown',
+      priority: fields.priority,
+      assignee: fields.assignee,
+      dueDate: fields.dueDate,
+      labels: fields.labels,
+      parentId: fields.parentId,
+      childIds: fields.childIds,
+      blockedBy: fields.blockedBy,
       url: page.url,
       createdTime: page.created_time,
       lastEditedTime: page.last_edited_time,
@@ -344,304 +545,373 @@ export class NotionProvider implements TaskProvider {
     };
   }
 
-  private parseMarkdownToNotionBlocks(markdown: string): any[] {
-    const blocks = [];
-    const lines = markdown.split('\n');
-    let inCodeBlock = false;
-    let codeBlockContent = [];
-    let codeBlockLanguage = '';
+  private anyOf(filters: any[]): any {
+    return filters.length === 1 ? filters[0] : { or: filters };
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i] || '';
-      const trimmed = line.trim();
-      
-      // Handle code blocks
-      if (trimmed.startsWith('```')) {
-        if (!inCodeBlock) {
-          inCodeBlock = true;
-          codeBlockLanguage = trimmed.replace(/^```/, '').trim();
-          codeBlockContent = [];
-        } else {
-          inCodeBlock = false;
-          blocks.push({
-            type: 'code',
-            code: {
-              rich_text: [{ type: 'text', text: { content: codeBlockContent.join('\n') } }],
-              language: codeBlockLanguage || 'plain text'
-            }
-          });
-          codeBlockContent = [];
-          codeBlockLanguage = '';
+  private async buildSort(query: TaskQuery, schema: Record<string, any>): Promise<any> {
+    const direction = query.sortDirection === 'asc' ? 'ascending' : 'descending';
+
+    switch (query.sortBy || 'updated') {
+      case 'updated':
+        return { timestamp: 'last_edited_time', direction };
+      case 'created':
+        return { timestamp: 'created_time', direction };
+      case 'title':
+        return { property: await this.getTitlePropertyName(), direction };
+      default: {
+        const field = query.sortBy as 'status' | 'priority' | 'dueDate';
+        const name = this.propertyMapper.getPropertyName(field);
+        if (!name || !schema[name]) {
+          throw new Error(`Cannot sort by ${field}: no property mapped (set propertyMapping.${field})`);
         }
-        continue;
-      }
-
-      if (inCodeBlock) {
-        codeBlockContent.push(line);
-        continue;
-      }
-      
-      // Handle todos
-      if (trimmed.startsWith('- [ ]') || trimmed.startsWith('- [x]')) {
-        const checked = trimmed.includes('[x]');
-        const text = trimmed.replace(/^- \[[ x]\]\s*/, '');
-        
-        blocks.push({
-          type: 'to_do',
-          to_do: {
-            rich_text: this.parseRichText(text),
-            checked
-          }
-        });
-      }
-      // Handle bullet lists
-      else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-        const text = trimmed.replace(/^[*-]\s*/, '');
-        blocks.push({
-          type: 'bulleted_list_item',
-          bulleted_list_item: {
-            rich_text: this.parseRichText(text)
-          }
-        });
-      }
-      // Handle numbered lists
-      else if (/^\d+\.\s/.test(trimmed)) {
-        const text = trimmed.replace(/^\d+\.\s*/, '');
-        blocks.push({
-          type: 'numbered_list_item',
-          numbered_list_item: {
-            rich_text: this.parseRichText(text)
-          }
-        });
-      }
-      // Handle headings
-      else if (trimmed.startsWith('###')) {
-        const text = trimmed.replace(/^###\s*/, '');
-        blocks.push({
-          type: 'heading_3',
-          heading_3: {
-            rich_text: this.parseRichText(text)
-          }
-        });
-      } else if (trimmed.startsWith('##')) {
-        const text = trimmed.replace(/^##\s*/, '');
-        blocks.push({
-          type: 'heading_2',
-          heading_2: {
-            rich_text: this.parseRichText(text)
-          }
-        });
-      } else if (trimmed.startsWith('#')) {
-        const text = trimmed.replace(/^#\s*/, '');
-        blocks.push({
-          type: 'heading_1',
-          heading_1: {
-            rich_text: this.parseRichText(text)
-          }
-        });
-      }
-      // Handle paragraphs
-      else if (trimmed && !trimmed.startsWith('#')) {
-        blocks.push({
-          type: 'paragraph',
-          paragraph: {
-            rich_text: this.parseRichText(line || '')
-          }
-        });
+        return { property: name, direction };
       }
     }
+  }
 
-    // Handle unclosed code block
-    if (inCodeBlock && codeBlockContent.length > 0) {
-      blocks.push({
-        type: 'code',
-        code: {
-          rich_text: [{ type: 'text', text: { content: codeBlockContent.join('\n') } }],
-          language: codeBlockLanguage || 'plain text'
-        }
-      });
-    }
+  /**
+   * People filters need a user ID; look up workspace users by name otherwise
+   */
+  private async resolveUserId(nameOrId: string): Promise<string> {
+    if (NOTION_ID.test(nameOrId.trim())) return nameOrId.trim();
+
+    let cursor: string | undefined;
+    do {
+      const response = await this.notion.users.list({ start_cursor: cursor, page_size: 100 });
+      const match = response.results.find(user => user.name?.toLowerCase() === nameOrId.trim().toLowerCase());
+      if (match) return match.id;
+      cursor = response.has_more ? response.next_cursor || undefined : undefined;
+    } while (cursor);
+
+    throw new Error(`No Notion user named "${nameOrId}"`);
+  }
 
-    return blocks;
+  private async mapNotionComment(comment: any): Promise<TaskComment> {
+    return {
+      id: comment.id,
+      body: this.extractRichText(comment.rich_text || []),
+      author: comment.created_by?.id ? await this.resolveUserName(comment.created_by.id) : undefined,
+      createdTime: comment.created_time,
+      threadId: comment.discussion_id,
+      resolved: false
+    };
+  }
+
+  /**
+   * Display name of a user; falls back to the ID without the user information capability
+   */
+  private async resolveUserName(userId: string): Promise<string> {
+    const cached = this.userNames.get(userId);
+    if (cached) return cached;
+
+    let name = userId;
+    try {
+      const user = await this.notion.users.retrieve({ user_id: userId });
+      name = user.name || userId;
+    } catch (error) {
+      // Integration lacks user information access
+    }
+    this.userNames.set(userId, name);
+    return name;
   }
 
+  /**
+   * Extract todos from a block tree (see fetchBlockTree)
+   * Nested to-dos are linked through children/parentId (the parent block ID) but remain in the flat
+   * list so stats count them. To-dos inside toggles, columns or list items are found as well.
+   */
   private parseNotionBlocksToTodos(blocks: any[], includeHierarchy: boolean = false, taskTitle?: string): TodoItem[] {
     const todos: TodoItem[] = [];
-    let todoIndex = 0;
     let currentHeading: string | null = null;
     let currentLevel = 0;
     let currentContextText: string | null = null;
     let todosInCurrentSection: string[] = [];
 
-    for (let i = 0; i < blocks.length; i++) {
-      const block = blocks[i];
-      
-      // Detect headings
-      if (block.type === 'heading_1' || block.type === 'heading_2' || block.type === 'heading_3') {
-        if (includeHierarchy) {
-          // Reset section context
-          currentHeading = this.extractRichText(block[block.type].rich_text);
-          currentLevel = parseInt(block.type.split('_')[1]) - 1;
-          currentContextText = null;
-          todosInCurrentSection = [];
-          
-          // Look ahead for context paragraph after heading
-          if (i + 1 < blocks.length && blocks[i + 1].type === 'paragraph') {
-            currentContextText = this.extractRichText(blocks[i + 1].paragraph.rich_text);
+    const visit = (siblings: any[], parentBlockId: string | null, parent: TodoItem | null, depth: number) => {
+      for (let i = 0; i < siblings.length; i++) {
+        const block = siblings[i];
+
+        // Detect headings
+        if (block.type === 'heading_1' || block.type === 'heading_2' || block.type === 'heading_3') {
+          if (includeHierarchy) {
+            // Reset section context
+            currentHeading = this.extractRichText(block[block.type].rich_text);
+            currentLevel = parseInt(block.type.split('_')[1]) - 1;
+            currentContextText = null;
+            todosInCurrentSection = [];
+
+            // Look ahead for context paragraph after heading
+            if (i + 1 < siblings.length && siblings[i + 1].type === 'paragraph') {
+              currentContextText = this.extractRichText(siblings[i + 1].paragraph.rich_text);
+            }
           }
         }
-      }
-      
-      // Process todos
-      if (block.type === 'to_do') {
-        const text = this.extractRichText(block.to_do.rich_text);
-        todosInCurrentSection.push(text);
-        
-        const todoItem: TodoItem = {
-          text,
-          completed: block.to_do.checked || false,
-          level: includeHierarchy ? currentLevel + 1 : 0,
-          index: todoIndex++,
-          originalLine: `- [${block.to_do.checked ? 'x' : ' '}] ${text}`,
-          lineNumber: todoIndex,
-          isSubtask: includeHierarchy && currentHeading !== null,
-          children: [],
-          // Rich context
-          heading: includeHierarchy ? (currentHeading || undefined) : undefined,
-          headingLevel: includeHierarchy ? currentLevel : undefined,
-          contextText: includeHierarchy ? (currentContextText || undefined) : undefined,
-          taskTitle: includeHierarchy ? taskTitle : undefined,
-          relatedTodos: includeHierarchy ? [...todosInCurrentSection.filter(t => t !== text)] : undefined
-        };
-        
-        // Add heading context if hierarchy is enabled (keeping backward compatibility)
-        if (includeHierarchy && currentHeading) {
-          todoItem.text = `${currentHeading}: ${text}`;
+
+        // Process todos
+        if (block.type === 'to_do') {
+          const text = this.extractRichText(block.to_do.rich_text);
+          todosInCurrentSection.push(text);
+
+          const todoItem: TodoItem = {
+            id: block.id,
+            text,
+            completed: block.to_do.checked || false,
+            level: includeHierarchy ? currentLevel + 1 + depth : depth,
+            index: todos.length,
+            originalLine: `${'  '.repeat(depth)}- [${block.to_do.checked ? 'x' : ' '}] ${text}`,
+            lineNumber: todos.length + 1,
+            isSubtask: depth > 0 || (includeHierarchy && currentHeading !== null),
+            children: [],
+            parentId: parent ? parentBlockId || undefined : undefined,
+            // Rich context
+            heading: includeHierarchy ? (currentHeading || undefined) : undefined,
+            headingLevel: includeHierarchy ? currentLevel : undefined,
+            contextText: includeHierarchy ? (currentContextText || undefined) : undefined,
+            taskTitle: includeHierarchy ? taskTitle : undefined,
+            relatedTodos: includeHierarchy ? [...todosInCurrentSection.filter(t => t !== text)] : undefined,
+            ...this.parseTodoMetadata(block.to_do.rich_text, text)
+          };
+
+          // Add heading context if hierarchy is enabled (keeping backward compatibility)
+          if (includeHierarchy && currentHeading) {
+            todoItem.text = `${currentHeading}: ${text}`;
+          }
+
+          parent?.children.push(todoItem);
+          todos.push(todoItem);
+
+          if (block.children) {
+            visit(block.children, block.id, todoItem, depth + 1);
+          }
+        } else if (block.children) {
+          // Containers (toggles, columns, list items) keep the enclosing to-do as parent
+          visit(block.children, parentBlockId, parent, depth);
         }
-        
-        todos.push(todoItem);
       }
-    }
+    };
 
+    visit(blocks, null, null, 0);
     return todos;
   }
 
-  private findTodoBlock(blocks: any[], todoText: string): any | null {
-    for (const block of blocks) {
-      if (block.type === 'to_do') {
-        const blockText = this.extractRichText(block.to_do.rich_text);
-        if (blockText.trim() === todoText.trim()) {
-          return block;
-        }
-      }
+  /**
+   * Inline todo annotations; a user mention is the owner, by its full name
+   */
+  private parseTodoMetadata(richText: any[], text: string): TodoMetadata {
+    const metadata = this.todoMetadataParser.parse(text);
+    const mention = (richText || []).find(item => item.type === 'mention' && item.mention?.type === 'user');
+    if (mention) {
+      metadata.owner = mention.mention.user?.name || (mention.plain_text || '').replace(/^@/, '') || metadata.owner;
     }
-    return null;
+    return metadata;
   }
 
-  private parseRichText(text: string): any[] {
-    if (!text || text.trim() === '') return [];
-    
-    const richTextElements = [];
-    let currentIndex = 0;
-    
-    // Regex patterns for different formatting
-    const patterns = [
-      { type: 'bold_italic', regex: /\*\*\*(.*?)\*\*\*/g, annotations: { bold: true, italic: true } },
-      { type: 'bold', regex: /\*\*(.*?)\*\*/g, annotations: { bold: true } },
-      { type: 'italic', regex: /\*(.*?)\*/g, annotations: { italic: true } },
-      { type: 'code', regex: /`(.*?)`/g, annotations: { code: true } }
-    ];
-    
-    // Find all matches and their positions
-    const matches = [];
-    for (const pattern of patterns) {
-      let match;
-      const regex = new RegExp(pattern.regex.source, 'g');
-      while ((match = regex.exec(text)) !== null) {
-        matches.push({
-          start: match.index,
-          end: match.index + match[0].length,
-          content: match[1] || '',
-          annotations: pattern.annotations,
-          type: pattern.type
-        });
-      }
+  /**
+   * To-do blocks as match candidates: the markdown text returned by analyzeTodos, the plain text as alternative
+   */
+  private getTodoCandidates(blocks: any[]): Array<TodoCandidate & { block: any }> {
+    const todoBlocks = new Map(this.flattenBlocks(blocks).filter(block => block.type === 'to_do').map(block => [block.id, block]));
+    return this.parseNotionBlocksToTodos(blocks, true).map(todo => {
+      const block = todoBlocks.get(todo.id);
+      return { ...this.todoMatcher.fromTodoItem(todo, [this.extractPlainText(block.to_do.rich_text)]), block };
+    });
+  }
+
+  /**
+   * Where to append a to-do: after the preceding to-do (as its sibling), after the last to-do of the
+   * section (inside a toggle heading), or after the last top-level to-do of the page
+   */
+  private findTodoInsertion(pageId: string, blocks: any[], position: TodoPosition): { parentId: string; after?: string } {
+    const lastTodo = (siblings: any[]) => [...siblings].reverse().find(block => block.type === 'to_do');
+
+    if (position.afterTodoId) {
+      const todo = this.todoMatcher.resolve(this.getTodoCandidates(blocks), { todoId: position.afterTodoId });
+      return { parentId: this.findParentId(blocks, todo.block.id) || pageId, after: todo.block.id };
     }
-    
-    // Sort matches by start position
-    matches.sort((a, b) => a.start - b.start);
-    
-    // Remove overlapping matches (keep the first one)
-    const filteredMatches: Array<{
-      start: number;
-      end: number;
-      content: string;
-      annotations: any;
-      type: string;
-    }> = [];
-    for (const match of matches) {
-      const hasOverlap = filteredMatches.some(existing => 
-        (match.start < existing.end && match.end > existing.start)
-      );
-      if (!hasOverlap) {
-        filteredMatches.push(match);
+
+    if (position.section) {
+      const headings = this.collectHeadings(blocks, pageId);
+      const match = this.matchHeading(headings, position.section);
+      if (!match) {
+        const available = headings.map(heading => heading.text).join(', ') || 'none';
+        throw new ValidationError(`Section "${position.section}" not found. Available: ${available}`, 'section');
       }
-    }
-    
-    // Build rich text elements
-    for (const match of filteredMatches) {
-      // Add plain text before the match
-      if (currentIndex < match.start) {
-        const plainText = text.substring(currentIndex, match.start);
-        if (plainText) {
-          richTextElements.push({
-            type: 'text',
-            text: { content: plainText }
-          });
-        }
+
+      const heading = match.siblings[match.index];
+      if (heading[heading.type]?.is_toggleable) {
+        const children = heading.children || [];
+        const last = lastTodo(children) || children[children.length - 1];
+        return { parentId: heading.id, after: last?.id };
       }
-      
-      // Add formatted text
-      richTextElements.push({
-        type: 'text',
-        text: { content: match.content },
-        annotations: match.annotations
+
+      const section = this.getSectionBlocks(match.siblings, match.index);
+      const last = lastTodo(section) || section[section.length - 1] || heading;
+      return { parentId: match.parentId, after: last.id };
+    }
+
+    return { parentId: pageId, after: lastTodo(blocks)?.id };
+  }
+
+  private findParentId(blocks: any[], blockId: string): string | undefined {
+    for (const block of blocks) {
+      if (!block.children) continue;
+      if (block.children.some((child: any) => child.id === blockId)) return block.id;
+      const parentId = this.findParentId(block.children, blockId);
+      if (parentId) return parentId;
+    }
+    return undefined;
+  }
+
+  /**
+   * Copy of a block tree without one block (and its nested blocks)
+   */
+  private withoutBlock(blocks: any[], blockId: string): any[] {
+    return blocks
+      .filter(block => block.id !== blockId)
+      .map(block => block.children ? { ...block, children: this.withoutBlock(block.children, blockId) } : block);
+  }
+
+  /**
+   * List all direct children of a block, following pagination cursors
+   */
+  private async listBlockChildren(blockId: string): Promise<any[]> {
+    const results: any[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.notion.blocks.children.list({
+        block_id: blockId,
+        page_size: 100,
+        start_cursor: cursor
       });
-      
-      currentIndex = match.end;
+      results.push(...response.results);
+      cursor = response.has_more ? (response.next_cursor || undefined) : undefined;
+    } while (cursor);
+
+    return results;
+  }
+
+  /**
+   * Fetch the full block tree of a page; nested blocks are attached as `children` on their parent block.
+   * Child pages and databases are not descended into, they are separate pages.
+   */
+  private async fetchBlockTree(blockId: string, depth: number = 0): Promise<any[]> {
+    const blocks = await this.listBlockChildren(blockId);
+    if (depth >= MAX_BLOCK_DEPTH) return blocks;
+
+    // Sequential on purpose: a wide page would otherwise burst past the Notion rate limit
+    for (const block of blocks) {
+      if (block.has_children && !SEPARATE_PAGE_BLOCK_TYPES.includes(block.type)) {
+        block.children = await this.fetchBlockTree(block.id, depth + 1);
+      }
     }
-    
-    // Add remaining plain text
-    if (currentIndex < text.length) {
-      const plainText = text.substring(currentIndex);
-      if (plainText) {
-        richTextElements.push({
-          type: 'text',
-          text: { content: plainText }
-        });
+
+    return blocks;
+  }
+
+  /**
+   * Append converted blocks in chunks of 100 with at most two nesting levels per request (Notion API limits);
+   * deeper or overflowing children are appended to their created parent afterwards
+   * @param after - Sibling block to insert after instead of appending at the end
+   * @returns IDs of the created top-level blocks
+   */
+  private async appendBlocks(parentId: string, blocks: any[], after?: string): Promise<string[]> {
+    const created: string[] = [];
+    let previous = after;
+    for (let start = 0; start < blocks.length; start += MAX_APPEND_BLOCKS) {
+      const deferred: Array<{ path: number[]; children: any[] }> = [];
+      const chunk = blocks
+        .slice(start, start + MAX_APPEND_BLOCKS)
+        .map((block, index) => this.limitNesting(block, [index], 0, deferred));
+
+      const response = await this.notion.blocks.children.append({
+        block_id: parentId,
+        children: chunk,
+        ...(previous ? { after: previous } : {})
+      });
+      created.push(...response.results.map((block: any) => block.id));
+      // Later chunks go after the last block of this one
+      if (previous) previous = response.results[response.results.length - 1]?.id;
+
+      for (const { path, children } of deferred) {
+        const blockId = await this.resolveCreatedBlockId(response.results, path);
+        await this.appendBlocks(blockId, children);
       }
     }
-    
-    // If no formatting was found, return simple text
-    if (richTextElements.length === 0) {
-      return [{ type: 'text', text: { content: text } }];
+    return created;
+  }
+
+  private limitNesting(block: any, path: number[], depth: number, deferred: Array<{ path: number[]; children: any[] }>): any {
+    const content = block[block.type];
+    const children: any[] | undefined = content?.children;
+    if (!children || children.length === 0) return block;
+
+    const { children: _children, ...rest } = content;
+    if (depth >= MAX_APPEND_NESTING) {
+      deferred.push({ path, children });
+      return { ...block, [block.type]: rest };
     }
-    
-    return richTextElements;
+
+    if (children.length > MAX_APPEND_BLOCKS) {
+      deferred.push({ path, children: children.slice(MAX_APPEND_BLOCKS) });
+    }
+    const kept = children
+      .slice(0, MAX_APPEND_BLOCKS)
+      .map((child, index) => this.limitNesting(child, [...path, index], depth + 1, deferred));
+    return { ...block, [block.type]: { ...rest, children: kept } };
+  }
+
+  /**
+   * Follow a position path (top-level index, then child indexes) to the ID of a block created by an append
+   */
+  private async resolveCreatedBlockId(created: any[], path: number[]): Promise<string> {
+    const [first = 0, ...rest] = path;
+    let blockId: string = created[first]?.id;
+    for (const index of rest) {
+      const children = await this.listBlockChildren(blockId);
+      blockId = children[index]?.id;
+    }
+    if (!blockId) {
+      throw new Error('Could not locate appended block to attach nested content');
+    }
+    return blockId;
   }
 
+  /**
+   * Flatten a block tree into document order (parent before its children)
+   */
+  private flattenBlocks(blocks: any[]): any[] {
+    const flat: any[] = [];
+    for (const block of blocks) {
+      flat.push(block);
+      if (block.children) {
+        flat.push(...this.flattenBlocks(block.children));
+      }
+    }
+    return flat;
+  }
+
+  /**
+   * Rich text as markdown: links, mentions (pages link to their Notion URL), equations and annotations are kept
+   */
   private extractRichText(richText: any[]): string {
     if (!richText || !Array.isArray(richText)) return '';
-    return richText.map(text => text.plain_text || text.text?.content || '').join('');
+    return this.converter.renderRichText(richText);
+  }
+
+  private extractPlainText(richText: any[]): string {
+    if (!richText || !Array.isArray(richText)) return '';
+    return this.converter.plainText(richText);
   }
 
   private extractTaskTitle(taskResponse: any): string {
     try {
       if (taskResponse.properties?.title?.title) {
-        return this.extractRichText(taskResponse.properties.title.title);
+        return this.extractPlainText(taskResponse.properties.title.title);
       }
       if (taskResponse.properties?.Name?.title) {
-        return this.extractRichText(taskResponse.properties.Name.title);
+        return this.extractPlainText(taskResponse.properties.Name.title);
       }
       return 'Untitled Task';
     } catch (error) {
@@ -662,91 +932,16 @@ export class NotionProvider implements TaskProvider {
     return { total, completed, percentage, nextTodos };
   }
 
-  private generateContentFromBlocks(blocks: any[]): string {
-    return blocks.map(block => {
-      switch (block.type) {
-        case 'to_do':
-          const checked = block.to_do.checked ? '[x]' : '[ ]';
-          const text = this.extractRichText(block.to_do.rich_text);
-          return `- ${checked} ${text}`;
-        case 'heading_1':
-          return `# ${this.extractRichText(block.heading_1.rich_text)}`;
-        case 'heading_2':
-          return `## ${this.extractRichText(block.heading_2.rich_text)}`;
-        case 'heading_3':
-          return `### ${this.extractRichText(block.heading_3.rich_text)}`;
-        case 'paragraph':
-          return this.extractRichText(block.paragraph.rich_text);
-        default:
-          return '';
-      }
-    }).join('\n');
-  }
-
-  private generateInsights(stats: any): string[] {
-    const insights = [`${stats.completed}/${stats.total} todos completed (${stats.percentage}%)`];
-    
-    if (stats.percentage === 100) {
-      insights.push('Task fully completed');
-    } else if (stats.percentage >= 75) {
-      insights.push('Task almost complete');
-    } else if (stats.percentage >= 50) {
-      insights.push('Task more than halfway complete');
-    } else if (stats.percentage > 0) {
-      insights.push('Task in early progress');
-    } else {
-      insights.push('Task not yet started');
-    }
-
-    if (stats.nextTodos.length > 0) {
-      insights.push(`Next ${stats.nextTodos.length} todo(s): ${stats.nextTodos.join(', ')}`);
-    }
-
-    return insights;
-  }
-
-  private generateRecommendations(stats: any): string[] {
-    const recommendations = [];
-    
-    if (stats.percentage === 0) {
-      recommendations.push('Start with the first todo to begin progress');
-    } else if (stats.percentage < 100) {
-      recommendations.push('Focus on completing remaining todos');
-      if (stats.total > 10) {
-        recommendations.push('Consider breaking into smaller sub-tasks');
-      }
-    } else {
-      recommendations.push('Task ready for review and completion');
-    }
-
-    return recommendations;
-  }
-
-  private identifyBlockers(stats: any): string[] {
-    const blockers = [];
-    
-    if (stats.total === 0) {
-      blockers.push('No todos found - task may need better structure');
-    } else if (stats.total > 20) {
-      blockers.push('Large number of todos might indicate task complexity');
-    }
-
-    return blockers;
-  }
-
   async readPage(pageId: string, includeLinkedPages: boolean = true): Promise<PageContent> {
     try {
       // Get page metadata
       const page = await this.notion.pages.retrieve({ page_id: pageId });
       
-      // Get page blocks (content)
-      const blocks = await this.notion.blocks.children.list({ 
-        block_id: pageId,
-        page_size: 100 
-      });
+      // Get page blocks (content), including nested blocks
+      const blocks = await this.fetchBlockTree(pageId);
       
       // Convert blocks to content
-      const content = this.convertBlocksToMarkdown(blocks.results);
+      const content = this.converter.blocksToMarkdown(blocks);
       
       // Extract page title
       const title = this.extractPageTitle(page);
@@ -754,10 +949,11 @@ export class NotionProvider implements TaskProvider {
       // Get linked pages if requested
       let linkedPages: LinkedPage[] = [];
       if (includeLinkedPages) {
-        linkedPages = await this.extractLinkedPages(blocks.results);
+        const allBlocks = this.flattenBlocks(blocks);
+        linkedPages = await this.extractLinkedPages(allBlocks);
         
         // Also get child pages if this is a database
-        const childPages = await this.getChildPages(pageId);
+        const childPages = await this.getChildPages(pageId, allBlocks);
         linkedPages.push(...childPages);
       }
       
@@ -771,57 +967,86 @@ export class NotionProvider implements TaskProvider {
         createdTime: new Date((page as any).created_time)
       };
     } catch (error) {
-      throw new Error(`Failed to read Notion page: ${error}`);
+      throw wrapProviderError(`Failed to read Notion page`, error);
+    }
+  }
+
+  /**
+   * Gather a page with the pages it mentions, relates to and contains, breadth-first
+   * @param pageId - Page ID or full Notion URL
+   * @throws Error if the start page cannot be read; inaccessible linked pages are reported as skipped
+   */
+  async gatherPageContext(pageId: string, options: PageContextOptions = {}): Promise<PageContextBundle> {
+    try {
+      return await this.contextCollector.collect(
+        this.extractNotionId(pageId),
+        id => this.loadContextPage(id),
+        options,
+        id => this.extractNotionId(id).replace(/-/g, '')
+      );
+    } catch (error) {
+      throw wrapProviderError(`Failed to gather page context`, error);
+    }
+  }
+
+  /**
+   * Full page content plus its outgoing links: page mentions and link_to_page blocks, relation properties
+   * and child pages, in document order with relations last
+   */
+  private async loadContextPage(pageId: string): Promise<LoadedContextPage> {
+    const page: any = await this.notion.pages.retrieve({ page_id: pageId });
+    const blocks = await this.fetchBlockTree(pageId);
+    const pageUrl = (id: string) => `https://notion.so/${id.replace(/-/g, '')}`;
+    const links: LinkedPage[] = [];
+
+    for (const block of this.flattenBlocks(blocks)) {
+      if (block.type === 'child_page') {
+        links.push({ id: block.id, title: block.child_page?.title || '', url: pageUrl(block.id), relationshipType: 'child' });
+      } else if (block.type === 'link_to_page' && block.link_to_page?.page_id) {
+        links.push({ id: block.link_to_page.page_id, title: '', url: pageUrl(block.link_to_page.page_id), relationshipType: 'mention' });
+      }
+
+      for (const text of this.converter.getRichText(block) || []) {
+        if (text.type === 'mention' && text.mention?.type === 'page') {
+          const id = text.mention.page.id;
+          links.push({ id, title: text.plain_text || '', url: text.href || pageUrl(id), relationshipType: 'mention' });
+        }
+      }
+    }
+
+    for (const property of Object.values<any>(page.properties || {})) {
+      if (property.type !== 'relation') continue;
+      for (const related of property.relation || []) {
+        links.push({ id: related.id, title: '', url: pageUrl(related.id), relationshipType: 'relation' });
+      }
     }
+
+    return {
+      id: page.id,
+      title: this.extractPageTitle(page),
+      url: page.url || pageUrl(page.id),
+      content: this.converter.blocksToMarkdown(blocks),
+      links
+    };
   }
 
   private extractPageTitle(page: any): string {
     // Try to find title property
     for (const [, property] of Object.entries(page.properties || {})) {
       if ((property as any).type === 'title') {
-        return this.extractRichText((property as any).title) || 'Untitled';
+        return this.extractPlainText((property as any).title) || 'Untitled';
       }
     }
     return 'Untitled';
   }
 
-  private convertBlocksToMarkdown(blocks: any[]): string {
-    return blocks.map(block => {
-      switch (block.type) {
-        case 'paragraph':
-          return this.extractRichText(block.paragraph.rich_text);
-        case 'heading_1':
-          return `# ${this.extractRichText(block.heading_1.rich_text)}`;
-        case 'heading_2':
-          return `## ${this.extractRichText(block.heading_2.rich_text)}`;
-        case 'heading_3':
-          return `### ${this.extractRichText(block.heading_3.rich_text)}`;
-        case 'bulleted_list_item':
-          return `- ${this.extractRichText(block.bulleted_list_item.rich_text)}`;
-        case 'numbered_list_item':
-          return `1. ${this.extractRichText(block.numbered_list_item.rich_text)}`;
-        case 'to_do':
-          const checked = block.to_do.checked ? '[x]' : '[ ]';
-          return `- ${checked} ${this.extractRichText(block.to_do.rich_text)}`;
-        case 'code':
-          const language = block.code.language || 'text';
-          const codeText = this.extractRichText(block.code.rich_text);
-          return `\`\`\`${language}\n${codeText}\n\`\`\``;
-        case 'quote':
-          return `> ${this.extractRichText(block.quote.rich_text)}`;
-        default:
-          return '';
-      }
-    }).filter(text => text.length > 0).join('\n\n');
-  }
-
   private async extractLinkedPages(blocks: any[]): Promise<LinkedPage[]> {
     const linkedPages: LinkedPage[] = [];
     const seenPageIds = new Set<string>();
 
     for (const block of blocks) {
       // Extract mentions from rich text
-      const richText = this.getRichTextFromBlock(block);
+      const richText = this.converter.getRichText(block);
       if (richText) {
         for (const text of richText) {
           if (text.type === 'mention' && text.mention?.type === 'page') {
@@ -848,40 +1073,12 @@ export class NotionProvider implements TaskProvider {
     return linkedPages;
   }
 
-  private getRichTextFromBlock(block: any): any[] | null {
-    switch (block.type) {
-      case 'paragraph':
-        return block.paragraph.rich_text;
-      case 'heading_1':
-        return block.heading_1.rich_text;
-      case 'heading_2':
-        return block.heading_2.rich_text;
-      case 'heading_3':
-        return block.heading_3.rich_text;
-      case 'bulleted_list_item':
-        return block.bulleted_list_item.rich_text;
-      case 'numbered_list_item':
-        return block.numbered_list_item.rich_text;
-      case 'to_do':
-        return block.to_do.rich_text;
-      case 'quote':
-        return block.quote.rich_text;
-      default:
-        return null;
-    }
-  }
-
-  private async getChildPages(pageId: string): Promise<LinkedPage[]> {
+  private async getChildPages(pageId: string, blocks: any[]): Promise<LinkedPage[]> {
     try {
-      // Try to get child pages (for databases)
-      const children = await this.notion.blocks.children.list({
-        block_id: pageId,
-        page_size: 10
-      });
-
       const childPages: LinkedPage[] = [];
 
-      for (const child of children.results) {
+      // Child pages can sit at any depth (inside toggles or columns), blocks is the flattened tree
+      for (const child of blocks) {
         if ('type' in child && child.type === 'child_page' && 'child_page' in child) {
           try {
             const childContent = await this.getPageContentSummary(child.id);
@@ -942,7 +1139,7 @@ export class NotionProvider implements TaskProvider {
         page_size: 20
       });
 
-      const content = this.convertBlocksToMarkdown(blocks.results);
+      const content = this.converter.blocksToMarkdown(blocks.results);
       // Return first 300 chars as summary
       return content.substring(0, 300) + (content.length > 300 ? '...' : '');
     } catch (error) {
@@ -973,11 +1170,6 @@ export class NotionProvider implements TaskProvider {
     try {
       const cleanDatabaseId = this.extractNotionId(databaseId);
 
-      const children = [];
-      if (content) {
-        children.push(...this.parseMarkdownToNotionBlocks(content));
-      }
-
       // Fetch database schema to find the title property name dynamically
       // Different databases can name their title property differently (Name, Title, etc.)
       const database = await this.notion.databases.retrieve({ database_id: cleanDatabaseId });
@@ -1000,13 +1192,16 @@ export class NotionProvider implements TaskProvider {
 
       const page = await this.notion.pages.create({
         parent: { database_id: cleanDatabaseId },
-        properties: pageProperties,
-        children: children.length > 0 ? children : undefined
+        properties: pageProperties
       });
 
+      if (content) {
+        await this.appendBlocks(page.id, this.converter.markdownToBlocks(content));
+      }
+
       return await this.readPage(page.id, false);
     } catch (error) {
-      throw new Error(`Failed to create Notion page in database ${databaseId}: ${error}`);
+      throw wrapProviderError(`Failed to create Notion page in database ${databaseId}`, error);
     }
   }
 
@@ -1021,10 +1216,17 @@ export class NotionProvider implements TaskProvider {
    * @returns Promise resolving when update is complete
    * @throws Error if page not found or update fails
    */
-  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode: 'append' | 'replace' | 'insert' = 'append', insertAfter?: string): Promise<void> {
+  /**
+   * Update title, properties and content of a page
+   * @param target - insert: text of the block to insert after; replace_section: heading of the section to replace
+   */
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode: PageUpdateMode = 'append', target?: string): Promise<void> {
     if (!pageId || pageId.trim().length === 0) {
       throw new Error('Page ID is required and cannot be empty');
     }
+    if ((mode === 'insert' || mode === 'replace_section') && (!target || target.trim().length === 0)) {
+      throw new Error(mode === 'insert' ? 'insertAfter is required for insert mode' : 'section is required for replace_section mode');
+    }
     if (title && title.length > 2000) {
       throw new Error('Page title cannot exceed 2000 characters');
     }
@@ -1060,86 +1262,147 @@ export class NotionProvider implements TaskProvider {
         });
       }
 
-      if (content) {
-        const newBlocks = this.parseMarkdownToNotionBlocks(content);
+      if (mode === 'replace_section' && content !== undefined) {
+        await this.replaceSection(cleanPageId, target || '', content);
+      } else if (content) {
+        const newBlocks = this.converter.markdownToBlocks(content);
 
         if (mode === 'replace') {
-          const blocks = await this.notion.blocks.children.list({ block_id: cleanPageId });
-
-          for (const block of blocks.results) {
+          // Deleting a top-level block removes its nested blocks too
+          const blocks = await this.listBlockChildren(cleanPageId);
+          // New content first: if appending fails, the page keeps its old content
+          await this.appendBlocks(cleanPageId, newBlocks);
+
+          for (const block of blocks) {
+            // Child pages and databases cannot be recreated from markdown, they are kept
+            if (SEPARATE_PAGE_BLOCK_TYPES.includes(block.type)) continue;
             try {
               await this.notion.blocks.delete({ block_id: block.id });
             } catch (error) {
               // Some blocks (synced blocks) cannot be deleted
             }
           }
+        } else if (mode === 'insert' && target) {
+          const location = await this.findBlockByText(cleanPageId, target);
 
-          if (newBlocks.length > 0) {
-            await this.notion.blocks.children.append({
-              block_id: cleanPageId,
-              children: newBlocks
-            });
-          }
-        } else if (mode === 'insert' && insertAfter) {
-          const targetBlock = await this.findBlockByText(cleanPageId, insertAfter);
-
-          if (!targetBlock) {
-            throw new Error(`Could not find block containing text: "${insertAfter}"`);
+          if (!location) {
+            throw new Error(`Could not find block containing text: "${target}"`);
           }
 
-          // Notion API limitation: can't insert at same level after a block
-          // Workaround: append as children (creates indentation) or fallback to page level
-          if (newBlocks.length > 0) {
-            try {
-              await this.notion.blocks.children.append({
-                block_id: targetBlock.id,
-                children: newBlocks
-              });
-            } catch (error) {
-              // Fallback if target block doesn't support children
-              await this.notion.blocks.children.append({
-                block_id: cleanPageId,
-                children: newBlocks
-              });
-            }
-          }
+          // Inserted as siblings right after the matched block, at its nesting level
+          await this.appendBlocks(location.parentId, newBlocks, location.block.id);
         } else {
-          if (newBlocks.length > 0) {
-            await this.notion.blocks.children.append({
-              block_id: cleanPageId,
-              children: newBlocks
-            });
-          }
+          await this.appendBlocks(cleanPageId, newBlocks);
         }
       }
     } catch (error) {
-      throw new Error(`Failed to update Notion page ${pageId}: ${error}`);
+      throw wrapProviderError(`Failed to update Notion page ${pageId}`, error);
+    }
+  }
+
+  /**
+   * Swap the blocks under a heading, up to the next heading of the same or a higher level
+   * Content under a toggle heading is its nested blocks. A leading heading in the new content that
+   * repeats the section heading is dropped. Child pages and databases in the section are kept.
+   */
+  private async replaceSection(pageId: string, heading: string, content: string): Promise<void> {
+    const section = await this.findSection(pageId, heading);
+    if (!section) {
+      throw new Error(`Could not find heading: "${heading}"`);
+    }
+
+    const headingBlock = section.siblings[section.index];
+    const newBlocks = this.converter.markdownToBlocks(content);
+    const first = newBlocks[0];
+    if (first && HEADING_LEVELS[first.type] && this.sameText(this.extractPlainText(this.converter.getRichText(first) || []), heading)) {
+      newBlocks.shift();
+    }
+
+    const toggleable = !!headingBlock[headingBlock.type]?.is_toggleable;
+    const oldBlocks = toggleable ? (headingBlock.children || []) : this.getSectionBlocks(section.siblings, section.index);
+
+    // New content first: if appending fails, the section keeps its old content
+    if (toggleable) {
+      await this.appendBlocks(headingBlock.id, newBlocks);
+    } else {
+      await this.appendBlocks(section.parentId, newBlocks, headingBlock.id);
+    }
+
+    for (const block of oldBlocks) {
+      if (SEPARATE_PAGE_BLOCK_TYPES.includes(block.type)) continue;
+      try {
+        await this.notion.blocks.delete({ block_id: block.id });
+      } catch (error) {
+        // Some blocks (synced blocks) cannot be deleted
+      }
     }
   }
 
+  /**
+   * Find a heading by its text (exact match first, then partial), at any nesting level
+   */
+  private async findSection(pageId: string, heading: string): Promise<{ parentId: string; siblings: any[]; index: number } | null> {
+    const match = this.matchHeading(this.collectHeadings(await this.fetchBlockTree(pageId), pageId), heading);
+    return match ? { parentId: match.parentId, siblings: match.siblings, index: match.index } : null;
+  }
+
+  private collectHeadings(blocks: any[], pageId: string): SectionHeading[] {
+    const headings: SectionHeading[] = [];
+    const visit = (siblings: any[], parentId: string) => {
+      siblings.forEach((block, index) => {
+        if (HEADING_LEVELS[block.type]) {
+          headings.push({ parentId, siblings, index, text: this.extractPlainText(this.converter.getRichText(block) || []) });
+        }
+        if (block.children) visit(block.children, block.id);
+      });
+    };
+    visit(blocks, pageId);
+    return headings;
+  }
+
+  private matchHeading(headings: SectionHeading[], heading: string): SectionHeading | undefined {
+    return headings.find(candidate => this.sameText(candidate.text, heading))
+      || headings.find(candidate => candidate.text.toLowerCase().includes(heading.trim().toLowerCase()));
+  }
+
+  private getSectionBlocks(siblings: any[], headingIndex: number): any[] {
+    const level = HEADING_LEVELS[siblings[headingIndex]?.type] || 1;
+    const blocks: any[] = [];
+    for (const block of siblings.slice(headingIndex + 1)) {
+      const blockLevel = HEADING_LEVELS[block.type];
+      if (blockLevel && blockLevel <= level) break;
+      blocks.push(block);
+    }
+    return blocks;
+  }
+
+  private sameText(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
   /**
    * Find a block containing specific text for insert operations
    * @param pageId - Page ID to search in
    * @param searchText - Text to search for in blocks
-   * @returns The block containing the text, or null if not found
+   * @returns The block containing the text with the ID of its parent (page or block), or null if not found
    */
-  private async findBlockByText(pageId: string, searchText: string): Promise<any | null> {
+  private async findBlockByText(pageId: string, searchText: string): Promise<{ block: any; parentId: string } | null> {
     try {
-      const blocks = await this.notion.blocks.children.list({
-        block_id: pageId,
-        page_size: 100
-      });
-
-      for (const block of blocks.results) {
-        const blockText = this.extractRichText(this.getRichTextFromBlock(block) || []);
-        if (blockText.toLowerCase().includes(searchText.toLowerCase())) {
-          return block;
+      const search = (blocks: any[], parentId: string): { block: any; parentId: string } | null => {
+        for (const block of blocks) {
+          const blockText = this.extractPlainText(this.converter.getRichText(block) || []);
+          if (blockText.toLowerCase().includes(searchText.toLowerCase())) {
+            return { block, parentId };
+          }
+          const nested = block.children ? search(block.children, block.id) : null;
+          if (nested) return nested;
         }
-      }
+        return null;
+      };
 
-      return null;
+      return search(await this.fetchBlockTree(pageId), pageId);
     } catch (error) {
-      throw new Error(`Failed to search for block containing "${searchText}": ${error}`);
+      throw wrapProviderError(`Failed to search for block containing "${searchText}"`, error);
     }
   }
 
@@ -0,0 +1,343 @@
+/**
+ * MarkdownTodoParser - Parse and update markdown task lists (- [ ] / - [x]) stored in plain-text descriptions
+ *
+ * Used by providers whose task body is a markdown document (Linear, GitHub, ...) rather than Notion blocks.
+ * Todo IDs derive from the normalized todo text (`todo-<hash>`, `todo-<hash>-2` for the second todo with that
+ * text), so they survive checking, moving and edits elsewhere in the document; rewording a todo changes its ID.
+ */
+
+import { TodoItem, TodoAnalysisResult, TodoEdit, TodoMatchFailure, TodoPosition, TodoStats, TodoUpdateRequest } from '../../models/Todo.js';
+import { ValidationError } from '../../types/Errors.js';
+import { TodoCandidate, TodoMatcher } from './TodoMatcher.js';
+import { TodoMetadataParser } from './TodoMetadataParser.js';
+import { normalizeText } from './TextNormalizer.js';
+
+const TODO_LINE = /^(\s*)(?:[-*+]|\d+[.)])\s+\[( |x|X)\]\s+(.*?)\s*$/;
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+const LIST_LINE = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+type LineTodo = TodoCandidate & { lineNumber: number; nested: boolean };
+
+export class MarkdownTodoParser {
+  private matcher = new TodoMatcher();
+  private metadataParser = new TodoMetadataParser();
+
+  /**
+   * Extract todos from markdown task lists
+   * Nested checkboxes are linked through children/parentId but remain in the flat list so stats count them.
+   */
+  parseTodos(markdown: string, includeHierarchy: boolean = false, taskTitle?: string): TodoItem[] {
+    const todos: TodoItem[] = [];
+    const lines = (markdown || '').split('\n');
+    let inCodeBlock = false;
+    let currentHeading: string | null = null;
+    let currentLevel = 0;
+    let currentContextText: string | null = null;
+    let todosInCurrentSection: string[] = [];
+    // Stack of open todos with their indentation to resolve nesting
+    const parents: Array<{ indent: number; todo: TodoItem }> = [];
+    const occurrences = new Map<string, number>();
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = (lines[i] || '').replace(/\r$/, '');
+
+      if (FENCE_LINE.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      if (inCodeBlock) continue;
+
+      const heading = line.match(HEADING_LINE);
+      if (heading) {
+        parents.length = 0;
+        if (includeHierarchy) {
+          currentHeading = heading[2] || '';
+          currentLevel = (heading[1] || '#').length - 1;
+          currentContextText = this.findContextText(lines, i + 1);
+          todosInCurrentSection = [];
+        }
+        continue;
+      }
+
+      const match = line.match(TODO_LINE);
+      if (!match) {
+        if (line.trim() === '') continue;
+        // Any non-list content at column 0 ends the current list
+        if (!/^\s/.test(line) && !/^[-*+]\s|^\d+[.)]\s/.test(line)) parents.length = 0;
+        continue;
+      }
+
+      const indent = this.measureIndent(match[1] || '');
+      const completed = match[2] !== ' ';
+      const text = match[3] || '';
+
+      while (parents.length > 0 && (parents[parents.length - 1]?.indent ?? 0) >= indent) {
+        parents.pop();
+      }
+      const parent = parents[parents.length - 1]?.todo;
+      const depth = parents.length;
+
+      todosInCurrentSection.push(text);
+
+      const firstId = this.getTodoId(text);
+      const occurrence = (occurrences.get(firstId) || 0) + 1;
+      occurrences.set(firstId, occurrence);
+
+      const todoItem: TodoItem = {
+        id: this.getTodoId(text, occurrence),
+        text,
+        completed,
+        level: includeHierarchy ? currentLevel + 1 + depth : depth,
+        index: todos.length,
+        originalLine: line,
+        lineNumber: i + 1,
+        isSubtask: depth > 0 || (includeHierarchy && currentHeading !== null),
+        children: [],
+        parentId: parent?.id,
+        heading: includeHierarchy ? (currentHeading || undefined) : undefined,
+        headingLevel: includeHierarchy ? currentLevel : undefined,
+        contextText: includeHierarchy ? (currentContextText || undefined) : undefined,
+        taskTitle: includeHierarchy ? taskTitle : undefined,
+        relatedTodos: includeHierarchy ? todosInCurrentSection.filter(t => t !== text) : undefined,
+        ...this.metadataParser.parse(text)
+      };
+
+      // Same convention as the Notion provider: prefix with the section heading in hierarchy mode
+      if (includeHierarchy && currentHeading) {
+        todoItem.text = `${currentHeading}: ${text}`;
+      }
+
+      parent?.children.push(todoItem);
+      parents.push({ indent, todo: todoItem });
+      todos.push(todoItem);
+    }
+
+    return todos;
+  }
+
+  /**
+   * Apply checkbox updates to a markdown document
+   * Todos are resolved by todo ID or text with TodoMatcher; unresolved updates are reported in failures.
+   */
+  applyUpdates(markdown: string, updates: TodoUpdateRequest[]): { markdown: string; updated: number; failed: number; failures: TodoMatchFailure[] } {
+    const lines = (markdown || '').split('\n');
+    const todos = this.parseTodos(markdown, true).map(todo => ({ ...this.matcher.fromTodoItem(todo), lineNumber: todo.lineNumber }));
+    const failures: TodoMatchFailure[] = [];
+    let updated = 0;
+
+    for (const update of updates) {
+      const { todo, failure } = this.matcher.match(todos, update);
+      if (!todo) {
+        if (failure) failures.push(failure);
+        continue;
+      }
+      lines[todo.lineNumber - 1] = this.setLineChecked(lines[todo.lineNumber - 1] || '', update.completed);
+      todo.completed = update.completed;
+      updated++;
+    }
+
+    return { markdown: lines.join('\n'), updated, failed: failures.length, failures };
+  }
+
+  /**
+   * Add, edit, delete or move a todo in a markdown document
+   * Deleted and moved todos take their nested lines along.
+   * @returns The document and the ID of the added, edited or moved todo
+   * @throws ValidationError if the todo, the section or the preceding todo cannot be resolved
+   */
+  applyEdit(markdown: string, edit: TodoEdit): { markdown: string; todoId?: string } {
+    const lines = (markdown || '').split('\n');
+    const todos: LineTodo[] = this.parseTodos(markdown, true).map(todo => ({
+      ...this.matcher.fromTodoItem(todo),
+      lineNumber: todo.lineNumber,
+      nested: !!todo.parentId
+    }));
+
+    if (edit.action === 'add') {
+      const insertion = this.findInsertion(lines, todos, edit);
+      const index = this.insertLines(lines, insertion.index, [`${insertion.indent}- [ ] ${edit.text || ''}`]);
+      return this.withTodoIdAt(lines, index);
+    }
+
+    const todo = this.matcher.resolve(todos, edit);
+    const start = todo.lineNumber - 1;
+    const end = this.findBlockEnd(lines, start);
+
+    switch (edit.action) {
+      case 'edit':
+        lines[start] = (lines[start] || '').replace(/(\[(?: |x|X)\]\s+).*$/, (_match, checkbox) => `${checkbox}${edit.text || ''}`);
+        return this.withTodoIdAt(lines, start);
+      case 'delete':
+        lines.splice(start, end - start);
+        return { markdown: lines.join('\n') };
+      case 'move': {
+        const inBlock = (other: LineTodo) => other.lineNumber - 1 >= start && other.lineNumber - 1 < end;
+        if (edit.afterTodoId && todos.some(other => inBlock(other) && other.id === edit.afterTodoId)) {
+          throw new ValidationError('A todo cannot be moved into its own nested todos', 'afterTodoId');
+        }
+        const insertion = this.findInsertion(lines, todos.filter(other => !inBlock(other)), edit);
+
+        const block = lines.splice(start, end - start);
+        const baseIndent = (block[0] || '').match(/^\s*/)?.[0] || '';
+        const moved = block.map(line => line.startsWith(baseIndent) ? insertion.indent + line.slice(baseIndent.length) : line);
+        const index = this.insertLines(lines, insertion.index >= end ? insertion.index - block.length : insertion.index, moved);
+        return this.withTodoIdAt(lines, index);
+      }
+      default:
+        throw new ValidationError(`Invalid todo action "${edit.action}"`, 'action');
+    }
+  }
+
+  /**
+   * Build a full analysis result for a markdown task body
+   */
+  analyze(markdown: string, includeHierarchy: boolean = false, taskTitle?: string): TodoAnalysisResult {
+    const todos = this.parseTodos(markdown, includeHierarchy, taskTitle);
+    const stats = this.calculateStats(todos);
+
+    return {
+      todos,
+      stats,
+      content: markdown || '',
+      workload: this.metadataParser.calculateWorkload(todos)
+    };
+  }
+
+  calculateStats(todos: TodoItem[]): TodoStats {
+    const total = todos.length;
+    const completed = todos.filter(todo => todo.completed).length;
+    const percentage = total === 0 ? 0 : Math.round((completed / total) * 100);
+
+    const nextTodos = todos
+      .filter(todo => !todo.completed)
+      .slice(0, 3)
+      .map(todo => todo.text);
+
+    return { total, completed, percentage, nextTodos };
+  }
+
+  /**
+   * ID of the n-th todo (1-based) with this text: FNV-1a hash of the normalized text
+   */
+  getTodoId(text: string, occurrence: number = 1): string {
+    const normalized = normalizeText(text);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+      hash ^= normalized.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    const id = `todo-${(hash >>> 0).toString(36)}`;
+    return occurrence > 1 ? `${id}-${occurrence}` : id;
+  }
+
+  /**
+   * The edited document and the ID of the todo on a line (0-based), numbered as analyzeTodos will
+   */
+  private withTodoIdAt(lines: string[], index: number): { markdown: string; todoId?: string } {
+    const markdown = lines.join('\n');
+    return { markdown, todoId: this.parseTodos(markdown).find(todo => todo.lineNumber === index + 1)?.id };
+  }
+
+  /**
+   * Line index to insert a todo at, and its indentation: after the preceding todo (with its nested lines),
+   * after the last top-level todo of the section, or after the last top-level todo of the document
+   */
+  private findInsertion(lines: string[], todos: LineTodo[], position: TodoPosition): { index: number; indent: string } {
+    const after = (todo: LineTodo) => ({
+      index: this.findBlockEnd(lines, todo.lineNumber - 1),
+      indent: (lines[todo.lineNumber - 1] || '').match(/^\s*/)?.[0] || ''
+    });
+
+    if (position.afterTodoId) {
+      return after(this.matcher.resolve(todos, { todoId: position.afterTodoId }));
+    }
+
+    let from = 0;
+    let to = lines.length;
+    if (position.section) {
+      const section = this.findSection(lines, position.section);
+      from = section.start + 1;
+      to = section.end;
+    }
+
+    const inRange = todos.filter(todo => !todo.nested && todo.lineNumber - 1 >= from && todo.lineNumber - 1 < to);
+    const last = inRange[inRange.length - 1];
+    if (last) return after(last);
+
+    let index = to;
+    while (index > from && (lines[index - 1] || '').trim() === '') index--;
+    return { index, indent: '' };
+  }
+
+  /**
+   * Heading matching the section text (exact first, then partial, case-insensitive) and the line after its section
+   */
+  private findSection(lines: string[], section: string): { start: number; end: number } {
+    const headings: Array<{ line: number; level: number; text: string }> = [];
+    let inCodeBlock = false;
+    lines.forEach((line, index) => {
+      if (FENCE_LINE.test(line)) inCodeBlock = !inCodeBlock;
+      const heading = !inCodeBlock && line.match(HEADING_LINE);
+      if (heading) headings.push({ line: index, level: (heading[1] || '#').length, text: heading[2] || '' });
+    });
+
+    const target = section.trim().toLowerCase();
+    const match = headings.find(heading => heading.text.trim().toLowerCase() === target)
+      || headings.find(heading => heading.text.toLowerCase().includes(target));
+    if (!match) {
+      const available = headings.map(heading => heading.text).join(', ') || 'none';
+      throw new ValidationError(`Section "${section}" not found. Available: ${available}`, 'section');
+    }
+
+    const next = headings.find(heading => heading.line > match.line && heading.level <= match.level);
+    return { start: match.line, end: next ? next.line : lines.length };
+  }
+
+  /**
+   * Index after a todo line and the more indented lines nested under it
+   */
+  private findBlockEnd(lines: string[], start: number): number {
+    const indent = this.measureIndent((lines[start] || '').match(/^\s*/)?.[0] || '');
+    let end = start + 1;
+    for (let i = start + 1; i < lines.length; i++) {
+      const line = lines[i] || '';
+      if (line.trim() === '') continue;
+      if (this.measureIndent(line.match(/^\s*/)?.[0] || '') <= indent) break;
+      end = i + 1;
+    }
+    return end;
+  }
+
+  /**
+   * Insert list lines, separated by blank lines from adjacent paragraphs; returns the index of the first inserted line
+   */
+  private insertLines(lines: string[], index: number, inserted: string[]): number {
+    // Paragraph lines at column 0; list items, nested lines and headings need no blank line
+    const separate = (line: string | undefined) => line !== undefined && /^\S/.test(line) && !LIST_LINE.test(line) && !HEADING_LINE.test(line);
+    const before = separate(lines[index - 1]) ? [''] : [];
+    const after = separate(lines[index]) ? [''] : [];
+    lines.splice(index, 0, ...before, ...inserted, ...after);
+    return index + before.length;
+  }
+
+  private setLineChecked(line: string, completed: boolean): string {
+    return line.replace(/\[( |x|X)\]/, completed ? '[x]' : '[ ]');
+  }
+
+  private measureIndent(whitespace: string): number {
+    return whitespace.replace(/\t/g, '    ').length;
+  }
+
+  private findContextText(lines: string[], start: number): string | null {
+    for (let i = start; i < lines.length; i++) {
+      const line = (lines[i] || '').trim();
+      if (!line) continue;
+      if (HEADING_LINE.test(line) || TODO_LINE.test(line) || FENCE_LINE.test(line) || /^[-*+>]\s|^\d+[.)]\s/.test(line)) {
+        return null;
+      }
+      return line;
+    }
+    return null;
+  }
+}
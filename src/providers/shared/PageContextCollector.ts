@@ -0,0 +1,138 @@
+/**
+ * PageContextCollector - Gather a page and the pages it links to into one context bundle
+ *
+ * Links are followed breadth-first, so pages close to the start page win when a limit is reached.
+ * Each page is loaded once, however many pages link to it. Token counts are estimates
+ * (4 characters per token); the page that exhausts the budget is cut at a line break.
+ */
+
+import { ContextPage, LinkedPage, PageContextBundle, PageContextOptions, SkippedContextPage } from '../../models/Page.js';
+
+export interface LoadedContextPage {
+  id: string;
+  title: string;
+  url: string;
+  content: string;
+  links: LinkedPage[];  // Outgoing links in document order, title may be empty when unknown
+}
+
+export type ContextPageLoader = (pageId: string) => Promise<LoadedContextPage>;
+
+interface QueuedPage {
+  id: string;
+  title?: string;
+  depth: number;
+  relationshipType?: LinkedPage['relationshipType'];
+  linkedFrom?: string;
+}
+
+export const DEFAULT_PAGE_CONTEXT_LIMITS: Required<PageContextOptions> = {
+  maxDepth: 2,
+  maxPages: 10,
+  maxTokens: 20000
+};
+
+const CHARS_PER_TOKEN = 4;
+
+export class PageContextCollector {
+
+  /**
+   * @param normalizeId - Maps the different spellings of an ID (dashes, URLs) to one key for deduplication
+   * @throws The loader's error when the start page cannot be loaded; linked pages that fail are skipped
+   */
+  async collect(
+    rootId: string,
+    load: ContextPageLoader,
+    options: PageContextOptions = {},
+    normalizeId: (id: string) => string = id => id
+  ): Promise<PageContextBundle> {
+    const limits = this.resolveLimits(options);
+    const queue: QueuedPage[] = [{ id: rootId, depth: 0 }];
+    const seen = new Set<string>([normalizeId(rootId)]);
+    const pages: ContextPage[] = [];
+    const skipped: SkippedContextPage[] = [];
+    let remainingTokens = limits.maxTokens;
+
+    for (let entry = queue.shift(); entry; entry = queue.shift()) {
+      const skip = (reason: SkippedContextPage['reason']) =>
+        skipped.push({ id: entry!.id, title: entry!.title || undefined, depth: entry!.depth, reason });
+
+      if (pages.length >= limits.maxPages) {
+        skip('pages');
+        continue;
+      }
+      if (remainingTokens <= 0) {
+        skip('tokens');
+        continue;
+      }
+
+      let loaded: LoadedContextPage;
+      try {
+        loaded = await load(entry.id);
+      } catch (error) {
+        if (entry.depth === 0) throw error;
+        skip('inaccessible');
+        continue;
+      }
+      seen.add(normalizeId(loaded.id));
+
+      const content = this.fitToBudget(loaded.content, remainingTokens);
+      remainingTokens -= this.estimateTokens(content);
+      pages.push({
+        id: loaded.id,
+        title: loaded.title,
+        url: loaded.url,
+        content,
+        depth: entry.depth,
+        relationshipType: entry.relationshipType,
+        linkedFrom: entry.linkedFrom,
+        truncated: content.length < loaded.content.length
+      });
+
+      for (const link of loaded.links) {
+        const key = normalizeId(link.id);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const next: QueuedPage = { id: link.id, title: link.title, depth: entry.depth + 1, relationshipType: link.relationshipType, linkedFrom: loaded.id };
+        if (next.depth > limits.maxDepth) {
+          skipped.push({ id: next.id, title: next.title || undefined, depth: next.depth, reason: 'depth' });
+        } else {
+          queue.push(next);
+        }
+      }
+    }
+
+    return {
+      rootId: pages[0]?.id || rootId,
+      pages,
+      skipped,
+      estimatedTokens: limits.maxTokens - remainingTokens,
+      limits
+    };
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  private resolveLimits(options: PageContextOptions): Required<PageContextOptions> {
+    return {
+      maxDepth: options.maxDepth ?? DEFAULT_PAGE_CONTEXT_LIMITS.maxDepth,
+      maxPages: options.maxPages ?? DEFAULT_PAGE_CONTEXT_LIMITS.maxPages,
+      maxTokens: options.maxTokens ?? DEFAULT_PAGE_CONTEXT_LIMITS.maxTokens
+    };
+  }
+
+  /**
+   * Cut content to the remaining budget, preferring the last line break in the second half of the cut
+   */
+  private fitToBudget(content: string, remainingTokens: number): string {
+    const maxChars = remainingTokens * CHARS_PER_TOKEN;
+    if (content.length <= maxChars) return content;
+
+    const cut = content.slice(0, maxChars);
+    const lineBreak = cut.lastIndexOf('\n');
+    return lineBreak > maxChars / 2 ? cut.slice(0, lineBreak) : cut;
+  }
+}
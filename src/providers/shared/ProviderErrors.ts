@@ -0,0 +1,130 @@
+/**
+ * ProviderErrors - Classify provider failures into the error types of types/Errors.ts
+ *
+ * Providers throw these instead of plain errors so callers (retry policy, MCP server) can tell
+ * invalid input, missing tasks, rate limits and transient network failures apart.
+ */
+
+import { isNotionClientError, RequestTimeoutError } from '@notionhq/client';
+import { TaskProviderError, ValidationError, NetworkError, RateLimitError } from '../../types/Errors.js';
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+// Server-side failures that are worth another attempt
+const TRANSIENT_STATUS_CODES = [408, 500, 502, 503, 504];
+// Error codes of failed fetch() calls (DNS, refused or dropped connections)
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+export function isTransientStatus(status: number): boolean {
+  return TRANSIENT_STATUS_CODES.includes(status);
+}
+
+/**
+ * Rate limits answer 429; GitHub also answers 403 once the quota is used up
+ */
+export function isRateLimited(status: number, headers?: unknown): boolean {
+  if (status === 429) return true;
+  if (status !== 403) return false;
+  const header = (name: string) => getHeader(headers, name);
+  return header('x-ratelimit-remaining') === '0' || header('retry-after') !== undefined;
+}
+
+/**
+ * Seconds to wait before retrying, from Retry-After (seconds or HTTP date) or a rate limit reset time
+ */
+export function parseRetryAfter(headers?: unknown): number | undefined {
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  // Epoch seconds (GitHub: x-ratelimit-reset, GitLab: ratelimit-reset)
+  const reset = getHeader(headers, 'x-ratelimit-reset') ?? getHeader(headers, 'ratelimit-reset');
+  if (reset !== undefined && !Number.isNaN(Number(reset))) {
+    return Math.max(0, Math.ceil(Number(reset) - Date.now() / 1000));
+  }
+  return undefined;
+}
+
+/**
+ * Typed error for a failed HTTP response
+ */
+export function errorFromResponse(status: number, message: string, headers?: unknown): TaskProviderError {
+  if (isRateLimited(status, headers)) {
+    return new RateLimitError(message, parseRetryAfter(headers), status);
+  }
+  if (isTransientStatus(status)) {
+    return new NetworkError(message, true, status);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, undefined, status);
+  }
+  return new TaskProviderError(message, status);
+}
+
+/**
+ * Turn any caught error into a TaskProviderError (or subclass), keeping typed errors as they are
+ */
+export function classifyProviderError(error: unknown): TaskProviderError {
+  if (error instanceof TaskProviderError) return error;
+
+  const cause = error instanceof Error ? error : undefined;
+  const message = cause?.message || String(error);
+
+  if (isNotionClientError(error)) {
+    if (RequestTimeoutError.isRequestTimeoutError(error)) {
+      return new NetworkError(message, true, undefined, error);
+    }
+    const classified = errorFromResponse(error.status, message, error.headers);
+    classified.originalError = error;
+    return classified;
+  }
+
+  if (isNetworkFailure(error)) {
+    return new NetworkError(message, true, undefined, cause);
+  }
+  return new TaskProviderError(message, undefined, cause);
+}
+
+/**
+ * Add context to a caught error without losing its type, e.g. `wrapProviderError('Failed to get task', error)`
+ */
+export function wrapProviderError(context: string, error: unknown): TaskProviderError {
+  const classified = classifyProviderError(error);
+  const message = `${context}: ${error}`;
+
+  if (classified instanceof ValidationError) {
+    return new ValidationError(message, classified.field, classified.statusCode, classified);
+  }
+  if (classified instanceof RateLimitError) {
+    return new RateLimitError(message, classified.retryAfter, classified.statusCode, classified);
+  }
+  if (classified instanceof NetworkError) {
+    return new NetworkError(message, classified.retryable, classified.statusCode, classified);
+  }
+  return new TaskProviderError(message, classified.statusCode, classified);
+}
+
+function isNetworkFailure(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') return true;
+
+  // fetch() rejects with TypeError('fetch failed') and the socket error as cause
+  const code = (error as any).code ?? (error as any).cause?.code;
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) return true;
+  return error instanceof TypeError && error.message === 'fetch failed';
+}
+
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  if (typeof (headers as HeaderSource).get === 'function') {
+    return (headers as HeaderSource).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
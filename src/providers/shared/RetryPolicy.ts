@@ -0,0 +1,104 @@
+/**
+ * RetryPolicy - fetch() with retries for provider API calls
+ *
+ * Rate limited requests (429) were not processed and are always retried, after the Retry-After delay
+ * when the API sends one. Transient failures (5xx, timeouts, dropped connections) are only retried
+ * for idempotent requests, since a create or append may already have been applied. Other delays use
+ * exponential backoff with jitter.
+ */
+
+import { NetworkError } from '../../types/Errors.js';
+import { classifyProviderError, isRateLimited, isTransientStatus, parseRetryAfter } from './ProviderErrors.js';
+
+export interface RetryOptions {
+  maxRetries?: number;       // Retries after the first attempt (0 disables retries)
+  baseDelayMs?: number;      // Backoff before the first retry, doubled for each further retry
+  maxDelayMs?: number;       // Upper bound for backoff delays
+  maxRetryAfterMs?: number;  // Longer Retry-After delays are not waited for; the call fails with a RateLimitError
+}
+
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Status a response is handled as, for APIs that report e.g. rate limits in the body of another status
+export type ResponseClassifier = (response: Response) => Promise<number>;
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export class RetryPolicy {
+  private options: Required<RetryOptions>;
+
+  constructor(
+    options: RetryOptions = {},
+    private upstream: FetchFunction = (url, init) => fetch(url, init),
+    private classify: ResponseClassifier = async response => response.status
+  ) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  }
+
+  /**
+   * Send a request, retrying it while the policy allows
+   * @param idempotent Whether the request can safely be repeated; defaults to the HTTP method semantics
+   * @returns The first successful response, or the last failed one once retries are exhausted
+   * @throws NetworkError if the request could not be sent
+   */
+  fetch = async (url: string, init: RequestInit = {}, idempotent?: boolean): Promise<Response> => {
+    const method = (init.method || 'GET').toUpperCase();
+    const repeatable = idempotent ?? IDEMPOTENT_METHODS.includes(method);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.upstream(url, init);
+      } catch (error) {
+        const failure = classifyProviderError(error);
+        const retryable = failure instanceof NetworkError && failure.retryable;
+        if (!repeatable || !retryable || attempt >= this.options.maxRetries) throw failure;
+
+        await this.sleep(this.getBackoff(attempt));
+        continue;
+      }
+
+      const status = response.ok ? response.status : await this.classify(response);
+      const delay = this.getRetryDelay(response, status, repeatable, attempt);
+      if (delay === undefined) return response;
+
+      // Release the connection before waiting
+      await response.text().catch(() => undefined);
+      console.error(`⏳ ${method} ${url} answered ${status}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${this.options.maxRetries})`);
+      await this.sleep(delay);
+    }
+  };
+
+  private getRetryDelay(response: Response, status: number, idempotent: boolean, attempt: number): number | undefined {
+    if (response.ok || attempt >= this.options.maxRetries) return undefined;
+
+    if (isRateLimited(status, response.headers)) {
+      const retryAfter = parseRetryAfter(response.headers);
+      if (retryAfter === undefined) return this.getBackoff(attempt);
+
+      const delay = retryAfter * 1000;
+      return delay <= this.options.maxRetryAfterMs ? delay + Math.random() * this.options.baseDelayMs : undefined;
+    }
+
+    return idempotent && isTransientStatus(status) ? this.getBackoff(attempt) : undefined;
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half the delay is fixed, the other half random
+   */
+  private getBackoff(attempt: number): number {
+    const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
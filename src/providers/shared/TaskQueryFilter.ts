@@ -0,0 +1,75 @@
+/**
+ * TaskQueryFilter - Filter, sort and paginate tasks in memory
+ *
+ * Used by providers that load all their tasks at once (local files, in-memory) instead of querying
+ * a remote API. The cursor is the offset of the next page.
+ */
+
+import { Task, TaskQuery, TaskQueryResult } from '../../models/Task.js';
+
+export class TaskQueryFilter {
+
+  apply(tasks: Task[], query: TaskQuery = {}): TaskQueryResult {
+    const matching = tasks
+      .filter(task => this.matches(task, query))
+      .sort((a, b) => this.compare(a, b, query));
+
+    const offset = query.cursor ? Math.max(0, parseInt(query.cursor, 10) || 0) : 0;
+    const limit = query.limit || matching.length;
+    const end = offset + limit;
+    const hasMore = end < matching.length;
+
+    return {
+      tasks: matching.slice(offset, end),
+      hasMore,
+      nextCursor: hasMore ? String(end) : undefined
+    };
+  }
+
+  private matches(task: Task, query: TaskQuery): boolean {
+    const equalsAny = (value: string | undefined, candidates?: string[]) =>
+      !candidates || candidates.length === 0
+      || candidates.some(candidate => candidate.toLowerCase() === (value || '').toLowerCase());
+
+    if (!equalsAny(task.status, query.status)) return false;
+    if (!equalsAny(task.type, query.type)) return false;
+
+    if (query.text && !task.title.toLowerCase().includes(query.text.toLowerCase())) {
+      return false;
+    }
+
+    if (query.assignee) {
+      const assignees = (task.assignee || '').split(',').map(name => name.trim().toLowerCase());
+      if (!assignees.includes(query.assignee.trim().toLowerCase())) return false;
+    }
+
+    if (query.updatedSince) {
+      const updated = task.lastEditedTime ? Date.parse(task.lastEditedTime) : NaN;
+      if (Number.isNaN(updated) || updated < Date.parse(query.updatedSince)) return false;
+    }
+
+    return true;
+  }
+
+  private compare(a: Task, b: Task, query: TaskQuery): number {
+    const sortBy = query.sortBy || 'updated';
+    const value = (task: Task): string => {
+      switch (sortBy) {
+        case 'updated': return task.lastEditedTime || '';
+        case 'created': return task.createdTime || '';
+        case 'title': return task.title.toLowerCase();
+        case 'status': return task.status;
+        case 'priority': return task.priority || '';
+        case 'dueDate': return task.dueDate || '';
+      }
+    };
+
+    const left = value(a);
+    const right = value(b);
+    // Tasks without a value go last in both directions
+    if (!left || !right) return left === right ? 0 : left ? -1 : 1;
+
+    const order = left.localeCompare(right);
+    return query.sortDirection === 'desc' ? -order : order;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * TextNormalizer - Comparable form of todo and heading texts
+ *
+ * Shared by todo matching and todo analysis so both agree on what counts as the same text.
+ */
+
+/**
+ * Lowercase text without markdown formatting, link targets and punctuation
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,178 @@
+/**
+ * TodoMatcher - Resolve a todo update request to exactly one todo
+ *
+ * A todoId is matched against the todo IDs returned by analyzeTodos. Text is tried exactly, with an
+ * optional "Heading: " prefix (as produced by includeHierarchy), normalized (case, markdown, punctuation)
+ * and finally fuzzily. When several todos match equally well and only one of them would change, that one
+ * is used; otherwise the request fails as ambiguous and lists the candidates instead of guessing.
+ */
+
+import { TodoItem, TodoMatchFailure, TodoReference } from '../../models/Todo.js';
+import { ValidationError } from '../../types/Errors.js';
+import { normalizeText } from './TextNormalizer.js';
+
+export interface TodoCandidate {
+  id: string;
+  text: string;           // Without the "Heading: " prefix
+  heading?: string;
+  completed: boolean;
+  altTexts?: string[];    // Other spellings of the text, e.g. plain text without markdown
+}
+
+// With completed, ties are broken in favour of the only todo that would change
+type MatchRequest = TodoReference & { completed?: boolean };
+
+export interface TodoMatch<T extends TodoCandidate> {
+  todo?: T;
+  failure?: TodoMatchFailure;
+}
+
+// Fuzzy matches need this similarity (0-1) and a lead over the runner-up
+const FUZZY_THRESHOLD = 0.85;
+const FUZZY_MARGIN = 0.1;
+// Todos at least this similar are listed as candidates when nothing matches
+const SUGGESTION_THRESHOLD = 0.3;
+const MAX_SUGGESTIONS = 3;
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/;
+
+export class TodoMatcher {
+
+  /**
+   * Candidate for a todo parsed with includeHierarchy: the heading prefix is removed from the text
+   */
+  fromTodoItem(todo: TodoItem, altTexts?: string[]): TodoCandidate {
+    const prefix = todo.heading ? `${todo.heading}: ` : '';
+    const text = prefix && todo.text.startsWith(prefix) ? todo.text.slice(prefix.length) : todo.text;
+    return { id: todo.id, text, heading: todo.heading, completed: todo.completed, altTexts };
+  }
+
+  match<T extends TodoCandidate>(todos: T[], request: MatchRequest): TodoMatch<T> {
+    if (request.todoId) {
+      const key = this.normalizeId(request.todoId);
+      const byId = todos.find(todo => this.normalizeId(todo.id) === key);
+      if (byId && (!request.todoText || this.matchesText(byId, request.todoText))) return { todo: byId };
+      if (byId) {
+        // A stale ID now naming another todo: never update it in place of the requested text
+        const sameText = todos.filter(todo => todo !== byId && this.matchesText(todo, request.todoText || ''));
+        return { failure: this.failure(request, 'id_mismatch', [byId, ...sameText]) };
+      }
+      if (!request.todoText) return { failure: this.failure(request, 'not_found', []) };
+    }
+
+    const target = (request.todoText || '').trim();
+    const normalizedTarget = normalizeText(target);
+    for (const tier of this.textTiers(target)) {
+      const matches = todos.filter(tier);
+      if (matches.length > 0) return this.pick(matches, request);
+    }
+
+    const scored = todos
+      .map(todo => ({ todo, score: Math.max(...this.variants(todo).map(text => this.similarity(normalizeText(text), normalizedTarget))) }))
+      .sort((a, b) => b.score - a.score);
+    const best = scored[0];
+
+    if (best && best.score >= FUZZY_THRESHOLD) {
+      const close = scored.filter(entry => entry.score > best.score - FUZZY_MARGIN).map(entry => entry.todo);
+      return this.pick(close, request);
+    }
+
+    const suggestions = scored.filter(entry => entry.score >= SUGGESTION_THRESHOLD).slice(0, MAX_SUGGESTIONS).map(entry => entry.todo);
+    return { failure: this.failure(request, 'not_found', suggestions) };
+  }
+
+  /**
+   * Like match(), but throws a ValidationError listing the candidate todos when no single todo matches
+   */
+  resolve<T extends TodoCandidate>(todos: T[], reference: TodoReference): T {
+    const { todo, failure } = this.match(todos, reference);
+    if (todo) return todo;
+
+    const requested = reference.todoId ? `todoId "${reference.todoId}"` : `"${reference.todoText || ''}"`;
+    const candidates = (failure?.candidates || []).map(candidate => `${candidate.heading ? `${candidate.heading}: ` : ''}${candidate.text} (${candidate.id})`);
+    const message = failure?.reason === 'ambiguous' ? `${requested} matches several todos`
+      : failure?.reason === 'id_mismatch' ? `todoId "${reference.todoId}" is a todo with another text than "${reference.todoText || ''}"`
+      : `No todo matches ${requested}`;
+    throw new ValidationError(candidates.length > 0 ? `${message}. Candidates: ${candidates.join(', ')}` : message, reference.todoId ? 'todoId' : 'todoText');
+  }
+
+  /**
+   * Exact text, text with its "Heading: " prefix, then normalized text
+   */
+  private textTiers(target: string): Array<(todo: TodoCandidate) => boolean> {
+    const normalizedTarget = normalizeText(target);
+    return [
+      todo => this.texts(todo).some(text => text.trim() === target),
+      todo => !!todo.heading && this.texts(todo).some(text => `${todo.heading}: ${text.trim()}` === target),
+      todo => normalizedTarget.length > 0 && this.variants(todo).some(text => normalizeText(text) === normalizedTarget)
+    ];
+  }
+
+  private matchesText(todo: TodoCandidate, text: string): boolean {
+    const target = text.trim();
+    if (this.textTiers(target).some(tier => tier(todo))) return true;
+    const normalizedTarget = normalizeText(target);
+    return Math.max(...this.variants(todo).map(variant => this.similarity(normalizeText(variant), normalizedTarget))) >= FUZZY_THRESHOLD;
+  }
+
+  private pick<T extends TodoCandidate>(matches: T[], request: MatchRequest): TodoMatch<T> {
+    if (matches.length === 1) return { todo: matches[0] };
+
+    const changing = matches.filter(todo => todo.completed !== request.completed);
+    if (changing.length === 1) return { todo: changing[0] };
+
+    return { failure: this.failure(request, 'ambiguous', matches) };
+  }
+
+  private failure(request: MatchRequest, reason: TodoMatchFailure['reason'], candidates: TodoCandidate[]): TodoMatchFailure {
+    return {
+      todoId: request.todoId,
+      todoText: request.todoText,
+      reason,
+      candidates: candidates.map(todo => ({ id: todo.id, text: todo.text, heading: todo.heading, completed: todo.completed }))
+    };
+  }
+
+  private texts(todo: TodoCandidate): string[] {
+    return [todo.text, ...(todo.altTexts || [])];
+  }
+
+  private variants(todo: TodoCandidate): string[] {
+    const texts = this.texts(todo);
+    return todo.heading ? [...texts, ...texts.map(text => `${todo.heading}: ${text}`)] : texts;
+  }
+
+  /**
+   * Case-insensitive; dashes are dropped from UUIDs only (Notion IDs come with and without them), so the
+   * duplicate suffix of `todo-abc12-2` still tells it apart from `todo-abc122`
+   */
+  private normalizeId(id: string): string {
+    const key = id.trim().toLowerCase();
+    return UUID_PATTERN.test(key) ? key.replace(/-/g, '') : key;
+  }
+
+  /**
+   * Dice coefficient of character bigrams
+   */
+  private similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.slice(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        overlap++;
+      }
+    }
+
+    return (2 * overlap) / (a.length + b.length - 2);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * TodoMetadataParser - Read owner, estimate, due date and verification command annotations from todo texts
+ *
+ * `@alice` names the owner, `~2h` the estimate (m, h or d; a day counts 8 hours), `due:2026-11-01` the due date
+ * and verify:`npm test` the command proving the todo is done. Annotations stay part of the todo text, so matching
+ * and editing todos is unaffected. The first annotation of each kind wins.
+ */
+
+import { TodoItem, TodoMetadata, TodoOwnerLoad, TodoWorkload } from '../../models/Todo.js';
+
+// Owners start with a letter, so dates (`@2026-11-01`, Notion date mentions) and e-mail addresses are not owners
+const OWNER = /(?:^|\s)@([A-Za-z][\w.-]*)/;
+// The backslash is markdown escaping of the tilde
+const ESTIMATE = /(?:^|\s)\\?~(\d+(?:\.\d+)?)\s?(min|m|h|d)\b/i;
+const DUE_DATE = /(?:^|\s)due:\s?@?(\d{4}-\d{2}-\d{2})\b/i;
+const VERIFY = /(?:^|\s)verify:\s?(`+)\s?(.+?)\s?\1(?!`)/i;
+
+const MINUTES_PER_UNIT: Record<string, number> = { min: 1, m: 1, h: 60, d: 480 };
+
+export class TodoMetadataParser {
+
+  /**
+   * @returns Only the annotations present in the text
+   */
+  parse(text: string): TodoMetadata {
+    const metadata: TodoMetadata = {};
+
+    const owner = text.match(OWNER)?.[1]?.replace(/[.-]+$/, '');
+    if (owner) metadata.owner = owner;
+
+    const estimate = text.match(ESTIMATE);
+    if (estimate) {
+      const minutes = Math.round(parseFloat(estimate[1] || '0') * (MINUTES_PER_UNIT[(estimate[2] || 'h').toLowerCase()] || 60));
+      if (minutes > 0) metadata.estimateMinutes = minutes;
+    }
+
+    const dueDate = text.match(DUE_DATE)?.[1];
+    if (dueDate && !isNaN(Date.parse(dueDate))) metadata.dueDate = dueDate;
+
+    const verifyCommand = text.match(VERIFY)?.[2]?.trim();
+    if (verifyCommand) metadata.verifyCommand = verifyCommand;
+
+    return metadata;
+  }
+
+  /**
+   * Open and remaining work per owner
+   * @param today - YYYY-MM-DD date todos are overdue after, defaults to the current UTC date
+   * @returns undefined when no todo has an owner, an estimate or a due date
+   */
+  calculateWorkload(todos: TodoItem[], today: string = new Date().toISOString().slice(0, 10)): TodoWorkload | undefined {
+    if (!todos.some(todo => todo.owner || todo.estimateMinutes || todo.dueDate)) return undefined;
+
+    const owners = new Map<string | undefined, TodoOwnerLoad>();
+    for (const todo of todos) {
+      let load = owners.get(todo.owner);
+      if (!load) {
+        load = { owner: todo.owner, open: 0, completed: 0, remainingMinutes: 0, unestimated: 0 };
+        owners.set(todo.owner, load);
+      }
+
+      if (todo.completed) {
+        load.completed++;
+        continue;
+      }
+      load.open++;
+      if (todo.estimateMinutes) {
+        load.remainingMinutes += todo.estimateMinutes;
+      } else {
+        load.unestimated++;
+      }
+    }
+
+    const loads = [...owners.values()].sort((a, b) =>
+      (a.owner === undefined ? 1 : 0) - (b.owner === undefined ? 1 : 0)
+      || b.remainingMinutes - a.remainingMinutes
+      || b.open - a.open);
+
+    return {
+      owners: loads,
+      remainingMinutes: loads.reduce((sum, load) => sum + load.remainingMinutes, 0),
+      unestimated: loads.reduce((sum, load) => sum + load.unestimated, 0),
+      overdue: todos
+        .filter(todo => !todo.completed && todo.dueDate && todo.dueDate < today)
+        .map(todo => ({ id: todo.id, text: todo.text, owner: todo.owner, dueDate: todo.dueDate }))
+    };
+  }
+}
@@ -2,19 +2,25 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, McpError, ErrorCode, Tool } from '@modelcontextprotocol/sdk/types.js';
 import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
 
 import { ProviderManager } from './providers/ProviderManager.js';
+import { ProviderFactory } from './providers/ProviderFactory.js';
 import { ProvidersConfig } from './models/Provider.js';
 import { CreationService } from './services/core/CreationService.js';
 import { UpdateService } from './services/core/UpdateService.js';
 import { ExecutionService } from './services/core/ExecutionService.js';
+import { MigrationService } from './services/core/MigrationService.js';
 import { StatusService } from './services/shared/StatusService.js';
 import { ValidationService } from './services/shared/ValidationService.js';
+import { TodoAnalysisService } from './services/shared/TodoAnalysisService.js';
 import { ResponseFormatter } from './services/shared/ResponseFormatter.js';
+import { resolveWorkflow } from './services/shared/WorkflowStates.js';
 import { WorkflowConfig, ExecutionMode } from './models/Workflow.js';
+import { ValidationError, NetworkError, RateLimitError } from './types/Errors.js';
+import { classifyProviderError } from './providers/shared/ProviderErrors.js';
 
 interface ProjectConfig {
   workflow: WorkflowConfig;
@@ -26,27 +32,33 @@ function loadProjectConfig(): ProjectConfig {
   if (!existsSync(configPath)) {
     throw new Error(`Project configuration not found: ${configPath}`);
   }
+  let config: ProjectConfig;
   try {
     const configContent = readFileSync(configPath, 'utf-8');
-    return JSON.parse(configContent);
+    config = JSON.parse(configContent);
   } catch (error: any) {
     throw new Error(`Failed to parse project configuration: ${error.message}`);
   }
+  // Providers read statusMapping, which states-only workflows leave out
+  return config.workflow ? { ...config, workflow: resolveWorkflow(config.workflow) } : config;
 }
 
 function initServices(projectConfig: ProjectConfig) {
   const providersConfig = projectConfig.providers;
   const credentials = extractCredentials(providersConfig);
-  const providerManager = new ProviderManager(providersConfig, credentials);
+  const providerManager = new ProviderManager(providersConfig, credentials, projectConfig.workflow);
   
   const status = new StatusService(projectConfig.workflow);
   const validation = new ValidationService(projectConfig.workflow, status);
   const creation = new CreationService(providerManager, validation, projectConfig.workflow);
-  const update = new UpdateService(providerManager, status, validation, projectConfig.workflow);
-  const execution = new ExecutionService(update, status);
+  const todoAnalysis = new TodoAnalysisService();
+  const update = new UpdateService(providerManager, status, validation, todoAnalysis, projectConfig.workflow);
+  const execution = new ExecutionService(update, status, projectConfig.workflow);
+  const migration = new MigrationService(providerManager, update, projectConfig.workflow);
+  update.setMigrationService(migration);
   const formatter = new ResponseFormatter();
 
-  return { creation, update, execution, formatter, providerManager };
+  return { creation, update, execution, migration, formatter, providerManager };
 }
 
 function extractCredentials(providersConfig: ProvidersConfig): Record<string, string | undefined> {
@@ -62,8 +74,47 @@ function extractCredentials(providersConfig: ProvidersConfig): Record<string, st
   return credentials;
 }
 
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Map a failed tool call to an MCP error code; error data tells clients whether and when to retry
+ */
+function toMcpError(error: any): McpError {
+  if (error instanceof McpError) return error;
+
+  const classified = classifyProviderError(error);
+  const message = classified.message;
+  const data = { type: classified.name, statusCode: classified.statusCode };
+
+  if (classified instanceof ValidationError) {
+    return new McpError(ErrorCode.InvalidParams, message, { ...data, field: classified.field });
+  }
+  if (classified instanceof RateLimitError) {
+    return new McpError(ErrorCode.RequestTimeout, message, { ...data, retryable: true, retryAfter: classified.retryAfter });
+  }
+  if (classified instanceof NetworkError) {
+    return new McpError(classified.retryable ? ErrorCode.RequestTimeout : ErrorCode.InternalError, message, { ...data, retryable: classified.retryable });
+  }
+
+  switch (classified.statusCode) {
+    case 400:
+    case 404:
+    case 409:
+    case 422:
+      return new McpError(ErrorCode.InvalidParams, message, data);
+    case 401:
+    case 403:
+      return new McpError(ErrorCode.InvalidRequest, message, data);
+    default:
+      return new McpError(ErrorCode.InternalError, message, data);
+  }
+}
+
 async function routeCall(name: string, args: any, services: any): Promise<string> {
-  const { creation, update, execution, formatter } = services;
+  const { creation, update, execution, migration, formatter } = services;
   switch (name) {
     case 'execute_task':
       const mode: ExecutionMode = { showProgress: true, autoUpdateStatus: true };
@@ -86,48 +137,104 @@ async function routeCall(name: string, args: any, services: any): Promise<string
     case 'update_todos':
       const updateResult = await update.updateTodos(args.taskId, args.updates);
       return formatter.formatTodosUpdated(args.taskId, updateResult);
+    case 'edit_todo':
+      const editResult = await update.editTodo(args.taskId, {
+        action: args.action,
+        todoId: args.todoId,
+        todoText: args.todoText,
+        text: args.text,
+        section: args.section,
+        afterTodoId: args.afterTodoId
+      }, args.provider);
+      return formatter.formatTodoEdited(args.taskId, editResult);
     case 'generate_summary':
       return await update.generateSummary(args.taskId);
     case 'get_summary_template':
       return await update.getSummaryTemplate(args.taskId);
     case 'append_summary':
-      if (!args.adaptedSummary) throw new Error('Missing required parameter: adaptedSummary.');
+      if (!args.adaptedSummary) throw new ValidationError('Missing required parameter: adaptedSummary.', 'adaptedSummary');
       await update.appendSummary(args.taskId, args.adaptedSummary);
       return 'Summary appended to task successfully.';
     case 'read_notion_page':
       const pageContent = await update.readNotionPage(args.pageId, args.includeLinkedPages, args.provider);
       return formatter.formatPageContent(pageContent);
+    case 'gather_page_context':
+      const context = await update.gatherPageContext(args.pageId, { maxDepth: args.maxDepth, maxPages: args.maxPages, maxTokens: args.maxTokens }, args.provider);
+      return formatter.formatPageContext(context);
     case 'create_notion_page':
       const createdPage = await update.createNotionPage(args.databaseId, args.title, args.content, args.properties, args.provider);
       return formatter.formatPageContent(createdPage);
     case 'update_notion_page':
-      await update.updateNotionPage(args.pageId, args.title, args.content, args.properties, args.mode, args.insertAfter, args.provider);
+      await update.updateNotionPage(args.pageId, args.title, args.content, args.properties, args.mode, args.mode === 'replace_section' ? args.section : args.insertAfter, args.provider);
       return `Notion page ${args.pageId} updated successfully.`;
+    case 'list_tasks':
+      const taskList = await update.listTasks({
+        status: toList(args.status),
+        type: toList(args.type),
+        text: args.text,
+        assignee: args.assignee,
+        updatedSince: args.updatedSince,
+        sortBy: args.sortBy,
+        sortDirection: args.sortDirection,
+        limit: args.limit,
+        cursor: args.cursor
+      }, args.provider);
+      return formatter.formatTaskList(taskList);
+    case 'list_comments':
+      const comments = await update.listComments(args.taskId, args.provider);
+      return formatter.formatComments(args.taskId, comments);
+    case 'add_comment':
+      const comment = await update.addComment(args.taskId, args.body, args.threadId, args.provider);
+      return formatter.formatCommentAdded(comment);
+    case 'link_tasks':
+      await update.linkTask(args.taskId, args.relatedTaskId, args.relation, args.provider);
+      return formatter.formatTaskLinked(args.taskId, args.relatedTaskId, args.relation);
+    case 'split_task':
+      const splitResult = await creation.splitTask(args.taskId, toList(args.sections), args.sequential, args.provider);
+      return formatter.formatTaskSplit(splitResult);
+    case 'migrate_tasks':
+      if (!args.targetProvider) throw new ValidationError('Missing required parameter: targetProvider.', 'targetProvider');
+      const migrationReport = await migration.migrateTasks(args.taskIds, args.targetProvider, args.sourceProvider, { mirror: args.mirror, force: args.force });
+      return formatter.formatMigrationReport(migrationReport);
+    case 'sync_mirrors':
+      const syncReport = await migration.syncMirrors(args.sourceProvider, args.taskIds);
+      return formatter.formatMirrorSyncReport(syncReport);
     default:
-      throw new Error(`Unknown tool: ${name}`);
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
   }
 }
 
 async function main() {
   try {
     const projectConfig = loadProjectConfig();
+    await ProviderFactory.preloadPlugins(projectConfig.providers);
     const services = initServices(projectConfig);
+    await services.providerManager.validateProviders();
     const mcpServer = new Server({ name: 'vc4pm-mcp-server', version: '3.0.0' }, { capabilities: { tools: {} } });
 
-    const tools = [
+    const tools: Tool[] = [
         { name: 'execute_task', description: 'Execute task', inputSchema: { type: 'object', properties: { taskId: { type: 'string' } }, required: ['taskId'] } },
         { name: 'create_task', description: 'Create new task using appropriate workflow template', inputSchema: { type: 'object', properties: { title: { type: 'string' }, taskType: { type: 'string' }, description: { type: 'string' }, adaptedWorkflow: { type: 'string', description: 'Optional: custom workflow template' }, provider: { type: 'string', description: 'Optional: provider to use (notion, linear, github)' } }, required: ['title', 'taskType', 'description'] } },
         { name: 'get_task', description: 'Get task info', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['taskId'] } },
         { name: 'update_task', description: 'Update task title, type and/or status', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, title: { type: 'string' }, taskType: { type: 'string' }, status: { type: 'string' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['taskId'] } },
         { name: 'get_task_template', description: 'Get task template for adaptation', inputSchema: { type: 'object', properties: { taskType: { type: 'string' } }, required: ['taskType'] } },
         { name: 'analyze_todos', description: 'Analyze todos', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, includeHierarchy: { type: 'boolean' } }, required: ['taskId'] } },
-        { name: 'update_todos', description: 'Batch update todos.', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, updates: { type: 'array' } }, required: ['taskId', 'updates'] } },
+        { name: 'update_todos', description: 'Batch update todos. Identify todos by todoId (from analyze_todos or execute_task) or by todoText', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, updates: { type: 'array', items: { type: 'object', properties: { todoId: { type: 'string' }, todoText: { type: 'string' }, completed: { type: 'boolean' } }, required: ['completed'] } } }, required: ['taskId', 'updates'] } },
+        { name: 'edit_todo', description: 'Add, reword, delete or move a todo of a task', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, action: { type: 'string', enum: ['add', 'edit', 'delete', 'move'] }, todoId: { type: 'string', description: 'Todo to edit, delete or move, from analyze_todos' }, todoText: { type: 'string', description: 'Optional: todo text instead of todoId' }, text: { type: 'string', description: 'New todo text (required for add and edit)' }, section: { type: 'string', description: 'Optional: heading to add or move the todo under' }, afterTodoId: { type: 'string', description: 'Optional: todo to add or move the todo after' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['taskId', 'action'] } },
         { name: 'generate_summary', description: 'Generate summary', inputSchema: { type: 'object', properties: { taskId: { type: 'string' } }, required: ['taskId'] } },
         { name: 'get_summary_template', description: 'Get summary template', inputSchema: { type: 'object', properties: { taskId: { type: 'string' } }, required: ['taskId'] } },
         { name: 'append_summary', description: 'Append AI-adapted summary to task.', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, adaptedSummary: { type: 'string' } }, required: ['taskId', 'adaptedSummary'] } },
         { name: 'read_notion_page', description: 'Read a Notion page and its directly linked pages', inputSchema: { type: 'object', properties: { pageId: { type: 'string' }, includeLinkedPages: { type: 'boolean', default: true }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['pageId'] } },
+        { name: 'gather_page_context', description: 'Read a Notion page together with the pages it mentions, relates to and contains, followed recursively within depth, page and token limits', inputSchema: { type: 'object', properties: { pageId: { type: 'string' }, maxDepth: { type: 'number', default: 2, description: 'Optional: link levels to follow (0-5)' }, maxPages: { type: 'number', default: 10, description: 'Optional: maximum pages, the start page included (1-50)' }, maxTokens: { type: 'number', default: 20000, description: 'Optional: approximate token budget for page contents' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['pageId'] } },
         { name: 'create_notion_page', description: 'Create a new page in a Notion database', inputSchema: { type: 'object', properties: { databaseId: { type: 'string', description: 'Database ID or full Notion URL' }, title: { type: 'string', description: 'Page title' }, content: { type: 'string', description: 'Optional: markdown content to add to the page' }, properties: { type: 'object', description: 'Optional: additional properties to set' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['databaseId', 'title'] } },
-        { name: 'update_notion_page', description: 'Update an existing Notion page', inputSchema: { type: 'object', properties: { pageId: { type: 'string', description: 'Page ID or full Notion URL' }, title: { type: 'string', description: 'Optional: new page title' }, content: { type: 'string', description: 'Optional: markdown content to add or replace' }, properties: { type: 'object', description: 'Optional: properties to update' }, mode: { type: 'string', enum: ['append', 'replace', 'insert'], default: 'append', description: 'Optional: append (default), replace, or insert with insertAfter' }, insertAfter: { type: 'string', description: 'Optional: text to search for; inserts content after matching block (requires mode: insert)' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['pageId'] } },
+        { name: 'update_notion_page', description: 'Update an existing Notion page', inputSchema: { type: 'object', properties: { pageId: { type: 'string', description: 'Page ID or full Notion URL' }, title: { type: 'string', description: 'Optional: new page title' }, content: { type: 'string', description: 'Optional: markdown content to add or replace' }, properties: { type: 'object', description: 'Optional: properties to update; a status property is set after the other changes and checked against the workflow gates' }, mode: { type: 'string', enum: ['append', 'replace', 'insert', 'replace_section'], default: 'append', description: 'Optional: append (default), replace, insert with insertAfter, or replace_section with section' }, insertAfter: { type: 'string', description: 'Optional: text to search for; inserts content right after the matching block, at the same level (requires mode: insert)' }, section: { type: 'string', description: 'Optional: heading whose content is replaced, up to the next heading of the same or a higher level (requires mode: replace_section)' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['pageId'] } },
+        { name: 'list_tasks', description: 'List and search tasks, e.g. to pick the next task to work on', inputSchema: { type: 'object', properties: { status: { type: 'array', items: { type: 'string' }, description: 'Optional: status labels or keys (e.g. "notStarted"), any of them matches' }, type: { type: 'array', items: { type: 'string' }, description: 'Optional: task types, any of them matches' }, text: { type: 'string', description: 'Optional: text to search in task titles' }, assignee: { type: 'string', description: 'Optional: assignee name or user ID' }, updatedSince: { type: 'string', description: 'Optional: ISO date, only tasks edited since then' }, sortBy: { type: 'string', enum: ['updated', 'created', 'title', 'status', 'priority', 'dueDate'], default: 'updated' }, sortDirection: { type: 'string', enum: ['asc', 'desc'], description: 'Optional: defaults to desc for dates, asc otherwise' }, limit: { type: 'number', default: 20, description: 'Page size (1-100)' }, cursor: { type: 'string', description: 'Optional: nextCursor from the previous page' }, provider: { type: 'string', description: 'Optional: provider to use' } } } },
+        { name: 'list_comments', description: 'Read the discussion threads (review feedback) on a task', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['taskId'] } },
+        { name: 'add_comment', description: 'Post a comment on a task, or reply to a thread', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, body: { type: 'string', description: 'Comment text (markdown)' }, threadId: { type: 'string', description: 'Optional: thread to reply to, from list_comments' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['taskId', 'body'] } },
+        { name: 'link_tasks', description: 'Make a task a sub-task of another task, or mark it as blocked by another task', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, relatedTaskId: { type: 'string', description: 'Parent task, or the task that has to be done first' }, relation: { type: 'string', enum: ['parent', 'blocked_by'] }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['taskId', 'relatedTaskId', 'relation'] } },
+        { name: 'split_task', description: 'Split the sections of a task into child tasks linked to it', inputSchema: { type: 'object', properties: { taskId: { type: 'string' }, sections: { type: 'array', items: { type: 'string' }, description: 'Optional: section headings to split out (defaults to every section with open todos)' }, sequential: { type: 'boolean', default: false, description: 'Optional: each child task is blocked by the previous one' }, provider: { type: 'string', description: 'Optional: provider to use' } }, required: ['taskId'] } },
+        { name: 'migrate_tasks', description: 'Copy tasks (todos, check state, summaries, status) to another provider and report old ID → new ID', inputSchema: { type: 'object', properties: { taskIds: { type: 'array', items: { type: 'string' }, description: 'Task IDs in the source provider' }, targetProvider: { type: 'string', description: 'Provider to copy tasks to' }, sourceProvider: { type: 'string', description: 'Optional: provider to copy from (defaults to the default provider)' }, mirror: { type: 'boolean', default: false, description: 'Optional: keep mirroring status and todo changes to the copies' }, force: { type: 'boolean', default: false, description: 'Optional: migrate again tasks that already have a mapping' } }, required: ['taskIds', 'targetProvider'] } },
+        { name: 'sync_mirrors', description: 'Push status and todo changes of mirrored tasks to their copies', inputSchema: { type: 'object', properties: { sourceProvider: { type: 'string', description: 'Optional: only sync tasks migrated from this provider' }, taskIds: { type: 'array', items: { type: 'string' }, description: 'Optional: only sync these source task IDs' } } } }
     ];
 
     mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
@@ -138,7 +245,7 @@ async function main() {
         const result = await routeCall(name, args, services);
         return { content: [{ type: 'text', text: result }] };
       } catch (error: any) {
-        throw new McpError(ErrorCode.InternalError, error.message);
+        throw toMcpError(error);
       }
     });
 
@@ -4,8 +4,9 @@
 
 import { TaskProvider } from '../../interfaces/TaskProvider.js';
 import { ProviderManager } from '../../providers/ProviderManager.js';
-import { Task } from '../../models/Task.js';
+import { Task, TaskSplitResult } from '../../models/Task.js';
 import { ValidationService } from '../shared/ValidationService.js';
+import { ValidationError } from '../../types/Errors.js';
 import { WorkflowConfig } from '../../models/Workflow.js';
 import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
@@ -48,6 +49,87 @@ Adapt this template by keeping the ## headers structure but customizing the impl
     return await taskProvider.createTask(title, taskType, structuredDescription);
   }
 
+  /**
+   * Create a child task per section of a task and link it to the parent
+   * @param sections - Headings to split out; defaults to every section with open todos
+   * @param sequential - Each child is blocked by the previous one
+   */
+  async splitTask(taskId: string, sections?: string[], sequential: boolean = false, provider?: string): Promise<TaskSplitResult> {
+    const taskProvider = this.providerManager.getProvider(provider);
+    if (!taskProvider.linkTask) {
+      throw new Error(`Provider '${provider || this.providerManager.getDefaultProviderName()}' does not support task relations`);
+    }
+
+    const parent = await taskProvider.getTask(taskId);
+    const page = await taskProvider.readPage(taskId, false);
+    const available = this.splitSections(page.content);
+
+    let selected = available.filter(section => /^\s*[-*] \[ \]/m.test(section.content));
+    if (sections && sections.length > 0) {
+      selected = sections.map(heading => {
+        const section = available.find(candidate => candidate.heading.toLowerCase() === heading.trim().toLowerCase());
+        if (!section) {
+          throw new ValidationError(`Section "${heading}" not found. Available: ${available.map(candidate => candidate.heading).join(', ')}`, 'sections');
+        }
+        return section;
+      });
+    }
+    if (selected.length === 0) {
+      throw new ValidationError(`Task ${taskId} has no sections with open todos to split`, 'sections');
+    }
+
+    const taskType = this.workflowConfig.taskTypes.find(type => type.toLowerCase() === (parent.type || '').toLowerCase())
+      || this.workflowConfig.taskTypes[0]
+      || 'Feature';
+    const children: Task[] = [];
+
+    try {
+      for (const section of selected) {
+        const title = `${parent.title}: ${section.heading}`.slice(0, 200);
+        const child = await taskProvider.createTask(title, taskType, section.content);
+        children.push(child);
+
+        await taskProvider.linkTask(child.id, parent.id, 'parent');
+        const previous = children[children.length - 2];
+        if (sequential && previous) {
+          await taskProvider.linkTask(child.id, previous.id, 'blocked_by');
+        }
+      }
+    } catch (error: any) {
+      const created = children.map(child => child.id).join(', ') || 'none';
+      throw new Error(`Splitting task ${taskId} stopped (child tasks created: ${created}): ${error.message}`);
+    }
+
+    return { parent, children };
+  }
+
+  /**
+   * Cut markdown into its top-level sections; a single leading title heading (# Title) is skipped
+   * Each section keeps its heading line so todos stay grouped under it in the child task.
+   */
+  private splitSections(markdown: string): Array<{ heading: string; content: string }> {
+    const lines = markdown.split('\n');
+    const headings: Array<{ line: number; level: number; text: string }> = [];
+    let inCodeBlock = false;
+
+    lines.forEach((line, index) => {
+      if (/^\s*```/.test(line)) inCodeBlock = !inCodeBlock;
+      const match = !inCodeBlock && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (match && match[1] && match[2]) headings.push({ line: index, level: match[1].length, text: match[2] });
+    });
+
+    const levels = Array.from(new Set(headings.map(heading => heading.level))).sort((a, b) => a - b);
+    const topLevel = levels[0];
+    const level = topLevel !== undefined && headings.filter(heading => heading.level === topLevel).length === 1 && levels[1] !== undefined
+      ? levels[1]
+      : topLevel;
+
+    const sectionHeadings = headings.filter(heading => heading.level === level);
+    return sectionHeadings.map(heading => {
+      const end = headings.find(next => next.line > heading.line && next.level <= heading.level)?.line ?? lines.length;
+      return { heading: heading.text, content: lines.slice(heading.line, end).join('\n').trim() };
+    });
+  }
 
   private async applyTaskTemplate(taskType: string, adaptedWorkflow: string, title: string): Promise<string> {
     // Return the pre-adapted workflow directly - AI has already contextualized the template
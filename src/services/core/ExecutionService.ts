@@ -4,12 +4,16 @@
 
 import { UpdateService } from './UpdateService.js';
 import { StatusService } from '../shared/StatusService.js';
-import { ExecutionMode, ExecutionResult, ExecutionStep, ExecutionAction, ExecutionContext } from '../../models/Workflow.js';
+import { ExecutionMode, ExecutionResult, ExecutionStep, ExecutionAction, ExecutionContext, WorkflowConfig, WorkflowTrigger } from '../../models/Workflow.js';
+import { Task } from '../../models/Task.js';
+import { TaskComment } from '../../models/Comment.js';
+import { TransitionGateError } from '../../types/Errors.js';
 
 export class ExecutionService {
   constructor(
     private updateService: UpdateService,
-    private statusService: StatusService
+    private statusService: StatusService,
+    private workflowConfig: WorkflowConfig
   ) {
     // Set up circular dependency for execution service
     this.updateService.setExecutionService(this);
@@ -18,12 +22,12 @@ export class ExecutionService {
   /**
    * Handle todos updated - return next action instead of throwing
    */
-  async handleTodosUpdated(taskId: string): Promise<ExecutionAction | null> {
+  async handleTodosUpdated(taskId: string, provider?: string): Promise<ExecutionAction | null> {
     try {
-      const todoAnalysis = await this.updateService.analyzeTodos(taskId);
-      const taskMetadata = await this.updateService.getTaskMetadata(taskId);
+      const todoAnalysis = await this.updateService.analyzeTodos(taskId, false, provider);
+      const taskMetadata = await this.updateService.getTaskMetadata(taskId, provider);
       
-      return await this.analyzeAndPlanNext(taskId, taskMetadata, todoAnalysis);
+      return await this.analyzeAndPlanNext(taskId, taskMetadata, todoAnalysis, provider);
     } catch (error) {
       console.warn('Auto-continuation analysis failed:', error);
       return null;
@@ -39,6 +43,25 @@ export class ExecutionService {
     // Get initial task state
     const taskMetadata = await this.updateService.getTaskMetadata(taskId);
     const todoAnalysis = await this.updateService.analyzeTodos(taskId);
+
+    // Unfinished blockers: refuse before touching the status, or go on with a warning
+    const blockers = await this.getOpenBlockers(taskId);
+    const blockerList = blockers.map(blocker => `"${blocker.title}" (${blocker.id}, ${blocker.status})`).join(', ');
+    if (blockers.length > 0 && this.workflowConfig.blockerPolicy === 'refuse') {
+      const nextAction: ExecutionAction = {
+        type: 'blocked',
+        message: `Task "${taskMetadata.title}" is blocked by unfinished tasks: ${blockerList}. Finish them first.`,
+        blockers
+      };
+      return {
+        success: false,
+        taskId,
+        finalStats: taskMetadata.todoStats,
+        progression,
+        nextAction,
+        message: this.formatActionMessage(nextAction)
+      };
+    }
     
     progression.push({
       type: 'status_update',
@@ -47,37 +70,44 @@ export class ExecutionService {
       timestamp: new Date()
     });
 
+    if (blockers.length > 0) {
+      progression.push({
+        type: 'status_update',
+        message: `⚠️ Blocked by unfinished tasks: ${blockerList}`,
+        completed: false,
+        timestamp: new Date()
+      });
+    }
+
     try {
-      // Auto-update status to inProgress at start if enabled
+      // Workflow auto-transition when execution starts
       if (mode.autoUpdateStatus) {
-        const notStartedStatus = this.statusService.getNotStartedStatus();
-        if (taskMetadata.status === notStartedStatus) {
-          // Always move to In Progress when starting execution
-          const inProgressStatus = this.statusService.getNextRecommendedStatus(taskMetadata.status, 1);
-          if (inProgressStatus) {
-            await this.updateTaskStatusBasedOnProgress(taskId, 1);
-            progression.push({
-              type: 'status_update',
-              message: `Task status updated to "${inProgressStatus}" (execution started)`,
-              completed: true,
-              timestamp: new Date()
-            });
-          }
+        const startedStatus = await this.applyAutoTransition(taskId, 'execute', progression);
+        if (startedStatus) {
+          progression.push({
+            type: 'status_update',
+            message: `Task status updated to "${startedStatus}" (execution started)`,
+            completed: true,
+            timestamp: new Date()
+          });
         }
       }
 
       // Analyze and plan next action
       const nextAction = await this.analyzeAndPlanNext(taskId, taskMetadata, todoAnalysis);
 
-      // Auto-update status if completed
-      if (mode.autoUpdateStatus && nextAction.type === 'completed') {
-        await this.updateTaskStatusBasedOnProgress(taskId, nextAction.stats.percentage);
-        progression.push({
-          type: 'status_update',
-          message: 'Task status updated to "Done" (100% complete)',
-          completed: true,
-          timestamp: new Date()
-        });
+      // Workflow auto-transition for the todos completed so far
+      if (mode.autoUpdateStatus) {
+        const progressedStatus = await this.applyAutoTransition(taskId, 'progress', progression);
+        if (progressedStatus) {
+          const verification = this.statusService.getRole(progressedStatus) === 'verification' ? ', ready for verification' : '';
+          progression.push({
+            type: 'status_update',
+            message: `Task status updated to "${progressedStatus}" (${todoAnalysis.stats.percentage}% complete${verification})`,
+            completed: true,
+            timestamp: new Date()
+          });
+        }
       }
 
       // Add development summary
@@ -119,7 +149,7 @@ export class ExecutionService {
   /**
    * Provider-aware execution: Give full context and let AI do everything
    */
-  private async analyzeAndPlanNext(taskId: string, taskMetadata: any, todoAnalysis: any): Promise<ExecutionAction> {
+  private async analyzeAndPlanNext(taskId: string, taskMetadata: any, todoAnalysis: any, provider?: string): Promise<ExecutionAction> {
     const uncompletedTodos = todoAnalysis.todos.filter((todo: any) => !todo.completed);
     
     const context: ExecutionContext = {
@@ -130,9 +160,10 @@ export class ExecutionService {
 
     // If no todos at all, guide AI to work from task description
     if (todoAnalysis.stats.total === 0) {
+      const comments = await this.getOpenComments(taskId, provider);
       return {
         type: 'needs_analysis',
-        message: `Task "${taskMetadata.title}" has no structured todos but needs development work.`,
+        message: `Task "${taskMetadata.title}" has no structured todos but needs development work.${this.formatComments(comments)}`,
         context: {
           ...context,
           currentTodo: 'Analyze task and break down work'
@@ -150,10 +181,11 @@ export class ExecutionService {
     }
 
     // PROVIDER-AWARE: Give full context and let AI implement everything at once
+    const comments = await this.getOpenComments(taskId, provider);
     return {
       type: 'needs_implementation',
       todo: 'Complete entire task',
-      instructions: this.formatFullTaskInstructions(taskMetadata, todoAnalysis),
+      instructions: this.formatFullTaskInstructions(taskMetadata, todoAnalysis, comments),
       context
     };
   }
@@ -161,7 +193,7 @@ export class ExecutionService {
   /**
    * Format full task with rich context for provider-aware execution
    */
-  private formatFullTaskInstructions(taskMetadata: any, todoAnalysis: any): string {
+  private formatFullTaskInstructions(taskMetadata: any, todoAnalysis: any, comments: TaskComment[] = []): string {
     let instructions = `# ${taskMetadata.title}\n\n`;
     
     instructions += `## Task Overview\n`;
@@ -182,23 +214,68 @@ export class ExecutionService {
       instructions += `Requirements:\n`;
       for (const todo of todos) {
         const status = (todo as any).completed ? '✅' : '❌';
-        instructions += `- ${status} ${(todo as any).text.replace(/^.*?: /, '')}\n`;
+        const heading = (todo as any).heading;
+        const text = heading && (todo as any).text.startsWith(`${heading}: `) ? (todo as any).text.slice(heading.length + 2) : (todo as any).text;
+        instructions += `- ${status} ${text} [${(todo as any).id}]\n`;
+        if ((todo as any).verifyCommand) {
+          instructions += `  Verify: run \`${(todo as any).verifyCommand}\`, it must succeed before the requirement is done\n`;
+        }
       }
       instructions += `\n`;
     }
+
+    if (comments.length > 0) {
+      instructions += this.formatComments(comments).trimStart() + `\n\n`;
+    }
     
     instructions += `## Next Steps\n`;
     instructions += `1. Implement ALL requirements above using development tools\n`;
     instructions += `2. Test your implementation\n`;
-    instructions += `3. VALIDATE each requirement is truly satisfied (read files, run tests, verify outputs)\n`;
+    instructions += `3. VALIDATE each requirement is truly satisfied (read files, run tests, verify outputs); run the Verify command where a requirement has one\n`;
     instructions += `4. Only use update_todos to mark todos as completed AFTER you have verified they are done\n`;
-    instructions += `   Format: {"taskId":"your_task_id","updates":[{"todoText":"exact todo text","completed":true}]}\n`;
-    instructions += `   ⚠️  Use "todoText" not "content"\n`;
+    instructions += `   Format: {"taskId":"your_task_id","updates":[{"todoId":"ID in brackets after the requirement","completed":true}]}\n`;
+    instructions += `   ⚠️  Use "todoId" (or "todoText" with the exact todo text), not "content"\n`;
     instructions += `5. The system will generate a dev summary for final validation\n\n`;
     
     return instructions;
   }
 
+  /**
+   * Blocking tasks that are not done; providers without task relations have none
+   */
+  private async getOpenBlockers(taskId: string, provider?: string): Promise<Task[]> {
+    try {
+      return await this.updateService.getOpenBlockers(taskId, provider);
+    } catch (error) {
+      console.warn('Blocker check failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Unresolved comments (review feedback) on the task; execution goes on without them if the provider has none
+   */
+  private async getOpenComments(taskId: string, provider?: string): Promise<TaskComment[]> {
+    try {
+      const comments = await this.updateService.listComments(taskId, provider);
+      return comments.filter(comment => !comment.resolved);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private formatComments(comments: TaskComment[]): string {
+    if (comments.length === 0) return '';
+
+    let text = `\n\n## Open Comments\n`;
+    text += `Feedback left on this task. Take it into account, it may change or add requirements:\n`;
+    for (const comment of comments) {
+      const author = comment.author ? `${comment.author}: ` : '';
+      text += `- ${author}${comment.body.replace(/\n/g, '\n  ')}\n`;
+    }
+    return text.trimEnd();
+  }
+
   /**
    * Group todos by their heading for better organization
    */
@@ -230,25 +307,32 @@ export class ExecutionService {
         return action.message;
       case 'continue':
         return action.message;
+      case 'blocked':
+        return action.message;
       default:
         return 'Ready to proceed';
     }
   }
 
 
-  private async updateTaskStatusBasedOnProgress(taskId: string, percentage: number): Promise<void> {
+  /**
+   * Failed transition gates are reported in the progression, the task keeps its status
+   */
+  private async applyAutoTransition(taskId: string, trigger: WorkflowTrigger, progression: ExecutionStep[]): Promise<string | null> {
     try {
-      const taskMetadata = await this.updateService.getTaskMetadata(taskId); 
-      const recommendedStatus = this.statusService.getNextRecommendedStatus(
-        taskMetadata.status, 
-        percentage
-      );
-      
-      if (recommendedStatus && recommendedStatus !== taskMetadata.status) {
-        await this.updateService.updateTask(taskId, { status: recommendedStatus });
-      }
+      return await this.updateService.applyAutoTransition(taskId, trigger);
     } catch (error) {
-      console.warn('Failed to auto-update task status:', error);
+      if (error instanceof TransitionGateError) {
+        progression.push({
+          type: 'status_update',
+          message: `⛔ ${error.message}`,
+          completed: false,
+          timestamp: new Date()
+        });
+      } else {
+        console.warn('Failed to auto-update task status:', error);
+      }
+      return null;
     }
   }
 
@@ -0,0 +1,376 @@
+/**
+ * MigrationService - Copy tasks between providers and mirror status/todo changes one way
+ *
+ * A migrated task keeps its title, type, content, todo check state, appended summary sections and status.
+ * Mappings (old ID → new ID) are stored in .vc4pm/migrations.json so batches can be resumed and mirrored.
+ * A mapping is saved as soon as the target task exists; until its content is copied it stays contentPending.
+ * Target statuses are set through UpdateService, so the workflow gates apply to copies as well.
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { TaskProvider } from '../../interfaces/TaskProvider.js';
+import { ProviderManager } from '../../providers/ProviderManager.js';
+import { UpdateService } from './UpdateService.js';
+import { Task } from '../../models/Task.js';
+import { TodoItem, TodoUpdateRequest } from '../../models/Todo.js';
+import { WorkflowConfig } from '../../models/Workflow.js';
+import {
+  TaskMapping,
+  MigrationOptions,
+  MigrationEntry,
+  MigrationReport,
+  MirrorSyncEntry,
+  MirrorSyncReport
+} from '../../models/Migration.js';
+
+const MAPPING_FILE = '.vc4pm/migrations.json';
+const RULE_LINE = /^\s*---\s*$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+
+export class MigrationService {
+  constructor(
+    private providerManager: ProviderManager,
+    private updateService: UpdateService,
+    private workflowConfig: WorkflowConfig
+  ) {}
+
+  async migrateTasks(taskIds: string[], targetProvider: string, sourceProvider?: string, options: MigrationOptions = {}): Promise<MigrationReport> {
+    if (!Array.isArray(taskIds) || taskIds.length === 0) {
+      throw new Error('taskIds must be a non-empty array of task IDs');
+    }
+
+    const sourceName = sourceProvider || this.providerManager.getDefaultProviderName();
+    if (sourceName === targetProvider) {
+      throw new Error('Source and target providers must be different');
+    }
+
+    const source = this.providerManager.getProvider(sourceName);
+    const target = this.providerManager.getProvider(targetProvider);
+    const entries: MigrationEntry[] = [];
+
+    // Sequential on purpose: keeps provider rate limits happy and the mapping file consistent
+    for (const taskId of taskIds) {
+      const existing = this.findMapping(sourceName, taskId, targetProvider);
+      if (existing && !existing.contentPending && !options.force) {
+        if (options.mirror && !existing.mirror) {
+          existing.mirror = true;
+          this.saveMapping(existing);
+        }
+        entries.push({ sourceId: taskId, targetId: existing.targetId, status: 'skipped', warnings: ['Already migrated (use force to migrate again)'] });
+        continue;
+      }
+
+      try {
+        if (existing?.contentPending && !options.force) {
+          // An earlier run created the target task but failed while copying its content: finish that copy
+          existing.mirror = existing.mirror || !!options.mirror;
+          const { task, sections } = await this.readSourceTask(source, existing.sourceId);
+          entries.push(await this.copyContent(source, target, existing, task, sections, ['Resumed an interrupted migration']));
+        } else {
+          entries.push(await this.migrateTask(source, target, taskId, sourceName, targetProvider, options));
+        }
+      } catch (error) {
+        // The target task may exist already; its mapping lets the next run resume it
+        const pending = this.findMapping(sourceName, taskId, targetProvider);
+        entries.push({ sourceId: taskId, targetId: pending?.targetId, status: 'failed', warnings: [], error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return {
+      sourceProvider: sourceName,
+      targetProvider,
+      migrated: entries.filter(entry => entry.status === 'migrated').length,
+      skipped: entries.filter(entry => entry.status === 'skipped').length,
+      failed: entries.filter(entry => entry.status === 'failed').length,
+      entries,
+      mappingFile: this.getMappingPath()
+    };
+  }
+
+  /**
+   * Push status and todo check state of mirrored tasks from source to target
+   */
+  async syncMirrors(sourceProvider?: string, taskIds?: string[]): Promise<MirrorSyncReport> {
+    const mappings = this.loadMappings().filter(mapping =>
+      mapping.mirror && !mapping.contentPending
+      && (!sourceProvider || mapping.sourceProvider === sourceProvider)
+      && (!taskIds || taskIds.some(id => this.sameId(id, mapping.sourceId)))
+    );
+
+    const entries: MirrorSyncEntry[] = [];
+    for (const mapping of mappings) {
+      entries.push(await this.syncMapping(mapping));
+    }
+
+    return {
+      synced: entries.filter(entry => !entry.error).length,
+      failed: entries.filter(entry => entry.error).length,
+      entries
+    };
+  }
+
+  /**
+   * Called after updates made through the MCP tools so mirrored targets follow without a manual sync
+   */
+  async propagate(taskId: string, provider?: string): Promise<void> {
+    const sourceName = provider || this.providerManager.getDefaultProviderName();
+    const mappings = this.loadMappings().filter(mapping =>
+      mapping.mirror && !mapping.contentPending && mapping.sourceProvider === sourceName && this.sameId(taskId, mapping.sourceId)
+    );
+
+    for (const mapping of mappings) {
+      const result = await this.syncMapping(mapping);
+      if (result.error) {
+        console.warn(`Mirror sync to ${mapping.targetProvider} failed for ${taskId}: ${result.error}`);
+      }
+    }
+  }
+
+  getMappings(): TaskMapping[] {
+    return this.loadMappings();
+  }
+
+  private async migrateTask(
+    source: TaskProvider,
+    target: TaskProvider,
+    taskId: string,
+    sourceProvider: string,
+    targetProvider: string,
+    options: MigrationOptions
+  ): Promise<MigrationEntry> {
+    const warnings: string[] = [];
+    const { task, body, sections } = await this.readSourceTask(source, taskId);
+
+    const taskType = this.resolveTaskType(task.type);
+    if (!task.type || task.type.toLowerCase() !== taskType.toLowerCase()) {
+      warnings.push(`Task type "${task.type || 'none'}" is not a workflow task type, created as "${taskType}"`);
+    }
+
+    const created = await target.createTask(task.title, taskType, body);
+
+    // Recorded before anything else can fail, so a re-run resumes this copy instead of creating another one
+    const mapping: TaskMapping = {
+      sourceProvider,
+      sourceId: task.id || taskId,
+      targetProvider,
+      targetId: created.id,
+      targetUrl: created.url,
+      mirror: !!options.mirror,
+      migratedAt: new Date().toISOString(),
+      contentPending: true,
+      appendedSections: 0
+    };
+    this.saveMapping(mapping);
+
+    return await this.copyContent(source, target, mapping, task, sections, warnings);
+  }
+
+  private async readSourceTask(source: TaskProvider, taskId: string): Promise<{ task: Task; body: string; sections: string[] }> {
+    const task = await source.getTask(taskId);
+    const page = await source.readPage(taskId, false);
+    return { task, ...this.splitSummarySections(page.content || task.description || '') };
+  }
+
+  /**
+   * Summaries, todo check state and status of a created target task; progress is saved to the mapping
+   * after every appended section, so a retry neither skips nor repeats any
+   */
+  private async copyContent(
+    source: TaskProvider,
+    target: TaskProvider,
+    mapping: TaskMapping,
+    task: Task,
+    sections: string[],
+    warnings: string[]
+  ): Promise<MigrationEntry> {
+    for (const section of sections.slice(mapping.appendedSections || 0)) {
+      await target.appendToTask(mapping.targetId, `\n\n---\n\n${section}`);
+      mapping.appendedSections = (mapping.appendedSections || 0) + 1;
+      this.saveMapping(mapping);
+    }
+
+    // Check state normally travels with the markdown; fix up providers that drop it on create
+    const sourceTodos = (await source.analyzeTodos(mapping.sourceId)).todos;
+    const todoSync = await this.syncTodos(sourceTodos, target, mapping.targetId);
+    if (todoSync.missing > 0) {
+      warnings.push(`${todoSync.missing} todos could not be matched on the target`);
+    }
+
+    const targetTask = await target.getTask(mapping.targetId);
+    if (task.status && targetTask.status !== task.status) {
+      try {
+        await this.updateService.updateTaskStatus(mapping.targetId, task.status, mapping.targetProvider);
+      } catch (error) {
+        warnings.push(`Status "${task.status}" could not be set: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    delete mapping.contentPending;
+    delete mapping.appendedSections;
+    this.saveMapping(mapping);
+
+    return {
+      sourceId: mapping.sourceId,
+      targetId: mapping.targetId,
+      targetUrl: mapping.targetUrl,
+      title: task.title,
+      status: 'migrated',
+      todos: { total: sourceTodos.length, completed: sourceTodos.filter(todo => todo.completed).length },
+      summarySections: sections.length,
+      warnings
+    };
+  }
+
+  private async syncMapping(mapping: TaskMapping): Promise<MirrorSyncEntry> {
+    const entry: MirrorSyncEntry = {
+      sourceId: mapping.sourceId,
+      targetId: mapping.targetId,
+      statusChanged: false,
+      todosUpdated: 0,
+      todosMissing: 0
+    };
+
+    try {
+      const source = this.providerManager.getProvider(mapping.sourceProvider);
+      const target = this.providerManager.getProvider(mapping.targetProvider);
+      const [sourceTask, targetTask] = await Promise.all([
+        source.getTask(mapping.sourceId),
+        target.getTask(mapping.targetId)
+      ]);
+
+      // Todos first: gates on the status change check the synced todos
+      const sourceTodos = (await source.analyzeTodos(mapping.sourceId)).todos;
+      const todoSync = await this.syncTodos(sourceTodos, target, mapping.targetId);
+      entry.todosUpdated = todoSync.updated;
+      entry.todosMissing = todoSync.missing;
+
+      if (sourceTask.status && sourceTask.status !== targetTask.status) {
+        await this.updateService.updateTaskStatus(mapping.targetId, sourceTask.status, mapping.targetProvider);
+        entry.statusChanged = true;
+      }
+
+      mapping.lastSyncedAt = new Date().toISOString();
+      this.saveMapping(mapping);
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Align target check state with the source, matching todos by exact text
+   * Repeated texts are paired in order: the n-th source todo with a text is the n-th target todo with it.
+   */
+  private async syncTodos(sourceTodos: TodoItem[], target: TaskProvider, targetId: string): Promise<{ updated: number; missing: number }> {
+    const targetTodos = (await target.analyzeTodos(targetId)).todos;
+    const targetsByText = new Map<string, TodoItem[]>();
+    for (const todo of targetTodos) {
+      const key = todo.text.trim();
+      targetsByText.set(key, [...(targetsByText.get(key) || []), todo]);
+    }
+
+    const updates: TodoUpdateRequest[] = [];
+    const occurrences = new Map<string, number>();
+    let missing = 0;
+
+    for (const todo of sourceTodos) {
+      const key = todo.text.trim();
+      const occurrence = occurrences.get(key) || 0;
+      occurrences.set(key, occurrence + 1);
+
+      const counterpart = targetsByText.get(key)?.[occurrence];
+      if (!counterpart) {
+        missing++;
+      } else if (counterpart.completed !== todo.completed) {
+        updates.push({ todoId: counterpart.id, todoText: key, completed: todo.completed });
+      }
+    }
+
+    if (updates.length === 0) return { updated: 0, missing };
+    const result = await target.updateTodos(targetId, updates);
+    return { updated: result.updated, missing: missing + result.failed };
+  }
+
+  /**
+   * Summaries are appended after a horizontal rule; keep them as separate sections so the target
+   * provider appends them its own way (body, comments, notes)
+   */
+  private splitSummarySections(content: string): { body: string; sections: string[] } {
+    const parts: string[][] = [[]];
+    let inCodeBlock = false;
+
+    for (const line of content.split('\n')) {
+      if (FENCE_LINE.test(line)) inCodeBlock = !inCodeBlock;
+      if (!inCodeBlock && RULE_LINE.test(line)) {
+        parts.push([]);
+        continue;
+      }
+      parts[parts.length - 1]?.push(line);
+    }
+
+    const texts = parts.map(part => part.join('\n').trim());
+    return {
+      body: texts[0] || '',
+      sections: texts.slice(1).filter(section => section.length > 0)
+    };
+  }
+
+  private resolveTaskType(taskType?: string): string {
+    const taskTypes = this.workflowConfig.taskTypes || [];
+    const match = taskType ? taskTypes.find(type => type.toLowerCase() === taskType.toLowerCase()) : undefined;
+    return match || taskTypes[0] || taskType || 'Feature';
+  }
+
+  private findMapping(sourceProvider: string, sourceId: string, targetProvider: string): TaskMapping | undefined {
+    return this.loadMappings().find(mapping =>
+      mapping.sourceProvider === sourceProvider
+      && mapping.targetProvider === targetProvider
+      && this.sameId(sourceId, mapping.sourceId)
+    );
+  }
+
+  /**
+   * Notion IDs come with or without dashes; compare IDs loosely
+   */
+  private sameId(a: string, b: string): boolean {
+    const normalize = (id: string) => id.trim().replace(/-/g, '').toLowerCase();
+    return normalize(a) === normalize(b);
+  }
+
+  private getMappingPath(): string {
+    const projectRoot = process.env.PROJECT_ROOT || process.cwd();
+    return resolve(projectRoot, MAPPING_FILE);
+  }
+
+  private loadMappings(): TaskMapping[] {
+    const path = this.getMappingPath();
+    if (!existsSync(path)) return [];
+
+    try {
+      const data = JSON.parse(readFileSync(path, 'utf-8'));
+      return Array.isArray(data.mappings) ? data.mappings : [];
+    } catch (error) {
+      throw new Error(`Failed to read migration mappings ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Upsert one mapping; written after every task so an interrupted batch can be resumed
+   */
+  private saveMapping(mapping: TaskMapping): void {
+    const mappings = this.loadMappings().filter(existing => !(
+      existing.sourceProvider === mapping.sourceProvider
+      && existing.targetProvider === mapping.targetProvider
+      && this.sameId(existing.sourceId, mapping.sourceId)
+    ));
+    mappings.push(mapping);
+
+    const path = this.getMappingPath();
+    if (!existsSync(dirname(path))) {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    writeFileSync(path, JSON.stringify({ mappings }, null, 2) + '\n', 'utf-8');
+  }
+}
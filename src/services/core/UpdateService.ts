@@ -4,23 +4,31 @@
 
 import { TaskProvider } from '../../interfaces/TaskProvider.js';
 import { ProviderManager } from '../../providers/ProviderManager.js';
-import { Task, TaskMetadata } from '../../models/Task.js';
-import { TodoAnalysisResult, TodoUpdateRequest } from '../../models/Todo.js';
-import { PageContent } from '../../models/Page.js';
+import { Task, TaskMetadata, TaskQuery, TaskQueryResult, TaskRelationType } from '../../models/Task.js';
+import { TodoAnalysisResult, TodoEdit, TodoEditResult, TodoItem, TodoUpdateRequest, TodoUpdateResult } from '../../models/Todo.js';
+import { PageContent, PageContextBundle, PageContextOptions, PageUpdateMode } from '../../models/Page.js';
+import { TaskComment } from '../../models/Comment.js';
 import { StatusService } from '../shared/StatusService.js';
+import { MigrationService } from './MigrationService.js';
 import { ValidationService } from '../shared/ValidationService.js';
+import { TodoAnalysisService } from '../shared/TodoAnalysisService.js';
 import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
 
-import { ExecutionAction, WorkflowConfig } from '../../models/Workflow.js';
+import { ExecutionAction, TransitionGateContext, WorkflowConfig, WorkflowTrigger } from '../../models/Workflow.js';
+import { TransitionGateError, ValidationError } from '../../types/Errors.js';
+
+const DEFAULT_LIST_LIMIT = 20;
 
 export class UpdateService {
   private executionService?: any; // Injected later to avoid circular dependency
+  private migrationService?: MigrationService;
 
   constructor(
     private providerManager: ProviderManager,
     private statusService: StatusService,
     private validationService: ValidationService,
+    private todoAnalysisService: TodoAnalysisService,
     private workflowConfig: WorkflowConfig
   ) {}
 
@@ -28,11 +36,81 @@ export class UpdateService {
     this.executionService = executionService;
   }
 
+  setMigrationService(migrationService: MigrationService): void {
+    this.migrationService = migrationService;
+  }
+
   async getTask(taskId: string, provider?: string): Promise<Task> {
     const taskProvider = this.providerManager.getProvider(provider);
     return await taskProvider.getTask(taskId);
   }
 
+  /**
+   * Find tasks by status, type, title text, assignee and last edit time
+   * Status keys (e.g. "notStarted") and task types are accepted in any case and mapped to their labels.
+   */
+  async listTasks(query: TaskQuery, provider?: string): Promise<TaskQueryResult> {
+    this.validationService.validateTaskQuery(query);
+
+    const taskProvider = this.providerManager.getProvider(provider);
+    if (!taskProvider.listTasks) {
+      throw new Error(`Provider '${provider || this.providerManager.getDefaultProviderName()}' does not support listing tasks`);
+    }
+
+    const sortBy = query.sortBy || 'updated';
+    return await taskProvider.listTasks({
+      ...query,
+      sortBy,
+      sortDirection: query.sortDirection || (sortBy === 'updated' || sortBy === 'created' ? 'desc' : 'asc'),
+      limit: query.limit || DEFAULT_LIST_LIMIT,
+      status: query.status?.map(status => this.resolveStatusLabel(status)),
+      type: query.type?.map(type => this.workflowConfig.taskTypes.find(known => known.toLowerCase() === type.toLowerCase()) || type),
+      updatedSince: query.updatedSince ? new Date(query.updatedSince).toISOString() : undefined
+    });
+  }
+
+  async listComments(taskId: string, provider?: string): Promise<TaskComment[]> {
+    const taskProvider = this.providerManager.getProvider(provider);
+    if (!taskProvider.listComments) {
+      throw new Error(`Provider '${provider || this.providerManager.getDefaultProviderName()}' does not support comments`);
+    }
+    return await taskProvider.listComments(taskId);
+  }
+
+  async addComment(taskId: string, body: string, threadId?: string, provider?: string): Promise<TaskComment> {
+    if (!body || typeof body !== 'string' || body.trim().length === 0) {
+      throw new Error('Comment body is required and must be a non-empty string');
+    }
+
+    const taskProvider = this.providerManager.getProvider(provider);
+    if (!taskProvider.addComment) {
+      throw new Error(`Provider '${provider || this.providerManager.getDefaultProviderName()}' does not support comments`);
+    }
+    return await taskProvider.addComment(taskId, body, threadId);
+  }
+
+  /**
+   * Make a task a child of another task, or blocked by it
+   */
+  async linkTask(taskId: string, relatedTaskId: string, relation: TaskRelationType, provider?: string): Promise<void> {
+    this.validationService.validateTaskRelation(taskId, relatedTaskId, relation);
+
+    const taskProvider = this.providerManager.getProvider(provider);
+    if (!taskProvider.linkTask) {
+      throw new Error(`Provider '${provider || this.providerManager.getDefaultProviderName()}' does not support task relations`);
+    }
+    await taskProvider.linkTask(taskId, relatedTaskId, relation);
+  }
+
+  /**
+   * Tasks blocking this one that are not done yet
+   */
+  async getOpenBlockers(taskId: string, provider?: string): Promise<Task[]> {
+    const task = await this.getTask(taskId, provider);
+    const blockers = await Promise.all((task.blockedBy || []).map(blockerId => this.getTask(blockerId, provider)));
+    return blockers.filter(blocker => !this.statusService.isDoneStatus(blocker.status));
+  }
+
   async getTaskMetadata(taskId: string, provider?: string): Promise<TaskMetadata> {
     const task = await this.getTask(taskId, provider);
     const taskProvider = this.providerManager.getProvider(provider);
@@ -44,6 +122,13 @@ export class UpdateService {
       title: task.title,
       status: task.status,
       type: task.type || 'Unknown',
+      priority: task.priority,
+      assignee: task.assignee,
+      dueDate: task.dueDate,
+      labels: task.labels,
+      parentId: task.parentId,
+      childIds: task.childIds,
+      blockedBy: task.blockedBy,
       todoStats: todoAnalysis.stats,
       statusInfo
     };
@@ -54,26 +139,33 @@ export class UpdateService {
 
     if (updates.status) {
       const task = await this.getTask(taskId, provider);
-      this.validationService.validateStatusTransition(task.status, updates.status);
+      await this.validationService.validateStatusTransition(task.status, updates.status, this.createGateContext(taskId, provider));
     }
 
     const taskProvider = this.providerManager.getProvider(provider);
     await taskProvider.updateTask(taskId, updates);
+    await this.mirrorChanges(taskId, provider);
   }
 
   async updateTaskStatus(taskId: string, newStatus: string, provider?: string): Promise<void> {
     const task = await this.getTask(taskId, provider);
-    this.validationService.validateStatusTransition(task.status, newStatus);
+    await this.validationService.validateStatusTransition(task.status, newStatus, this.createGateContext(taskId, provider));
     const taskProvider = this.providerManager.getProvider(provider);
     await taskProvider.updateTaskStatus(taskId, newStatus);
+    await this.mirrorChanges(taskId, provider);
   }
 
+  /**
+   * Provider analysis with findings, insights, recommendations and blockers from TodoAnalysisService
+   * Todos are always read with hierarchy, the analysis needs their sections
+   */
   async analyzeTodos(taskId: string, includeHierarchy: boolean = false, provider?: string): Promise<TodoAnalysisResult> {
     const taskProvider = this.providerManager.getProvider(provider);
-    return await taskProvider.analyzeTodos(taskId, includeHierarchy);
+    const analysis = this.todoAnalysisService.analyze(await taskProvider.analyzeTodos(taskId, true));
+    return includeHierarchy ? analysis : this.todoAnalysisService.withoutHierarchy(analysis);
   }
 
-  async updateTodos(taskId: string, updates: TodoUpdateRequest[], provider?: string): Promise<{ updated: number; failed: number; nextAction?: ExecutionAction; devSummary?: string }> {
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[], provider?: string): Promise<TodoUpdateResult & { nextAction?: ExecutionAction; devSummary?: string; newStatus?: string; gateFailure?: string }> {
     this.validationService.validateTodoUpdateData(updates);
     const taskProvider = this.providerManager.getProvider(provider);
     const result = await taskProvider.updateTodos(taskId, updates);
@@ -81,39 +173,99 @@ export class UpdateService {
     // Get next action if todos were successfully updated
     let nextAction: ExecutionAction | undefined;
     let devSummary: string | undefined;
+    let newStatus: string | undefined;
+    let gateFailure: string | undefined;
     
     if (result.updated > 0 && this.executionService) {
       try {
-        nextAction = await this.executionService.handleTodosUpdated(taskId);
-        
-        // If task is completed, update status to Test and generate dev summary directly
+        nextAction = await this.executionService.handleTodosUpdated(taskId, provider);
+
+        // Follow the workflow's progress auto-transition first, the summary reports the new status
+        try {
+          newStatus = await this.applyAutoTransition(taskId, 'progress', provider) || undefined;
+        } catch (error) {
+          if (!(error instanceof TransitionGateError)) throw error;
+          gateFailure = error.message;
+        }
+
+        // If task is completed, generate dev summary directly
         if (nextAction?.type === 'completed') {
-          // Move to Test status first
-          const todoAnalysis = await this.analyzeTodos(taskId, false, provider);
-          const taskMetadata = await this.getTaskMetadata(taskId, provider);
-          const testStatus = this.statusService.getNextRecommendedStatus(
-            taskMetadata.status, 
-            todoAnalysis.stats.percentage
-          );
-          
-          if (testStatus && testStatus !== taskMetadata.status) {
-            await this.updateTaskStatus(taskId, testStatus, provider);
-          }
-          
-          // Generate summary instructions for AI
           devSummary = await this.generateSummary(taskId, provider);
         }
       } catch (error) {
         console.warn('Next action analysis failed:', error);
       }
     }
+
+    if (result.updated > 0) {
+      await this.mirrorChanges(taskId, provider);
+    }
     
-    return { ...result, nextAction, devSummary };
+    return { ...result, nextAction, devSummary, newStatus, gateFailure };
+  }
+
+  /**
+   * Move the task along the first workflow auto-transition matching the trigger and its todo progress
+   * @returns The new status, or null when no auto-transition applies
+   * @throws TransitionGateError when a gate of the transition fails
+   */
+  async applyAutoTransition(taskId: string, trigger: WorkflowTrigger, provider?: string): Promise<string | null> {
+    const taskMetadata = await this.getTaskMetadata(taskId, provider);
+    const nextStatus = this.statusService.getAutoTransition(taskMetadata.status, trigger, taskMetadata.todoStats.percentage);
+    if (!nextStatus || nextStatus === taskMetadata.status) return null;
+
+    await this.updateTaskStatus(taskId, nextStatus, provider);
+    return nextStatus;
+  }
+
+  async editTodo(taskId: string, edit: TodoEdit, provider?: string): Promise<TodoEditResult> {
+    this.validationService.validateTodoEdit(edit);
+    const taskProvider = this.providerManager.getProvider(provider);
+    if (!taskProvider.editTodo) {
+      throw new Error(`Provider '${provider || this.providerManager.getDefaultProviderName()}' does not support editing todos`);
+    }
+
+    const todoId = await taskProvider.editTodo(taskId, edit);
+    await this.mirrorChanges(taskId, provider);
+
+    const analysis = await taskProvider.analyzeTodos(taskId);
+    return { action: edit.action, todoId, stats: analysis.stats };
   }
 
   async updateSingleTodo(taskId: string, todoText: string, completed: boolean, provider?: string): Promise<boolean> {
     const taskProvider = this.providerManager.getProvider(provider);
-    return await taskProvider.updateSingleTodo(taskId, todoText, completed);
+    const updated = await taskProvider.updateSingleTodo(taskId, todoText, completed);
+    if (updated) {
+      await this.mirrorChanges(taskId, provider);
+    }
+    return updated;
+  }
+
+  /**
+   * Todos and content for transition gates, each read at most once
+   */
+  private createGateContext(taskId: string, provider?: string): TransitionGateContext {
+    const taskProvider = this.providerManager.getProvider(provider);
+    let todos: Promise<TodoItem[]> | undefined;
+    let content: Promise<string> | undefined;
+
+    return {
+      taskId,
+      getTodos: () => todos = todos || taskProvider.analyzeTodos(taskId, true).then(analysis => analysis.todos),
+      getContent: () => content = content || taskProvider.readPage(taskId, false).then(page => page.content)
+    };
+  }
+
+  /**
+   * Propagate status and todo changes to mirrored tasks; mirror failures never fail the update itself
+   */
+  private async mirrorChanges(taskId: string, provider?: string): Promise<void> {
+    if (!this.migrationService) return;
+    try {
+      await this.migrationService.propagate(taskId, provider);
+    } catch (error) {
+      console.warn('Mirror propagation failed:', error);
+    }
   }
 
   async generateSummary(taskId: string, provider?: string): Promise<string> {
@@ -196,13 +348,55 @@ export class UpdateService {
     return await taskProvider.readPage(pageId, includeLinkedPages);
   }
 
+  async gatherPageContext(pageId: string, options: PageContextOptions = {}, provider?: string): Promise<PageContextBundle> {
+    this.validationService.validatePageContextOptions(options);
+
+    const taskProvider = this.providerManager.getProvider(provider);
+    if (!taskProvider.gatherPageContext) {
+      throw new Error(`Provider '${provider || this.providerManager.getDefaultProviderName()}' does not support gathering page context`);
+    }
+    return await taskProvider.gatherPageContext(pageId, options);
+  }
+
   async createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>, provider?: string): Promise<PageContent> {
     const taskProvider = this.providerManager.getProvider(provider);
     return await taskProvider.createNotionPage(databaseId, title, content, properties);
   }
 
-  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode: 'append' | 'replace' | 'insert' = 'append', insertAfter?: string, provider?: string): Promise<void> {
+  /**
+   * A status among the properties is set last through updateTaskStatus, so the workflow gates check it
+   * (against the updated content) like any other status change
+   */
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode: PageUpdateMode = 'append', target?: string, provider?: string): Promise<void> {
     const taskProvider = this.providerManager.getProvider(provider);
-    await taskProvider.updateNotionPage(pageId, title, content, properties, mode, insertAfter);
+    const { status, others } = this.splitStatusProperty(taskProvider, properties);
+
+    if (status === undefined || title || content !== undefined || others) {
+      await taskProvider.updateNotionPage(pageId, title, content, others, mode, target);
+    }
+    if (status !== undefined) {
+      await this.updateTaskStatus(pageId, status, provider);
+    }
+  }
+
+  private splitStatusProperty(taskProvider: TaskProvider, properties?: Record<string, any>): { status?: string; others?: Record<string, any> } {
+    const name = taskProvider.getStatusPropertyName?.();
+    if (!properties || !name || !(name in properties)) {
+      return { others: properties };
+    }
+
+    const { [name]: value, ...others } = properties;
+    const status = typeof value === 'string' ? value : value?.status?.name ?? value?.select?.name;
+    if (typeof status !== 'string' || !status.trim()) {
+      throw new ValidationError(`The "${name}" property needs a status label, e.g. {"${name}": {"status": {"name": "Done"}}}`, 'properties');
+    }
+    return { status, others: Object.keys(others).length > 0 ? others : undefined };
+  }
+
+  private resolveStatusLabel(status: string): string {
+    const statusMapping = this.workflowConfig.statusMapping;
+    const key = Object.keys(statusMapping).find(candidate => candidate.toLowerCase() === status.toLowerCase());
+    if (key) return statusMapping[key] || status;
+    return Object.values(statusMapping).find(label => label.toLowerCase() === status.toLowerCase()) || status;
   }
-}
\ No newline at end of file
+}
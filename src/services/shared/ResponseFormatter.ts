@@ -4,9 +4,11 @@
 
 import { ExecutionResult, ExecutionAction } from '../../models/Workflow.js';
 import { TaskMetadata } from '../../models/Task.js';
-import { TodoAnalysisResult } from '../../models/Todo.js';
-import { Task } from '../../models/Task.js';
-import { PageContent, LinkedPage } from '../../models/Page.js';
+import { TodoAnalysisResult, TodoEditResult, TodoUpdateResult, TodoWorkload } from '../../models/Todo.js';
+import { Task, TaskQueryResult, TaskRelationType, TaskSplitResult } from '../../models/Task.js';
+import { PageContent, LinkedPage, PageContextBundle } from '../../models/Page.js';
+import { MigrationReport, MirrorSyncReport } from '../../models/Migration.js';
+import { TaskComment } from '../../models/Comment.js';
 
 export class ResponseFormatter {
   
@@ -59,6 +61,13 @@ export class ResponseFormatter {
     text += `Title: ${metadata.title}\n`;
     text += `Status: ${metadata.status}\n`;
     text += `Type: ${metadata.type}\n`;
+    if (metadata.priority) text += `Priority: ${metadata.priority}\n`;
+    if (metadata.assignee) text += `Assignee: ${metadata.assignee}\n`;
+    if (metadata.dueDate) text += `Due: ${metadata.dueDate}\n`;
+    if (metadata.labels && metadata.labels.length > 0) text += `Labels: ${metadata.labels.join(', ')}\n`;
+    if (metadata.parentId) text += `Parent: ${metadata.parentId}\n`;
+    if (metadata.childIds && metadata.childIds.length > 0) text += `Sub-tasks: ${metadata.childIds.join(', ')}\n`;
+    if (metadata.blockedBy && metadata.blockedBy.length > 0) text += `Blocked by: ${metadata.blockedBy.join(', ')}\n`;
     text += `ID: ${metadata.id}\n\n`;
     
     text += `📊 Todo Statistics\n`;
@@ -88,6 +97,81 @@ export class ResponseFormatter {
     return text;
   }
 
+  formatTaskList(result: TaskQueryResult): string {
+    if (result.tasks.length === 0) {
+      return `📋 Tasks\n\nNo tasks match the filters.`;
+    }
+
+    let text = `📋 Tasks (${result.tasks.length}${result.hasMore ? '+' : ''})\n\n`;
+
+    for (const task of result.tasks) {
+      text += `- ${task.title} [${task.status}] (${task.type || 'Unknown'})\n`;
+      text += `  ID: ${task.id}\n`;
+
+      const details: string[] = [];
+      if (task.priority) details.push(`Priority: ${task.priority}`);
+      if (task.assignee) details.push(`Assignee: ${task.assignee}`);
+      if (task.dueDate) details.push(`Due: ${task.dueDate}`);
+      if (task.lastEditedTime) details.push(`Updated: ${task.lastEditedTime}`);
+      if (details.length > 0) text += `  ${details.join(' | ')}\n`;
+    }
+
+    if (result.hasMore && result.nextCursor) {
+      text += `\nMore tasks available, pass cursor "${result.nextCursor}" for the next page.`;
+    }
+
+    return text.trimEnd();
+  }
+
+  formatComments(taskId: string, comments: TaskComment[]): string {
+    if (comments.length === 0) {
+      return `💬 Comments\n\nNo comments on task ${taskId}.`;
+    }
+
+    let text = `💬 Comments (${comments.length})\n\n`;
+    const threads = new Map<string, TaskComment[]>();
+    for (const comment of comments) {
+      const key = comment.threadId || comment.id;
+      threads.set(key, [...(threads.get(key) || []), comment]);
+    }
+
+    for (const [threadId, thread] of threads) {
+      const resolved = thread.some(comment => comment.resolved) ? ' (resolved)' : '';
+      text += `Thread ${threadId}${resolved}\n`;
+      for (const comment of thread) {
+        const meta = [comment.author, comment.createdTime].filter(Boolean).join(', ');
+        text += `- ${meta ? `[${meta}] ` : ''}${comment.body.replace(/\n/g, '\n  ')}\n`;
+      }
+      text += `\n`;
+    }
+
+    return text.trimEnd();
+  }
+
+  formatCommentAdded(comment: TaskComment): string {
+    let text = `✅ Comment Added\n\n`;
+    text += `Comment ID: ${comment.id}\n`;
+    if (comment.threadId) text += `Thread: ${comment.threadId}\n`;
+    if (comment.url) text += `URL: ${comment.url}\n`;
+    return text.trimEnd();
+  }
+
+  formatTaskLinked(taskId: string, relatedTaskId: string, relation: TaskRelationType): string {
+    const description = relation === 'parent' ? `is now a sub-task of ${relatedTaskId}` : `is now blocked by ${relatedTaskId}`;
+    return `✅ Tasks Linked\n\nTask ${taskId} ${description}.`;
+  }
+
+  formatTaskSplit(result: TaskSplitResult): string {
+    let text = `✅ Task Split\n\n`;
+    text += `Parent: ${result.parent.title} (${result.parent.id})\n`;
+    text += `Child tasks (${result.children.length}):\n`;
+    for (const child of result.children) {
+      text += `- ${child.title} (${child.id})${child.url ? ` - ${child.url}` : ''}\n`;
+    }
+    text += `\nRun execute_task on a child task to work on it.`;
+    return text;
+  }
+
   formatTaskUpdated(taskId: string, updates: Record<string, any>): string {
     let text = `✅ Task Updated\n\n`;
     
@@ -105,14 +189,26 @@ export class ResponseFormatter {
     text += `Total todos: ${analysis.stats.total}\n`;
     text += `Completed: ${analysis.stats.completed}\n`;
     text += `Progress: ${analysis.stats.percentage}%\n\n`;
+
+    if (analysis.todos.length > 0) {
+      text += `📋 Todos (use the ID as todoId in update_todos)\n`;
+      for (const todo of analysis.todos) {
+        text += `${'  '.repeat(todo.heading ? 0 : todo.level)}- [${todo.completed ? 'x' : ' '}] ${todo.text} (ID: ${todo.id})\n`;
+      }
+      text += `\n`;
+    }
+
+    if (analysis.workload) {
+      text += this.formatWorkload(analysis.workload);
+    }
     
     text += `💡 Insights\n`;
-    text += `${analysis.insights.map((i: string) => `- ${i}`).join('\n')}\n\n`;
+    text += `${(analysis.insights || []).map((i: string) => `- ${i}`).join('\n')}\n\n`;
     
     text += `🎯 Recommendations\n`;
-    text += `${analysis.recommendations.map((r: string) => `- ${r}`).join('\n')}\n\n`;
+    text += `${(analysis.recommendations || []).map((r: string) => `- ${r}`).join('\n')}\n\n`;
     
-    if (analysis.blockers.length > 0) {
+    if (analysis.blockers && analysis.blockers.length > 0) {
       text += `⚠️ Blockers\n`;
       text += `${analysis.blockers.map((b: string) => `- ${b}`).join('\n')}`;
     }
@@ -120,13 +216,51 @@ export class ResponseFormatter {
     return text;
   }
 
-  formatTodosUpdated(taskId: string, result: { updated: number, failed: number, nextAction?: ExecutionAction, devSummary?: string }): string {
+  formatTodoEdited(taskId: string, result: TodoEditResult): string {
+    const verbs: Record<TodoEditResult['action'], string> = { add: 'Added', edit: 'Edited', delete: 'Deleted', move: 'Moved' };
+    let text = `✅ Todo ${verbs[result.action]}\n\n`;
+
+    text += `Task ID: ${taskId}\n`;
+    if (result.todoId) {
+      text += `Todo ID: ${result.todoId}\n`;
+    }
+    text += `Progress: ${result.stats.completed}/${result.stats.total} (${result.stats.percentage}%)\n\n`;
+    text += `Todo IDs may have changed, run analyze_todos before referencing other todos by ID.`;
+
+    return text;
+  }
+
+  formatTodosUpdated(taskId: string, result: TodoUpdateResult & { nextAction?: ExecutionAction, devSummary?: string, newStatus?: string, gateFailure?: string }): string {
     let text = `✅ Todos Updated\n\n`;
     
     text += `Task ID: ${taskId}\n`;
     text += `Successfully updated: ${result.updated}\n`;
     text += `Failed: ${result.failed}\n\n`;
     text += `Batch todo update completed.`;
+
+    if (result.failures && result.failures.length > 0) {
+      text += `\n\n⚠️ Unmatched Todos\n`;
+      for (const failure of result.failures) {
+        const requested = failure.todoId ? `todoId "${failure.todoId}"` : `"${failure.todoText}"`;
+        text += failure.reason === 'ambiguous'
+          ? `- ${requested} matches several todos, retry with one of their IDs:\n`
+          : failure.reason === 'id_mismatch'
+            ? `- ${requested} is not "${failure.todoText}" (the ID may be outdated), nothing changed; the todo with that ID and the matching todos:\n`
+            : `- ${requested} not found${failure.candidates.length > 0 ? ', closest todos:' : ''}\n`;
+        for (const candidate of failure.candidates) {
+          text += `  - [${candidate.completed ? 'x' : ' '}] ${candidate.heading ? `${candidate.heading}: ` : ''}${candidate.text} (ID: ${candidate.id})\n`;
+        }
+      }
+      text += `\nRun analyze_todos to list all todos with their IDs.`;
+    }
+
+    if (result.newStatus) {
+      text += `\n\n🔄 Status moved to "${result.newStatus}" by the workflow`;
+    }
+
+    if (result.gateFailure) {
+      text += `\n\n⛔ Status unchanged\n${result.gateFailure}`;
+    }
     
     // Show next action if available
     if (result.nextAction) {
@@ -141,6 +275,35 @@ export class ResponseFormatter {
     return text;
   }
   
+  private formatWorkload(workload: TodoWorkload): string {
+    let text = `👥 Workload\n`;
+    for (const load of workload.owners) {
+      if (load.open === 0) {
+        text += `- ${load.owner ? `@${load.owner}` : 'Unassigned'}: done (${load.completed} completed)\n`;
+        continue;
+      }
+      const remaining = load.remainingMinutes > 0 ? `${this.formatDuration(load.remainingMinutes)} remaining` : 'not estimated';
+      const unestimated = load.remainingMinutes > 0 && load.unestimated > 0 ? ` (${load.unestimated} without estimate)` : '';
+      text += `- ${load.owner ? `@${load.owner}` : 'Unassigned'}: ${load.open} open, ${remaining}${unestimated}\n`;
+    }
+    text += `Remaining estimate: ${this.formatDuration(workload.remainingMinutes)}`;
+    text += workload.unestimated > 0 ? ` + ${workload.unestimated} open todo(s) without estimate\n` : `\n`;
+
+    if (workload.overdue.length > 0) {
+      text += `⏰ Overdue\n`;
+      for (const todo of workload.overdue) {
+        text += `- ${todo.text} (due ${todo.dueDate}${todo.owner ? `, @${todo.owner}` : ''}, ID: ${todo.id})\n`;
+      }
+    }
+
+    return text + `\n`;
+  }
+
+  private formatDuration(minutes: number): string {
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.round(minutes / 6) / 10}h`;
+  }
+
   private formatNextAction(action: ExecutionAction): string {
     switch (action.type) {
       case 'completed':
@@ -154,6 +317,9 @@ export class ResponseFormatter {
       
       case 'continue':
         return `➡️ Continue\n${action.message}`;
+
+      case 'blocked':
+        return `⛔ Blocked\n\nBlocking tasks:\n${action.blockers.map(blocker => `- ${blocker.title} (${blocker.id}): ${blocker.status}`).join('\n')}\n\nFinish them first, or set workflow.blockerPolicy to "warn" to execute anyway.`;
       
       default:
         return `📋 Next Action Available`;
@@ -190,4 +356,95 @@ export class ResponseFormatter {
     
     return text;
   }
-}
\ No newline at end of file
+
+  formatPageContext(bundle: PageContextBundle): string {
+    const { limits } = bundle;
+    let text = `📚 Page Context\n\n`;
+
+    text += `Pages: ${bundle.pages.length}\n`;
+    text += `Estimated tokens: ~${bundle.estimatedTokens} of ${limits.maxTokens}\n`;
+    text += `Limits: depth ${limits.maxDepth}, ${limits.maxPages} pages\n\n`;
+
+    bundle.pages.forEach((page, index) => {
+      text += `## ${index + 1}. ${page.title}\n`;
+      text += `ID: ${page.id}\n`;
+      text += `URL: ${page.url}\n`;
+      if (page.relationshipType && page.linkedFrom) {
+        text += `Reached via: ${page.relationshipType} from ${page.linkedFrom} (depth ${page.depth})\n`;
+      }
+      text += `\n${page.content || '(empty page)'}\n`;
+      if (page.truncated) text += `\n✂️ Truncated to fit the token budget\n`;
+      text += `\n`;
+    });
+
+    if (bundle.skipped.length > 0) {
+      const reasons: Record<string, string> = {
+        depth: 'beyond maxDepth',
+        pages: 'maxPages reached',
+        tokens: 'token budget used up',
+        inaccessible: 'not accessible'
+      };
+      text += `⏭️ Not Included (${bundle.skipped.length})\n`;
+      for (const page of bundle.skipped) {
+        text += `- ${page.title ? `${page.title} (${page.id})` : page.id}: ${reasons[page.reason]}\n`;
+      }
+      if (bundle.skipped.some(page => page.reason !== 'inaccessible')) {
+        text += `\nRaise the limits or call gather_page_context on one of these pages to read them.`;
+      }
+    }
+
+    return text.trimEnd();
+  }
+
+  formatMigrationReport(report: MigrationReport): string {
+    let text = `🚚 Task Migration: ${report.sourceProvider} → ${report.targetProvider}\n\n`;
+
+    text += `Migrated: ${report.migrated}\n`;
+    text += `Skipped: ${report.skipped}\n`;
+    text += `Failed: ${report.failed}\n\n`;
+
+    text += `🔀 ID Mapping\n`;
+    for (const entry of report.entries) {
+      const icon = entry.status === 'migrated' ? '✅' : entry.status === 'skipped' ? '⏭️' : '❌';
+      text += `${icon} ${entry.sourceId} → ${entry.targetId || '(none)'}`;
+      if (entry.title) text += ` "${entry.title}"`;
+      text += `\n`;
+      if (entry.todos) {
+        text += `   └ Todos: ${entry.todos.completed}/${entry.todos.total}, summary sections: ${entry.summarySections || 0}\n`;
+      }
+      for (const warning of entry.warnings) {
+        text += `   ⚠️ ${warning}\n`;
+      }
+      if (entry.error) {
+        text += `   Error: ${entry.error}\n`;
+      }
+    }
+
+    text += `\nMappings saved to ${report.mappingFile}`;
+    return text;
+  }
+
+  formatMirrorSyncReport(report: MirrorSyncReport): string {
+    let text = `🔁 Mirror Sync\n\n`;
+
+    text += `Synced: ${report.synced}\n`;
+    text += `Failed: ${report.failed}\n\n`;
+
+    if (report.entries.length === 0) {
+      return text + 'No mirrored tasks found. Migrate tasks with mirror: true first.';
+    }
+
+    for (const entry of report.entries) {
+      const icon = entry.error ? '❌' : '✅';
+      text += `${icon} ${entry.sourceId} → ${entry.targetId}`;
+      if (entry.error) {
+        text += `\n   Error: ${entry.error}\n`;
+        continue;
+      }
+      text += ` (status ${entry.statusChanged ? 'updated' : 'unchanged'}, ${entry.todosUpdated} todos updated`;
+      text += entry.todosMissing > 0 ? `, ${entry.todosMissing} todos missing on target)\n` : `)\n`;
+    }
+
+    return text;
+  }
+}
@@ -1,119 +1,75 @@
 /**
  * StatusService - Task status management, transitions validation and recommendations
+ *
+ * Driven by the workflow state machine (see WorkflowStates): status labels are matched to states
+ * case-insensitively, providers may differ in casing.
  */
 
-import { WorkflowConfig } from '../../models/Workflow.js';
+import { WorkflowConfig, WorkflowState, WorkflowStateRole, WorkflowTrigger } from '../../models/Workflow.js';
 import { TaskStatus } from '../../models/Task.js';
+import { resolveWorkflow } from './WorkflowStates.js';
 
 export class StatusService {
-  constructor(private workflowConfig: WorkflowConfig) {}
+  private states: Record<string, WorkflowState>;
+
+  constructor(workflowConfig: WorkflowConfig) {
+    this.states = resolveWorkflow(workflowConfig).states || {};
+  }
 
   getTaskStatus(currentStatus: string): TaskStatus {
-    const statusKey = this.getStatusKey(currentStatus);
-    const availableTransitions = this.workflowConfig.transitions[statusKey] || [];
-    const availableStatuses = availableTransitions.map(key => this.workflowConfig.statusMapping[key]).filter(Boolean) as string[];
+    const state = this.getState(currentStatus);
 
     return {
       current: currentStatus,
-      available: availableStatuses,
-      recommended: this.getRecommendedStatus(currentStatus),
-      shouldAutoProgress: false
+      available: (state?.transitions || []).map(key => this.states[key]?.label).filter(Boolean) as string[],
+      recommended: this.getRecommendedStatus(state),
+      shouldAutoProgress: (state?.autoTransitions || []).length > 0
     };
   }
 
   validateTransition(fromStatus: string, toStatus: string): boolean {
-    const fromStatusKey = this.getStatusKey(fromStatus);
-    const toStatusKey = this.getStatusKey(toStatus);
-    const availableTransitions = this.workflowConfig.transitions[fromStatusKey] || [];
-    return availableTransitions.includes(toStatusKey);
+    const availableTransitions = this.getState(fromStatus)?.transitions || [];
+    return availableTransitions.includes(this.getStatusKey(toStatus));
   }
 
-  getNextRecommendedStatus(currentStatus: string, progressPercentage: number): string | null {
-    const statusKey = this.getStatusKey(currentStatus);
-    const transitions = this.workflowConfig.transitions[statusKey] || [];
-    
-    if (transitions.length === 0) return null;
-
-    if (!this.workflowConfig.statusMapping.notStarted) {
-      throw new Error('Missing required status mapping: notStarted');
-    }
-    if (!this.workflowConfig.statusMapping.inProgress) {
-      throw new Error('Missing required status mapping: inProgress');
-    }
-    if (!this.workflowConfig.statusMapping.done) {
-      throw new Error('Missing required status mapping: done');
-    }
-    if (!this.workflowConfig.statusMapping.test) {
-      throw new Error('Missing required status mapping: test');
-    }
-
-    const notStarted = this.workflowConfig.statusMapping.notStarted;
-    const inProgress = this.workflowConfig.statusMapping.inProgress;
-    const done = this.workflowConfig.statusMapping.done;
-    const test = this.workflowConfig.statusMapping.test;
-
-    if (currentStatus === notStarted && progressPercentage > 0) {
-      return transitions.includes('inProgress') ? inProgress : (transitions[0] ? this.workflowConfig.statusMapping[transitions[0]] || null : null);
-    }
-    
-    if (currentStatus === inProgress && progressPercentage >= 100) {
-      return transitions.includes('test') ? test : (transitions.includes('done') ? done : (transitions[0] ? this.workflowConfig.statusMapping[transitions[0]] || null : null));
-    }
-
-    if (currentStatus === test && progressPercentage >= 100) {
-      return transitions.includes('done') ? done : null;
-    }
+  /**
+   * Status the first matching auto-transition of the current state leads to
+   * @param percentage - Todo completion (0-100), compared with minProgress
+   * @returns null when no auto-transition applies
+   */
+  getAutoTransition(currentStatus: string, trigger: WorkflowTrigger, percentage: number): string | null {
+    const rule = (this.getState(currentStatus)?.autoTransitions || [])
+      .find(candidate => candidate.on === trigger && percentage >= (candidate.minProgress ?? 0));
+    return rule ? this.states[rule.to]?.label || null : null;
+  }
 
-    return null;
+  getStatusKey(status: string): string {
+    const entries = Object.entries(this.states);
+    const exact = entries.find(([, state]) => state.label === status);
+    const match = exact || entries.find(([, state]) => state.label.toLowerCase() === status.toLowerCase());
+    return match ? match[0] : 'unknown';
   }
 
-  shouldAutoProgress(currentStatus: string): boolean {
-    if (!this.workflowConfig.statusMapping.notStarted) {
-      throw new Error('Missing required status mapping: notStarted');
-    }
-    if (!this.workflowConfig.statusMapping.inProgress) {
-      throw new Error('Missing required status mapping: inProgress');
-    }
-    
-    const notStarted = this.workflowConfig.statusMapping.notStarted;
-    const inProgress = this.workflowConfig.statusMapping.inProgress;
-    const autoProgressStatuses = [notStarted, inProgress];
-    
-    return autoProgressStatuses.includes(currentStatus);
+  getRole(status: string): WorkflowStateRole | undefined {
+    return this.getState(status)?.role;
   }
 
-  getStatusKey(status: string): string {
-    for (const [key, value] of Object.entries(this.workflowConfig.statusMapping)) {
-      if (value === status) return key;
-    }
-    return 'unknown';
+  /**
+   * Whether a status label is a terminal state
+   */
+  isDoneStatus(status: string): boolean {
+    return this.getRole(status) === 'terminal';
   }
 
-  getNotStartedStatus(): string {
-    if (!this.workflowConfig.statusMapping.notStarted) {
-      throw new Error('Missing required status mapping: notStarted');
-    }
-    return this.workflowConfig.statusMapping.notStarted;
+  private getState(status: string): WorkflowState | undefined {
+    return this.states[this.getStatusKey(status)];
   }
 
-  private getRecommendedStatus(currentStatus: string): string | undefined {
-    const statusKey = this.getStatusKey(currentStatus);
-    const transitions = this.workflowConfig.transitions[statusKey];
-    if (!transitions || transitions.length === 0) return undefined;
-    
-    if (!this.workflowConfig.statusMapping.notStarted) {
-      throw new Error('Missing required status mapping: notStarted');
-    }
-    if (!this.workflowConfig.statusMapping.inProgress) {
-      throw new Error('Missing required status mapping: inProgress');
-    }
-    
-    if (currentStatus === this.workflowConfig.statusMapping.notStarted && 
-        transitions.includes('inProgress')) {
-      return this.workflowConfig.statusMapping.inProgress;
-    }
-    
-    const firstTransitionKey = transitions[0];
-    return firstTransitionKey ? this.workflowConfig.statusMapping[firstTransitionKey] : undefined;
+  /**
+   * The target of the first auto-transition, otherwise the first transition
+   */
+  private getRecommendedStatus(state: WorkflowState | undefined): string | undefined {
+    const key = state?.autoTransitions?.[0]?.to || state?.transitions?.[0];
+    return key ? this.states[key]?.label : undefined;
   }
-}
\ No newline at end of file
+}
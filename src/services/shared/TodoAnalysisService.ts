@@ -0,0 +1,304 @@
+/**
+ * TodoAnalysisService - Provider-independent insights, recommendations and blockers for the todos of a task
+ *
+ * Todos are grouped into sections by heading (they need to be parsed with includeHierarchy). Findings:
+ * sections left half done while later sections progressed, sections completed before earlier ones were
+ * started, todos marked blocked or waiting, open todos under a checked todo or a heading marked done,
+ * and todo texts that appear more than once.
+ */
+
+import { TodoAnalysisResult, TodoFinding, TodoItem, TodoStats } from '../../models/Todo.js';
+import { normalizeText } from '../../providers/shared/TextNormalizer.js';
+
+interface TodoSectionProgress {
+  title: string;
+  todos: TodoItem[];
+  open: TodoItem[];
+  completed: number;
+}
+
+// Open todos with one of these markers wait on something outside the task
+const BLOCKED_MARKER = /(?:^|[\s([{:])(?:blocked|waiting|awaiting|on hold)\b|⛔|🚫|⏳/i;
+// Headings marking their section as done, e.g. "Setup ✅" or "Setup (done)"
+const DONE_HEADING = /✅|✔|☑|[([](?:done|complete|completed)[)\]]/i;
+const LARGE_TASK_TODOS = 20;
+const SPLIT_SUGGESTION_TODOS = 10;
+const MAX_LISTED_TODOS = 3;
+
+export class TodoAnalysisService {
+
+  /**
+   * Add findings, insights, recommendations and blockers to a provider analysis
+   * @param analysis - Provider analysis with todos parsed with includeHierarchy
+   */
+  analyze(analysis: TodoAnalysisResult): TodoAnalysisResult {
+    const { todos, stats } = analysis;
+    const sections = this.groupSections(todos);
+    const findings = [
+      ...this.findStalledSections(sections),
+      ...this.findSectionsOutOfOrder(sections),
+      ...this.findBlockedTodos(todos),
+      ...this.findUncheckedInCompleted(todos, sections),
+      ...this.findDuplicates(todos)
+    ];
+
+    return {
+      ...analysis,
+      findings,
+      insights: [
+        ...this.generateInsights(stats, sections),
+        ...findings.filter(finding => finding.type !== 'blocked_todo').map(finding => finding.message)
+      ],
+      recommendations: this.generateRecommendations(stats, sections, findings),
+      blockers: this.identifyBlockers(stats, findings)
+    };
+  }
+
+  /**
+   * Todos as providers return them without includeHierarchy: no section prefix or context, levels from nesting only
+   */
+  withoutHierarchy(analysis: TodoAnalysisResult): TodoAnalysisResult {
+    const todos = this.flattenHierarchy(analysis.todos);
+    const nextTodos = todos.filter(todo => !todo.completed).slice(0, analysis.stats.nextTodos.length).map(todo => todo.text);
+    return { ...analysis, todos, stats: { ...analysis.stats, nextTodos } };
+  }
+
+  private flattenHierarchy(todos: TodoItem[]): TodoItem[] {
+    const byId = new Map(todos.map(todo => [todo.id, todo]));
+    const depthOf = (todo: TodoItem): number => {
+      const parent = todo.parentId ? byId.get(todo.parentId) : undefined;
+      return parent ? depthOf(parent) + 1 : 0;
+    };
+
+    const flat = new Map<TodoItem, TodoItem>();
+    for (const todo of todos) {
+      const depth = depthOf(todo);
+      flat.set(todo, {
+        ...todo,
+        text: this.getTodoText(todo),
+        level: depth,
+        isSubtask: depth > 0,
+        children: [],
+        heading: undefined,
+        headingLevel: undefined,
+        contextText: undefined,
+        taskTitle: undefined,
+        relatedTodos: undefined
+      });
+    }
+    for (const [todo, copy] of flat) {
+      copy.children = todo.children.map(child => flat.get(child) || child);
+    }
+
+    return todos.map(todo => flat.get(todo) || todo);
+  }
+
+  private groupSections(todos: TodoItem[]): TodoSectionProgress[] {
+    const sections = new Map<string, TodoSectionProgress>();
+    for (const todo of todos) {
+      if (!todo.heading) continue;
+
+      let section = sections.get(todo.heading);
+      if (!section) {
+        section = { title: todo.heading, todos: [], open: [], completed: 0 };
+        sections.set(todo.heading, section);
+      }
+      section.todos.push(todo);
+      if (todo.completed) {
+        section.completed++;
+      } else {
+        section.open.push(todo);
+      }
+    }
+    return [...sections.values()];
+  }
+
+  /**
+   * Started sections with open todos while a later section has progressed
+   */
+  private findStalledSections(sections: TodoSectionProgress[]): TodoFinding[] {
+    return sections
+      .filter((section, index) => section.completed > 0 && section.open.length > 0
+        && sections.slice(index + 1).some(later => later.completed > 0))
+      .map(section => ({
+        type: 'stalled_section' as const,
+        section: section.title,
+        todoIds: section.open.map(todo => todo.id),
+        message: `Section "${section.title}" stalled at ${section.completed}/${section.todos.length} while later sections progressed`,
+        recommendation: `Finish "${section.title}" (${this.listTodos(section.open)}), or move todos that belong elsewhere with edit_todo`
+      }));
+  }
+
+  /**
+   * Completed sections preceded by sections that were not started
+   */
+  private findSectionsOutOfOrder(sections: TodoSectionProgress[]): TodoFinding[] {
+    const findings: TodoFinding[] = [];
+    sections.forEach((section, index) => {
+      if (section.open.length > 0 || section.completed === 0) return;
+
+      const skipped = sections.slice(0, index).filter(earlier => earlier.completed === 0 && earlier.open.length > 0);
+      if (skipped.length === 0) return;
+
+      const names = skipped.map(earlier => `"${earlier.title}"`).join(', ');
+      findings.push({
+        type: 'out_of_order',
+        section: section.title,
+        todoIds: skipped.flatMap(earlier => earlier.open.map(todo => todo.id)),
+        message: `Section "${section.title}" was completed before ${names} ${skipped.length === 1 ? 'was' : 'were'} started`,
+        recommendation: `Check that "${section.title}" does not depend on ${names}, then continue with "${skipped[0]!.title}"`
+      });
+    });
+    return findings;
+  }
+
+  private findBlockedTodos(todos: TodoItem[]): TodoFinding[] {
+    return todos
+      .filter(todo => !todo.completed && BLOCKED_MARKER.test(this.getTodoText(todo)))
+      .map(todo => {
+        const text = this.getTodoText(todo);
+        return {
+          type: 'blocked_todo' as const,
+          section: todo.heading,
+          todoIds: [todo.id],
+          message: `"${text}"${todo.heading ? ` in "${todo.heading}"` : ''} is marked as blocked or waiting`,
+          recommendation: `Resolve what "${text}" is waiting for, or record the blocking task with link_tasks`
+        };
+      });
+  }
+
+  /**
+   * Open todos nested under a checked todo, or in a section whose heading marks it done
+   */
+  private findUncheckedInCompleted(todos: TodoItem[], sections: TodoSectionProgress[]): TodoFinding[] {
+    const findings: TodoFinding[] = [];
+
+    for (const todo of todos) {
+      const open = todo.completed ? todo.children.filter(child => !child.completed) : [];
+      if (open.length === 0) continue;
+
+      const text = this.getTodoText(todo);
+      findings.push({
+        type: 'unchecked_in_completed',
+        section: todo.heading,
+        todoIds: open.map(child => child.id),
+        message: `"${text}" is checked but ${open.length} nested todo(s) are open`,
+        recommendation: `Complete the nested todos of "${text}" (${this.listTodos(open)}), or uncheck it with update_todos`
+      });
+    }
+
+    for (const section of sections) {
+      if (section.open.length === 0 || !DONE_HEADING.test(section.title)) continue;
+
+      findings.push({
+        type: 'unchecked_in_completed',
+        section: section.title,
+        todoIds: section.open.map(todo => todo.id),
+        message: `Section "${section.title}" is marked done but has ${section.open.length} open todo(s)`,
+        recommendation: `Complete ${this.listTodos(section.open)} or remove the done marker from "${section.title}"`
+      });
+    }
+
+    return findings;
+  }
+
+  private findDuplicates(todos: TodoItem[]): TodoFinding[] {
+    const groups = new Map<string, TodoItem[]>();
+    for (const todo of todos) {
+      const key = normalizeText(this.getTodoText(todo));
+      if (!key) continue;
+      groups.set(key, [...(groups.get(key) || []), todo]);
+    }
+
+    return [...groups.values()]
+      .filter(group => group.length > 1)
+      .map(group => {
+        const text = this.getTodoText(group[0]!);
+        const sections = [...new Set(group.map(todo => todo.heading).filter(Boolean))];
+        return {
+          type: 'duplicate' as const,
+          section: sections.length === 1 ? sections[0] : undefined,
+          todoIds: group.map(todo => todo.id),
+          message: `"${text}" appears ${group.length} times${sections.length > 0 ? ` (${sections.map(section => `"${section}"`).join(', ')})` : ''}`,
+          recommendation: `Merge or reword the duplicates of "${text}"; until then update them by todoId`
+        };
+      });
+  }
+
+  private generateInsights(stats: TodoStats, sections: TodoSectionProgress[]): string[] {
+    const insights = [`${stats.completed}/${stats.total} todos completed (${stats.percentage}%)`];
+
+    if (stats.percentage === 100) {
+      insights.push('Task fully completed');
+    } else if (stats.percentage >= 75) {
+      insights.push('Task almost complete');
+    } else if (stats.percentage >= 50) {
+      insights.push('Task more than halfway complete');
+    } else if (stats.percentage > 0) {
+      insights.push('Task in early progress');
+    } else if (stats.total > 0) {
+      insights.push('Task not yet started');
+    }
+
+    if (sections.length > 1) {
+      const done = sections.filter(section => section.open.length === 0).length;
+      insights.push(`${done}/${sections.length} sections complete`);
+    }
+
+    if (stats.nextTodos.length > 0) {
+      insights.push(`Next ${stats.nextTodos.length} todo(s): ${stats.nextTodos.join(', ')}`);
+    }
+
+    return insights;
+  }
+
+  private generateRecommendations(stats: TodoStats, sections: TodoSectionProgress[], findings: TodoFinding[]): string[] {
+    if (stats.total === 0) {
+      return ['Add todos (- [ ] ...) for the steps of the task'];
+    }
+
+    const recommendations = findings.map(finding => finding.recommendation);
+    if (stats.percentage === 100) {
+      recommendations.push('Task ready for review and completion');
+      return recommendations;
+    }
+
+    // Stalled and out-of-order findings already name the section to continue with
+    const ordered = !findings.some(finding => finding.type === 'stalled_section' || finding.type === 'out_of_order');
+    // The first section with work that is not waiting on something
+    const next = sections.find(section => section.open.some(todo => !BLOCKED_MARKER.test(this.getTodoText(todo))));
+    if (next && ordered) {
+      recommendations.push(`Continue with "${next.title}": ${this.listTodos(next.open)}`);
+    } else if (!next) {
+      recommendations.push(stats.percentage === 0 ? 'Start with the first todo to begin progress' : 'Focus on completing remaining todos');
+    }
+
+    if (stats.total > SPLIT_SUGGESTION_TODOS && sections.length > 1) {
+      recommendations.push('Consider split_task to turn the sections into sub-tasks');
+    }
+
+    return recommendations;
+  }
+
+  private identifyBlockers(stats: TodoStats, findings: TodoFinding[]): string[] {
+    const blockers = findings.filter(finding => finding.type === 'blocked_todo').map(finding => finding.message);
+
+    if (stats.total === 0) {
+      blockers.push('No todos found - task may need better structure');
+    } else if (stats.total > LARGE_TASK_TODOS) {
+      blockers.push('Large number of todos might indicate task complexity');
+    }
+
+    return blockers;
+  }
+
+  private getTodoText(todo: TodoItem): string {
+    const prefix = todo.heading ? `${todo.heading}: ` : '';
+    return prefix && todo.text.startsWith(prefix) ? todo.text.slice(prefix.length) : todo.text;
+  }
+
+  private listTodos(todos: TodoItem[]): string {
+    const listed = todos.slice(0, MAX_LISTED_TODOS).map(todo => `"${this.getTodoText(todo)}"`).join(', ');
+    return todos.length > MAX_LISTED_TODOS ? `${listed} and ${todos.length - MAX_LISTED_TODOS} more` : listed;
+  }
+}
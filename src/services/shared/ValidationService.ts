@@ -2,8 +2,20 @@
  * ValidationService - Input validation for task types, statuses and data integrity
  */
 
-import { WorkflowConfig } from '../../models/Workflow.js';
+import { TransitionGateContext, WorkflowConfig } from '../../models/Workflow.js';
+import { TaskQuery, TaskRelationType } from '../../models/Task.js';
+import { PageContextOptions } from '../../models/Page.js';
+import { TodoEdit, TodoItem, TodoUpdateRequest } from '../../models/Todo.js';
 import { StatusService } from './StatusService.js';
+import { toGateStates } from './WorkflowStates.js';
+import { TransitionGateError, ValidationError } from '../../types/Errors.js';
+import { spawn } from 'child_process';
+
+const DEFAULT_GATE_TIMEOUT_SECONDS = 300;
+// Lines of command output kept in a failed gate report
+const GATE_OUTPUT_LINES = 30;
+// Characters of command output buffered while the command runs
+const GATE_OUTPUT_LIMIT = 1024 * 1024;
 
 export class ValidationService {
   constructor(
@@ -21,11 +33,15 @@ export class ValidationService {
     );
 
     if (!normalizedType) {
-      throw new Error(`Invalid task type "${taskType}". Available: ${this.workflowConfig.taskTypes.join(', ')}`);
+      throw new ValidationError(`Invalid task type "${taskType}". Available: ${this.workflowConfig.taskTypes.join(', ')}`, 'taskType');
     }
   }
 
-  validateStatusTransition(currentStatus: string, newStatus: string): void {
+  /**
+   * Check the new status and the workflow gates of the transition
+   * @throws TransitionGateError listing every failed gate check, with command output
+   */
+  async validateStatusTransition(currentStatus: string, newStatus: string, context: TransitionGateContext): Promise<void> {
     if (currentStatus === newStatus) {
       return;
     }
@@ -34,11 +50,33 @@ export class ValidationService {
     const newStatusKey = this.statusService.getStatusKey(newStatus);
     if (newStatusKey === 'unknown') {
       const validStatuses = Object.values(this.workflowConfig.statusMapping);
-      throw new Error(`Invalid status "${newStatus}". Valid statuses: ${validStatuses.join(', ')}`);
+      throw new ValidationError(`Invalid status "${newStatus}". Valid statuses: ${validStatuses.join(', ')}`, 'status');
     }
     
     // Allow all transitions - remove rigid workflow constraints
-    // Users should be able to move tasks freely for corrections and flexibility
+    // Users should be able to move tasks freely for corrections and flexibility;
+    // only configured gates can refuse a status change
+    const fromKey = this.statusService.getStatusKey(currentStatus);
+    const gates = (this.workflowConfig.gates || []).filter(gate =>
+      toGateStates(gate.to).includes(newStatusKey) && (!gate.from || toGateStates(gate.from).includes(fromKey)));
+
+    const failures: string[] = [];
+    for (const gate of gates) {
+      const prefix = gate.name ? `${gate.name}: ` : '';
+      const reasons = [
+        gate.checkedTodos ? this.checkTodos(gate.checkedTodos, await context.getTodos()) : null,
+        gate.requiredSection ? this.checkSection(gate.requiredSection, await context.getContent()) : null,
+        gate.command ? await this.checkCommand(gate.command, gate.timeoutSeconds || DEFAULT_GATE_TIMEOUT_SECONDS) : null
+      ];
+      failures.push(...reasons.filter((reason): reason is string => !!reason).map(reason => prefix + reason));
+    }
+
+    if (failures.length > 0) {
+      throw new TransitionGateError(
+        `Cannot move task ${context.taskId} from "${currentStatus}" to "${newStatus}", ${failures.length} gate check(s) failed:\n${failures.map(failure => `- ${failure}`).join('\n')}`,
+        failures
+      );
+    }
   }
 
   validateTaskUpdateData(updates: { title?: string; taskType?: string; status?: string }): void {
@@ -47,70 +85,232 @@ export class ValidationService {
     }
 
     if (updates.title && typeof updates.title !== 'string') {
-      throw new Error('Title must be a string');
+      throw new ValidationError('Title must be a string', 'title');
     }
 
     if (updates.status && typeof updates.status !== 'string') {
-      throw new Error('Status must be a string');
+      throw new ValidationError('Status must be a string', 'status');
     }
   }
 
   validateTaskCreationData(title: string, taskType: string, description: string): void {
     if (!title || typeof title !== 'string' || title.trim().length === 0) {
-      throw new Error('Title is required and must be a non-empty string');
+      throw new ValidationError('Title is required and must be a non-empty string', 'title');
     }
 
     if (!taskType || typeof taskType !== 'string') {
-      throw new Error('Task type is required and must be a string');
+      throw new ValidationError('Task type is required and must be a string', 'taskType');
     }
 
     if (!description || typeof description !== 'string') {
-      throw new Error('Description is required and must be a string');
+      throw new ValidationError('Description is required and must be a string', 'description');
     }
 
     this.validateTaskType(taskType);
   }
 
-  validateTodoUpdateData(updates: Array<{ todoText: string; completed: boolean }>): void {
+  validateTodoUpdateData(updates: TodoUpdateRequest[]): void {
     if (!Array.isArray(updates)) {
-      throw new Error('Updates must be an array of todo updates. Expected format: [{"todoText": "...", "completed": true}]');
+      throw new ValidationError('Updates must be an array of todo updates. Expected format: [{"todoId": "...", "completed": true}] or [{"todoText": "...", "completed": true}]', 'updates');
     }
 
     if (updates.length === 0) {
-      throw new Error('Updates array cannot be empty');
+      throw new ValidationError('Updates array cannot be empty', 'updates');
     }
 
     for (const [index, update] of updates.entries()) {
       if (typeof update !== 'object' || update === null) {
-        throw new Error(`Update at index ${index} must be an object with todoText and completed properties`);
+        throw new ValidationError(`Update at index ${index} must be an object with todoId or todoText and completed properties`, 'updates');
+      }
+
+      if (update.todoId !== undefined && (!update.todoId || typeof update.todoId !== 'string')) {
+        throw new ValidationError(`Update at index ${index} has an invalid todoId, expected a todo ID from analyze_todos. Got: ${JSON.stringify(update)}`, 'updates');
       }
 
-      if (!update.todoText || typeof update.todoText !== 'string') {
-        throw new Error(`Update at index ${index} must have a todoText string. Got: ${JSON.stringify(update)}`);
+      if (update.todoText !== undefined && (!update.todoText || typeof update.todoText !== 'string')) {
+        throw new ValidationError(`Update at index ${index} has an invalid todoText, expected a non-empty string. Got: ${JSON.stringify(update)}`, 'updates');
+      }
+
+      if (!update.todoId && !update.todoText) {
+        throw new ValidationError(`Update at index ${index} must have a todoId or a todoText string. Got: ${JSON.stringify(update)}`, 'updates');
       }
 
       if (typeof update.completed !== 'boolean') {
-        throw new Error(`Update at index ${index} must have a completed boolean. Got: ${JSON.stringify(update)}`);
+        throw new ValidationError(`Update at index ${index} must have a completed boolean. Got: ${JSON.stringify(update)}`, 'updates');
       }
 
       // Check for common wrong property names
       if ('content' in update) {
-        throw new Error(`Update at index ${index} uses 'content' but should use 'todoText'. Correct format: {"todoText": "...", "completed": true}`);
+        throw new ValidationError(`Update at index ${index} uses 'content' but should use 'todoText'. Correct format: {"todoText": "...", "completed": true}`, 'updates');
       }
     }
   }
 
+  validateTodoEdit(edit: TodoEdit): void {
+    const actions = ['add', 'edit', 'delete', 'move'];
+    if (!actions.includes(edit.action)) {
+      throw new ValidationError(`Invalid action "${edit.action}". Valid values: ${actions.join(', ')}`, 'action');
+    }
+
+    for (const field of ['todoId', 'todoText', 'text', 'section', 'afterTodoId'] as const) {
+      const value = edit[field];
+      if (value !== undefined && (typeof value !== 'string' || value.trim().length === 0)) {
+        throw new ValidationError(`${field} must be a non-empty string`, field);
+      }
+    }
+
+    if (edit.action === 'add' || edit.action === 'edit') {
+      if (!edit.text) {
+        throw new ValidationError(`text is required to ${edit.action} a todo`, 'text');
+      }
+      if (/[\r\n]/.test(edit.text)) {
+        throw new ValidationError('text must be a single line', 'text');
+      }
+    }
+
+    if (edit.action !== 'add' && !edit.todoId && !edit.todoText) {
+      throw new ValidationError(`todoId or todoText is required to ${edit.action} a todo`, 'todoId');
+    }
+
+    if (edit.action === 'move' && !edit.section && !edit.afterTodoId) {
+      throw new ValidationError('section or afterTodoId is required to move a todo', 'section');
+    }
+
+    if (edit.section && edit.afterTodoId) {
+      throw new ValidationError('Use either section or afterTodoId, not both', 'afterTodoId');
+    }
+  }
+
+  validateTaskQuery(query: TaskQuery): void {
+    const sortFields = ['updated', 'created', 'title', 'status', 'priority', 'dueDate'];
+    if (query.sortBy && !sortFields.includes(query.sortBy)) {
+      throw new ValidationError(`Invalid sortBy "${query.sortBy}". Valid values: ${sortFields.join(', ')}`, 'sortBy');
+    }
+
+    if (query.sortDirection && query.sortDirection !== 'asc' && query.sortDirection !== 'desc') {
+      throw new ValidationError('sortDirection must be "asc" or "desc"', 'sortDirection');
+    }
+
+    if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > 100)) {
+      throw new ValidationError('limit must be an integer between 1 and 100', 'limit');
+    }
+
+    if (query.updatedSince && Number.isNaN(Date.parse(query.updatedSince))) {
+      throw new ValidationError(`updatedSince must be an ISO date or date-time, got "${query.updatedSince}"`, 'updatedSince');
+    }
+  }
+
+  validatePageContextOptions(options: PageContextOptions): void {
+    const ranges: Array<[keyof PageContextOptions, number, number]> = [['maxDepth', 0, 5], ['maxPages', 1, 50], ['maxTokens', 100, 200000]];
+    for (const [field, min, max] of ranges) {
+      const value = options[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+        throw new ValidationError(`${field} must be an integer between ${min} and ${max}`, field);
+      }
+    }
+  }
+
+  validateTaskRelation(taskId: string, relatedTaskId: string, relation: TaskRelationType): void {
+    if (!relatedTaskId || typeof relatedTaskId !== 'string') {
+      throw new ValidationError('relatedTaskId is required and must be a string', 'relatedTaskId');
+    }
+    if (relation !== 'parent' && relation !== 'blocked_by') {
+      throw new ValidationError(`Invalid relation "${relation}". Valid values: parent, blocked_by`, 'relation');
+    }
+    if (taskId.trim() === relatedTaskId.trim()) {
+      throw new ValidationError('A task cannot be linked to itself', 'relatedTaskId');
+    }
+  }
+
   validateSummaryData(adaptedSummary: string): void {
     if (!adaptedSummary || typeof adaptedSummary !== 'string') {
-      throw new Error('adaptedSummary parameter is required and must be a non-empty string. Did you use "summary" instead of "adaptedSummary"?');
+      throw new ValidationError('adaptedSummary parameter is required and must be a non-empty string. Did you use "summary" instead of "adaptedSummary"?', 'adaptedSummary');
     }
 
     if (adaptedSummary.trim().length === 0) {
-      throw new Error('adaptedSummary cannot be empty or just whitespace');
+      throw new ValidationError('adaptedSummary cannot be empty or just whitespace', 'adaptedSummary');
     }
 
     if (adaptedSummary === 'undefined' || adaptedSummary === 'null') {
-      throw new Error('adaptedSummary appears to be undefined/null as string. Check your parameter passing.');
+      throw new ValidationError('adaptedSummary appears to be undefined/null as string. Check your parameter passing.', 'adaptedSummary');
+    }
+  }
+
+  /**
+   * Todos under the heading (or all todos for "*") must exist and be checked
+   */
+  private checkTodos(heading: string, todos: TodoItem[]): string | null {
+    const all = heading.trim() === '*';
+    const section = all ? todos : todos.filter(todo => todo.heading && this.headingMatches(todo.heading, heading));
+    const name = all ? 'todos' : `"${heading}" todos`;
+    if (section.length === 0) return `no ${name} found`;
+
+    const open = section.filter(todo => !todo.completed);
+    if (open.length === 0) return null;
+    const prefix = (todo: TodoItem) => todo.heading ? `${todo.heading}: ` : '';
+    const listed = open.map(todo => `"${todo.text.startsWith(prefix(todo)) ? todo.text.slice(prefix(todo).length) : todo.text}"`).join(', ');
+    return `${open.length} of ${section.length} ${name} are open: ${listed}`;
+  }
+
+  private checkSection(heading: string, content: string): string | null {
+    const headings = content.split('\n').map(line => line.match(/^\s*#{1,6}\s+(.+)$/)?.[1]).filter(Boolean) as string[];
+    return headings.some(candidate => this.headingMatches(candidate, heading)) ? null : `no "${heading}" section in the task`;
+  }
+
+  /**
+   * Run the command in the project directory; its output is captured, never written to the MCP stdio stream
+   */
+  private checkCommand(command: string, timeoutSeconds: number): Promise<string | null> {
+    return new Promise(resolve => {
+      // A process group of its own, so a timeout also stops whatever the shell started
+      const child = spawn(command, { cwd: process.cwd(), shell: true, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+      let output = '';
+      let timedOut = false;
+      const collect = (chunk: Buffer) => {
+        output = (output + chunk.toString()).slice(-GATE_OUTPUT_LIMIT);
+      };
+      child.stdout?.on('data', collect);
+      child.stderr?.on('data', collect);
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.killProcessGroup(child.pid);
+      }, timeoutSeconds * 1000);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        resolve(`\`${command}\` could not be run: ${error.message}`);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0 && !timedOut) {
+          resolve(null);
+          return;
+        }
+        const outcome = timedOut ? `timed out after ${timeoutSeconds}s` : `exited with code ${code ?? 'unknown'}`;
+        const lines = output.trimEnd().split('\n');
+        const tail = lines.slice(-GATE_OUTPUT_LINES).map(line => `    ${line}`).join('\n');
+        const omitted = lines.length > GATE_OUTPUT_LINES ? `    ... ${lines.length - GATE_OUTPUT_LINES} earlier lines omitted\n` : '';
+        resolve(`\`${command}\` ${outcome}${tail.trim() ? `:\n${omitted}${tail}` : ''}`);
+      });
+    });
+  }
+
+  private killProcessGroup(pid: number | undefined): void {
+    if (!pid) return;
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // The group has already exited
     }
   }
+
+  /**
+   * Case-insensitive containment ignoring emoji and punctuation, so "Summary" matches "📋 Development Summary"
+   */
+  private headingMatches(candidate: string, heading: string): boolean {
+    const normalize = (text: string) => text.replace(/[^\p{L}\p{N}\s]/gu, ' ').toLowerCase().replace(/\s+/g, ' ').trim();
+    const target = normalize(heading);
+    return target.length > 0 && normalize(candidate).includes(target);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+/**
+ * WorkflowStates - Resolve the workflow state machine of a project configuration
+ *
+ * A workflow either declares `states` (label, role, transitions and auto-transitions per state key) or only
+ * statusMapping and transitions. The latter get the state machine the four classic keys stand for: notStarted
+ * starts on execution or the first completed todo, inProgress moves on to test (or done) at 100%, test to done
+ * at 100%, done is terminal and any other key is active. The resolved config always carries states,
+ * statusMapping and transitions, so providers keep working with statusMapping labels. Gates are checked
+ * against the resolved state keys.
+ */
+
+import { WorkflowAutoTransition, WorkflowConfig, WorkflowGate, WorkflowState, WorkflowStateRole } from '../../models/Workflow.js';
+
+const ROLES: WorkflowStateRole[] = ['start', 'active', 'verification', 'terminal'];
+const TRIGGERS = ['execute', 'progress'];
+const CLASSIC_ROLES: Record<string, WorkflowStateRole> = { notStarted: 'start', test: 'verification', done: 'terminal' };
+
+/**
+ * Workflow config with states, statusMapping and transitions filled in and defaultStatus as state key
+ * @throws Error listing every inconsistency of declared states and of gates
+ */
+export function resolveWorkflow(config: WorkflowConfig): WorkflowConfig {
+  const declared = !!config.states;
+  const states = config.states || deriveStates(config);
+  const defaultStatus = resolveDefaultStatus(config, states);
+
+  const problems = declared ? validateStates(states) : [];
+  if (declared && !defaultStatus) {
+    problems.push(`defaultStatus "${config.defaultStatus}" is not a state`);
+  }
+  problems.push(...validateGates(config.gates || [], states));
+  if (problems.length > 0) {
+    throw new Error(`Invalid workflow configuration: ${problems.join('; ')}`);
+  }
+
+  return {
+    ...config,
+    states,
+    statusMapping: Object.fromEntries(Object.entries(states).map(([key, state]) => [key, state.label])),
+    transitions: Object.fromEntries(Object.entries(states).map(([key, state]) => [key, state.transitions || []])),
+    defaultStatus: defaultStatus || config.defaultStatus
+  };
+}
+
+/**
+ * States of a workflow configured with statusMapping and transitions; transitions to unmapped keys are dropped
+ */
+function deriveStates(config: WorkflowConfig): Record<string, WorkflowState> {
+  const mapping = config.statusMapping || {};
+  const states: Record<string, WorkflowState> = {};
+
+  for (const [key, label] of Object.entries(mapping)) {
+    const transitions = (config.transitions?.[key] || []).filter(target => target in mapping);
+    states[key] = {
+      label,
+      role: CLASSIC_ROLES[key] || 'active',
+      transitions,
+      autoTransitions: deriveAutoTransitions(key, transitions)
+    };
+  }
+
+  return states;
+}
+
+function deriveAutoTransitions(key: string, transitions: string[]): WorkflowAutoTransition[] {
+  const prefer = (...keys: string[]) => keys.find(target => transitions.includes(target)) || transitions[0];
+
+  if (key === 'notStarted') {
+    const target = prefer('inProgress');
+    return target ? [{ to: target, on: 'execute' }, { to: target, on: 'progress', minProgress: 1 }] : [];
+  }
+  if (key === 'inProgress') {
+    const target = prefer('test', 'done');
+    return target ? [{ to: target, on: 'progress', minProgress: 100 }] : [];
+  }
+  if (key === 'test' && transitions.includes('done')) {
+    return [{ to: 'done', on: 'progress', minProgress: 100 }];
+  }
+  return [];
+}
+
+/**
+ * defaultStatus as state key (it may be given as key or label); the first start state when not configured
+ */
+function resolveDefaultStatus(config: WorkflowConfig, states: Record<string, WorkflowState>): string | undefined {
+  const entries = Object.entries(states);
+  if (!config.defaultStatus) {
+    return entries.find(([, state]) => state.role === 'start')?.[0];
+  }
+  if (config.defaultStatus in states) {
+    return config.defaultStatus;
+  }
+  const label = config.defaultStatus.toLowerCase();
+  return entries.find(([, state]) => state.label.toLowerCase() === label)?.[0];
+}
+
+function validateStates(states: Record<string, WorkflowState>): string[] {
+  const problems: string[] = [];
+  const entries = Object.entries(states);
+  const labels = new Map<string, string>();
+
+  for (const [key, state] of entries) {
+    if (!state || typeof state.label !== 'string' || !state.label.trim()) {
+      problems.push(`state "${key}" needs a label`);
+      continue;
+    }
+    const duplicate = labels.get(state.label.toLowerCase());
+    if (duplicate) {
+      problems.push(`states "${duplicate}" and "${key}" share the label "${state.label}"`);
+    }
+    labels.set(state.label.toLowerCase(), key);
+
+    if (!ROLES.includes(state.role)) {
+      problems.push(`state "${key}" has role "${state.role}", expected one of ${ROLES.join(', ')}`);
+    }
+
+    const transitions = state.transitions || [];
+    for (const target of transitions.filter(target => !(target in states))) {
+      problems.push(`state "${key}" transitions to unknown state "${target}"`);
+    }
+
+    for (const rule of state.autoTransitions || []) {
+      if (!TRIGGERS.includes(rule.on)) {
+        problems.push(`auto-transition of "${key}" to "${rule.to}" has trigger "${rule.on}", expected one of ${TRIGGERS.join(', ')}`);
+      }
+      if (!transitions.includes(rule.to)) {
+        problems.push(`auto-transition of "${key}" to "${rule.to}" is not one of its transitions`);
+      }
+      if (rule.minProgress !== undefined && !(rule.minProgress >= 0 && rule.minProgress <= 100)) {
+        problems.push(`auto-transition of "${key}" to "${rule.to}" needs a minProgress between 0 and 100`);
+      }
+    }
+  }
+
+  if (!entries.some(([, state]) => state?.role === 'start')) {
+    problems.push('no state has the role "start"');
+  }
+  if (!entries.some(([, state]) => state?.role === 'terminal')) {
+    problems.push('no state has the role "terminal"');
+  }
+
+  return problems;
+}
+
+function validateGates(gates: WorkflowGate[], states: Record<string, WorkflowState>): string[] {
+  const problems: string[] = [];
+
+  gates.forEach((gate, index) => {
+    const name = `gate "${gate.name || index + 1}"`;
+    const keys = [...toGateStates(gate.from), ...toGateStates(gate.to)];
+    for (const key of keys.filter(key => !(key in states))) {
+      problems.push(`${name} refers to unknown state "${key}"`);
+    }
+    if (toGateStates(gate.to).length === 0) {
+      problems.push(`${name} needs a "to" state`);
+    }
+    if (!gate.command && !gate.checkedTodos && !gate.requiredSection) {
+      problems.push(`${name} needs a command, checkedTodos or requiredSection`);
+    }
+    if (gate.timeoutSeconds !== undefined && !(gate.timeoutSeconds > 0)) {
+      problems.push(`${name} needs a positive timeoutSeconds`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * State keys of a gate's from/to, which take a single key or a list
+ */
+export function toGateStates(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
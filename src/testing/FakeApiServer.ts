@@ -0,0 +1,114 @@
+/**
+ * FakeApiServer - Serve a fetch-style handler (fake API, recorder or replayer) over HTTP
+ *
+ * Lets providers that only take an endpoint URL (Linear `apiUrl`, GitHub `apiUrl`, Jira `baseUrl`,
+ * Notion `baseUrl`) run against an in-memory fake, from the MCP server or the conformance CLI.
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+const HOP_BY_HOP_HEADERS = ['host', 'connection', 'content-length', 'transfer-encoding', 'keep-alive', 'accept-encoding'];
+
+export interface FakeFetchResponse {
+  ok: boolean;
+  status: number;
+  headers: Record<string, string>;
+  text: () => Promise<string>;
+}
+
+export interface FakeFetchInit {
+  method?: string;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+export type FakeFetchHandler = (url: string, init: FakeFetchInit) => Promise<FakeFetchResponse>;
+
+/**
+ * Error thrown by the fake APIs, answered with the given status and body
+ */
+export class FakeApiError extends Error {
+  constructor(public status: number, public body: any) {
+    super(typeof body?.message === 'string' ? body.message : `Fake API error ${status}`);
+  }
+}
+
+/**
+ * JSON response in the shape returned by the fake handlers; 204 answers have no body
+ */
+export function fakeJsonResponse(status: number, body: any, headers: Record<string, string> = {}): FakeFetchResponse {
+  const text = status === 204 || body === undefined ? '' : JSON.stringify(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+    text: async () => text
+  };
+}
+
+export class FakeApiServer {
+  private server: Server | null = null;
+
+  /**
+   * @param handler - Handler receiving requests; `upstreamUrl` is prefixed to paths (used when recording)
+   */
+  constructor(private handler: FakeFetchHandler, private upstreamUrl: string = 'http://fake-api.local') {}
+
+  async start(port: number = 0): Promise<string> {
+    this.server = createServer(async (request, response) => {
+      try {
+        const body = await this.readBody(request);
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(request.headers)) {
+          if (typeof value === 'string' && this.forwardsHeader(name)) headers[name] = value;
+        }
+
+        const result = await this.handler(`${this.upstreamUrl}${request.url || '/'}`, {
+          method: request.method,
+          body: body || undefined,
+          headers
+        });
+        response.writeHead(result.status, result.headers);
+        response.end(await result.text());
+      } catch (error) {
+        response.writeHead(500, { 'content-type': 'application/json' });
+        response.end(JSON.stringify(this.errorBody(error)));
+      }
+    });
+
+    await new Promise<void>(resolve => this.server?.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server?.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Request headers passed on to the handler (lowercase names); connection-level headers are dropped
+   */
+  protected forwardsHeader(name: string): boolean {
+    return !HOP_BY_HOP_HEADERS.includes(name);
+  }
+
+  /**
+   * Body of the 500 answer when the handler itself throws
+   */
+  protected errorBody(error: unknown): any {
+    return { message: String(error) };
+  }
+
+  private readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      request.setEncoding('utf-8');
+      request.on('data', chunk => data += chunk);
+      request.on('end', () => resolve(data));
+      request.on('error', reject);
+    });
+  }
+}
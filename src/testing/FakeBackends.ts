@@ -0,0 +1,60 @@
+/**
+ * FakeBackends - The fake API of each built-in provider, with the provider config pointing at it
+ *
+ * Used by the conformance CLI (--fake) and vc4pm-fake-api, so a provider runs end to end without an account.
+ */
+
+import { WorkflowConfig } from '../models/Workflow.js';
+import { FakeFetchHandler } from './FakeApiServer.js';
+import { FakeNotionApi } from './notion/FakeNotionApi.js';
+import { FakeLinearApi } from './linear/FakeLinearApi.js';
+import { FakeGitHubApi } from './github/FakeGitHubApi.js';
+import { FakeJiraApi } from './jira/FakeJiraApi.js';
+
+export interface FakeBackend {
+  handler: FakeFetchHandler;
+  config: (url: string) => Record<string, any>;  // providers.available.<name>.config once the fake is served at url
+}
+
+const FAKE_BACKENDS: Record<string, (workflow?: WorkflowConfig) => FakeBackend> = {
+  notion: workflow => {
+    const api = new FakeNotionApi();
+    const databaseId = workflow
+      ? api.createTaskDatabase({ statusOptions: Object.values(workflow.statusMapping), typeOptions: workflow.taskTypes })
+      : api.createTaskDatabase();
+    return { handler: api.fetch, config: url => ({ apiKey: 'fake-notion-token', databaseId, baseUrl: url }) };
+  },
+  linear: () => {
+    const api = new FakeLinearApi();
+    return { handler: api.fetch, config: url => ({ apiKey: 'fake-linear-key', teamId: api.getTeamId(), apiUrl: `${url}/graphql` }) };
+  },
+  github: workflow => {
+    const api = new FakeGitHubApi({ owner: 'fake-org', repo: 'tasks', projectNumber: 1, statusOptions: workflow && Object.values(workflow.statusMapping) });
+    return { handler: api.fetch, config: url => ({ token: 'fake-github-token', org: 'fake-org', repo: 'tasks', projectNumber: 1, apiUrl: url }) };
+  },
+  jira: workflow => {
+    // Feature and Refactoring go through issueTypeMapping like on a default Jira project, other task types exist as issue types
+    const issueTypeMapping = { Feature: 'Story', Refactoring: 'Task' };
+    const api = new FakeJiraApi({ issueTypes: ['Story', 'Bug', 'Task', 'Epic', 'Subtask', ...(workflow?.taskTypes || [])] });
+    return {
+      handler: api.fetch,
+      config: url => ({ baseUrl: url, email: 'fake@example.com', apiToken: 'fake-jira-token', projectKey: api.getProjectKey(), issueTypeMapping })
+    };
+  }
+};
+
+export function getFakeBackendNames(): string[] {
+  return Object.keys(FAKE_BACKENDS);
+}
+
+/**
+ * @param workflow - Workflow the fake is seeded for (e.g. status options), when the API stores them
+ * @throws Error if the provider has no fake API
+ */
+export function createFakeBackend(provider: string, workflow?: WorkflowConfig): FakeBackend {
+  const create = Object.prototype.hasOwnProperty.call(FAKE_BACKENDS, provider) ? FAKE_BACKENDS[provider] : undefined;
+  if (!create) {
+    throw new Error(`No fake API for provider '${provider}'. Available: ${getFakeBackendNames().join(', ')}`);
+  }
+  return create(workflow);
+}
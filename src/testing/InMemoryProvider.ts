@@ -0,0 +1,239 @@
+/**
+ * InMemoryProvider - Reference TaskProvider keeping tasks in memory
+ *
+ * Defines the expected semantics for the conformance suite: status stored as the statusMapping label,
+ * todos as markdown task lists matched by exact trimmed text (first match wins) and appended content
+ * added to the task body. Also useful as a test double for services.
+ */
+
+import { TaskProvider } from '../interfaces/TaskProvider.js';
+import { Task, TaskQuery, TaskQueryResult, TaskRelationType } from '../models/Task.js';
+import { TodoAnalysisResult, TodoUpdateRequest, TodoUpdateResult, TodoEdit } from '../models/Todo.js';
+import { PageContent, PageUpdateMode } from '../models/Page.js';
+import { TaskComment } from '../models/Comment.js';
+import { WorkflowConfig } from '../models/Workflow.js';
+import { MarkdownTodoParser } from '../providers/shared/MarkdownTodoParser.js';
+import { TaskQueryFilter } from '../providers/shared/TaskQueryFilter.js';
+
+interface StoredTask {
+  id: string;
+  title: string;
+  status: string;
+  type: string;
+  body: string;
+  parentId?: string;
+  blockedBy: string[];
+  comments: TaskComment[];
+  createdTime: string;
+  lastEditedTime: string;
+}
+
+export class InMemoryProvider implements TaskProvider {
+  private tasks: Map<string, StoredTask> = new Map();
+  private nextId = 1;
+  private todoParser = new MarkdownTodoParser();
+  private queryFilter = new TaskQueryFilter();
+
+  constructor(private workflow?: WorkflowConfig) {}
+
+  getProviderName(): string {
+    return 'In-Memory';
+  }
+
+  getProviderType(): string {
+    return 'memory';
+  }
+
+  async getTask(taskId: string): Promise<Task> {
+    return this.mapToTask(this.findTask(taskId));
+  }
+
+  async createTask(title: string, taskType: string, description: string): Promise<Task> {
+    if (!title || title.trim().length === 0) {
+      throw new Error('Title is required and cannot be empty');
+    }
+    if (!taskType || taskType.trim().length === 0) {
+      throw new Error('Task type is required and cannot be empty');
+    }
+
+    const now = new Date().toISOString();
+    const task: StoredTask = {
+      id: `mem-${this.nextId++}`,
+      title: title.trim(),
+      status: this.getDefaultStatusLabel(),
+      type: this.normalizeTaskType(taskType),
+      body: description || '',
+      blockedBy: [],
+      comments: [],
+      createdTime: now,
+      lastEditedTime: now
+    };
+
+    this.tasks.set(task.id, task);
+    return this.mapToTask(task);
+  }
+
+  async updateTask(taskId: string, updates: { title?: string; taskType?: string; status?: string }): Promise<void> {
+    const task = this.findTask(taskId);
+
+    if (updates.title) task.title = updates.title.trim();
+    if (updates.taskType) task.type = this.normalizeTaskType(updates.taskType);
+    if (updates.status) task.status = this.normalizeStatus(updates.status);
+
+    this.touch(task);
+  }
+
+  async updateTaskStatus(taskId: string, status: string): Promise<void> {
+    const task = this.findTask(taskId);
+    task.status = this.normalizeStatus(status);
+    this.touch(task);
+  }
+
+  async linkTask(taskId: string, relatedTaskId: string, relation: TaskRelationType): Promise<void> {
+    const task = this.findTask(taskId);
+    const related = this.findTask(relatedTaskId);
+
+    if (relation === 'parent') {
+      task.parentId = related.id;
+    } else if (!task.blockedBy.includes(related.id)) {
+      task.blockedBy.push(related.id);
+    }
+    this.touch(task);
+  }
+
+  async listTasks(query: TaskQuery = {}): Promise<TaskQueryResult> {
+    const tasks = Array.from(this.tasks.values()).map(task => this.mapToTask(task));
+    return this.queryFilter.apply(tasks, query);
+  }
+
+  async analyzeTodos(taskId: string, includeHierarchy: boolean = false): Promise<TodoAnalysisResult> {
+    const task = this.findTask(taskId);
+    return this.todoParser.analyze(task.body, includeHierarchy, task.title);
+  }
+
+  async updateTodos(taskId: string, updates: TodoUpdateRequest[]): Promise<TodoUpdateResult> {
+    const task = this.findTask(taskId);
+    const result = this.todoParser.applyUpdates(task.body, updates);
+
+    if (result.updated > 0) {
+      task.body = result.markdown;
+      this.touch(task);
+    }
+
+    return { updated: result.updated, failed: result.failed, failures: result.failures };
+  }
+
+  async updateSingleTodo(taskId: string, todoText: string, completed: boolean): Promise<boolean> {
+    const result = await this.updateTodos(taskId, [{ todoText, completed }]);
+    return result.updated > 0;
+  }
+
+  async editTodo(taskId: string, edit: TodoEdit): Promise<string | undefined> {
+    const task = this.findTask(taskId);
+    const result = this.todoParser.applyEdit(task.body, edit);
+    task.body = result.markdown;
+    this.touch(task);
+    return result.todoId;
+  }
+
+  async appendToTask(taskId: string, content: string): Promise<void> {
+    const task = this.findTask(taskId);
+    const body = task.body.replace(/\s+$/, '');
+    task.body = body ? `${body}\n\n${content.replace(/^\s+/, '')}` : content.trim();
+    this.touch(task);
+  }
+
+  async listComments(taskId: string): Promise<TaskComment[]> {
+    return this.findTask(taskId).comments.map(comment => ({ ...comment }));
+  }
+
+  async addComment(taskId: string, body: string, threadId?: string): Promise<TaskComment> {
+    if (!body || body.trim().length === 0) {
+      throw new Error('Comment body is required and cannot be empty');
+    }
+
+    const task = this.findTask(taskId);
+    if (threadId && !task.comments.some(comment => comment.threadId === threadId)) {
+      throw new Error(`Thread ${threadId} not found on task ${taskId}`);
+    }
+
+    const id = `${task.id}-c${task.comments.length + 1}`;
+    const comment: TaskComment = {
+      id,
+      body: body.trim(),
+      createdTime: new Date().toISOString(),
+      threadId: threadId || id,
+      resolved: false
+    };
+    task.comments.push(comment);
+    return { ...comment };
+  }
+
+  async readPage(pageId: string, includeLinkedPages: boolean = true): Promise<PageContent> {
+    const task = this.findTask(pageId);
+    return {
+      id: task.id,
+      title: task.title,
+      url: `memory://${task.id}`,
+      content: task.body,
+      linkedPages: [],
+      lastEdited: new Date(task.lastEditedTime),
+      createdTime: new Date(task.createdTime)
+    };
+  }
+
+  async createNotionPage(databaseId: string, title: string, content?: string, properties?: Record<string, any>): Promise<PageContent> {
+    throw new Error('createNotionPage is only available for Notion provider');
+  }
+
+  async updateNotionPage(pageId: string, title?: string, content?: string, properties?: Record<string, any>, mode?: PageUpdateMode, insertAfter?: string): Promise<void> {
+    throw new Error('updateNotionPage is only available for Notion provider');
+  }
+
+  private findTask(taskId: string): StoredTask {
+    const task = this.tasks.get((taskId || '').trim());
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    return task;
+  }
+
+  private mapToTask(task: StoredTask): Task {
+    const childIds = Array.from(this.tasks.values()).filter(other => other.parentId === task.id).map(other => other.id);
+    return {
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      type: task.type,
+      parentId: task.parentId,
+      childIds: childIds.length > 0 ? childIds : undefined,
+      blockedBy: task.blockedBy.length > 0 ? [...task.blockedBy] : undefined,
+      description: task.body,
+      url: `memory://${task.id}`,
+      createdTime: task.createdTime,
+      lastEditedTime: task.lastEditedTime
+    };
+  }
+
+  private touch(task: StoredTask): void {
+    task.lastEditedTime = new Date().toISOString();
+  }
+
+  /**
+   * Accept either a status label ("In Progress") or a status key ("inProgress")
+   */
+  private normalizeStatus(status: string): string {
+    const statusMapping = this.workflow?.statusMapping || {};
+    if (statusMapping[status]) return statusMapping[status] as string;
+    return Object.values(statusMapping).find(label => label.toLowerCase() === status.toLowerCase()) || status;
+  }
+
+  private getDefaultStatusLabel(): string {
+    if (!this.workflow) return 'Not Started';
+    return this.workflow.statusMapping[this.workflow.defaultStatus] || this.workflow.defaultStatus;
+  }
+
+  private normalizeTaskType(taskType: string): string {
+    return (this.workflow?.taskTypes || []).find(type => type.toLowerCase() === taskType.toLowerCase()) || taskType;
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * ProviderConformanceSuite - Reusable checks that a TaskProvider honours the interface semantics
+ *
+ * Framework-agnostic: run() executes every case and returns a report, so it can be wrapped in any
+ * test runner or used from the conformance CLI. Cases create real tasks on the provider under test.
+ */
+
+import { TaskProvider } from '../interfaces/TaskProvider.js';
+import { Task } from '../models/Task.js';
+
+export interface ConformanceOptions {
+  taskType: string;                 // Task type accepted by the provider
+  statusLabel: string;              // Status label the provider can move a new task to
+  missingTaskId?: string;           // ID that does not exist, used for error cases
+  titlePrefix?: string;             // Prefix for created task titles, to spot them in the tracker
+  appendVisibleInContent?: boolean; // false for providers posting appended content elsewhere (comments, notes)
+  supportsNestedTodos?: boolean;    // false to skip the nested checkbox case
+  only?: string[];                  // Run only cases whose name contains one of these strings
+}
+
+export interface ConformanceResult {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  error?: string;
+  durationMs: number;
+}
+
+export interface ConformanceReport {
+  provider: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  createdTaskIds: string[];
+  results: ConformanceResult[];
+}
+
+interface ConformanceCase {
+  name: string;
+  skip?: (options: ConformanceOptions, provider: TaskProvider) => boolean;
+  run: (context: ConformanceContext) => Promise<void>;
+}
+
+interface ConformanceContext {
+  provider: TaskProvider;
+  options: ConformanceOptions;
+  createTask(description?: string): Promise<Task>;
+}
+
+class ConformanceFailure extends Error {}
+
+/**
+ * Todo fixture: two sections and a duplicated text to check ambiguity reports
+ */
+export const CONFORMANCE_TODO_FIXTURE = [
+  '## Setup',
+  '',
+  '- [ ] Install dependencies',
+  '- [x] Create config file',
+  '',
+  '## Build',
+  '',
+  '- [ ] Write tests',
+  '- [ ] Ship release',
+  '- [ ] Write tests'
+].join('\n');
+
+const NESTED_TODO_FIXTURE = [
+  '- [ ] Parent step',
+  '  - [ ] Child step',
+  '- [ ] Sibling step'
+].join('\n');
+
+const DEFAULT_MISSING_TASK_ID = '999999999';
+
+function fail(message: string): never {
+  throw new ConformanceFailure(message);
+}
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) fail(message);
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string): void {
+  if (actual !== expected) {
+    fail(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function assertRejects(operation: () => Promise<unknown>, label: string): Promise<void> {
+  try {
+    await operation();
+  } catch (error) {
+    return;
+  }
+  fail(`${label}: expected the call to reject`);
+}
+
+function sameText(a: string | undefined, b: string): boolean {
+  return (a || '').trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+const CASES: ConformanceCase[] = [
+  {
+    name: 'identity: provider name and type are non-empty',
+    run: async ({ provider }) => {
+      assert(provider.getProviderName().trim().length > 0, 'getProviderName() returned an empty string');
+      assert(provider.getProviderType().trim().length > 0, 'getProviderType() returned an empty string');
+    }
+  },
+  {
+    name: 'createTask: returns the created task',
+    run: async ({ createTask, options }) => {
+      const task = await createTask();
+      assert(task.id, 'created task has no id');
+      assert(task.title.includes('conformance'), `created task title was not kept: ${task.title}`);
+      assert(sameText(task.type, options.taskType), `created task type: expected ${options.taskType}, got ${task.type}`);
+      assert(task.status && task.status.trim().length > 0, 'created task has no status');
+    }
+  },
+  {
+    name: 'createTask: rejects an empty title or task type',
+    run: async ({ provider, options }) => {
+      await assertRejects(() => provider.createTask('   ', options.taskType, ''), 'createTask with empty title');
+      await assertRejects(() => provider.createTask('conformance empty type', ' ', ''), 'createTask with empty task type');
+    }
+  },
+  {
+    name: 'getTask: returns the task by id and rejects unknown ids',
+    run: async ({ provider, createTask, options }) => {
+      const created = await createTask();
+      const fetched = await provider.getTask(created.id);
+      assertEqual(fetched.id, created.id, 'getTask id');
+      assertEqual(fetched.title, created.title, 'getTask title');
+      await assertRejects(() => provider.getTask(options.missingTaskId || DEFAULT_MISSING_TASK_ID), 'getTask with unknown id');
+    }
+  },
+  {
+    name: 'updateTask: changes title and task type',
+    run: async ({ provider, createTask, options }) => {
+      const task = await createTask();
+      const newTitle = `${task.title} (renamed)`;
+      await provider.updateTask(task.id, { title: newTitle, taskType: options.taskType });
+      const updated = await provider.getTask(task.id);
+      assertEqual(updated.title, newTitle, 'title after updateTask');
+      assert(sameText(updated.type, options.taskType), `type after updateTask: expected ${options.taskType}, got ${updated.type}`);
+    }
+  },
+  {
+    name: 'updateTaskStatus: status is read back as the label',
+    run: async ({ provider, createTask, options }) => {
+      const task = await createTask();
+      await provider.updateTaskStatus(task.id, options.statusLabel);
+      const updated = await provider.getTask(task.id);
+      assert(sameText(updated.status, options.statusLabel), `status after updateTaskStatus: expected ${options.statusLabel}, got ${updated.status}`);
+    }
+  },
+  {
+    name: 'analyzeTodos: counts todos and computes stats',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.stats.total, 5, 'stats.total');
+      assertEqual(analysis.stats.completed, 1, 'stats.completed');
+      assertEqual(analysis.stats.percentage, 20, 'stats.percentage');
+      assertEqual(analysis.todos.length, 5, 'todos.length');
+      assertEqual(analysis.todos[0]?.text, 'Install dependencies', 'first todo text');
+      assertEqual(analysis.todos[1]?.completed, true, 'completed flag of "Create config file"');
+      assertEqual(analysis.stats.nextTodos[0], 'Install dependencies', 'first next todo');
+    }
+  },
+  {
+    name: 'analyzeTodos: hierarchy mode attaches section headings',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const analysis = await provider.analyzeTodos(task.id, true);
+      const setup = analysis.todos.find(todo => todo.text.endsWith('Install dependencies'));
+      const build = analysis.todos.find(todo => todo.text.endsWith('Ship release'));
+      assertEqual(setup?.heading, 'Setup', 'heading of "Install dependencies"');
+      assertEqual(build?.heading, 'Build', 'heading of "Ship release"');
+    }
+  },
+  {
+    name: 'analyzeTodos: nested checkboxes are linked to their parent',
+    skip: (options) => options.supportsNestedTodos === false,
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(NESTED_TODO_FIXTURE);
+      const analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.stats.total, 3, 'stats.total with nested todo');
+      const parent = analysis.todos.find(todo => todo.text === 'Parent step');
+      const child = analysis.todos.find(todo => todo.text === 'Child step');
+      assert(parent && child, 'parent or child todo missing');
+      assert(child?.isSubtask, 'nested todo is not flagged as subtask');
+      assert(parent?.children.some(todo => todo.text === 'Child step'), 'nested todo is not in its parent children');
+    }
+  },
+  {
+    name: 'updateTodos: exact text matching with {updated, failed} counts',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const result = await provider.updateTodos(task.id, [
+        { todoText: 'Install dependencies', completed: true },
+        { todoText: '  Ship release  ', completed: true },
+        { todoText: 'Install', completed: true },
+        { todoText: 'Not in the task', completed: true }
+      ]);
+      assertEqual(result.updated, 2, 'updated count');
+      assertEqual(result.failed, 2, 'failed count (partial and unknown texts)');
+
+      const analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.stats.completed, 3, 'completed todos after update');
+    }
+  },
+  {
+    name: 'analyzeTodos: every todo has a unique id',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const analysis = await provider.analyzeTodos(task.id);
+      const ids = analysis.todos.map(todo => todo.id);
+      assert(ids.every(id => typeof id === 'string' && id.length > 0), `todo without id: ${JSON.stringify(ids)}`);
+      assertEqual(new Set(ids).size, ids.length, 'distinct todo ids');
+    }
+  },
+  {
+    name: 'updateTodos: duplicated texts are reported as ambiguous and todoId selects one',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const ambiguous = await provider.updateTodos(task.id, [{ todoText: 'Write tests', completed: true }]);
+      assertEqual(ambiguous.updated, 0, 'updated count for a duplicated text');
+      assertEqual(ambiguous.failures?.[0]?.reason, 'ambiguous', 'failure reason for a duplicated text');
+      assertEqual(ambiguous.failures?.[0]?.candidates.length, 2, 'candidates listed for a duplicated text');
+
+      let analysis = await provider.analyzeTodos(task.id);
+      const second = analysis.todos.filter(todo => todo.text === 'Write tests')[1];
+      const byId = await provider.updateTodos(task.id, [{ todoId: second?.id, completed: true }]);
+      assertEqual(byId.updated, 1, 'updated count by todoId');
+      analysis = await provider.analyzeTodos(task.id);
+      const duplicates = analysis.todos.filter(todo => todo.text === 'Write tests');
+      assertEqual(duplicates[0]?.completed, false, 'first "Write tests" completed');
+      assertEqual(duplicates[1]?.completed, true, 'second "Write tests" completed');
+
+      // Only the first duplicate still changes, so the text is no longer ambiguous
+      const remaining = await provider.updateTodos(task.id, [{ todoText: 'Write tests', completed: true }]);
+      assertEqual(remaining.updated, 1, 'updated count once one duplicate is done');
+    }
+  },
+  {
+    name: 'updateTodos: section-prefixed and normalized texts match, unchecking works',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const prefixed = await provider.updateTodos(task.id, [
+        { todoText: 'Build: Ship release', completed: true },
+        { todoText: 'install DEPENDENCIES.', completed: true }
+      ]);
+      assertEqual(prefixed.updated, 2, 'updated count for prefixed and normalized texts');
+      let analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.todos.find(todo => todo.text === 'Ship release')?.completed, true, '"Ship release" after update');
+      assertEqual(analysis.todos.find(todo => todo.text === 'Install dependencies')?.completed, true, '"Install dependencies" after update');
+
+      const result = await provider.updateTodos(task.id, [{ todoText: 'Create config file', completed: false }]);
+      assertEqual(result.updated, 1, 'updated count when unchecking');
+      analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.todos.find(todo => todo.text === 'Create config file')?.completed, false, '"Create config file" after unchecking');
+    }
+  },
+  {
+    name: 'updateSingleTodo: returns whether a todo matched',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      assertEqual(await provider.updateSingleTodo(task.id, 'Ship release', true), true, 'updateSingleTodo on existing todo');
+      assertEqual(await provider.updateSingleTodo(task.id, 'Unknown todo', true), false, 'updateSingleTodo on unknown todo');
+    }
+  },
+  {
+    name: 'editTodo: todos can be added, reworded, moved and deleted',
+    skip: (_options, provider) => !provider.editTodo,
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const editTodo = provider.editTodo!.bind(provider);
+
+      const addedId = await editTodo(task.id, { action: 'add', text: 'Write docs', section: 'Setup' });
+      let analysis = await provider.analyzeTodos(task.id, true);
+      const added = analysis.todos.find(todo => todo.id === addedId);
+      assertEqual(added?.text, 'Setup: Write docs', 'added todo returned by its ID');
+      assertEqual(analysis.todos.findIndex(todo => todo.id === addedId), 2, 'position of the todo added to "Setup"');
+
+      const editedId = await editTodo(task.id, { action: 'edit', todoText: 'Ship release', text: 'Ship the release' });
+      analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.todos.find(todo => todo.id === editedId)?.text, 'Ship the release', 'edited todo text');
+
+      const config = analysis.todos.find(todo => todo.text === 'Create config file');
+      const movedId = await editTodo(task.id, { action: 'move', todoId: config?.id, section: 'Build' });
+      analysis = await provider.analyzeTodos(task.id, true);
+      const moved = analysis.todos.find(todo => todo.id === movedId);
+      assertEqual(moved?.heading, 'Build', 'section of the moved todo');
+      assertEqual(moved?.completed, true, 'check state of the moved todo');
+
+      await editTodo(task.id, { action: 'delete', todoText: 'Write docs' });
+      analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.stats.total, 5, 'todo count after add and delete');
+      assert(!analysis.todos.some(todo => todo.text === 'Write docs'), 'deleted todo is still listed');
+
+      await assertRejects(() => editTodo(task.id, { action: 'delete', todoText: 'Write tests' }), 'deleting an ambiguous todo');
+    }
+  },
+  {
+    name: 'appendToTask: appended markdown is readable and existing todos are kept',
+    run: async ({ provider, createTask, options }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const marker = `conformance-marker-${Date.now()}`;
+      await provider.appendToTask(task.id, `\n\n---\n\n## Summary\n\nAppended **${marker}**`);
+
+      if (options.appendVisibleInContent !== false) {
+        const page = await provider.readPage(task.id, false);
+        assert(page.content.includes(marker), 'appended content not found in readPage content');
+      }
+
+      const analysis = await provider.analyzeTodos(task.id);
+      assertEqual(analysis.stats.total, 5, 'todo count after append');
+    }
+  },
+  {
+    name: 'readPage: returns the task content',
+    run: async ({ provider, createTask }) => {
+      const task = await createTask(CONFORMANCE_TODO_FIXTURE);
+      const page = await provider.readPage(task.id, true);
+      assert(page.title.includes('conformance'), `readPage title: ${page.title}`);
+      assert(page.content.includes('Install dependencies'), 'readPage content misses the task body');
+      assert(Array.isArray(page.linkedPages || []), 'readPage linkedPages is not an array');
+      assert(!isNaN(page.lastEdited.getTime()) && !isNaN(page.createdTime.getTime()), 'readPage dates are invalid');
+    }
+  },
+  {
+    name: 'errors: operations on an unknown task reject',
+    run: async ({ provider, options }) => {
+      const missing = options.missingTaskId || DEFAULT_MISSING_TASK_ID;
+      await assertRejects(() => provider.updateTask(missing, { title: 'x' }), 'updateTask on unknown task');
+      await assertRejects(() => provider.updateTaskStatus(missing, options.statusLabel), 'updateTaskStatus on unknown task');
+      await assertRejects(() => provider.analyzeTodos(missing), 'analyzeTodos on unknown task');
+      await assertRejects(() => provider.updateTodos(missing, [{ todoText: 'x', completed: true }]), 'updateTodos on unknown task');
+      await assertRejects(() => provider.appendToTask(missing, 'x'), 'appendToTask on unknown task');
+      await assertRejects(() => provider.readPage(missing), 'readPage on unknown task');
+    }
+  }
+];
+
+export class ProviderConformanceSuite {
+  constructor(
+    private provider: TaskProvider,
+    private options: ConformanceOptions
+  ) {}
+
+  static getCaseNames(): string[] {
+    return CASES.map(testCase => testCase.name);
+  }
+
+  async run(): Promise<ConformanceReport> {
+    const createdTaskIds: string[] = [];
+    const results: ConformanceResult[] = [];
+    const titlePrefix = this.options.titlePrefix || '[conformance]';
+    let sequence = 0;
+
+    const context: ConformanceContext = {
+      provider: this.provider,
+      options: this.options,
+      createTask: async (description = '') => {
+        const task = await this.provider.createTask(`${titlePrefix} conformance task ${++sequence}`, this.options.taskType, description);
+        createdTaskIds.push(task.id);
+        return task;
+      }
+    };
+
+    for (const testCase of CASES) {
+      if (this.options.only && !this.options.only.some(filter => testCase.name.includes(filter))) continue;
+
+      const start = Date.now();
+      if (testCase.skip?.(this.options, this.provider)) {
+        results.push({ name: testCase.name, status: 'skipped', durationMs: 0 });
+        continue;
+      }
+
+      try {
+        await testCase.run(context);
+        results.push({ name: testCase.name, status: 'passed', durationMs: Date.now() - start });
+      } catch (error) {
+        const message = error instanceof ConformanceFailure
+          ? error.message
+          : `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+        results.push({ name: testCase.name, status: 'failed', error: message, durationMs: Date.now() - start });
+      }
+    }
+
+    return {
+      provider: `${this.provider.getProviderName()} (${this.provider.getProviderType()})`,
+      passed: results.filter(result => result.status === 'passed').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      createdTaskIds,
+      results
+    };
+  }
+
+  static formatReport(report: ConformanceReport): string {
+    const lines = [`Conformance report for ${report.provider}`, ''];
+    for (const result of report.results) {
+      const icon = result.status === 'passed' ? '✅' : result.status === 'skipped' ? '⏭️ ' : '❌';
+      lines.push(`${icon} ${result.name} (${result.durationMs}ms)`);
+      if (result.error) lines.push(`   ${result.error}`);
+    }
+    lines.push('', `${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped`);
+    if (report.createdTaskIds.length > 0) {
+      lines.push(`Created tasks: ${report.createdTaskIds.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+}
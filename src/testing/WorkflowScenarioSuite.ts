@@ -0,0 +1,478 @@
+/**
+ * WorkflowScenarioSuite - End-to-end scenarios for the behaviour built on top of the providers
+ *
+ * Framework-agnostic like ProviderConformanceSuite, whose report format it shares: todo matching by ID
+ * and text, the workflow gates of status changes, and resuming and mirroring migrations. Scenarios needing
+ * a provider run against the provider under test (the in-memory reference provider or a built-in provider
+ * on its fake API) through the services the MCP tools use, and create real tasks on it; migrations copy
+ * in-memory tasks to it. Gate commands run in the current directory, migration mappings are kept in a
+ * temporary PROJECT_ROOT per scenario.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { TaskProvider } from '../interfaces/TaskProvider.js';
+import { Task } from '../models/Task.js';
+import { WorkflowConfig, WorkflowGate } from '../models/Workflow.js';
+import { ProviderManager } from '../providers/ProviderManager.js';
+import { TodoCandidate, TodoMatcher } from '../providers/shared/TodoMatcher.js';
+import { MigrationService } from '../services/core/MigrationService.js';
+import { UpdateService } from '../services/core/UpdateService.js';
+import { StatusService } from '../services/shared/StatusService.js';
+import { ValidationService } from '../services/shared/ValidationService.js';
+import { TodoAnalysisService } from '../services/shared/TodoAnalysisService.js';
+import { resolveWorkflow } from '../services/shared/WorkflowStates.js';
+import { TransitionGateError, ValidationError } from '../types/Errors.js';
+import { ConformanceReport, ConformanceResult } from './ProviderConformanceSuite.js';
+import { InMemoryProvider } from './InMemoryProvider.js';
+
+export interface ScenarioOptions {
+  taskType: string;                 // Task type accepted by the provider
+  statusLabel: string;              // Status label the provider can move a new task to
+  titlePrefix?: string;             // Prefix for created task titles, to spot them in the tracker
+  appendVisibleInContent?: boolean; // false for providers posting appended content elsewhere (comments, notes)
+  only?: string[];                  // Run only scenarios whose name contains one of these strings
+}
+
+interface Scenario {
+  name: string;
+  skip?: (options: ScenarioOptions, provider: TaskProvider) => boolean;
+  run: (context: ScenarioContext) => Promise<void>;
+}
+
+interface ScenarioContext {
+  provider: TaskProvider;
+  options: ScenarioOptions;
+  workflow: WorkflowConfig;
+  createTask(description?: string): Promise<Task>;
+  getDoneState(): { key: string; label: string };
+  createSourceTask(description: string): Promise<{ source: TaskProvider; task: Task }>;
+  createMigrationTarget(failAppendCall?: number): MigrationTarget;
+  // Providers by name, the first one being the default; the provider under test by default
+  createServices(gates: WorkflowGate[], providers?: Record<string, TaskProvider>): { updateService: UpdateService; migrationService: MigrationService };
+}
+
+interface MigrationTarget {
+  provider: TaskProvider;
+  created: string[];       // IDs of the tasks created through it
+}
+
+class ScenarioFailure extends Error {}
+
+/**
+ * Routes provider names to the scenario providers, the first one being the default
+ */
+class ScenarioProviderManager {
+  constructor(private providers: Record<string, TaskProvider>) {}
+
+  getDefaultProviderName(): string {
+    return Object.keys(this.providers)[0] || '';
+  }
+
+  getProvider(name?: string): TaskProvider {
+    const provider = this.providers[name || this.getDefaultProviderName()];
+    if (!provider) {
+      throw new Error(`Provider '${name}' is not available or enabled`);
+    }
+    return provider;
+  }
+}
+
+const MATCHER_FIXTURE: TodoCandidate[] = [
+  { id: 'todo-abc12', text: 'Write integration tests', heading: 'Build', completed: false },
+  { id: 'todo-abc12-2', text: 'Write integration tests', heading: 'Build', completed: true },
+  { id: 'todo-abc122', text: 'Ship release', heading: 'Build', completed: false },
+  { id: '1f2e3d4c-5b6a-4789-8abc-def012345678', text: 'Update the changelog', heading: 'Release', completed: false }
+];
+
+const SUMMARY_SECTIONS = ['## First summary\n\nCopied once', '## Second summary\n\nCopied once as well'];
+
+const GATE_TODO_FIXTURE = [
+  '## Implementation',
+  '',
+  '- [x] Review the plan',
+  '- [ ] Write code'
+].join('\n');
+
+function fail(message: string): never {
+  throw new ScenarioFailure(message);
+}
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) fail(message);
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string): void {
+  if (actual !== expected) {
+    fail(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function assertGateRefusal(operation: () => Promise<unknown>, label: string): Promise<TransitionGateError> {
+  try {
+    await operation();
+  } catch (error) {
+    if (error instanceof TransitionGateError) return error;
+    fail(`${label}: expected a TransitionGateError, got ${error instanceof Error ? error.message : String(error)}`);
+  }
+  fail(`${label}: expected the status change to be refused`);
+}
+
+async function assertStatus(provider: TaskProvider, taskId: string, expected: string, label: string): Promise<void> {
+  const { status } = await provider.getTask(taskId);
+  assert(sameText(status, expected), `${label}: expected status ${JSON.stringify(expected)}, got ${JSON.stringify(status)}`);
+}
+
+function sameText(a: string | undefined, b: string): boolean {
+  return (a || '').trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function countOccurrences(text: string, part: string): number {
+  return text.split(part).length - 1;
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'todo matcher: misspelled text matches fuzzily',
+    run: async () => {
+      const { todo } = new TodoMatcher().match(MATCHER_FIXTURE, { todoText: 'Ship relase' });
+      assertEqual(todo?.id, 'todo-abc122', 'fuzzy match');
+
+      const { failure } = new TodoMatcher().match(MATCHER_FIXTURE, { todoText: 'Deploy to staging' });
+      assertEqual(failure?.reason, 'not_found', 'unrelated text');
+    }
+  },
+  {
+    name: 'todo matcher: "Heading: text" and normalized text match',
+    run: async () => {
+      const matcher = new TodoMatcher();
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoText: 'Release: Update the changelog' }).todo?.heading, 'Release', 'heading prefix');
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoText: '**ship release.**' }).todo?.id, 'todo-abc122', 'markdown and punctuation');
+    }
+  },
+  {
+    name: 'todo matcher: duplicates resolve to the only todo that would change',
+    run: async () => {
+      const matcher = new TodoMatcher();
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoText: 'Write integration tests', completed: true }).todo?.id, 'todo-abc12', 'checking');
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoText: 'Write integration tests', completed: false }).todo?.id, 'todo-abc12-2', 'unchecking');
+
+      const { failure } = matcher.match(MATCHER_FIXTURE, { todoText: 'Write integration tests' });
+      assertEqual(failure?.reason, 'ambiguous', 'duplicates without completed');
+      assertEqual(failure?.candidates.length, 2, 'ambiguous candidates');
+    }
+  },
+  {
+    name: 'todo matcher: IDs keep their duplicate suffix, UUIDs match with or without dashes',
+    run: async () => {
+      const matcher = new TodoMatcher();
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoId: 'TODO-ABC12-2' }).todo?.id, 'todo-abc12-2', 'suffixed ID');
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoId: 'todo-abc122' }).todo?.id, 'todo-abc122', 'ID ending like the suffix');
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoId: '1F2E3D4C5B6A47898ABCDEF012345678' }).todo?.text, 'Update the changelog', 'UUID without dashes');
+      assertEqual(matcher.match(MATCHER_FIXTURE, { todoId: 'todo-abc1' }).failure?.reason, 'not_found', 'ID prefix');
+    }
+  },
+  {
+    name: 'todo matcher: a todoId naming another text is refused',
+    run: async () => {
+      const matcher = new TodoMatcher();
+      const { todo, failure } = matcher.match(MATCHER_FIXTURE, { todoId: 'todo-abc122', todoText: 'Update the changelog' });
+      assert(!todo, 'stale todoId must not match');
+      assertEqual(failure?.reason, 'id_mismatch', 'failure reason');
+      assertEqual(failure?.candidates.map(candidate => candidate.id).join(', '), 'todo-abc122, 1f2e3d4c-5b6a-4789-8abc-def012345678', 'id_mismatch candidates');
+
+      try {
+        matcher.resolve(MATCHER_FIXTURE, { todoText: 'Write integration tests' });
+      } catch (error) {
+        assert(error instanceof ValidationError, 'resolve must throw a ValidationError');
+        assert((error as Error).message.includes('Build: Write integration tests (todo-abc12-2)'), `resolve must list the candidates, got: ${(error as Error).message}`);
+        return;
+      }
+      fail('resolve must throw on an ambiguous text');
+    }
+  },
+  {
+    name: 'gates: open todos block the status change until they are checked',
+    run: async ({ provider, createTask, getDoneState, createServices }) => {
+      const done = getDoneState();
+      const task = await createTask(GATE_TODO_FIXTURE);
+      const { updateService } = createServices([{ name: 'Todos', to: done.key, checkedTodos: '*' }]);
+
+      const error = await assertGateRefusal(() => updateService.updateTaskStatus(task.id, done.label), 'open todo');
+      assertEqual(error.failures.length, 1, 'gate failures');
+      assert(error.failures[0]?.startsWith('Todos: 1 of 2 todos are open') && error.failures[0].includes('"Write code"'),
+        `failure must name the open todo, got: ${error.failures[0]}`);
+      await assertStatus(provider, task.id, task.status, 'status after the refusal');
+
+      const open = (await provider.analyzeTodos(task.id)).todos.filter(todo => !todo.completed);
+      await provider.updateTodos(task.id, open.map(todo => ({ todoId: todo.id, todoText: todo.text, completed: true })));
+      await updateService.updateTaskStatus(task.id, done.label);
+      await assertStatus(provider, task.id, done.label, 'status with every todo checked');
+    }
+  },
+  {
+    name: 'gates: a required section is looked up in the task content',
+    run: async ({ provider, createTask, getDoneState, createServices }) => {
+      const done = getDoneState();
+      const { updateService } = createServices([{ to: done.key, requiredSection: 'Release notes' }]);
+
+      const without = await createTask(GATE_TODO_FIXTURE);
+      const error = await assertGateRefusal(() => updateService.updateTaskStatus(without.id, done.label), 'missing section');
+      assertEqual(error.failures[0], 'no "Release notes" section in the task', 'gate failure');
+
+      const withSection = await createTask(`${GATE_TODO_FIXTURE}\n\n## 📝 Release Notes\n\nGate scenarios`);
+      await updateService.updateTaskStatus(withSection.id, done.label);
+      await assertStatus(provider, withSection.id, done.label, 'status with the section');
+    }
+  },
+  {
+    name: 'gates: a failing command reports its exit code and output, gates from other states are ignored',
+    skip: () => process.platform === 'win32',
+    run: async ({ workflow, createTask, getDoneState, createServices }) => {
+      const done = getDoneState();
+      const task = await createTask(GATE_TODO_FIXTURE);
+      const otherKey = Object.keys(workflow.states || {}).find(key => key !== done.key && key !== workflow.defaultStatus);
+      const { updateService } = createServices([
+        { name: 'Build', to: done.key, command: 'echo compiling; echo "2 type errors" >&2; exit 3' },
+        ...(otherKey ? [{ name: 'Other state', from: otherKey, to: done.key, command: 'exit 1' }] : [])
+      ]);
+
+      const error = await assertGateRefusal(() => updateService.updateTaskStatus(task.id, done.label), 'failing command');
+      assertEqual(error.failures.length, 1, 'gate failures');
+      const failure = error.failures[0] || '';
+      assert(failure.startsWith('Build: `echo compiling;') && failure.includes('exited with code 3'), `failure must give the exit code, got: ${failure}`);
+      assert(failure.includes('compiling') && failure.includes('2 type errors'), `failure must include the command output, got: ${failure}`);
+    }
+  },
+  {
+    name: 'gates: a timed out command is stopped with everything it started',
+    skip: () => process.platform === 'win32',
+    run: async ({ createTask, getDoneState, createServices }) => {
+      const done = getDoneState();
+      const task = await createTask(GATE_TODO_FIXTURE);
+      // The background sleep holds the output pipe open: the gate only returns once the whole group is gone
+      const { updateService } = createServices([{ to: done.key, command: 'sleep 30 & sleep 30', timeoutSeconds: 1 }]);
+
+      const start = Date.now();
+      const error = await assertGateRefusal(() => updateService.updateTaskStatus(task.id, done.label), 'slow command');
+      assert(error.failures[0]?.includes('timed out after 1s'), `failure must report the timeout, got: ${error.failures[0]}`);
+      assert(Date.now() - start < 10000, `the gate returned after ${Date.now() - start}ms, the background process was not stopped`);
+    }
+  },
+  {
+    name: 'gates: a status written as a page property is checked',
+    skip: (options, provider) => !provider.getStatusPropertyName?.(),
+    run: async ({ provider, createTask, getDoneState, createServices }) => {
+      const done = getDoneState();
+      const task = await createTask(GATE_TODO_FIXTURE);
+      const { updateService } = createServices([{ to: done.key, checkedTodos: 'Implementation' }]);
+      const property = provider.getStatusPropertyName?.() || '';
+
+      const error = await assertGateRefusal(
+        () => updateService.updateNotionPage(task.id, undefined, undefined, { [property]: { status: { name: done.label } } }), 'status property');
+      assert(error.failures[0]?.includes('"Write code"'), `failure must name the open todo, got: ${error.failures[0]}`);
+      await assertStatus(provider, task.id, task.status, 'status after the refusal');
+    }
+  },
+  {
+    name: 'migration: an interrupted copy is resumed without creating the task twice',
+    run: async ({ provider, options, createSourceTask, createMigrationTarget, createServices }) => {
+      const { source, task } = await createSourceTask(GATE_TODO_FIXTURE);
+      for (const section of SUMMARY_SECTIONS) {
+        await source.appendToTask(task.id, `\n\n---\n\n${section}`);
+      }
+      await source.updateTaskStatus(task.id, options.statusLabel);
+      const target = createMigrationTarget(2);
+      const { migrationService } = createServices([], { source, target: target.provider });
+
+      const interrupted = await migrationService.migrateTasks([task.id], 'target', 'source');
+      assertEqual(interrupted.entries[0]?.status, 'failed', 'interrupted run');
+      const pending = migrationService.getMappings()[0];
+      assert(pending?.contentPending, 'the mapping of an interrupted copy must stay contentPending');
+      assertEqual(pending?.targetId, target.created[0], 'mapped target task');
+      assertEqual(pending?.appendedSections, 1, 'sections appended before the interruption');
+
+      const resumed = await migrationService.migrateTasks([task.id], 'target', 'source');
+      const entry = resumed.entries[0];
+      assertEqual(entry?.status, 'migrated', 'resumed run');
+      assertEqual(entry?.targetId, pending?.targetId, 'resumed target task');
+      assert(entry?.warnings.includes('Resumed an interrupted migration'), 'the resumed entry must say so');
+      assertEqual(target.created.length, 1, 'tasks created on the target');
+
+      const mapping = migrationService.getMappings()[0];
+      assert(mapping && !mapping.contentPending && mapping.appendedSections === undefined, 'the mapping must be complete after the resume');
+      if (options.appendVisibleInContent !== false) {
+        const content = (await provider.readPage(mapping?.targetId || '', false)).content;
+        assertEqual(countOccurrences(content, 'First summary'), 1, 'first section on the target');
+        assertEqual(countOccurrences(content, 'Second summary'), 1, 'second section on the target');
+      }
+      await assertStatus(provider, mapping?.targetId || '', options.statusLabel, 'copied status');
+
+      const again = await migrationService.migrateTasks([task.id], 'target', 'source');
+      assertEqual(again.entries[0]?.status, 'skipped', 'run after the migration');
+    }
+  },
+  {
+    name: 'migration: the copied status passes the target gates',
+    run: async ({ provider, createSourceTask, createMigrationTarget, getDoneState, createServices }) => {
+      const done = getDoneState();
+      const { source, task } = await createSourceTask(GATE_TODO_FIXTURE);
+      await source.updateTaskStatus(task.id, done.label);
+      const target = createMigrationTarget();
+      const { migrationService } = createServices([{ to: done.key, checkedTodos: '*' }], { source, target: target.provider });
+
+      const entry = (await migrationService.migrateTasks([task.id], 'target', 'source')).entries[0];
+      assertEqual(entry?.status, 'migrated', 'migration with a refused status');
+      assert(entry?.warnings.some(warning => warning.startsWith(`Status "${done.label}" could not be set`) && warning.includes('"Write code"')),
+        `the entry must report the refused status, got: ${JSON.stringify(entry?.warnings)}`);
+      const { status } = await provider.getTask(entry?.targetId || '');
+      assert(!sameText(status, done.label), 'the target must not be moved past its gates');
+    }
+  },
+  {
+    name: 'mirror: status changes pass the target gates once the todos are synced',
+    run: async ({ provider, options, createSourceTask, createMigrationTarget, getDoneState, createServices }) => {
+      const done = getDoneState();
+      const { source, task } = await createSourceTask(GATE_TODO_FIXTURE);
+      await source.updateTaskStatus(task.id, options.statusLabel);
+      const target = createMigrationTarget();
+      const { migrationService } = createServices([{ to: done.key, checkedTodos: '*' }], { source, target: target.provider });
+
+      const entry = (await migrationService.migrateTasks([task.id], 'target', 'source', { mirror: true })).entries[0];
+      assertEqual(entry?.status, 'migrated', 'mirrored migration');
+      const targetId = entry?.targetId || '';
+
+      // Moved on the source provider directly, as its own UI would
+      await source.updateTaskStatus(task.id, done.label);
+      const refused = (await migrationService.syncMirrors('source')).entries[0];
+      assert(refused?.error?.includes('gate check(s) failed'), `the sync must report the gate failure, got: ${refused?.error}`);
+      await assertStatus(provider, targetId, options.statusLabel, 'target status after the refused sync');
+
+      const open = (await source.analyzeTodos(task.id)).todos.filter(todo => !todo.completed);
+      await source.updateTodos(task.id, open.map(todo => ({ todoId: todo.id, todoText: todo.text, completed: true })));
+      const synced = (await migrationService.syncMirrors('source')).entries[0];
+      assert(!synced?.error, `the sync must pass once the todos are checked, got: ${synced?.error}`);
+      assertEqual(synced?.todosUpdated, 1, 'todos checked on the target');
+      assertEqual(synced?.statusChanged, true, 'status changed on the target');
+      await assertStatus(provider, targetId, done.label, 'target status after the sync');
+    }
+  }
+];
+
+export class WorkflowScenarioSuite {
+  private workflow: WorkflowConfig;
+
+  constructor(
+    private provider: TaskProvider,
+    workflow: WorkflowConfig,
+    private options: ScenarioOptions
+  ) {
+    this.workflow = resolveWorkflow(workflow);
+  }
+
+  static getScenarioNames(): string[] {
+    return SCENARIOS.map(scenario => scenario.name);
+  }
+
+  async run(): Promise<ConformanceReport> {
+    const createdTaskIds: string[] = [];
+    const results: ConformanceResult[] = [];
+    const titlePrefix = this.options.titlePrefix || '[scenario]';
+    let sequence = 0;
+
+    const context: ScenarioContext = {
+      provider: this.provider,
+      options: this.options,
+      workflow: this.workflow,
+      createTask: async (description = '') => {
+        const task = await this.provider.createTask(`${titlePrefix} workflow scenario ${++sequence}`, this.options.taskType, description);
+        createdTaskIds.push(task.id);
+        return task;
+      },
+      getDoneState: () => {
+        const [key, state] = Object.entries(this.workflow.states || {}).find(([, candidate]) => candidate.role === 'terminal') || [];
+        if (!key || !state) fail('The workflow has no terminal state to move tasks to');
+        return { key, label: state.label };
+      },
+      createSourceTask: async description => {
+        const source = new InMemoryProvider(this.workflow);
+        const task = await source.createTask(`${titlePrefix} migrated task ${++sequence}`, this.options.taskType, description);
+        return { source, task };
+      },
+      createMigrationTarget: (failAppendCall = 0) => {
+        // The provider under test, failing one appendToTask call the way a dropped connection would
+        const created: string[] = [];
+        let appendCalls = 0;
+        const provider = new Proxy(this.provider, {
+          get: (target, property) => {
+            if (property === 'createTask') {
+              return async (...args: Parameters<TaskProvider['createTask']>) => {
+                const task = await target.createTask(...args);
+                created.push(task.id);
+                createdTaskIds.push(task.id);
+                return task;
+              };
+            }
+            if (property === 'appendToTask') {
+              return async (...args: Parameters<TaskProvider['appendToTask']>) => {
+                if (++appendCalls === failAppendCall) throw new Error('Connection reset while appending (simulated)');
+                return target.appendToTask(...args);
+              };
+            }
+            const value = Reflect.get(target, property);
+            return typeof value === 'function' ? value.bind(target) : value;
+          }
+        });
+        return { provider, created };
+      },
+      createServices: (gates, providers = { scenario: this.provider }) => {
+        const workflow = resolveWorkflow({ ...this.workflow, gates });
+        const providerManager = new ScenarioProviderManager(providers) as unknown as ProviderManager;
+        const statusService = new StatusService(workflow);
+        const validationService = new ValidationService(workflow, statusService);
+        const updateService = new UpdateService(providerManager, statusService, validationService, new TodoAnalysisService(), workflow);
+        const migrationService = new MigrationService(providerManager, updateService, workflow);
+        updateService.setMigrationService(migrationService);
+        return { updateService, migrationService };
+      }
+    };
+
+    for (const scenario of SCENARIOS) {
+      if (this.options.only && !this.options.only.some(filter => scenario.name.includes(filter))) continue;
+
+      const start = Date.now();
+      if (scenario.skip?.(this.options, this.provider)) {
+        results.push({ name: scenario.name, status: 'skipped', durationMs: 0 });
+        continue;
+      }
+
+      const projectRoot = process.env.PROJECT_ROOT;
+      const mappingRoot = mkdtempSync(join(tmpdir(), 'vc4pm-scenario-'));
+      process.env.PROJECT_ROOT = mappingRoot;
+      try {
+        await scenario.run(context);
+        results.push({ name: scenario.name, status: 'passed', durationMs: Date.now() - start });
+      } catch (error) {
+        const message = error instanceof ScenarioFailure
+          ? error.message
+          : `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+        results.push({ name: scenario.name, status: 'failed', error: message, durationMs: Date.now() - start });
+      } finally {
+        if (projectRoot === undefined) delete process.env.PROJECT_ROOT;
+        else process.env.PROJECT_ROOT = projectRoot;
+        rmSync(mappingRoot, { recursive: true, force: true });
+      }
+    }
+
+    return {
+      provider: `${this.provider.getProviderName()} (${this.provider.getProviderType()}), workflow scenarios`,
+      passed: results.filter(result => result.status === 'passed').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      createdTaskIds,
+      results
+    };
+  }
+}
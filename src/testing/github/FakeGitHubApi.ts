@@ -0,0 +1,365 @@
+/**
+ * FakeGitHubApi - In-memory implementation of the GitHub REST and GraphQL calls used by GitHubProvider
+ *
+ * REST covers issues (create, get, update with labels and state) and issue comments with pagination.
+ * GraphQL operations are dispatched on their name and cover a Projects v2 board with a single-select
+ * status field, sub-issues and "blocked by" dependencies. Serve it with FakeApiServer and point
+ * `providers.available.github.config.apiUrl` at it (GraphQL is served at `<apiUrl>/graphql`).
+ */
+
+import { FakeApiError, FakeFetchInit, FakeFetchResponse, fakeJsonResponse } from '../FakeApiServer.js';
+
+export interface FakeGitHubOptions {
+  owner?: string;
+  repo?: string;
+  projectNumber?: number | null;  // null for no project board
+  statusOptions?: string[];
+}
+
+interface FakeGitHubIssue {
+  owner: string;
+  repo: string;
+  number: number;
+  nodeId: string;
+  title: string;
+  body: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  parentId?: string;      // Node ID of the parent issue
+  blockedBy: string[];    // Node IDs of the blocking issues
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FakeGitHubComment {
+  id: number;
+  issueId: string;
+  body: string;
+  createdAt: string;
+}
+
+interface FakeGitHubProject {
+  id: string;
+  owner: string;
+  number: number;
+  fieldId: string;
+  options: Array<{ id: string; name: string }>;
+  items: Array<{ id: string; issueId: string; optionId?: string }>;
+}
+
+const DEFAULT_STATUS_OPTIONS = ['Todo', 'In Progress', 'Done'];
+const OPERATION_NAME = /^\s*(?:query|mutation)\s+(\w+)/;
+const FAKE_USER = 'fake-user';
+
+function restError(status: number, message: string): FakeApiError {
+  return new FakeApiError(status, { message, documentation_url: 'https://docs.github.com/rest' });
+}
+
+function graphqlError(message: string, type: string = 'NOT_FOUND'): FakeApiError {
+  return new FakeApiError(200, { data: null, errors: [{ type, message }] });
+}
+
+export class FakeGitHubApi {
+  private repositories: Set<string> = new Set();
+  private issues: Map<string, FakeGitHubIssue> = new Map();  // By node ID
+  private comments: FakeGitHubComment[] = [];
+  private projects: FakeGitHubProject[] = [];
+  private clock = Date.parse('2024-01-01T00:00:00.000Z');
+  private sequence = 0;
+
+  constructor(options: FakeGitHubOptions = {}) {
+    const owner = options.owner || 'fake-org';
+    this.createRepository(owner, options.repo || 'tasks');
+    if (options.projectNumber !== null) {
+      this.createProject(owner, options.projectNumber || 1, options.statusOptions || DEFAULT_STATUS_OPTIONS);
+    }
+  }
+
+  createRepository(owner: string, repo: string): void {
+    this.repositories.add(`${owner}/${repo}`.toLowerCase());
+  }
+
+  /**
+   * Add a Projects v2 board with a single-select "Status" field
+   */
+  createProject(owner: string, number: number, statusOptions: string[]): string {
+    const project: FakeGitHubProject = {
+      id: `PVT_${this.nextSequence()}`,
+      owner,
+      number,
+      fieldId: `PVTSSF_${this.nextSequence()}`,
+      options: statusOptions.map(name => ({ id: this.nextSequence().toString(16), name })),
+      items: []
+    };
+    this.projects.push(project);
+    return project.id;
+  }
+
+  fetch = async (url: string, init: FakeFetchInit = {}): Promise<FakeFetchResponse> => {
+    const parsed = new URL(url, 'http://fake-github.local');
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    const response = this.handle(init.method || 'GET', parsed.pathname, Object.fromEntries(parsed.searchParams), body, init.headers || {});
+    return fakeJsonResponse(response.status, response.body);
+  };
+
+  handle(method: string, path: string, query: Record<string, string> = {}, body: any = {}, headers: Record<string, string> = {}): { status: number; body: any } {
+    try {
+      if (!Object.entries(headers).some(([name, value]) => name.toLowerCase() === 'authorization' && value)) {
+        throw restError(401, 'Requires authentication');
+      }
+      const route = path.replace(/\/+$/, '');
+      if (route.endsWith('/graphql') && method.toUpperCase() === 'POST') {
+        return { status: 200, body: { data: this.graphql(body?.query || '', body?.variables || {}) } };
+      }
+      return this.rest(method.toUpperCase(), route, query, body || {});
+    } catch (error) {
+      if (error instanceof FakeApiError) return { status: error.status, body: error.body };
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: 500, body: { message } };
+    }
+  }
+
+  // REST
+
+  private rest(method: string, path: string, query: Record<string, string>, body: any): { status: number; body: any } {
+    const match = path.match(/^\/repos\/([^/]+)\/([^/]+)\/issues(?:\/(\d+)(\/comments)?)?$/);
+    if (!match) throw restError(404, 'Not Found');
+    const [, owner = '', repo = '', number, comments] = match;
+    if (!this.repositories.has(`${owner}/${repo}`.toLowerCase())) throw restError(404, 'Not Found');
+
+    if (!number && method === 'POST') return { status: 201, body: this.toIssue(this.createIssue(owner, repo, body)) };
+    if (!number) throw restError(404, 'Not Found');
+
+    const issue = this.getIssue(owner, repo, parseInt(number, 10));
+    if (comments && method === 'GET') return { status: 200, body: this.listComments(issue, query) };
+    if (comments && method === 'POST') return { status: 201, body: this.createComment(issue, body) };
+    if (!comments && method === 'GET') return { status: 200, body: this.toIssue(issue) };
+    if (!comments && method === 'PATCH') return { status: 200, body: this.toIssue(this.updateIssue(issue, body)) };
+    throw restError(404, 'Not Found');
+  }
+
+  private getIssue(owner: string, repo: string, number: number): FakeGitHubIssue {
+    const issue = Array.from(this.issues.values())
+      .find(candidate => `${candidate.owner}/${candidate.repo}`.toLowerCase() === `${owner}/${repo}`.toLowerCase() && candidate.number === number);
+    if (!issue) throw restError(404, 'Not Found');
+    return issue;
+  }
+
+  private createIssue(owner: string, repo: string, body: any): FakeGitHubIssue {
+    if (!body.title || !String(body.title).trim()) {
+      throw restError(422, 'Validation Failed: title is missing');
+    }
+    const now = this.tick();
+    const issue: FakeGitHubIssue = {
+      owner,
+      repo,
+      number: Array.from(this.issues.values()).filter(other => other.owner === owner && other.repo === repo).length + 1,
+      nodeId: `I_${this.nextSequence()}`,
+      title: body.title,
+      body: body.body || '',
+      state: 'open',
+      labels: this.labelNames(body.labels),
+      blockedBy: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.issues.set(issue.nodeId, issue);
+    return issue;
+  }
+
+  private updateIssue(issue: FakeGitHubIssue, body: any): FakeGitHubIssue {
+    if (body.state !== undefined && body.state !== 'open' && body.state !== 'closed') {
+      throw restError(422, `Validation Failed: state "${body.state}" is not open or closed`);
+    }
+    if (body.title !== undefined && !String(body.title).trim()) {
+      throw restError(422, 'Validation Failed: title cannot be blank');
+    }
+    if (body.title !== undefined) issue.title = body.title;
+    if (body.body !== undefined) issue.body = body.body || '';
+    if (body.state !== undefined) issue.state = body.state;
+    if (body.labels !== undefined) issue.labels = this.labelNames(body.labels);
+    issue.updatedAt = this.tick();
+    return issue;
+  }
+
+  private listComments(issue: FakeGitHubIssue, query: Record<string, string>): any[] {
+    const perPage = Math.min(parseInt(query.per_page || '30', 10), 100);
+    const page = Math.max(parseInt(query.page || '1', 10), 1);
+    return this.comments
+      .filter(comment => comment.issueId === issue.nodeId)
+      .slice((page - 1) * perPage, page * perPage)
+      .map(comment => this.toComment(issue, comment));
+  }
+
+  private createComment(issue: FakeGitHubIssue, body: any): any {
+    if (!body.body || !String(body.body).trim()) {
+      throw restError(422, 'Validation Failed: body is missing');
+    }
+    const comment = { id: this.nextSequence(), issueId: issue.nodeId, body: body.body, createdAt: this.tick() };
+    this.comments.push(comment);
+    return this.toComment(issue, comment);
+  }
+
+  // GraphQL
+
+  private graphql(query: string, variables: Record<string, any>): any {
+    const operation = query.match(OPERATION_NAME)?.[1];
+
+    switch (operation) {
+      case 'ProjectFields': {
+        const project = this.findProject(variables.login, variables.number);
+        return { repositoryOwner: { projectV2: this.toProject(project) } };
+      }
+      case 'IssueProjectItems': {
+        const issue = this.findIssue(variables.owner, variables.repo, variables.number);
+        return { repository: { issue: { projectItems: { nodes: this.toProjectItems(issue, variables.field) } } } };
+      }
+      case 'IssueRelations': {
+        const issue = this.findIssue(variables.owner, variables.repo, variables.number);
+        return { repository: { issue: this.toRelations(issue) } };
+      }
+      case 'AddItem':
+        return { addProjectV2ItemById: { item: { id: this.addProjectItem(variables.projectId, variables.contentId).id } } };
+      case 'SetStatus':
+        this.setItemStatus(variables);
+        return { updateProjectV2ItemFieldValue: { projectV2Item: { id: variables.itemId } } };
+      case 'AddSubIssue': {
+        const parent = this.issueByNodeId(variables.issueId);
+        const child = this.issueByNodeId(variables.subIssueId);
+        if (parent.nodeId === child.nodeId) throw graphqlError('An issue cannot be its own sub-issue', 'UNPROCESSABLE');
+        child.parentId = parent.nodeId;
+        return { addSubIssue: { issue: { id: parent.nodeId } } };
+      }
+      case 'AddBlockedBy': {
+        const issue = this.issueByNodeId(variables.issueId);
+        const blocking = this.issueByNodeId(variables.blockingIssueId);
+        if (!issue.blockedBy.includes(blocking.nodeId)) issue.blockedBy.push(blocking.nodeId);
+        return { addBlockedBy: { issue: { id: issue.nodeId } } };
+      }
+      default:
+        throw graphqlError(`Unsupported operation ${operation || '(anonymous)'} in the fake GitHub API`, 'UNPROCESSABLE');
+    }
+  }
+
+  private findProject(owner: string, number: number): FakeGitHubProject {
+    const project = this.projects.find(candidate => candidate.owner.toLowerCase() === String(owner).toLowerCase() && candidate.number === number);
+    if (!project) throw graphqlError(`Could not resolve to a ProjectV2 with the number ${number}.`);
+    return project;
+  }
+
+  private findIssue(owner: string, repo: string, number: number): FakeGitHubIssue {
+    try {
+      return this.getIssue(owner, repo, number);
+    } catch (error) {
+      throw graphqlError(`Could not resolve to an issue or pull request with the number of ${number}.`);
+    }
+  }
+
+  private issueByNodeId(nodeId: string): FakeGitHubIssue {
+    const issue = this.issues.get(nodeId);
+    if (!issue) throw graphqlError(`Could not resolve to a node with the global id of '${nodeId}'`);
+    return issue;
+  }
+
+  private projectById(projectId: string): FakeGitHubProject {
+    const project = this.projects.find(candidate => candidate.id === projectId);
+    if (!project) throw graphqlError(`Could not resolve to a node with the global id of '${projectId}'`);
+    return project;
+  }
+
+  /**
+   * Adding an issue that is already on the board returns its existing item, like on GitHub
+   */
+  private addProjectItem(projectId: string, contentId: string): { id: string } {
+    const project = this.projectById(projectId);
+    const issue = this.issueByNodeId(contentId);
+    let item = project.items.find(candidate => candidate.issueId === issue.nodeId);
+    if (!item) {
+      item = { id: `PVTI_${this.nextSequence()}`, issueId: issue.nodeId };
+      project.items.push(item);
+    }
+    return item;
+  }
+
+  private setItemStatus(variables: Record<string, any>): void {
+    const project = this.projectById(variables.projectId);
+    const item = project.items.find(candidate => candidate.id === variables.itemId);
+    if (!item) throw graphqlError(`Could not resolve to a node with the global id of '${variables.itemId}'`);
+    if (variables.fieldId !== project.fieldId) throw graphqlError(`Field ${variables.fieldId} not found`);
+    if (!project.options.some(option => option.id === variables.optionId)) {
+      throw graphqlError(`The single select option Id does not belong to the field`, 'UNPROCESSABLE');
+    }
+    item.optionId = variables.optionId;
+    this.issueByNodeId(item.issueId).updatedAt = this.tick();
+  }
+
+  private toProject(project: FakeGitHubProject): any {
+    return {
+      id: project.id,
+      fields: {
+        nodes: [
+          {},  // The title field is not a single-select field, so the fragment selects nothing
+          { id: project.fieldId, name: 'Status', options: project.options }
+        ]
+      }
+    };
+  }
+
+  private toProjectItems(issue: FakeGitHubIssue, field: string): any[] {
+    return this.projects.flatMap(project => project.items
+      .filter(item => item.issueId === issue.nodeId)
+      .map(item => {
+        const option = String(field).toLowerCase() === 'status' ? project.options.find(candidate => candidate.id === item.optionId) : undefined;
+        return { project: { id: project.id }, fieldValueByName: option ? { name: option.name } : null };
+      }));
+  }
+
+  private toRelations(issue: FakeGitHubIssue): any {
+    const toRef = (other: FakeGitHubIssue) => ({ number: other.number, repository: { nameWithOwner: `${other.owner}/${other.repo}` } });
+    const children = Array.from(this.issues.values()).filter(other => other.parentId === issue.nodeId);
+    return {
+      parent: issue.parentId ? toRef(this.issueByNodeId(issue.parentId)) : null,
+      subIssues: { nodes: children.map(toRef) },
+      blockedBy: { nodes: issue.blockedBy.map(nodeId => toRef(this.issueByNodeId(nodeId))) }
+    };
+  }
+
+  private toIssue(issue: FakeGitHubIssue): any {
+    return {
+      number: issue.number,
+      node_id: issue.nodeId,
+      title: issue.title,
+      body: issue.body || null,
+      state: issue.state,
+      html_url: `https://github.com/${issue.owner}/${issue.repo}/issues/${issue.number}`,
+      created_at: issue.createdAt,
+      updated_at: issue.updatedAt,
+      labels: issue.labels.map(name => ({ name }))
+    };
+  }
+
+  private toComment(issue: FakeGitHubIssue, comment: FakeGitHubComment): any {
+    return {
+      id: comment.id,
+      body: comment.body,
+      user: { login: FAKE_USER },
+      created_at: comment.createdAt,
+      html_url: `https://github.com/${issue.owner}/${issue.repo}/issues/${issue.number}#issuecomment-${comment.id}`
+    };
+  }
+
+  private labelNames(labels: any): string[] {
+    return (Array.isArray(labels) ? labels : [])
+      .map(label => typeof label === 'string' ? label : label?.name || '')
+      .filter(Boolean);
+  }
+
+  private nextSequence(): number {
+    return ++this.sequence;
+  }
+
+  private tick(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+}
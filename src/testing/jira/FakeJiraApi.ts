@@ -0,0 +1,280 @@
+/**
+ * FakeJiraApi - In-memory implementation of the Jira Cloud REST v3 endpoints used by JiraProvider
+ *
+ * Covers issues (create, get, update of summary, type, parent and ADF description), workflow transitions
+ * between the configured statuses and "Blocks" issue links. Descriptions are checked like Jira does for
+ * the ADF rules converters most often break (task list nesting, empty text nodes), so a description Jira
+ * would refuse is refused here too. Serve it with FakeApiServer and point `providers.available.jira.config.baseUrl` at it.
+ */
+
+import { FakeApiError, FakeFetchInit, FakeFetchResponse, fakeJsonResponse } from '../FakeApiServer.js';
+
+export interface FakeJiraStatus {
+  name: string;
+  category: 'new' | 'indeterminate' | 'done';
+  transition: string;  // Name of the transition leading to this status
+}
+
+export interface FakeJiraOptions {
+  projectKey?: string;
+  issueTypes?: string[];
+  statuses?: FakeJiraStatus[];
+}
+
+interface FakeJiraIssue {
+  id: string;
+  key: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  description: any | null;
+  parentKey?: string;
+  created: string;
+  updated: string;
+}
+
+interface FakeJiraLink {
+  id: string;
+  type: string;
+  inwardKey: string;
+  outwardKey: string;
+}
+
+const DEFAULT_ISSUE_TYPES = ['Story', 'Bug', 'Task', 'Epic', 'Subtask'];
+const DEFAULT_STATUSES: FakeJiraStatus[] = [
+  { name: 'To Do', category: 'new', transition: 'Reopen' },
+  { name: 'In Progress', category: 'indeterminate', transition: 'Start Progress' },
+  { name: 'In Review', category: 'indeterminate', transition: 'Request Review' },
+  { name: 'Done', category: 'done', transition: 'Resolve' }
+];
+const LINK_TYPES = [
+  { name: 'Blocks', inward: 'is blocked by', outward: 'blocks' },
+  { name: 'Relates', inward: 'relates to', outward: 'relates to' }
+];
+const INLINE_NODES = ['text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'date', 'status'];
+
+function jiraError(status: number, errorMessages: string[], errors: Record<string, string> = {}): FakeApiError {
+  return new FakeApiError(status, { errorMessages, errors });
+}
+
+export class FakeJiraApi {
+  private projectKey: string;
+  private issueTypes: string[];
+  private statuses: FakeJiraStatus[];
+  private issues: Map<string, FakeJiraIssue> = new Map();  // By key
+  private links: FakeJiraLink[] = [];
+  private clock = Date.parse('2024-01-01T00:00:00.000Z');
+  private sequence = 10000;
+
+  constructor(options: FakeJiraOptions = {}) {
+    this.projectKey = options.projectKey || 'ENG';
+    this.issueTypes = Array.from(new Set(options.issueTypes || DEFAULT_ISSUE_TYPES));
+    this.statuses = options.statuses || DEFAULT_STATUSES;
+  }
+
+  getProjectKey(): string {
+    return this.projectKey;
+  }
+
+  fetch = async (url: string, init: FakeFetchInit = {}): Promise<FakeFetchResponse> => {
+    const parsed = new URL(url, 'http://fake-jira.local');
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    const response = this.handle(init.method || 'GET', parsed.pathname, body, init.headers || {});
+    return fakeJsonResponse(response.status, response.body);
+  };
+
+  handle(method: string, path: string, body: any = {}, headers: Record<string, string> = {}): { status: number; body?: any } {
+    try {
+      const authorization = Object.entries(headers).find(([name]) => name.toLowerCase() === 'authorization')?.[1] || '';
+      if (!authorization.startsWith('Basic ')) {
+        throw jiraError(401, ['You are not authenticated. Authentication required to perform this operation.']);
+      }
+      return this.route(method.toUpperCase(), decodeURIComponent(path.replace(/\/+$/, '')), body || {});
+    } catch (error) {
+      if (error instanceof FakeApiError) return { status: error.status, body: error.body };
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: 500, body: { errorMessages: [message], errors: {} } };
+    }
+  }
+
+  private route(method: string, path: string, body: any): { status: number; body?: any } {
+    if (path === '/rest/api/3/issue' && method === 'POST') return { status: 201, body: this.createIssue(body.fields || {}) };
+    if (path === '/rest/api/3/issueLink' && method === 'POST') {
+      this.createLink(body);
+      return { status: 201 };
+    }
+
+    const match = path.match(/^\/rest\/api\/3\/issue\/([^/]+)(\/transitions)?$/);
+    if (match) {
+      const issue = this.getIssue(match[1] || '');
+      if (match[2] && method === 'GET') return { status: 200, body: { transitions: this.availableTransitions(issue) } };
+      if (match[2] && method === 'POST') {
+        this.transition(issue, body.transition?.id);
+        return { status: 204 };
+      }
+      if (!match[2] && method === 'GET') return { status: 200, body: this.toIssue(issue) };
+      if (!match[2] && method === 'PUT') {
+        this.updateIssue(issue, body.fields || {});
+        return { status: 204 };
+      }
+    }
+
+    throw jiraError(404, [`No route for ${method} ${path}`]);
+  }
+
+  /**
+   * Issues resolve by key (ENG-1) or numeric ID
+   */
+  private getIssue(idOrKey: string): FakeJiraIssue {
+    const key = idOrKey.toUpperCase();
+    const issue = this.issues.get(key) || Array.from(this.issues.values()).find(candidate => candidate.id === idOrKey);
+    if (!issue) {
+      throw jiraError(404, ['Issue does not exist or you do not have permission to see it.']);
+    }
+    return issue;
+  }
+
+  private createIssue(fields: any): { id: string; key: string; self: string } {
+    const errors: Record<string, string> = {};
+    if (fields.project?.key !== this.projectKey) errors.project = 'valid project is required';
+    if (!fields.summary || !String(fields.summary).trim()) errors.summary = 'You must specify a summary of the issue.';
+    if (!this.issueTypes.includes(fields.issuetype?.name)) errors.issuetype = 'Specify a valid issue type';
+    Object.assign(errors, this.validateFields(fields));
+    if (Object.keys(errors).length > 0) throw jiraError(400, [], errors);
+
+    const now = this.tick();
+    const id = String(++this.sequence);
+    const issue: FakeJiraIssue = {
+      id,
+      key: `${this.projectKey}-${this.issues.size + 1}`,
+      summary: fields.summary,
+      issueType: fields.issuetype.name,
+      status: this.statuses[0]?.name || 'To Do',
+      description: fields.description || null,
+      parentKey: fields.parent?.key ? this.getIssue(fields.parent.key).key : undefined,
+      created: now,
+      updated: now
+    };
+    this.issues.set(issue.key, issue);
+    return { id, key: issue.key, self: `/rest/api/3/issue/${id}` };
+  }
+
+  private updateIssue(issue: FakeJiraIssue, fields: any): void {
+    const errors = this.validateFields(fields);
+    if (fields.summary !== undefined && !String(fields.summary).trim()) errors.summary = 'You must specify a summary of the issue.';
+    if (fields.issuetype !== undefined && !this.issueTypes.includes(fields.issuetype?.name)) errors.issuetype = 'Specify a valid issue type';
+    if (Object.keys(errors).length > 0) throw jiraError(400, [], errors);
+
+    if (fields.summary !== undefined) issue.summary = fields.summary;
+    if (fields.issuetype !== undefined) issue.issueType = fields.issuetype.name;
+    if (fields.description !== undefined) issue.description = fields.description;
+    if (fields.parent !== undefined) {
+      const parent = fields.parent?.key ? this.getIssue(fields.parent.key) : undefined;
+      if (parent?.key === issue.key) throw jiraError(400, [], { parent: 'An issue cannot be its own parent' });
+      issue.parentKey = parent?.key;
+    }
+    issue.updated = this.tick();
+  }
+
+  private validateFields(fields: any): Record<string, string> {
+    const errors: Record<string, string> = {};
+    if (fields.description) {
+      const problem = this.validateDocument(fields.description);
+      if (problem) errors.description = `Operation value must be an Atlassian Document (${problem})`;
+    }
+    return errors;
+  }
+
+  /**
+   * First ADF rule the document breaks, if any
+   */
+  private validateDocument(doc: any): string | undefined {
+    if (doc?.type !== 'doc' || doc.version !== 1 || !Array.isArray(doc.content)) return 'expected a doc node with version 1';
+
+    const visit = (node: any, parentType: string): string | undefined => {
+      if (!node || typeof node.type !== 'string') return `node without type in ${parentType}`;
+      if (node.type === 'text' && !node.text) return `empty text node in ${parentType}`;
+      if (parentType === 'taskList' && node.type !== 'taskItem' && node.type !== 'taskList') return `${node.type} in taskList`;
+      if (parentType === 'taskItem' && !INLINE_NODES.includes(node.type)) return `${node.type} in taskItem`;
+      if (node.type === 'taskItem' && parentType !== 'taskList') return `taskItem in ${parentType}`;
+      if (node.content !== undefined && !Array.isArray(node.content)) return `content of ${node.type} is not an array`;
+      for (const child of node.content || []) {
+        const problem = visit(child, node.type);
+        if (problem) return problem;
+      }
+      return undefined;
+    };
+
+    for (const node of doc.content) {
+      const problem = visit(node, 'doc');
+      if (problem) return problem;
+    }
+    return undefined;
+  }
+
+  private availableTransitions(issue: FakeJiraIssue): any[] {
+    return this.statuses
+      .filter(status => status.name !== issue.status)
+      .map(status => ({
+        id: String(this.statuses.indexOf(status) + 11),
+        name: status.transition,
+        to: { name: status.name, statusCategory: { key: status.category } }
+      }));
+  }
+
+  private transition(issue: FakeJiraIssue, transitionId: string): void {
+    const transition = this.availableTransitions(issue).find(candidate => candidate.id === String(transitionId));
+    if (!transition) {
+      throw jiraError(400, [`Transition id '${transitionId}' is not valid for this issue.`]);
+    }
+    issue.status = transition.to.name;
+    issue.updated = this.tick();
+  }
+
+  /**
+   * Jira reads a link as "inwardIssue <outward description> outwardIssue" from the request, as JiraProvider does
+   */
+  private createLink(body: any): void {
+    const type = LINK_TYPES.find(candidate => candidate.name === body.type?.name);
+    if (!type) throw jiraError(404, [`No issue link type with name '${body.type?.name}' found.`]);
+    const inward = this.getIssue(body.inwardIssue?.key || '');
+    const outward = this.getIssue(body.outwardIssue?.key || '');
+    this.links.push({ id: String(++this.sequence), type: type.name, inwardKey: inward.key, outwardKey: outward.key });
+  }
+
+  private toIssue(issue: FakeJiraIssue): any {
+    const status = this.statuses.find(candidate => candidate.name === issue.status);
+    const summary = (key: string) => ({ key, fields: { summary: this.issues.get(key)?.summary || '' } });
+
+    return {
+      id: issue.id,
+      key: issue.key,
+      fields: {
+        summary: issue.summary,
+        status: { name: issue.status, statusCategory: { key: status?.category || 'new' } },
+        issuetype: { name: issue.issueType },
+        description: issue.description ? JSON.parse(JSON.stringify(issue.description)) : null,
+        created: issue.created,
+        updated: issue.updated,
+        // The other side of each link, seen from this issue
+        issuelinks: this.links
+          .filter(link => link.inwardKey === issue.key || link.outwardKey === issue.key)
+          .map(link => {
+            const type = LINK_TYPES.find(candidate => candidate.name === link.type);
+            return link.outwardKey === issue.key
+              ? { id: link.id, type, inwardIssue: summary(link.inwardKey) }
+              : { id: link.id, type, outwardIssue: summary(link.outwardKey) };
+          }),
+        subtasks: Array.from(this.issues.values())
+          .filter(other => other.parentKey === issue.key)
+          .map(other => summary(other.key)),
+        parent: issue.parentKey ? { key: issue.parentKey } : null
+      }
+    };
+  }
+
+  private tick(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+}
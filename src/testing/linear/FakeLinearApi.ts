@@ -0,0 +1,257 @@
+/**
+ * FakeLinearApi - In-memory implementation of the Linear GraphQL operations used by LinearProvider
+ *
+ * Operations are dispatched on their name (GetIssue, CreateIssue, UpdateIssue, ...) rather than parsed,
+ * and answered with every field LinearProvider selects. Covers issues with labels, workflow states,
+ * parents and "blocks" relations, team states and labels. `rateLimit()` answers the next requests the way
+ * Linear reports rate limits (400 with a RATELIMITED error code). Serve it with FakeApiServer and point
+ * `providers.available.linear.config.apiUrl` at it.
+ */
+
+import { FakeApiError, FakeFetchInit, FakeFetchResponse, fakeJsonResponse } from '../FakeApiServer.js';
+
+export interface FakeLinearOptions {
+  teamId?: string;
+  teamKey?: string;
+  states?: Array<{ name: string; type: string }>;
+}
+
+interface FakeLinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string;
+  stateId: string;
+  labelIds: string[];
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FakeLinearRelation {
+  type: string;
+  issueId: string;         // The issue holding the relation, e.g. the blocking issue
+  relatedIssueId: string;
+}
+
+const DEFAULT_STATES = [
+  { name: 'Backlog', type: 'backlog' },
+  { name: 'Todo', type: 'unstarted' },
+  { name: 'In Progress', type: 'started' },
+  { name: 'In Review', type: 'started' },
+  { name: 'Done', type: 'completed' },
+  { name: 'Canceled', type: 'canceled' }
+];
+
+const OPERATION_NAME = /^\s*(?:query|mutation)\s+(\w+)/;
+
+function graphqlError(status: number, message: string, code: string): FakeApiError {
+  return new FakeApiError(status, { data: null, errors: [{ message, extensions: { code } }] });
+}
+
+export class FakeLinearApi {
+  private teamId: string;
+  private teamKey: string;
+  private states: Array<{ id: string; name: string; type: string }>;
+  private labels: Array<{ id: string; name: string }> = [];
+  private issues: Map<string, FakeLinearIssue> = new Map();
+  private relations: FakeLinearRelation[] = [];
+  private rateLimited = 0;
+  private clock = Date.parse('2024-01-01T00:00:00.000Z');
+  private sequence = 0;
+
+  constructor(options: FakeLinearOptions = {}) {
+    this.teamId = options.teamId || this.nextId();
+    this.teamKey = options.teamKey || 'ENG';
+    this.states = (options.states || DEFAULT_STATES).map(state => ({ id: this.nextId(), ...state }));
+  }
+
+  getTeamId(): string {
+    return this.teamId;
+  }
+
+  /**
+   * Answer the next requests with Linear's rate limit error
+   */
+  rateLimit(requests: number = 1): void {
+    this.rateLimited += requests;
+  }
+
+  fetch = async (url: string, init: FakeFetchInit = {}): Promise<FakeFetchResponse> => {
+    const response = this.handle(init.body ? JSON.parse(init.body) : {}, init.headers || {});
+    return fakeJsonResponse(response.status, response.body);
+  };
+
+  handle(request: { query?: string; variables?: Record<string, any> }, headers: Record<string, string> = {}): { status: number; body: any } {
+    try {
+      if (!Object.entries(headers).some(([name, value]) => name.toLowerCase() === 'authorization' && value)) {
+        throw graphqlError(401, 'Authentication required, not authenticated', 'AUTHENTICATION_ERROR');
+      }
+      if (this.rateLimited > 0) {
+        this.rateLimited--;
+        throw graphqlError(400, 'Rate limit exceeded', 'RATELIMITED');
+      }
+      return { status: 200, body: { data: this.route(request.query || '', request.variables || {}) } };
+    } catch (error) {
+      if (error instanceof FakeApiError) return { status: error.status, body: error.body };
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: 500, body: { errors: [{ message, extensions: { code: 'INTERNAL_SERVER_ERROR' } }] } };
+    }
+  }
+
+  private route(query: string, variables: Record<string, any>): any {
+    const operation = query.match(OPERATION_NAME)?.[1];
+
+    switch (operation) {
+      case 'GetIssue':
+      case 'ReadIssue':
+        return { issue: this.toIssue(this.getIssue(variables.id)) };
+      case 'CreateIssue':
+        return { issueCreate: { success: true, issue: this.toIssue(this.createIssue(variables.input || {})) } };
+      case 'UpdateIssue':
+        this.updateIssue(this.getIssue(variables.id), variables.input || {});
+        return { issueUpdate: { success: true } };
+      case 'CreateRelation':
+        this.createRelation(variables.input || {});
+        return { issueRelationCreate: { success: true } };
+      case 'TeamStates':
+        this.getTeam(variables.id);
+        return { team: { states: { nodes: this.states } } };
+      case 'TeamLabels':
+        this.getTeam(variables.id);
+        return { team: { labels: { nodes: this.labels } } };
+      case 'CreateLabel':
+        return { issueLabelCreate: { success: true, issueLabel: this.createLabel(variables.input || {}) } };
+      default:
+        throw graphqlError(400, `Unsupported operation ${operation || '(anonymous)'} in the fake Linear API`, 'GRAPHQL_VALIDATION_FAILED');
+    }
+  }
+
+  private getTeam(id: string): void {
+    if (id !== this.teamId && id !== this.teamKey) {
+      throw graphqlError(200, 'Entity not found: Team', 'INVALID_INPUT');
+    }
+  }
+
+  /**
+   * Issues resolve by UUID or identifier (ENG-12), like `issue(id:)` on Linear
+   */
+  private getIssue(id: string): FakeLinearIssue {
+    const key = String(id || '').toUpperCase();
+    const issue = this.issues.get(id) || Array.from(this.issues.values()).find(candidate => candidate.identifier === key);
+    if (!issue) {
+      throw graphqlError(200, 'Entity not found: Issue', 'INVALID_INPUT');
+    }
+    return issue;
+  }
+
+  private createIssue(input: Record<string, any>): FakeLinearIssue {
+    this.getTeam(input.teamId);
+    if (!input.title || !String(input.title).trim()) {
+      throw graphqlError(400, 'Argument Validation Error: title should not be empty', 'INVALID_INPUT');
+    }
+
+    const now = this.tick();
+    const defaultState = this.states.find(state => state.type === 'unstarted') || this.states[0];
+    const issue: FakeLinearIssue = {
+      id: this.nextId(),
+      identifier: `${this.teamKey}-${this.issues.size + 1}`,
+      title: input.title,
+      description: input.description || '',
+      stateId: input.stateId || defaultState?.id || '',
+      labelIds: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.issues.set(issue.id, issue);
+    this.updateIssue(issue, { stateId: issue.stateId, labelIds: input.labelIds, parentId: input.parentId });
+    return issue;
+  }
+
+  private updateIssue(issue: FakeLinearIssue, input: Record<string, any>): void {
+    if (input.stateId !== undefined && !this.states.some(state => state.id === input.stateId)) {
+      throw graphqlError(400, `Workflow state ${input.stateId} not found`, 'INVALID_INPUT');
+    }
+    for (const labelId of input.labelIds || []) {
+      if (!this.labels.some(label => label.id === labelId)) {
+        throw graphqlError(400, `Label ${labelId} not found`, 'INVALID_INPUT');
+      }
+    }
+    if (input.parentId) {
+      const parent = this.getIssue(input.parentId);
+      if (parent.id === issue.id) throw graphqlError(400, 'An issue cannot be its own parent', 'INVALID_INPUT');
+      input = { ...input, parentId: parent.id };
+    }
+
+    if (input.title !== undefined) issue.title = input.title;
+    if (input.description !== undefined) issue.description = input.description;
+    if (input.stateId !== undefined) issue.stateId = input.stateId;
+    if (input.labelIds !== undefined) issue.labelIds = [...input.labelIds];
+    if (input.parentId !== undefined) issue.parentId = input.parentId || undefined;
+    issue.updatedAt = this.tick();
+  }
+
+  private createRelation(input: Record<string, any>): void {
+    const issue = this.getIssue(input.issueId);
+    const related = this.getIssue(input.relatedIssueId);
+    if (!['blocks', 'duplicate', 'related'].includes(input.type)) {
+      throw graphqlError(400, `Invalid relation type ${input.type}`, 'INVALID_INPUT');
+    }
+    this.relations.push({ type: input.type, issueId: issue.id, relatedIssueId: related.id });
+  }
+
+  private createLabel(input: Record<string, any>): { id: string; name: string } {
+    this.getTeam(input.teamId);
+    if (this.labels.some(label => label.name.toLowerCase() === String(input.name || '').toLowerCase())) {
+      throw graphqlError(400, `Label "${input.name}" already exists`, 'INVALID_INPUT');
+    }
+    const label = { id: this.nextId(), name: input.name };
+    this.labels.push(label);
+    return label;
+  }
+
+  private toIssue(issue: FakeLinearIssue): any {
+    const summary = (other: FakeLinearIssue) => ({ id: other.id, identifier: other.identifier, title: other.title, url: this.buildUrl(other) });
+    const children = Array.from(this.issues.values()).filter(other => other.parentId === issue.id);
+
+    return {
+      id: issue.id,
+      identifier: issue.identifier,
+      title: issue.title,
+      description: issue.description || null,
+      url: this.buildUrl(issue),
+      createdAt: issue.createdAt,
+      updatedAt: issue.updatedAt,
+      state: this.states.find(state => state.id === issue.stateId) || null,
+      labels: { nodes: this.labels.filter(label => issue.labelIds.includes(label.id)) },
+      parent: issue.parentId ? { id: issue.parentId } : null,
+      children: { nodes: children.map(child => ({ ...summary(child), description: child.description || null })) },
+      relations: {
+        nodes: this.relations
+          .filter(relation => relation.issueId === issue.id)
+          .map(relation => ({ type: relation.type, relatedIssue: summary(this.getIssue(relation.relatedIssueId)) }))
+      },
+      inverseRelations: {
+        nodes: this.relations
+          .filter(relation => relation.relatedIssueId === issue.id)
+          .map(relation => ({ type: relation.type, issue: { id: relation.issueId } }))
+      }
+    };
+  }
+
+  private buildUrl(issue: FakeLinearIssue): string {
+    return `https://linear.app/fake/issue/${issue.identifier.toLowerCase()}`;
+  }
+
+  /**
+   * Sequential UUID-shaped IDs so runs stay deterministic
+   */
+  private nextId(): string {
+    return `00000000-0000-4000-8000-${(++this.sequence).toString(16).padStart(12, '0')}`;
+  }
+
+  private tick(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+}
@@ -0,0 +1,835 @@
+/**
+ * FakeNotionApi - In-memory implementation of the Notion REST endpoints used by NotionProvider
+ *
+ * Covers databases (schema + query with filters, sorts and pagination), pages (create, retrieve,
+ * property updates validated against the schema), blocks (children listing with pagination,
+ * append with `after`, update, delete), comments (list, create, reply) and users. Plug it into the SDK through `fetch`, or serve it over HTTP
+ * with FakeNotionServer. State can be seeded from and exported to a JSON fixture.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { Client } from '@notionhq/client';
+import { FakeFetchResponse } from '../FakeApiServer.js';
+
+export { FakeFetchResponse };
+
+export interface NotionFixture {
+  databases: any[];
+  pages: any[];
+  blocks: any[];
+  comments?: any[];
+}
+
+export interface FakeNotionResponse {
+  status: number;
+  body: any;
+}
+
+export interface TaskDatabaseOptions {
+  id?: string;
+  title?: string;
+  statusOptions?: string[];
+  typeOptions?: string[];
+  extraProperties?: Record<string, any>;
+}
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_STATUS_OPTIONS = ['Not started', 'In Progress', 'Test', 'Done'];
+const DEFAULT_TYPE_OPTIONS = ['Feature', 'Bug', 'Refactoring'];
+
+const DEFAULT_ANNOTATIONS = {
+  bold: false,
+  italic: false,
+  strikethrough: false,
+  underline: false,
+  code: false,
+  color: 'default'
+};
+
+/**
+ * Build an SDK client on top of a fetch-style handler (FakeNotionApi, NotionRecorder or NotionReplayer)
+ */
+export function createNotionTestClient(handler: { fetch: (url: string, init?: any) => Promise<FakeFetchResponse> }): Client {
+  return new Client({ auth: 'fake-notion-token', fetch: handler.fetch });
+}
+
+class FakeNotionError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+export class FakeNotionApi {
+  private databases: Map<string, any> = new Map();
+  private pages: Map<string, any> = new Map();
+  private blocks: Map<string, any> = new Map();
+  // Ordered child block IDs of every page and block
+  private children: Map<string, string[]> = new Map();
+  private comments: any[] = [];
+  private users: Map<string, any> = new Map([
+    ['fake-user', { object: 'user', id: 'fake-user', type: 'person', name: 'Fake User', avatar_url: null, person: { email: 'fake@example.com' } }]
+  ]);
+  private clock = Date.parse('2024-01-01T00:00:00.000Z');
+  private sequence = 0;
+
+  static fromFixture(fixture: NotionFixture): FakeNotionApi {
+    const api = new FakeNotionApi();
+    api.loadFixture(fixture);
+    return api;
+  }
+
+  static fromFixtureFile(path: string): FakeNotionApi {
+    return this.fromFixture(JSON.parse(readFileSync(path, 'utf-8')));
+  }
+
+  /**
+   * SDK-compatible fetch: `new Client({ auth: 'fake', fetch: api.fetch })`
+   */
+  fetch = async (url: string, init: { method?: string; body?: string } = {}): Promise<FakeFetchResponse> => {
+    const parsed = new URL(url, 'http://fake-notion.local');
+    const body = init.body ? JSON.parse(init.body) : undefined;
+    const response = this.handle(init.method || 'GET', parsed.pathname, Object.fromEntries(parsed.searchParams), body);
+    const text = JSON.stringify(response.body);
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      headers: { 'content-type': 'application/json' },
+      text: async () => text
+    };
+  };
+
+  handle(method: string, path: string, query: Record<string, string> = {}, body: any = {}): FakeNotionResponse {
+    try {
+      return { status: 200, body: this.route(method.toUpperCase(), path.replace(/\/+$/, ''), query, body || {}) };
+    } catch (error) {
+      if (error instanceof FakeNotionError) {
+        return { status: error.status, body: { object: 'error', status: error.status, code: error.code, message: error.message } };
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: 500, body: { object: 'error', status: 500, code: 'internal_server_error', message } };
+    }
+  }
+
+  /**
+   * Create a database shaped like the one NotionProvider expects (title, Status, Type)
+   */
+  createTaskDatabase(options: TaskDatabaseOptions = {}): string {
+    return this.createDatabase({
+      id: options.id,
+      title: options.title || 'Tasks',
+      properties: {
+        Name: { type: 'title', title: {} },
+        Status: { type: 'status', status: { options: (options.statusOptions || DEFAULT_STATUS_OPTIONS).map(name => ({ name })) } },
+        Type: { type: 'select', select: { options: (options.typeOptions || DEFAULT_TYPE_OPTIONS).map(name => ({ name })) } },
+        ...(options.extraProperties || {})
+      }
+    });
+  }
+
+  createDatabase(definition: { id?: string; title: string; properties: Record<string, any> }): string {
+    const id = definition.id ? this.normalizeId(definition.id) : this.nextId();
+    const properties: Record<string, any> = {};
+
+    for (const [name, property] of Object.entries(definition.properties)) {
+      const type = property.type as string;
+      const config = property[type] || {};
+      if (config.options) {
+        config.options = config.options.map((option: any) => this.buildOption(option.name, option.color));
+      }
+      properties[name] = { id: this.shortId(), name, type, [type]: config };
+    }
+
+    const now = this.tick();
+    this.databases.set(id, {
+      object: 'database',
+      id,
+      created_time: now,
+      last_edited_time: now,
+      title: this.buildRichText([{ text: { content: definition.title } }]),
+      description: [],
+      properties,
+      parent: { type: 'workspace', workspace: true },
+      url: this.buildUrl(id),
+      archived: false,
+      in_trash: false,
+      is_inline: false
+    });
+    return id;
+  }
+
+  /**
+   * Add a workspace user, e.g. to assign people properties or author comments
+   */
+  createUser(name: string, id?: string): string {
+    const userId = id || this.nextId();
+    this.users.set(userId, { object: 'user', id: userId, type: 'person', name, avatar_url: null, person: {} });
+    return userId;
+  }
+
+  getDatabaseIds(): string[] {
+    return Array.from(this.databases.keys());
+  }
+
+  toFixture(): NotionFixture {
+    const blocks: any[] = [];
+    const visited = new Set<string>();
+    // Walk the trees so the fixture keeps children order
+    const visit = (parentId: string) => {
+      if (visited.has(parentId)) return;
+      visited.add(parentId);
+      for (const childId of this.children.get(parentId) || []) {
+        const block = this.blocks.get(childId);
+        if (block) {
+          blocks.push(block);
+          visit(childId);
+        }
+      }
+    };
+    for (const pageId of this.pages.keys()) visit(pageId);
+
+    return JSON.parse(JSON.stringify({
+      databases: Array.from(this.databases.values()),
+      pages: Array.from(this.pages.values()),
+      blocks,
+      comments: this.comments
+    }));
+  }
+
+  saveFixture(path: string): void {
+    writeFileSync(path, JSON.stringify(this.toFixture(), null, 2) + '\n', 'utf-8');
+  }
+
+  loadFixture(fixture: NotionFixture): void {
+    for (const database of fixture.databases || []) {
+      this.databases.set(this.normalizeId(database.id), database);
+    }
+    for (const page of fixture.pages || []) {
+      this.pages.set(this.normalizeId(page.id), page);
+    }
+    for (const block of fixture.blocks || []) {
+      const id = this.normalizeId(block.id);
+      this.blocks.set(id, block);
+      const parentId = block.parent?.page_id || block.parent?.block_id;
+      if (parentId) this.attachChild(this.normalizeId(parentId), id);
+    }
+    this.comments.push(...(fixture.comments || []));
+
+    // Keep timestamps moving forward from the most recent fixture entry
+    const timestamps = [...this.databases.values(), ...this.pages.values(), ...this.blocks.values()]
+      .map(entry => Date.parse(entry.last_edited_time || ''))
+      .filter(time => !isNaN(time));
+    this.clock = Math.max(this.clock, ...timestamps);
+  }
+
+  private route(method: string, path: string, query: Record<string, string>, body: any): any {
+    const segments = path.split('/').filter(Boolean);
+    if (segments[0] === 'v1') segments.shift();
+    const [resource, rawId, sub] = segments;
+    const id = rawId ? this.normalizeId(rawId) : '';
+
+    if (resource === 'databases' && id && !sub && method === 'GET') return this.getDatabase(id);
+    if (resource === 'databases' && id && sub === 'query' && method === 'POST') return this.queryDatabase(id, body);
+    if (resource === 'pages' && !id && method === 'POST') return this.createPage(body);
+    if (resource === 'pages' && id && !sub && method === 'GET') return this.getPage(id);
+    if (resource === 'pages' && id && !sub && method === 'PATCH') return this.updatePage(id, body);
+    if (resource === 'blocks' && id && sub === 'children' && method === 'GET') return this.listChildren(id, query);
+    if (resource === 'blocks' && id && sub === 'children' && method === 'PATCH') return this.appendChildren(id, body);
+    if (resource === 'blocks' && id && !sub && method === 'GET') return this.getBlock(id);
+    if (resource === 'blocks' && id && !sub && method === 'PATCH') return this.updateBlock(id, body);
+    if (resource === 'blocks' && id && !sub && method === 'DELETE') return this.deleteBlock(id);
+    if (resource === 'users' && !rawId && method === 'GET') return this.paginate(Array.from(this.users.values()), query.page_size ? Number(query.page_size) : undefined, query.start_cursor, 'user');
+    if (resource === 'users' && rawId && method === 'GET') return this.getUser(rawId);
+    if (resource === 'comments' && !id && method === 'GET') return this.listComments(query);
+    if (resource === 'comments' && !id && method === 'POST') return this.createComment(body);
+
+    throw new FakeNotionError(400, 'invalid_request_url', `Invalid request URL: ${method} ${path}`);
+  }
+
+  // Databases
+
+  private getDatabase(id: string): any {
+    const database = this.databases.get(id);
+    if (!database) {
+      throw new FakeNotionError(404, 'object_not_found', `Could not find database with ID: ${id}.`);
+    }
+    return database;
+  }
+
+  private queryDatabase(id: string, body: any): any {
+    const database = this.getDatabase(id);
+    let results = Array.from(this.pages.values())
+      .filter(page => !page.archived && this.normalizeId(page.parent?.database_id || '') === id);
+
+    if (body.filter) {
+      results = results.filter(page => this.matchesFilter(page, body.filter, database));
+    }
+    if (Array.isArray(body.sorts) && body.sorts.length > 0) {
+      results.sort((a, b) => this.compareBySorts(a, b, body.sorts));
+    } else {
+      results.sort((a, b) => b.created_time.localeCompare(a.created_time));
+    }
+
+    return this.paginate(results, body.page_size, body.start_cursor, 'page_or_database');
+  }
+
+  private matchesFilter(page: any, filter: any, database: any): boolean {
+    if (Array.isArray(filter.and)) return filter.and.every((inner: any) => this.matchesFilter(page, inner, database));
+    if (Array.isArray(filter.or)) return filter.or.some((inner: any) => this.matchesFilter(page, inner, database));
+
+    if (filter.timestamp) {
+      const value = page[filter.timestamp];
+      const condition = filter[filter.timestamp] || {};
+      if (condition.after) return value > condition.after;
+      if (condition.before) return value < condition.before;
+      if (condition.on_or_after) return value >= condition.on_or_after;
+      if (condition.on_or_before) return value <= condition.on_or_before;
+      return true;
+    }
+
+    const property = page.properties?.[filter.property];
+    if (!database.properties[filter.property]) {
+      throw new FakeNotionError(400, 'validation_error', `Could not find property with name or id: ${filter.property}`);
+    }
+    const conditionType = Object.keys(filter).find(key => key !== 'property') || '';
+    const condition = filter[conditionType] || {};
+    const value = this.comparableValue(property);
+
+    if (condition.is_empty) return value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    if (condition.is_not_empty) return !(value === null || value === '' || (Array.isArray(value) && value.length === 0));
+
+    if (Array.isArray(value)) {
+      if ('contains' in condition) return value.includes(condition.contains);
+      if ('does_not_contain' in condition) return !value.includes(condition.does_not_contain);
+      return true;
+    }
+
+    const text = value === null ? '' : String(value);
+    if ('equals' in condition) return typeof value === 'boolean' || typeof value === 'number' ? value === condition.equals : text === String(condition.equals);
+    if ('does_not_equal' in condition) return text !== String(condition.does_not_equal);
+    if ('contains' in condition) return text.toLowerCase().includes(String(condition.contains).toLowerCase());
+    if ('does_not_contain' in condition) return !text.toLowerCase().includes(String(condition.does_not_contain).toLowerCase());
+    if ('starts_with' in condition) return text.toLowerCase().startsWith(String(condition.starts_with).toLowerCase());
+    if ('before' in condition) return !!value && text < condition.before;
+    if ('after' in condition) return !!value && text > condition.after;
+    if ('on_or_before' in condition) return !!value && text <= condition.on_or_before;
+    if ('on_or_after' in condition) return !!value && text >= condition.on_or_after;
+    return true;
+  }
+
+  private compareBySorts(a: any, b: any, sorts: any[]): number {
+    for (const sort of sorts) {
+      const left = sort.timestamp ? a[sort.timestamp] : this.comparableValue(a.properties?.[sort.property]);
+      const right = sort.timestamp ? b[sort.timestamp] : this.comparableValue(b.properties?.[sort.property]);
+      const leftText = Array.isArray(left) ? left.join(',') : left ?? '';
+      const rightText = Array.isArray(right) ? right.join(',') : right ?? '';
+      if (leftText === rightText) continue;
+      const order = leftText < rightText ? -1 : 1;
+      return sort.direction === 'descending' ? -order : order;
+    }
+    return 0;
+  }
+
+  private comparableValue(property: any): any {
+    if (!property) return null;
+    switch (property.type) {
+      case 'title':
+      case 'rich_text':
+        return (property[property.type] || []).map((text: any) => text.plain_text).join('');
+      case 'status':
+      case 'select':
+        return property[property.type]?.name ?? null;
+      case 'multi_select':
+        return (property.multi_select || []).map((option: any) => option.name);
+      case 'people':
+      case 'relation':
+        return (property[property.type] || []).map((item: any) => item.id);
+      case 'date':
+        return property.date?.start ?? null;
+      default:
+        return property[property.type] ?? null;
+    }
+  }
+
+  // Pages
+
+  private getPage(id: string): any {
+    const page = this.pages.get(id);
+    if (!page) {
+      throw new FakeNotionError(404, 'object_not_found', `Could not find page with ID: ${id}. Make sure the relevant pages and databases are shared with your integration.`);
+    }
+    return page;
+  }
+
+  private createPage(body: any): any {
+    const parent = body.parent || {};
+    const id = this.nextId();
+    const now = this.tick();
+    let properties: Record<string, any>;
+    let pageParent: any;
+
+    if (parent.database_id) {
+      const database = this.getDatabase(this.normalizeId(parent.database_id));
+      pageParent = { type: 'database_id', database_id: database.id };
+      properties = this.buildPageProperties(database, body.properties || {}, true);
+    } else if (parent.page_id) {
+      const parentId = this.normalizeId(parent.page_id);
+      this.getPage(parentId);
+      pageParent = { type: 'page_id', page_id: parentId };
+      const title = body.properties?.title?.title || body.properties?.Name?.title || [];
+      properties = { title: { id: 'title', type: 'title', title: this.buildRichText(title) } };
+    } else {
+      throw new FakeNotionError(400, 'validation_error', 'body failed validation: body.parent should be defined.');
+    }
+
+    const page = {
+      object: 'page',
+      id,
+      created_time: now,
+      last_edited_time: now,
+      created_by: { object: 'user', id: 'fake-user' },
+      last_edited_by: { object: 'user', id: 'fake-user' },
+      cover: null,
+      icon: body.icon || null,
+      parent: pageParent,
+      archived: false,
+      in_trash: false,
+      properties,
+      url: this.buildUrl(id),
+      public_url: null
+    };
+    this.pages.set(id, page);
+    if (parent.database_id) {
+      this.syncDualRelations(page, this.getDatabase(pageParent.database_id), {});
+    }
+
+    if (pageParent.page_id) {
+      const childPage = this.createBlock({ type: 'child_page', child_page: { title: this.plainText(properties.title.title) } }, pageParent.page_id, id);
+      this.attachChild(pageParent.page_id, childPage.id);
+    }
+    if (Array.isArray(body.children)) {
+      this.insertBlocks(id, body.children);
+    }
+    return page;
+  }
+
+  private updatePage(id: string, body: any): any {
+    const page = this.getPage(id);
+
+    if (body.properties) {
+      if (page.parent?.database_id) {
+        const database = this.getDatabase(this.normalizeId(page.parent.database_id));
+        const previous = { ...page.properties };
+        Object.assign(page.properties, this.buildPageProperties(database, body.properties, false));
+        this.syncDualRelations(page, database, previous);
+      } else if (body.properties.title) {
+        page.properties.title = { id: 'title', type: 'title', title: this.buildRichText(body.properties.title.title || []) };
+      }
+    }
+    if (typeof body.archived === 'boolean') page.archived = body.archived;
+    if (typeof body.in_trash === 'boolean') page.in_trash = body.in_trash;
+    if (body.icon !== undefined) page.icon = body.icon;
+
+    page.last_edited_time = this.tick();
+    return page;
+  }
+
+  /**
+   * Two-way relations mirror each other on the related pages, e.g. "Parent item" and "Sub-item" of sub-items
+   */
+  private syncDualRelations(page: any, database: any, previous: Record<string, any>): void {
+    const relatedIds = (property: any): string[] => (property?.relation || []).map((related: any) => related.id);
+
+    for (const [name, schema] of Object.entries<any>(database.properties)) {
+      const syncedName = schema.type === 'relation' ? schema.relation?.dual_property?.synced_property_name : undefined;
+      if (!syncedName) continue;
+
+      const before = relatedIds(previous[name]);
+      const after = relatedIds(page.properties[name]);
+      for (const relatedId of [...before, ...after]) {
+        const related = this.pages.get(relatedId);
+        const synced = related?.properties?.[syncedName];
+        if (!synced || synced.type !== 'relation') continue;
+
+        const others = relatedIds(synced).filter(id => id !== page.id);
+        synced.relation = (after.includes(relatedId) ? [...others, page.id] : others).map(id => ({ id }));
+      }
+    }
+  }
+
+  /**
+   * Validate property values against the database schema, the way the Notion API does
+   */
+  private buildPageProperties(database: any, input: Record<string, any>, isCreate: boolean): Record<string, any> {
+    const properties: Record<string, any> = {};
+
+    if (isCreate) {
+      for (const [name, schema] of Object.entries<any>(database.properties)) {
+        properties[name] = this.emptyPropertyValue(schema);
+      }
+    }
+
+    for (const [name, value] of Object.entries<any>(input)) {
+      const schema = database.properties[name]
+        || Object.values<any>(database.properties).find(property => property.id === name);
+      if (!schema) {
+        throw new FakeNotionError(400, 'validation_error', `${name} is not a property that exists.`);
+      }
+      properties[schema.name] = { id: schema.id, type: schema.type, [schema.type]: this.buildPropertyValue(schema, value) };
+    }
+
+    return properties;
+  }
+
+  private buildPropertyValue(schema: any, value: any): any {
+    const type = schema.type as string;
+    if (!value || !(type in value)) {
+      const given = value ? Object.keys(value).join(', ') : 'nothing';
+      throw new FakeNotionError(400, 'validation_error', `${schema.name} is expected to be ${type}, got ${given}.`);
+    }
+    const raw = value[type];
+
+    switch (type) {
+      case 'title':
+      case 'rich_text':
+        return this.buildRichText(raw || []);
+      case 'status': {
+        if (raw === null) return null;
+        const option = schema.status.options.find((candidate: any) => candidate.name === raw.name || candidate.id === raw.id);
+        if (!option) {
+          throw new FakeNotionError(400, 'validation_error', `Invalid status option. Status option "${raw.name}" does not exist".`);
+        }
+        return option;
+      }
+      case 'select':
+        return raw === null ? null : this.findOrCreateOption(schema.select, raw.name);
+      case 'multi_select':
+        return (raw || []).map((option: any) => this.findOrCreateOption(schema.multi_select, option.name));
+      case 'people':
+        return (raw || []).map((person: any) => ({ object: 'user', id: person.id }));
+      case 'relation':
+        return (raw || []).map((related: any) => ({ id: this.normalizeId(related.id) }));
+      case 'date':
+        return raw === null ? null : { start: raw.start, end: raw.end ?? null, time_zone: raw.time_zone ?? null };
+      default:
+        return raw;
+    }
+  }
+
+  private emptyPropertyValue(schema: any): any {
+    const emptyValues: Record<string, any> = {
+      title: [], rich_text: [], multi_select: [], people: [], relation: [], checkbox: false
+    };
+    const value = schema.type in emptyValues ? emptyValues[schema.type] : null;
+    return { id: schema.id, type: schema.type, [schema.type]: value };
+  }
+
+  private findOrCreateOption(config: any, name: string): any {
+    config.options = config.options || [];
+    let option = config.options.find((candidate: any) => candidate.name === name);
+    if (!option) {
+      if (name.includes(',')) {
+        throw new FakeNotionError(400, 'validation_error', 'Select option names cannot contain commas.');
+      }
+      option = this.buildOption(name);
+      config.options.push(option);
+    }
+    return option;
+  }
+
+  private buildOption(name: string, color: string = 'default'): any {
+    return { id: this.shortId(), name, color };
+  }
+
+  // Blocks
+
+  private getBlock(id: string): any {
+    const block = this.blocks.get(id);
+    if (!block || block.archived) {
+      throw new FakeNotionError(404, 'object_not_found', `Could not find block with ID: ${id}. Make sure the relevant pages and databases are shared with your integration.`);
+    }
+    return block;
+  }
+
+  private assertContainer(id: string): void {
+    if (!this.pages.has(id)) this.getBlock(id);
+  }
+
+  private listChildren(id: string, query: Record<string, string>): any {
+    this.assertContainer(id);
+    const results = (this.children.get(id) || [])
+      .map(childId => this.blocks.get(childId))
+      .filter(block => block && !block.archived);
+    return this.paginate(results, query.page_size ? parseInt(query.page_size, 10) : undefined, query.start_cursor, 'block');
+  }
+
+  private appendChildren(id: string, body: any): any {
+    this.assertContainer(id);
+    const children = body.children;
+    if (!Array.isArray(children)) {
+      throw new FakeNotionError(400, 'validation_error', 'body failed validation: body.children should be defined, instead was `undefined`.');
+    }
+    if (children.length > MAX_PAGE_SIZE) {
+      throw new FakeNotionError(400, 'validation_error', `body failed validation: body.children.length should be ≤ \`${MAX_PAGE_SIZE}\`, instead was \`${children.length}\`.`);
+    }
+
+    const parent = this.blocks.get(id);
+    if (parent && !this.canHaveChildren(parent.type)) {
+      throw new FakeNotionError(400, 'validation_error', `Block type ${parent.type} does not support children.`);
+    }
+
+    let after: string | undefined;
+    if (body.after) {
+      after = this.normalizeId(body.after);
+      if (!(this.children.get(id) || []).includes(after)) {
+        throw new FakeNotionError(400, 'validation_error', `Block ${body.after} is not a child of ${id}.`);
+      }
+    }
+
+    const created = this.insertBlocks(id, children, after);
+    if (parent) parent.has_children = true;
+    this.touchContainer(id);
+    return { object: 'list', results: created, next_cursor: null, has_more: false, type: 'block', block: {} };
+  }
+
+  private updateBlock(id: string, body: any): any {
+    const block = this.getBlock(id);
+
+    if (body.archived === true || body.in_trash === true) {
+      return this.deleteBlock(id);
+    }
+    if (body[block.type]) {
+      const content = { ...body[block.type] };
+      if (content.rich_text) content.rich_text = this.buildRichText(content.rich_text);
+      delete content.children;
+      block[block.type] = { ...block[block.type], ...content };
+    } else {
+      const given = Object.keys(body).filter(key => key !== 'type').join(', ');
+      if (given) {
+        throw new FakeNotionError(400, 'validation_error', `Block type ${block.type} cannot be updated with ${given}.`);
+      }
+    }
+
+    block.last_edited_time = this.tick();
+    return block;
+  }
+
+  private deleteBlock(id: string): any {
+    const block = this.getBlock(id);
+    block.archived = true;
+    block.in_trash = true;
+    block.last_edited_time = this.tick();
+    return block;
+  }
+
+  private insertBlocks(parentId: string, inputs: any[], after?: string): any[] {
+    const created = inputs.map(input => this.createBlock(input, parentId));
+    const ids = this.children.get(parentId) || [];
+    const position = after ? ids.indexOf(after) + 1 : ids.length;
+    ids.splice(position, 0, ...created.map(block => block.id));
+    this.children.set(parentId, ids);
+
+    inputs.forEach((input, index) => {
+      const type = input.type || Object.keys(input).find(key => key !== 'object');
+      const nested = type ? input[type]?.children : undefined;
+      const block = created[index];
+      if (block && Array.isArray(nested) && nested.length > 0) {
+        this.insertBlocks(block.id, nested);
+        block.has_children = true;
+      }
+    });
+
+    return created;
+  }
+
+  private createBlock(input: any, parentId: string, forcedId?: string): any {
+    const type = input.type || Object.keys(input).find(key => key !== 'object');
+    if (!type || !input[type]) {
+      throw new FakeNotionError(400, 'validation_error', 'body failed validation: block type should be defined.');
+    }
+
+    const content = { ...input[type] };
+    delete content.children;
+    if (content.rich_text) content.rich_text = this.buildRichText(content.rich_text);
+    if (type === 'to_do') content.checked = !!content.checked;
+    if ('color' in content === false && ['paragraph', 'heading_1', 'heading_2', 'heading_3', 'bulleted_list_item', 'numbered_list_item', 'to_do', 'quote', 'callout', 'toggle'].includes(type)) {
+      content.color = 'default';
+    }
+
+    const now = this.tick();
+    const block = {
+      object: 'block',
+      id: forcedId || this.nextId(),
+      parent: this.pages.has(parentId) ? { type: 'page_id', page_id: parentId } : { type: 'block_id', block_id: parentId },
+      created_time: now,
+      last_edited_time: now,
+      created_by: { object: 'user', id: 'fake-user' },
+      last_edited_by: { object: 'user', id: 'fake-user' },
+      has_children: false,
+      archived: false,
+      in_trash: false,
+      type,
+      [type]: content
+    };
+    this.blocks.set(block.id, block);
+    return block;
+  }
+
+  private canHaveChildren(type: string): boolean {
+    return !['divider', 'code', 'equation', 'image', 'file', 'pdf', 'video', 'bookmark', 'embed', 'child_database', 'breadcrumb', 'table_of_contents'].includes(type);
+  }
+
+  private attachChild(parentId: string, childId: string): void {
+    const ids = this.children.get(parentId) || [];
+    if (!ids.includes(childId)) ids.push(childId);
+    this.children.set(parentId, ids);
+  }
+
+  private touchContainer(id: string): void {
+    const container = this.pages.get(id) || this.blocks.get(id);
+    if (container) container.last_edited_time = this.tick();
+  }
+
+  // Users
+
+  private getUser(id: string): any {
+    const user = this.users.get(this.normalizeId(id));
+    if (!user) {
+      throw new FakeNotionError(404, 'object_not_found', `Could not find user with ID: ${id}.`);
+    }
+    return user;
+  }
+
+  // Comments
+
+  private listComments(query: Record<string, string>): any {
+    const blockId = this.normalizeId(query.block_id || '');
+    if (!this.pages.has(blockId)) this.getBlock(blockId);
+
+    // Like Notion, resolved comments are not returned
+    const comments = this.comments.filter(comment =>
+      !comment.resolved && this.normalizeId(comment.parent.page_id || comment.parent.block_id || '') === blockId
+    );
+    return this.paginate(comments, query.page_size ? Number(query.page_size) : undefined, query.start_cursor, 'comment');
+  }
+
+  private createComment(body: any): any {
+    let parent: any;
+    let discussionId: string;
+
+    if (body.discussion_id) {
+      const thread = this.comments.find(comment => comment.discussion_id === body.discussion_id);
+      if (!thread) {
+        throw new FakeNotionError(404, 'object_not_found', `Could not find discussion with ID: ${body.discussion_id}.`);
+      }
+      parent = thread.parent;
+      discussionId = thread.discussion_id;
+    } else if (body.parent?.page_id) {
+      const pageId = this.normalizeId(body.parent.page_id);
+      this.getPage(pageId);
+      parent = { type: 'page_id', page_id: pageId };
+      discussionId = this.nextId();
+    } else {
+      throw new FakeNotionError(400, 'validation_error', 'body failed validation: body.parent or body.discussion_id should be defined.');
+    }
+
+    const now = this.tick();
+    const comment = {
+      object: 'comment',
+      id: this.nextId(),
+      parent,
+      discussion_id: discussionId,
+      created_time: now,
+      last_edited_time: now,
+      created_by: { object: 'user', id: 'fake-user' },
+      rich_text: this.buildRichText(body.rich_text || [])
+    };
+    this.comments.push(comment);
+    return comment;
+  }
+
+  // Helpers
+
+  private paginate(items: any[], pageSize: number | undefined, startCursor: string | undefined, type: string): any {
+    const size = Math.min(Math.max(pageSize || MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    let start = 0;
+    if (startCursor) {
+      start = items.findIndex(item => item.id === this.normalizeId(startCursor));
+      if (start === -1) {
+        throw new FakeNotionError(400, 'validation_error', `start_cursor ${startCursor} is not valid.`);
+      }
+    }
+
+    const results = items.slice(start, start + size);
+    const next = items[start + size];
+    return {
+      object: 'list',
+      results,
+      next_cursor: next ? next.id : null,
+      has_more: !!next,
+      type,
+      [type]: {}
+    };
+  }
+
+  private buildRichText(items: any[]): any[] {
+    return items.map(item => {
+      const annotations = { ...DEFAULT_ANNOTATIONS, ...(item.annotations || {}) };
+      if (item.type === 'mention' || item.mention) {
+        return { type: 'mention', mention: item.mention, annotations, plain_text: item.plain_text || '', href: item.href || null };
+      }
+      if (item.type === 'equation' || item.equation) {
+        return { type: 'equation', equation: item.equation, annotations, plain_text: item.equation.expression, href: null };
+      }
+      const text = item.text || { content: item.plain_text || '' };
+      const link = text.link || null;
+      return {
+        type: 'text',
+        text: { content: text.content || '', link },
+        annotations,
+        plain_text: text.content || '',
+        href: link ? link.url : null
+      };
+    });
+  }
+
+  private plainText(richText: any[]): string {
+    return richText.map(item => item.plain_text).join('');
+  }
+
+  /**
+   * Accept IDs with or without dashes, like the Notion API
+   */
+  private normalizeId(id: string): string {
+    const compact = id.replace(/-/g, '');
+    if (!/^[0-9a-f]{32}$/i.test(compact)) return id;
+    return `${compact.slice(0, 8)}-${compact.slice(8, 12)}-${compact.slice(12, 16)}-${compact.slice(16, 20)}-${compact.slice(20)}`.toLowerCase();
+  }
+
+  private buildUrl(id: string): string {
+    return `https://www.notion.so/${id.replace(/-/g, '')}`;
+  }
+
+  private shortId(): string {
+    return (++this.sequence).toString(36).padStart(4, '0');
+  }
+
+  /**
+   * Sequential UUID-shaped IDs so recorded fixtures stay stable between runs
+   */
+  private nextId(): string {
+    let id: string;
+    do {
+      id = `00000000-0000-4000-8000-${(++this.sequence).toString(16).padStart(12, '0')}`;
+    } while (this.pages.has(id) || this.blocks.has(id) || this.databases.has(id));
+    return id;
+  }
+
+  /**
+   * Deterministic, strictly increasing timestamps so fixtures and sorts are stable
+   */
+  private tick(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+}
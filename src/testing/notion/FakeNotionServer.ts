@@ -0,0 +1,29 @@
+/**
+ * FakeNotionServer - Serve a fetch-style handler (fake API, recorder or replayer) over HTTP
+ *
+ * Lets the MCP server itself run against the fake through `providers.available.notion.config.baseUrl`.
+ */
+
+import { FakeApiServer, FakeFetchHandler } from '../FakeApiServer.js';
+
+export type NotionFetchHandler = FakeFetchHandler;
+
+// Only the headers the Notion API reads are passed on, so recordings proxy cleanly to api.notion.com
+const NOTION_HEADERS = ['authorization', 'notion-version', 'content-type'];
+
+export class FakeNotionServer extends FakeApiServer {
+  /**
+   * @param handler - Handler receiving requests; `upstreamUrl` is prefixed to paths (used when recording)
+   */
+  constructor(handler: NotionFetchHandler, upstreamUrl: string = 'http://fake-notion.local') {
+    super(handler, upstreamUrl);
+  }
+
+  protected forwardsHeader(name: string): boolean {
+    return NOTION_HEADERS.includes(name);
+  }
+
+  protected errorBody(error: unknown): any {
+    return { object: 'error', status: 500, code: 'internal_server_error', message: String(error) };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * NotionRecorder / NotionReplayer - Record Notion API traffic into a fixture file and replay it offline
+ *
+ * Both expose an SDK-compatible `fetch`. Record once against a real workspace (or the fake API),
+ * commit the recording, then replay it in tests without network access. Credentials are never stored.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { FakeFetchResponse } from './FakeNotionApi.js';
+
+export interface NotionInteraction {
+  method: string;
+  path: string;
+  query?: Record<string, string>;
+  body?: any;
+  status: number;
+  response: any;
+}
+
+export interface NotionRecording {
+  recordedAt: string;
+  interactions: NotionInteraction[];
+}
+
+type UpstreamFetch = (url: string, init?: { method?: string; body?: string; headers?: Record<string, string> }) => Promise<{
+  status: number;
+  text: () => Promise<string>;
+}>;
+
+function toResponse(status: number, body: any): FakeFetchResponse {
+  const text = JSON.stringify(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { 'content-type': 'application/json' },
+    text: async () => text
+  };
+}
+
+function splitUrl(url: string): { path: string; query?: Record<string, string> } {
+  const parsed = new URL(url, 'http://fake-notion.local');
+  const query = Object.fromEntries(parsed.searchParams);
+  return { path: parsed.pathname, query: Object.keys(query).length > 0 ? query : undefined };
+}
+
+export class NotionRecorder {
+  private interactions: NotionInteraction[] = [];
+
+  constructor(private upstream: UpstreamFetch = (url, init) => fetch(url, init)) {}
+
+  fetch = async (url: string, init: { method?: string; body?: string; headers?: Record<string, string> } = {}): Promise<FakeFetchResponse> => {
+    const response = await this.upstream(url, init);
+    const text = await response.text();
+    const { path, query } = splitUrl(url);
+
+    let parsed: any = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      // Keep non-JSON bodies (gateway errors) as plain text
+    }
+
+    this.interactions.push({
+      method: (init.method || 'GET').toUpperCase(),
+      path,
+      query,
+      body: init.body ? JSON.parse(init.body) : undefined,
+      status: response.status,
+      response: parsed
+    });
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      headers: { 'content-type': 'application/json' },
+      text: async () => text
+    };
+  };
+
+  getRecording(): NotionRecording {
+    return { recordedAt: new Date().toISOString(), interactions: [...this.interactions] };
+  }
+
+  save(path: string): void {
+    writeFileSync(path, JSON.stringify(this.getRecording(), null, 2) + '\n', 'utf-8');
+  }
+}
+
+export class NotionReplayer {
+  private consumed: Set<number> = new Set();
+
+  /**
+   * In strict mode request bodies must match the recording too; otherwise method + path + query suffice
+   */
+  constructor(private recording: NotionRecording, private options: { strict?: boolean } = {}) {}
+
+  static fromFile(path: string, options: { strict?: boolean } = {}): NotionReplayer {
+    return new NotionReplayer(JSON.parse(readFileSync(path, 'utf-8')), options);
+  }
+
+  fetch = async (url: string, init: { method?: string; body?: string } = {}): Promise<FakeFetchResponse> => {
+    const method = (init.method || 'GET').toUpperCase();
+    const { path, query } = splitUrl(url);
+    const body = init.body ? JSON.parse(init.body) : undefined;
+
+    const index = this.recording.interactions.findIndex((interaction, position) =>
+      !this.consumed.has(position)
+      && interaction.method === method
+      && interaction.path === path
+      && JSON.stringify(interaction.query || {}) === JSON.stringify(query || {})
+      && (!this.options.strict || JSON.stringify(interaction.body) === JSON.stringify(body))
+    );
+
+    if (index === -1) {
+      return toResponse(501, {
+        object: 'error',
+        status: 501,
+        code: 'replay_miss',
+        message: `No recorded interaction left for ${method} ${path}${init.body && this.options.strict ? ` with body ${init.body}` : ''}`
+      });
+    }
+
+    this.consumed.add(index);
+    const interaction = this.recording.interactions[index] as NotionInteraction;
+    return toResponse(interaction.status, interaction.response);
+  };
+
+  getUnusedInteractions(): NotionInteraction[] {
+    return this.recording.interactions.filter((interaction, position) => !this.consumed.has(position));
+  }
+}
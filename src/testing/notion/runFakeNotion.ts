@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+
+/**
+ * Fake Notion CLI - Serve the fake Notion API, record real traffic or replay a recording over HTTP
+ *
+ * Usage: vc4pm-fake-notion [--port <n>] [--fixture <state.json>] [--save <state.json>]
+ *        vc4pm-fake-notion --record <recording.json> [--port <n>]
+ *        vc4pm-fake-notion --replay <recording.json> [--strict] [--port <n>]
+ * Point `providers.available.notion.config.baseUrl` at the printed URL.
+ */
+
+import { existsSync } from 'fs';
+import { FakeNotionApi } from './FakeNotionApi.js';
+import { FakeNotionServer } from './FakeNotionServer.js';
+import { NotionRecorder, NotionReplayer } from './NotionRecorder.js';
+
+const NOTION_API_URL = 'https://api.notion.com';
+
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const flags: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] || '';
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      flags[arg.slice(2)] = next;
+      i++;
+    } else {
+      flags[arg.slice(2)] = true;
+    }
+  }
+  return flags;
+}
+
+async function main() {
+  const flags = parseArgs(process.argv.slice(2));
+  const port = flags.port ? parseInt(flags.port as string, 10) : 4010;
+  let server: FakeNotionServer;
+  let onExit: () => void = () => {};
+
+  if (typeof flags.record === 'string') {
+    const recorder = new NotionRecorder();
+    const recordingPath = flags.record;
+    server = new FakeNotionServer(recorder.fetch, NOTION_API_URL);
+    onExit = () => {
+      recorder.save(recordingPath);
+      console.error(`💾 Saved ${recorder.getRecording().interactions.length} interactions to ${recordingPath}`);
+    };
+    console.error(`🔴 Recording Notion traffic to ${recordingPath}`);
+  } else if (typeof flags.replay === 'string') {
+    const replayer = NotionReplayer.fromFile(flags.replay, { strict: flags.strict === true });
+    server = new FakeNotionServer(replayer.fetch);
+    onExit = () => {
+      const unused = replayer.getUnusedInteractions().length;
+      if (unused > 0) console.error(`⚠️  ${unused} recorded interactions were not replayed`);
+    };
+    console.error(`▶️  Replaying ${flags.replay}`);
+  } else {
+    const fixturePath = typeof flags.fixture === 'string' ? flags.fixture : undefined;
+    const api = fixturePath && existsSync(fixturePath) ? FakeNotionApi.fromFixtureFile(fixturePath) : new FakeNotionApi();
+    if (api.getDatabaseIds().length === 0) {
+      api.createTaskDatabase();
+    }
+    const savePath = typeof flags.save === 'string' ? flags.save : undefined;
+    server = new FakeNotionServer(api.fetch);
+    onExit = () => {
+      if (savePath) {
+        api.saveFixture(savePath);
+        console.error(`💾 Saved fake Notion state to ${savePath}`);
+      }
+    };
+    console.error(`🧪 Fake Notion databases: ${api.getDatabaseIds().join(', ')}`);
+  }
+
+  const url = await server.start(port);
+  console.error(`✅ Fake Notion API listening on ${url}`);
+
+  const shutdown = async () => {
+    onExit();
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error(`❌ Fake Notion failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
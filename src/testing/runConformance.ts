@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Conformance CLI - Run the provider conformance suite against a configured provider
+ *
+ * Usage: vc4pm-conformance [provider] [--fake] [--scenarios] [--type <taskType>] [--status <label>] [--only <text>]
+ *                          [--missing-id <id>] [--append-elsewhere] [--no-nested]
+ * Without a provider name the in-memory reference provider is used. Real providers get real tasks created;
+ * with --fake a built-in provider runs against its in-memory fake API instead, without any account.
+ * --scenarios runs the workflow scenarios (todo matching, gates, migration) instead of the conformance cases.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
+import { ProvidersConfig } from '../models/Provider.js';
+import { WorkflowConfig } from '../models/Workflow.js';
+import { TaskProvider } from '../interfaces/TaskProvider.js';
+import { ProviderFactory } from '../providers/ProviderFactory.js';
+import { ProviderPluginLoader } from '../providers/ProviderPluginLoader.js';
+import { InMemoryProvider } from './InMemoryProvider.js';
+import { FakeApiServer } from './FakeApiServer.js';
+import { createFakeBackend } from './FakeBackends.js';
+import { ProviderConformanceSuite, ConformanceOptions, ConformanceReport } from './ProviderConformanceSuite.js';
+import { WorkflowScenarioSuite } from './WorkflowScenarioSuite.js';
+import { resolveWorkflow } from '../services/shared/WorkflowStates.js';
+
+interface ProjectConfig {
+  workflow: WorkflowConfig;
+  providers: ProvidersConfig;
+}
+
+const DEFAULT_WORKFLOW: WorkflowConfig = {
+  statusMapping: { notStarted: 'Not Started', inProgress: 'In Progress', test: 'Test', done: 'Done' },
+  transitions: {},
+  taskTypes: ['Feature', 'Bug', 'Refactoring'],
+  defaultStatus: 'notStarted',
+  requiresValidation: false
+};
+
+function loadProjectConfig(): ProjectConfig | null {
+  const configPath = resolve(process.env.PROJECT_ROOT || process.cwd(), '.vc4pm', 'config.json');
+  if (!existsSync(configPath)) return null;
+  return JSON.parse(readFileSync(configPath, 'utf-8'));
+}
+
+function parseArgs(argv: string[]): { provider?: string; flags: Record<string, string | boolean> } {
+  const flags: Record<string, string | boolean> = {};
+  let provider: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] || '';
+    if (arg === '--append-elsewhere' || arg === '--no-nested' || arg === '--fake' || arg === '--scenarios') {
+      flags[arg.slice(2)] = true;
+    } else if (arg.startsWith('--')) {
+      flags[arg.slice(2)] = argv[++i] || '';
+    } else {
+      provider = arg;
+    }
+  }
+  return { provider, flags };
+}
+
+async function main() {
+  const { provider: providerName, flags } = parseArgs(process.argv.slice(2));
+  const projectConfig = loadProjectConfig();
+  const workflow = resolveWorkflow(projectConfig?.workflow || DEFAULT_WORKFLOW);
+
+  let provider: TaskProvider;
+  let fakeServer: FakeApiServer | undefined;
+  if (!providerName || providerName === 'memory') {
+    provider = new InMemoryProvider(workflow);
+  } else if (flags.fake) {
+    const backend = createFakeBackend(providerName, workflow);
+    fakeServer = new FakeApiServer(backend.handler);
+    const url = await fakeServer.start();
+    provider = ProviderFactory.createProvider(providerName, { name: providerName, type: 'core', enabled: true, config: backend.config(url) }, {}, workflow);
+  } else {
+    const providerConfig = projectConfig?.providers.available[providerName];
+    if (!providerConfig) {
+      throw new Error(`Provider '${providerName}' not found in .vc4pm/config.json`);
+    }
+    if (providerConfig.module) {
+      await ProviderPluginLoader.preload(providerName, providerConfig.module);
+    }
+    provider = ProviderFactory.createProvider(providerName, { ...providerConfig, enabled: true }, { ...process.env }, workflow);
+  }
+
+  for (const warning of (await provider.validateConfiguration?.()) || []) {
+    console.warn(`⚠️  ${warning}`);
+  }
+
+  const options: ConformanceOptions = {
+    taskType: (flags.type as string) || workflow.taskTypes[0] || 'Feature',
+    statusLabel: (flags.status as string) || workflow.statusMapping.inProgress
+      || Object.values(workflow.states || {}).find(state => state.role === 'active')?.label || 'In Progress',
+    missingTaskId: flags['missing-id'] as string | undefined,
+    appendVisibleInContent: !flags['append-elsewhere'],
+    supportsNestedTodos: !flags['no-nested'],
+    only: flags.only ? [flags.only as string] : undefined
+  };
+
+  const report: ConformanceReport = flags.scenarios
+    ? await new WorkflowScenarioSuite(provider, workflow, options).run()
+    : await new ProviderConformanceSuite(provider, options).run();
+  await fakeServer?.stop();
+  console.log(ProviderConformanceSuite.formatReport(report));
+  process.exit(report.failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(`❌ Conformance run failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
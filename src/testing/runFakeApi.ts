@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+/**
+ * Fake API CLI - Serve the in-memory fake API of a built-in provider over HTTP
+ *
+ * Usage: vc4pm-fake-api <provider> [--port <n>]
+ * Prints the provider config pointing at the fake, to paste into .vc4pm/config.json.
+ * Fixtures, recording and replay of Notion traffic are handled by vc4pm-fake-notion.
+ */
+
+import { FakeApiServer } from './FakeApiServer.js';
+import { createFakeBackend, getFakeBackendNames } from './FakeBackends.js';
+
+function parseArgs(argv: string[]): { provider?: string; port: number } {
+  let provider: string | undefined;
+  let port = 4020;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] || '';
+    if (arg === '--port') {
+      port = parseInt(argv[++i] || '', 10);
+    } else if (!arg.startsWith('--')) {
+      provider = arg;
+    }
+  }
+  return { provider, port };
+}
+
+async function main() {
+  const { provider, port } = parseArgs(process.argv.slice(2));
+  if (!provider) {
+    throw new Error(`Usage: vc4pm-fake-api <${getFakeBackendNames().join('|')}> [--port <n>]`);
+  }
+
+  const backend = createFakeBackend(provider);
+  const server = new FakeApiServer(backend.handler);
+  const url = await server.start(port);
+  console.error(`✅ Fake ${provider} API listening on ${url}`);
+  console.error(`   providers.available.${provider}.config: ${JSON.stringify(backend.config(url))}`);
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error(`❌ Fake API failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
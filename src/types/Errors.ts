@@ -10,22 +10,31 @@ export class TaskProviderError extends Error {
 }
 
 export class ValidationError extends TaskProviderError {
-  constructor(message: string, public field?: string) {
-    super(message);
+  constructor(message: string, public field?: string, statusCode?: number, originalError?: Error) {
+    super(message, statusCode, originalError);
     this.name = 'ValidationError';
   }
 }
 
+// A status change refused by workflow gates; failures lists one reason per failed check
+export class TransitionGateError extends ValidationError {
+  constructor(message: string, public failures: string[] = []) {
+    super(message, 'status');
+    this.name = 'TransitionGateError';
+  }
+}
+
 export class NetworkError extends TaskProviderError {
-  constructor(message: string, public retryable: boolean = true) {
-    super(message);
+  constructor(message: string, public retryable: boolean = true, statusCode?: number, originalError?: Error) {
+    super(message, statusCode, originalError);
     this.name = 'NetworkError';
   }
 }
 
 export class RateLimitError extends TaskProviderError {
-  constructor(message: string, public retryAfter?: number) {
-    super(message);
+  // retryAfter is in seconds
+  constructor(message: string, public retryAfter?: number, statusCode: number = 429, originalError?: Error) {
+    super(message, statusCode, originalError);
     this.name = 'RateLimitError';
   }
-}
\ No newline at end of file
+}